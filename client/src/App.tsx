@@ -3,11 +3,21 @@ import { QueryClientProvider } from '@tanstack/react-query';
 import { Suspense, useEffect } from 'react';
 import { queryClient } from './lib/queryClient';
 import { Toaster } from 'sonner';
+import { AuthProvider } from './context/AuthContext';
 import { SocketProvider } from './context/SocketContext';
 import { GameProvider } from './context/GameContext';
 import Game from './pages/Game';
 import LobbyPage from './pages/LobbyPage';
+import AuthPage from './pages/AuthPage';
+import Replay from './pages/Replay';
+import JoinRoom from './pages/JoinRoom';
+import Profile from './pages/Profile';
+import MatchHistory from './pages/MatchHistory';
+import Leaderboard from './pages/Leaderboard';
+import Tournaments from './pages/Tournaments';
+import TournamentPage from './pages/TournamentPage';
 import NotFound from './pages/not-found';
+import RequireAuth from './components/RequireAuth';
 import { useAudio } from './lib/stores/useAudio';
 import { HelmetProvider } from 'react-helmet-async';
 
@@ -45,20 +55,31 @@ function App() {
   return (
     <HelmetProvider>
       <QueryClientProvider client={queryClient}>
-        <SocketProvider>
-          <GameProvider>
-            <Router>
-              <Suspense fallback={<div className="w-full h-screen flex items-center justify-center">Loading...</div>}>
-                <Routes>
-                  <Route path="/" element={<LobbyPage />} />
-                  <Route path="/game/:gameId" element={<Game />} />
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </Suspense>
-            </Router>
-            <Toaster position="top-right" />
-          </GameProvider>
-        </SocketProvider>
+        <AuthProvider>
+          <SocketProvider>
+            <GameProvider>
+              <Router>
+                <Suspense fallback={<div className="w-full h-screen flex items-center justify-center">Loading...</div>}>
+                  <Routes>
+                    <Route path="/auth" element={<AuthPage />} />
+                    <Route path="/" element={<RequireAuth><LobbyPage /></RequireAuth>} />
+                    <Route path="/game/:gameId" element={<RequireAuth><Game /></RequireAuth>} />
+                    <Route path="/game/:gameId/watch" element={<RequireAuth><Game spectate /></RequireAuth>} />
+                    <Route path="/replay/:gameId" element={<RequireAuth><Replay /></RequireAuth>} />
+                    <Route path="/join/:code" element={<RequireAuth><JoinRoom /></RequireAuth>} />
+                    <Route path="/players/:username" element={<RequireAuth><Profile /></RequireAuth>} />
+                    <Route path="/players/:username/history" element={<RequireAuth><MatchHistory /></RequireAuth>} />
+                    <Route path="/leaderboard" element={<RequireAuth><Leaderboard /></RequireAuth>} />
+                    <Route path="/tournaments" element={<RequireAuth><Tournaments /></RequireAuth>} />
+                    <Route path="/tournaments/:tournamentId" element={<RequireAuth><TournamentPage /></RequireAuth>} />
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </Suspense>
+              </Router>
+              <Toaster position="top-right" />
+            </GameProvider>
+          </SocketProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </HelmetProvider>
   );
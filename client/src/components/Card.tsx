@@ -133,4 +133,41 @@ const Card: React.FC<CardProps> = ({
   );
 };
 
+interface CardBackProps {
+  size?: 'sm' | 'md' | 'lg';
+  onClick?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Face-down card, used when the card's face is unknown to the player
+export const CardBack: React.FC<CardBackProps> = ({
+  size = 'md',
+  onClick,
+  disabled = false,
+  className
+}) => {
+  const sizeClasses = {
+    sm: 'w-16 h-24',
+    md: 'w-24 h-36',
+    lg: 'w-32 h-48'
+  };
+
+  return (
+    <div
+      className={cn(
+        sizeClasses[size],
+        'relative bg-green-700 rounded-lg shadow-md border-4 border-white cursor-pointer transition-transform duration-200',
+        disabled ? 'opacity-70 cursor-not-allowed' : 'hover:shadow-xl',
+        className
+      )}
+      onClick={disabled ? undefined : onClick}
+    >
+      <div className="absolute inset-0 flex items-center justify-center">
+        <span className="font-bold text-white opacity-50 text-2xl">DM</span>
+      </div>
+    </div>
+  );
+};
+
 export default Card;
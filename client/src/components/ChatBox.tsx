@@ -16,11 +16,15 @@ interface ChatBoxProps {
 
 const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
   const [message, setMessage] = useState('');
-  const [activeTab, setActiveTab] = useState<'all' | 'team'>('all');
+  const [activeTab, setActiveTab] = useState<'all' | 'team' | 'spectators'>('all');
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const { gameState } = useGame();
-  const { socket } = useSocket();
+  const { socket, playerId } = useSocket();
+  
+  // Spectators read the players' chat and talk among themselves
+  const isSpectator = Boolean(gameState?.spectators.some(s => s.id === playerId));
+  const canSend = !isSpectator || activeTab === 'spectators';
   
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -31,7 +35,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
 
   // Send chat message
   const sendMessage = () => {
-    if (!message.trim() || !socket || !gameState) return;
+    if (!message.trim() || !socket || !gameState || !canSend) return;
     
     socket.emit(ActionType.SEND_CHAT, {
       gameId: gameState.id,
@@ -56,15 +60,22 @@ const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
 
   // Filter messages by tab
   const filteredMessages = messages.filter(msg => {
-    if (activeTab === 'all') return !msg.isTeamOnly;
+    if (activeTab === 'spectators') return msg.isSpectatorOnly;
+    if (activeTab === 'all') return !msg.isTeamOnly && !msg.isSpectatorOnly;
     
     // For team tab, only show team messages if player is in a team
     const player = gameState?.players.find(p => p.id === msg.sender);
-    const currentPlayer = gameState?.players.find(p => p.id === socket?.id);
+    const currentPlayer = gameState?.players.find(p => p.id === playerId);
     
     return msg.isTeamOnly && player && currentPlayer && player.team === currentPlayer.team;
   });
 
+  // Name of the sender, who may be a spectator
+  const getSenderName = (senderId: string) =>
+    gameState?.players.find(p => p.id === senderId)?.username ||
+    gameState?.spectators.find(s => s.id === senderId)?.username ||
+    'Unknown';
+
   // Format timestamp
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -84,13 +95,23 @@ const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
             >
               Todos
             </TabsTrigger>
-            <TabsTrigger 
-              value="team" 
-              onClick={() => setActiveTab('team')}
-              className="px-2 py-1 text-xs"
-            >
-              Time
-            </TabsTrigger>
+            {isSpectator ? (
+              <TabsTrigger 
+                value="spectators" 
+                onClick={() => setActiveTab('spectators')}
+                className="px-2 py-1 text-xs"
+              >
+                Espectadores
+              </TabsTrigger>
+            ) : (
+              <TabsTrigger 
+                value="team" 
+                onClick={() => setActiveTab('team')}
+                className="px-2 py-1 text-xs"
+              >
+                Time
+              </TabsTrigger>
+            )}
           </TabsList>
         </div>
         
@@ -101,7 +122,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
             ) : (
               filteredMessages.map((msg) => {
                 const player = gameState?.players.find(p => p.id === msg.sender);
-                const isCurrentPlayer = socket?.id === msg.sender;
+                const isCurrentPlayer = playerId === msg.sender;
                 
                 // Determine team color
                 const teamColor = player?.team === 'A' ? 'blue' : player?.team === 'B' ? 'red' : 'gray';
@@ -116,7 +137,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
                   >
                     <div className="flex justify-between items-center mb-1">
                       <span className={`text-xs font-bold text-${teamColor}-600`}>
-                        {player?.username || 'Unknown'}
+                        {getSenderName(msg.sender)}
                       </span>
                       <span className="text-xs text-gray-500">{formatTime(msg.timestamp)}</span>
                     </div>
@@ -134,8 +155,37 @@ const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
               <div className="text-gray-400 text-center py-4">Nenhuma mensagem de time ainda</div>
             ) : (
               filteredMessages.map((msg) => {
-                const player = gameState?.players.find(p => p.id === msg.sender);
-                const isCurrentPlayer = socket?.id === msg.sender;
+                const isCurrentPlayer = playerId === msg.sender;
+                
+                return (
+                  <div 
+                    key={msg.id} 
+                    className={cn(
+                      "mb-2 p-2 rounded-lg max-w-[85%]",
+                      isCurrentPlayer ? "ml-auto bg-blue-100" : "bg-gray-100"
+                    )}
+                  >
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-xs font-bold">
+                        {getSenderName(msg.sender)}
+                      </span>
+                      <span className="text-xs text-gray-500">{formatTime(msg.timestamp)}</span>
+                    </div>
+                    <p className="text-sm break-words">{msg.content}</p>
+                  </div>
+                );
+              })
+            )}
+          </ScrollArea>
+        </TabsContent>
+        
+        <TabsContent value="spectators" className="flex-1 overflow-hidden">
+          <ScrollArea className="h-full p-3" ref={scrollAreaRef}>
+            {filteredMessages.length === 0 ? (
+              <div className="text-gray-400 text-center py-4">Nenhuma mensagem de espectadores ainda</div>
+            ) : (
+              filteredMessages.map((msg) => {
+                const isCurrentPlayer = playerId === msg.sender;
                 
                 return (
                   <div 
@@ -147,7 +197,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
                   >
                     <div className="flex justify-between items-center mb-1">
                       <span className="text-xs font-bold">
-                        {player?.username || 'Unknown'}
+                        {getSenderName(msg.sender)}
                       </span>
                       <span className="text-xs text-gray-500">{formatTime(msg.timestamp)}</span>
                     </div>
@@ -166,10 +216,16 @@ const ChatBox: React.FC<ChatBoxProps> = ({ messages, className }) => {
           value={message}
           onChange={(e) => setMessage(e.target.value)}
           onKeyDown={handleKeyPress}
-          placeholder={activeTab === 'team' ? "Mensagem para o time..." : "Mensagem para todos..."}
+          placeholder={
+            !canSend ? "Espectadores só conversam na aba Espectadores" :
+            activeTab === 'team' ? "Mensagem para o time..." : 
+            activeTab === 'spectators' ? "Mensagem para os espectadores..." : 
+            "Mensagem para todos..."
+          }
+          disabled={!canSend}
           className="mr-2"
         />
-        <Button onClick={sendMessage} size="sm">Enviar</Button>
+        <Button onClick={sendMessage} size="sm" disabled={!canSend}>Enviar</Button>
       </div>
     </div>
   );
@@ -0,0 +1,163 @@
+import { Button } from './ui/button';
+import { useGame } from '@/context/GameContext';
+import { useSocket } from '@/context/SocketContext';
+import { ActionType, EnvidoCall } from '@shared/types';
+import { cn } from '@/lib/utils';
+import { useAudio } from '@/lib/stores/useAudio';
+import { canCallEnvido, getEnvidoRespondingTeam } from '@/utils/envidoUtils';
+import { getRuleSet } from '@shared/ruleSets';
+
+interface EnvidoControlsProps {
+  className?: string;
+}
+
+// Display names for each envido/flor call
+const CALL_NAMES: Record<EnvidoCall, string> = {
+  [EnvidoCall.ENVIDO]: 'Envido',
+  [EnvidoCall.REAL_ENVIDO]: 'Real envido',
+  [EnvidoCall.FALTA_ENVIDO]: 'Falta envido',
+  [EnvidoCall.FLOR]: 'Flor',
+  [EnvidoCall.CONTRAFLOR]: 'Contraflor'
+};
+
+const EnvidoControls: React.FC<EnvidoControlsProps> = ({ className }) => {
+  const { gameState, sendAction } = useGame();
+  const { socket, playerId } = useSocket();
+  const { playSuccess, playHit } = useAudio();
+
+  if (!gameState || !socket || !playerId || !getRuleSet(gameState.ruleVariant).hasEnvido) return null;
+
+  const currentPlayer = gameState.players.find(p => p.id === playerId);
+  const envido = gameState.envido;
+
+  // The player's own hand is part of their view, so the same checks as the server apply
+  const availableCalls = Object.values(EnvidoCall).filter(call =>
+    canCallEnvido(gameState, playerId, call)
+  );
+
+  // Handle an envido/flor call
+  const handleCall = (call: EnvidoCall) => {
+    sendAction(ActionType.CALL_ENVIDO, { call });
+    playSuccess();
+  };
+
+  // Handle the answer to a pending call
+  const handleAnswer = (accept: boolean) => {
+    sendAction(accept ? ActionType.ACCEPT_ENVIDO : ActionType.DECLINE_ENVIDO);
+
+    if (accept) {
+      playSuccess();
+    } else {
+      playHit();
+    }
+  };
+
+  // Handle the declaration of points
+  const handleDeclare = (sonBuenas: boolean) => {
+    sendAction(ActionType.DECLARE_ENVIDO, { sonBuenas });
+    playHit();
+  };
+
+  const getPlayerName = (id: string) =>
+    gameState.players.find(p => p.id === id)?.username || 'Unknown';
+
+  // Resolved bet: show the result
+  if (envido?.resolved) {
+    return (
+      <div className={cn("text-xs text-center text-yellow-300", className)}>
+        {envido.winner
+          ? `${CALL_NAMES[envido.calls[envido.calls.length - 1]]}: Time ${envido.winner} ganhou ${envido.points} ponto(s)`
+          : 'Envido sem vencedor'}
+      </div>
+    );
+  }
+
+  // Pending call
+  if (envido?.pending) {
+    const lastCall = envido.calls[envido.calls.length - 1];
+    const isResponding = currentPlayer?.team === getEnvidoRespondingTeam(gameState);
+
+    return (
+      <div className={cn("flex flex-col items-center gap-2", className)}>
+        <div className="text-center text-sm animate-pulse text-yellow-500 font-bold">
+          {`${getPlayerName(envido.calledBy)} pediu ${CALL_NAMES[lastCall]}!`}
+        </div>
+        {isResponding && (
+          <div className="flex flex-wrap gap-2 justify-center">
+            <Button size="sm" variant="destructive" onClick={() => handleAnswer(false)}>
+              Não quero
+            </Button>
+            <Button size="sm" variant="default" onClick={() => handleAnswer(true)}>
+              Quero
+            </Button>
+            {availableCalls.map(call => (
+              <Button
+                key={call}
+                size="sm"
+                variant="outline"
+                onClick={() => handleCall(call)}
+              >
+                {CALL_NAMES[call]}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Declaring points
+  if (envido && envido.declaringPlayer) {
+    const isDeclaring = envido.declaringPlayer === playerId;
+    const opponentDeclared = envido.declarations.some(d => {
+      const declarer = gameState.players.find(p => p.id === d.playerId);
+      return d.points !== null && declarer?.team !== currentPlayer?.team;
+    });
+
+    return (
+      <div className={cn("flex flex-col items-center gap-2", className)}>
+        {envido.declarations.map(d => (
+          <div key={d.playerId} className="text-xs">
+            {getPlayerName(d.playerId)}: {d.points === null ? 'São boas' : `${d.points} pontos`}
+          </div>
+        ))}
+        {isDeclaring ? (
+          <div className="flex gap-2">
+            <Button size="sm" variant="default" onClick={() => handleDeclare(false)}>
+              Cantar pontos
+            </Button>
+            {opponentDeclared && (
+              <Button size="sm" variant="outline" onClick={() => handleDeclare(true)}>
+                São boas
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="text-xs animate-pulse">
+            Aguardando {getPlayerName(envido.declaringPlayer)} cantar os pontos...
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // No bet yet: offer the calls that are allowed right now
+  if (availableCalls.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-2 justify-center", className)}>
+      {availableCalls.map(call => (
+        <Button
+          key={call}
+          size="sm"
+          variant="outline"
+          onClick={() => handleCall(call)}
+        >
+          {CALL_NAMES[call]}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default EnvidoControls;
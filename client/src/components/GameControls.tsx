@@ -1,61 +1,80 @@
-import { useState } from 'react';
 import { Button } from './ui/button';
+import Card from './Card';
+import EnvidoControls from './EnvidoControls';
+import { BOT_DIFFICULTY_NAMES } from './Lobby';
 import { useGame } from '@/context/GameContext';
 import { useSocket } from '@/context/SocketContext';
-import { ActionType, RoundState } from '@shared/types';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ActionType, RoundState, GameMode, BotDifficulty } from '@shared/types';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { useAudio } from '@/lib/stores/useAudio';
+import { canPlayerRaise, getTrucoRespondingTeam, isEnvidoInProgress } from '@/utils/gameUtils';
+import { getCardDisplayName } from '@/utils/cardUtils';
+import { suggestCards, PlayerAnalysis } from '@shared/handAnalysis';
+import { verifyDeal } from '@shared/fairness';
+import { 
+  getNextRoundValue, 
+  getRoundValueName, 
+  getHandOfElevenValue, 
+  getInitialRoundValue 
+} from '@shared/gameRules';
 
 interface GameControlsProps {
   className?: string;
 }
 
 const GameControls: React.FC<GameControlsProps> = ({ className }) => {
-  const { gameState } = useGame();
-  const { socket } = useSocket();
+  const { gameState, dealtCards, sendAction } = useGame();
+  const { socket, playerId } = useSocket();
   const { playSuccess, playHit } = useAudio();
-  const [trucoRequested, setTrucoRequested] = useState(false);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>(BotDifficulty.MEDIUM);
+  const [analysis, setAnalysis] = useState<PlayerAnalysis[] | null>(null);
+  const navigate = useNavigate();
   
   // Check if player is ready
   const isPlayerReady = () => {
     if (!gameState || !socket) return false;
-    const currentPlayer = gameState.players.find(p => p.id === socket.id);
+    const currentPlayer = gameState.players.find(p => p.id === playerId);
     return currentPlayer?.isReady || false;
   };
   
+  // Check if the player runs the room (starts the game)
+  const isHost = () => {
+    if (!gameState) return false;
+    return Boolean(playerId) && gameState.hostId === playerId;
+  };
+  
   // Check if all players are ready
   const areAllPlayersReady = () => {
     if (!gameState) return false;
     return gameState.players.every(p => p.isReady);
   };
   
-  // Check if player can request truco
+  // Check if player can request truco (or counter-raise a pending request)
   const canRequestTruco = () => {
     if (!gameState || !socket) return false;
-    
-    // Must be in playing state
-    if (gameState.roundState !== RoundState.PLAYING) return false;
-    
-    // Can't request truco if it's already been requested
-    if (gameState.trucoRequested) return false;
-    
-    // Player must have cards
-    const currentPlayer = gameState.players.find(p => p.id === socket.id);
-    return currentPlayer && currentPlayer.hand.length > 0;
+    return canPlayerRaise(gameState, playerId ?? '');
   };
   
-  // Get next truco value 
+  // Get the label for the next raise
   const getNextTrucoValue = () => {
     if (!gameState) return 'Truco';
     
-    switch (gameState.roundValue) {
-      case 1: return 'Truco (3)';
-      case 3: return 'Seis (6)';
-      case 6: return 'Nove (9)';
-      case 9: return 'Doze (12)';
-      default: return 'Truco';
-    }
+    const baseValue = gameState.trucoRequested && gameState.trucoRequestedValue
+      ? gameState.trucoRequestedValue
+      : gameState.roundValue;
+    const nextValue = getNextRoundValue(baseValue, gameState.ruleVariant);
+    
+    return `${getRoundValueName(nextValue, gameState.ruleVariant)} (${nextValue})`;
+  };
+  
+  // Get the label for the pending request
+  const getRequestedTrucoValue = () => {
+    if (!gameState?.trucoRequestedValue) return 'Truco';
+    const value = gameState.trucoRequestedValue;
+    return `${getRoundValueName(value, gameState.ruleVariant)} (${value})`;
   };
   
   // Get current truco value for display
@@ -79,25 +98,101 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
   const handleStartGame = () => {
     if (!socket || !gameState) return;
     
-    socket.emit(ActionType.START_GAME, {
-      gameId: gameState.id
-    });
+    sendAction(ActionType.START_GAME);
+    
+    playSuccess();
+  };
+  
+  // Handle the host starting right away, with bots in the empty seats
+  const handleForceStart = () => {
+    if (!socket || !gameState) return;
+    
+    sendAction(ActionType.FORCE_START, { botDifficulty });
     
     playSuccess();
   };
   
+  // Handle adding bots to the empty seats (practice puts the humans on the same team)
+  const handleAddBot = (fill: boolean, practice = false) => {
+    if (!socket || !gameState) return;
+    
+    if (fill) {
+      sendAction(ActionType.FILL_WITH_BOTS, { difficulty: botDifficulty, practice });
+    } else {
+      sendAction(ActionType.ADD_BOT, { difficulty: botDifficulty });
+    }
+    
+    playHit();
+  };
+  
+  // Check if the player can ask for a hint (their turn, no bet waiting)
+  const canAskHint = () => {
+    if (!gameState || !socket) return false;
+    return gameState.roundState === RoundState.PLAYING &&
+      gameState.currentPlayer === playerId &&
+      !gameState.trucoRequested &&
+      !isEnvidoInProgress(gameState);
+  };
+  
+  // Handle hint: simulate the round with each card and suggest the best one
+  const handleHint = () => {
+    if (!socket || !gameState) return;
+    
+    const [best] = suggestCards(gameState, playerId ?? '', { samples: 500 });
+    if (!best) {
+      toast.info('Nenhuma dica disponível agora');
+      return;
+    }
+    
+    toast.info(`Dica: jogue ${getCardDisplayName(best.card)} (${Math.round(best.winProbability * 100)}% de chance de vencer a rodada)`);
+  };
+  
+  // Handle post-game analysis request
+  const handleAnalysis = () => {
+    if (!socket || !gameState) return;
+    
+    socket.emit(ActionType.GET_ANALYSIS, { gameId: gameState.id }, (result: PlayerAnalysis[]) => {
+      setAnalysis(result);
+    });
+  };
+  
+  // Check the revealed deck of the last round against the commitment received when it was dealt
+  const handleVerifyDeal = async () => {
+    const reveal = gameState?.dealReveal;
+    if (!gameState || !reveal) return;
+    
+    const observed = dealtCards?.commitment.roundNumber === reveal.roundNumber ? dealtCards : null;
+    const commitment = observed?.commitment ?? gameState.dealCommitment;
+    if (!commitment) return;
+    
+    const result = await verifyDeal(commitment, reveal, { ...observed, ruleVariant: gameState.ruleVariant });
+    if (result.ok) {
+      toast.success(observed?.hand 
+        ? 'Mão verificada: o baralho é o prometido e suas cartas vieram dele' 
+        : 'Mão verificada: o baralho é o prometido');
+    } else if (!result.hashMatches) {
+      toast.error('Falha na verificação: o baralho revelado não é o prometido');
+    } else if (!result.shuffleMatches) {
+      toast.error('Falha na verificação: o baralho não é o embaralhamento da semente');
+    } else if (result.seedMatches === false) {
+      toast.error('Falha na verificação: a semente não é a prometida antes da distribuição');
+    } else if (result.nonceIncluded === false) {
+      toast.error('Falha na verificação: seu número aleatório não foi usado no embaralhamento');
+    } else {
+      toast.error('Falha na verificação: suas cartas não vieram do baralho revelado');
+    }
+  };
+  
   // Handle truco request
   const handleTrucoRequest = () => {
     if (!socket || !gameState || !canRequestTruco()) return;
     
-    socket.emit(ActionType.REQUEST_TRUCO, {
-      gameId: gameState.id
+    const requestedValue = getNextTrucoValue();
+    sendAction(ActionType.REQUEST_TRUCO).then(ok => {
+      if (ok) toast.info(`Você pediu ${requestedValue}!`);
     });
     
-    setTrucoRequested(true);
     playSuccess();
-    
-    toast.info(`Você pediu ${getNextTrucoValue()}!`);
   };
   
   // Handle truco response (accept/decline)
@@ -105,19 +200,24 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
     if (!socket || !gameState) return;
     
     if (accept) {
-      socket.emit(ActionType.ACCEPT_TRUCO, {
-        gameId: gameState.id
-      });
+      sendAction(ActionType.ACCEPT_TRUCO);
+      playSuccess();
+    } else {
+      sendAction(ActionType.DECLINE_TRUCO);
+      playHit();
+    }
+  };
+  
+  // Handle mão de onze decision (play or fold)
+  const handleHandOfElevenDecision = (play: boolean) => {
+    if (!socket || !gameState) return;
+    
+    sendAction(play ? ActionType.PLAY_HAND_OF_ELEVEN : ActionType.FOLD_HAND_OF_ELEVEN);
+    
+    if (play) {
       playSuccess();
-      // Reset truco request state
-      setTrucoRequested(false);
     } else {
-      socket.emit(ActionType.DECLINE_TRUCO, {
-        gameId: gameState.id
-      });
       playHit();
-      // Reset truco request state
-      setTrucoRequested(false);
     }
   };
   
@@ -125,26 +225,30 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
   const renderTrucoRequest = () => {
     if (!gameState || !socket) return null;
     
-    // If this player has requested truco
-    if (trucoRequested) {
-      return (
-        <div className="text-center text-sm animate-pulse text-yellow-500 font-bold">
-          Aguardando resposta do truco...
-        </div>
-      );
-    }
-    
-    // If another player has requested truco
+    // If a bet is waiting for an answer
     if (gameState.trucoRequested && gameState.trucoRequestedBy) {
-      // Only show response options for players on the opposite team
       const requestingPlayer = gameState.players.find(p => p.id === gameState.trucoRequestedBy);
-      const currentPlayer = gameState.players.find(p => p.id === socket.id);
+      const currentPlayer = gameState.players.find(p => p.id === playerId);
       
-      if (requestingPlayer && currentPlayer && requestingPlayer.team !== currentPlayer.team) {
+      // The requesting team just waits for the answer (as does everyone while the envido is settled)
+      if (
+        !currentPlayer || 
+        currentPlayer.team !== getTrucoRespondingTeam(gameState) || 
+        isEnvidoInProgress(gameState)
+      ) {
+        return (
+          <div className="text-center text-sm animate-pulse text-yellow-500 font-bold">
+            Aguardando resposta do {getRequestedTrucoValue()}...
+          </div>
+        );
+      }
+      
+      // Only the opposing team can answer: accept, run or raise again
+      if (requestingPlayer) {
         return (
           <div className="flex flex-col items-center">
             <div className="text-center text-sm mb-2 animate-pulse text-yellow-500 font-bold">
-              {`${requestingPlayer.username} pediu ${getNextTrucoValue()}!`}
+              {`${requestingPlayer.username} pediu ${getRequestedTrucoValue()}!`}
             </div>
             <div className="flex gap-2">
               <Button 
@@ -161,6 +265,16 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
               >
                 Aceitar
               </Button>
+              {canRequestTruco() && (
+                <Button 
+                  size="sm" 
+                  variant="outline" 
+                  onClick={handleTrucoRequest}
+                  className="bg-yellow-400 hover:bg-yellow-500 text-black"
+                >
+                  {getNextTrucoValue()}
+                </Button>
+              )}
             </div>
           </div>
         );
@@ -183,6 +297,10 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
   
   // Render waiting state
   if (gameState?.roundState === RoundState.WAITING_FOR_PLAYERS) {
+    const maxPlayers = gameState.mode === GameMode.ONE_VS_ONE ? 2 : 4;
+    const isGameFull = gameState.players.length >= maxPlayers;
+    const bots = gameState.players.filter(p => p.isBot);
+    
     return (
       <div className={cn("flex flex-col gap-2 items-center", className)}>
         <Button 
@@ -193,7 +311,7 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
           {isPlayerReady() ? "Pronto" : "Estou Pronto"}
         </Button>
         
-        {areAllPlayersReady() && (
+        {isHost() && areAllPlayersReady() && (
           <Button 
             onClick={handleStartGame}
             variant="default"
@@ -201,6 +319,59 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
             Iniciar Partida
           </Button>
         )}
+        {!isHost() && areAllPlayersReady() && isGameFull && (
+          <div className="text-sm text-center">Aguardando o anfitrião iniciar...</div>
+        )}
+        
+        {/* Bots for the empty seats (ranked games and tournament matches are only between players) */}
+        {!isGameFull && !gameState.ranked && !gameState.tournament && (
+          <div className="flex flex-col items-center gap-2 mt-2">
+            <div className="flex gap-1">
+              {Object.values(BotDifficulty).map(difficulty => (
+                <Button
+                  key={difficulty}
+                  size="sm"
+                  variant={botDifficulty === difficulty ? "default" : "outline"}
+                  onClick={() => setBotDifficulty(difficulty)}
+                >
+                  {BOT_DIFFICULTY_NAMES[difficulty]}
+                </Button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 justify-center">
+              <Button size="sm" variant="outline" onClick={() => handleAddBot(false)}>
+                Adicionar bot
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleAddBot(true)}>
+                Completar com bots
+              </Button>
+              {gameState.mode === GameMode.TWO_VS_TWO && (
+                <Button size="sm" variant="outline" onClick={() => handleAddBot(true, true)}>
+                  Treinar em dupla
+                </Button>
+              )}
+              {isHost() && (
+                <Button size="sm" onClick={handleForceStart}>
+                  Começar com bots
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+        
+        {bots.map(bot => (
+          <div key={bot.id} className="flex items-center gap-2 text-xs">
+            <span>{bot.username} (Time {bot.team})</span>
+            <Button 
+              size="sm" 
+              variant="ghost" 
+              className="h-6 px-2"
+              onClick={() => sendAction(ActionType.REMOVE_BOT, { botId: bot.id })}
+            >
+              Remover
+            </Button>
+          </div>
+        ))}
       </div>
     );
   }
@@ -208,19 +379,117 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
   // Render game over state
   if (gameState?.roundState === RoundState.GAME_OVER) {
     const winnerTeam = gameState.winner === 'A' ? 'Time A' : 'Time B';
+    const { series } = gameState;
+    const isSeriesOver = series.bestOf === 1 || Boolean(series.winner);
     
     return (
       <div className={cn("flex flex-col gap-2 items-center", className)}>
         <div className="text-xl font-bold text-center">
-          Fim de Jogo! {winnerTeam} venceu!
+          {series.bestOf === 1 ? 'Fim de Jogo!' : `Fim da queda ${series.gameNumber}!`} {winnerTeam} venceu!
         </div>
-        <Button onClick={handleReady}>
-          Jogar Novamente
+        {series.bestOf > 1 && series.winner && (
+          <div className="text-lg font-bold text-center text-yellow-400">
+            Time {series.winner} venceu a partida!
+          </div>
+        )}
+        {gameState.forfeitTeam && (
+          <div className="text-sm text-center text-red-400">
+            Time {gameState.forfeitTeam} perdeu por tempo esgotado.
+          </div>
+        )}
+        <Button 
+          onClick={() => {
+            setAnalysis(null);
+            handleReady();
+          }}
+        >
+          {isSeriesOver ? 'Jogar Novamente' : 'Próxima queda'}
+        </Button>
+        {analysis ? (
+          <div className="flex flex-col gap-1 text-xs text-center">
+            <div className="font-bold">Análise da partida</div>
+            {analysis.map(entry => (
+              <div key={entry.playerId}>
+                {gameState.players.find(p => p.id === entry.playerId)?.username || 'Jogador'}:{' '}
+                {entry.bestPlays}/{entry.plays} jogadas ideais, 
+                perda média de {Math.round(entry.averageLoss * 100)}%
+              </div>
+            ))}
+          </div>
+        ) : (
+          <Button size="sm" variant="outline" onClick={handleAnalysis}>
+            Ver análise
+          </Button>
+        )}
+        {gameState.dealReveal && (
+          <Button size="sm" variant="outline" onClick={handleVerifyDeal}>
+            Verificar esta mão
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={() => navigate(`/replay/${gameState.id}`)}>
+          Ver replay
         </Button>
       </div>
     );
   }
   
+  // Render mão de onze decision
+  if (gameState?.roundState === RoundState.HAND_OF_ELEVEN) {
+    const currentPlayer = gameState.players.find(p => p.id === playerId);
+    const isDeciding = currentPlayer?.team === gameState.handOfElevenTeam;
+    
+    if (!isDeciding) {
+      return (
+        <div className={cn("flex flex-col gap-2 items-center", className)}>
+          <div className="text-lg font-bold text-center text-yellow-400">Mão de onze!</div>
+          <div className="text-sm text-center animate-pulse">
+            Time {gameState.handOfElevenTeam} está decidindo se joga a mão...
+          </div>
+        </div>
+      );
+    }
+    
+    const partners = gameState.players.filter(p => 
+      p.team === currentPlayer?.team && p.id !== currentPlayer?.id
+    );
+    
+    return (
+      <div className={cn("flex flex-col gap-2 items-center", className)}>
+        <div className="text-lg font-bold text-center text-yellow-400">Mão de onze!</div>
+        <div className="text-sm text-center">
+          Jogar vale {getHandOfElevenValue(gameState.ruleVariant)} pontos. 
+          Correr dá {getInitialRoundValue(gameState.ruleVariant)} ao adversário.
+        </div>
+        {partners.map(partner => (
+          <div key={partner.id} className="flex flex-col items-center gap-1">
+            <div className="text-xs">Cartas de {partner.username}:</div>
+            <div className="flex gap-1">
+              {partner.hand.map(card => (
+                <Card key={card.id} card={card} size="sm" disabled />
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Button 
+            size="sm" 
+            variant="destructive" 
+            onClick={() => handleHandOfElevenDecision(false)}
+          >
+            Correr
+          </Button>
+          <Button 
+            size="sm" 
+            variant="default" 
+            onClick={() => handleHandOfElevenDecision(true)}
+          >
+            Jogar
+          </Button>
+        </div>
+      </div>
+    );
+  }
+  
   // Render round over state (including when someone runs from truco)
   if (gameState?.roundState === RoundState.ROUND_OVER) {
     const winnerTeam = gameState.roundWinner === 'A' ? 'Time A' : 'Time B';
@@ -228,17 +497,28 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
     return (
       <div className={cn("flex flex-col gap-2 items-center", className)}>
         <div className="text-lg font-bold text-center">
-          {winnerTeam} venceu a rodada!
+          {gameState.roundWinner 
+            ? `${winnerTeam} venceu a rodada!` 
+            : 'Empate! Ninguém pontua nesta rodada.'}
         </div>
-        <Button 
-          onClick={() => {
-            if (!socket || !gameState) return;
-            socket.emit('start_new_round', { gameId: gameState.id });
-          }}
-          variant="default"
-        >
-          Próxima Rodada
-        </Button>
+        {gameState.players.some(p => p.id === playerId) ? (
+          <Button 
+            onClick={() => {
+              if (!socket || !gameState) return;
+              sendAction('start_new_round');
+            }}
+            variant="default"
+          >
+            Próxima Rodada
+          </Button>
+        ) : (
+          <div className="text-sm text-center animate-pulse">Aguardando os jogadores...</div>
+        )}
+        {gameState.dealReveal && (
+          <Button size="sm" variant="outline" onClick={handleVerifyDeal}>
+            Verificar esta mão
+          </Button>
+        )}
       </div>
     );
   }
@@ -249,8 +529,20 @@ const GameControls: React.FC<GameControlsProps> = ({ className }) => {
       <div className="text-sm text-yellow-400 mb-1">
         Valor da rodada: {getCurrentTrucoValue()}
       </div>
+      {gameState?.handOfElevenTeam && (
+        <div className="text-xs text-yellow-300">Mão de onze - sem truco</div>
+      )}
+      {gameState?.isIronHand && (
+        <div className="text-xs text-yellow-300">Mão de ferro - cartas às cegas</div>
+      )}
+      <EnvidoControls />
       <div className="flex gap-2 justify-center">
         {renderTrucoRequest()}
+        {canAskHint() && (
+          <Button size="sm" variant="outline" onClick={handleHint}>
+            Dica
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -1,15 +1,21 @@
 import { useEffect, useState } from 'react';
-import { PlayedCard } from '@shared/types';
+import { GameState, PlayedCard } from '@shared/types';
 import Card from './Card';
 import { cn } from '@/lib/utils';
 import { useGame } from '@/context/GameContext';
+import { useSocket } from '@/context/SocketContext';
+import { getInitialRoundValue } from '@shared/gameRules';
+import { getRelativeSeat } from '@/utils/gameUtils';
 
 interface GameTableProps {
   className?: string;
+  gameState?: GameState; // Shown instead of the live game (replays)
 }
 
-const GameTable: React.FC<GameTableProps> = ({ className }) => {
-  const { gameState } = useGame();
+const GameTable: React.FC<GameTableProps> = ({ className, gameState: shownState }) => {
+  const { gameState: liveState } = useGame();
+  const { playerId } = useSocket();
+  const gameState = shownState ?? liveState;
   const [tableAnimation, setTableAnimation] = useState(false);
 
   // Animate the table when a new card is played
@@ -29,21 +35,27 @@ const GameTable: React.FC<GameTableProps> = ({ className }) => {
     );
   }
 
-  // Calculate positions for cards based on the number of players
-  const getCardPosition = (index: number, total: number) => {
-    // For 2 players, place cards side by side
-    if (total <= 2) {
-      return index === 0 
-        ? "top-1/2 left-[calc(50%-60px)] -translate-y-1/2"
-        : "top-1/2 left-[calc(50%+60px)] -translate-y-1/2";
+  // Players are kept in seat order, so a player's index is their seat
+  const seatCount = gameState.players.length;
+  const viewerIndex = gameState.players.findIndex(p => p.id === playerId);
+  const viewerSeat = viewerIndex !== -1 ? viewerIndex : undefined;
+
+  // Each card is placed in front of the player who played it: the viewer at the bottom,
+  // and in 2v2 the partner across the table at the top
+  const getCardPosition = (seat: number) => {
+    const relativeSeat = getRelativeSeat(seat, viewerSeat, seatCount);
+    
+    if (seatCount <= 2) {
+      return relativeSeat === 0 
+        ? "top-3/4 left-1/2 -translate-x-1/2 -translate-y-1/2"
+        : "top-1/4 left-1/2 -translate-x-1/2 -translate-y-1/2";
     }
     
-    // For 4 players, place cards in a cross pattern
-    switch (index % 4) {
-      case 0: return "top-1/4 left-1/2 -translate-x-1/2";
-      case 1: return "top-1/2 left-3/4 -translate-y-1/2";
-      case 2: return "top-3/4 left-1/2 -translate-x-1/2";
-      case 3: return "top-1/2 left-1/4 -translate-y-1/2";
+    switch (relativeSeat) {
+      case 0: return "top-3/4 left-1/2 -translate-x-1/2 -translate-y-1/2";
+      case 1: return "top-1/2 left-3/4 -translate-x-1/2 -translate-y-1/2";
+      case 2: return "top-1/4 left-1/2 -translate-x-1/2 -translate-y-1/2";
+      case 3: return "top-1/2 left-1/4 -translate-x-1/2 -translate-y-1/2";
       default: return "";
     }
   };
@@ -68,12 +80,11 @@ const GameTable: React.FC<GameTableProps> = ({ className }) => {
       return null;
     }
 
-    return gameState.currentTrick.map((playedCard: PlayedCard, index: number) => {
-      const total = gameState.currentTrick.length;
-      const position = getCardPosition(index, total);
-      
+    return gameState.currentTrick.map((playedCard: PlayedCard) => {
       // Find the player who played this card
-      const player = gameState.players.find(p => p.id === playedCard.playerId);
+      const seat = gameState.players.findIndex(p => p.id === playedCard.playerId);
+      const player = gameState.players[seat];
+      const position = getCardPosition(seat);
       const teamClass = player?.team === 'A' ? 'border-blue-500' : 'border-red-500';
       
       return (
@@ -114,10 +125,9 @@ const GameTable: React.FC<GameTableProps> = ({ className }) => {
       
       {/* Round value indicator */}
       <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-amber-900 text-white px-4 py-1 rounded-full font-bold z-10">
-        {gameState.roundValue === 1 ? 'Truco' : 
-         gameState.roundValue === 3 ? 'Vale 3' : 
-         gameState.roundValue === 6 ? 'Vale 6' : 
-         gameState.roundValue === 9 ? 'Vale 9' : 'Vale 12'}
+        {gameState.roundValue === getInitialRoundValue(gameState.ruleVariant) 
+          ? 'Truco' 
+          : `Vale ${gameState.roundValue}`}
       </div>
       
       {/* Score display */}
@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
-import { Card as CardType, RoundState } from '@shared/types';
-import Card from './Card';
+import { Card as CardType, GameState, RoundState } from '@shared/types';
+import Card, { CardBack } from './Card';
 import { cn } from '@/lib/utils';
 import { useAudio } from '@/lib/stores/useAudio';
 import { useGame } from '@/context/GameContext';
@@ -9,13 +9,23 @@ import { motion } from 'framer-motion';
 interface HandProps {
   cards: CardType[];
   playerId: string;
-  onPlayCard: (card: CardType) => void;
+  onPlayCard?: (card: CardType) => void;
   className?: string;
+  gameState?: GameState; // Shown instead of the live game (replays)
+  readOnly?: boolean; // Cards are only shown, never played
 }
 
-const Hand: React.FC<HandProps> = ({ cards, playerId, onPlayCard, className }) => {
-  const { gameState } = useGame();
+const Hand: React.FC<HandProps> = ({ cards, playerId, onPlayCard, className, gameState: shownState, readOnly }) => {
+  const { gameState: liveState, playBlindCard } = useGame();
+  const gameState = shownState ?? liveState;
   const { playHit } = useAudio();
+  
+  // In the mão de ferro the player's own cards are hidden and played blind
+  const blindCardCount = useMemo(() => {
+    if (!gameState?.isIronHand) return 0;
+    const player = gameState.players.find(p => p.id === playerId);
+    return player?.handCount ?? 0;
+  }, [gameState, playerId]);
 
   // Determine if it's this player's turn
   const isPlayerTurn = useMemo(() => {
@@ -24,21 +34,29 @@ const Hand: React.FC<HandProps> = ({ cards, playerId, onPlayCard, className }) =
   }, [gameState, playerId]);
 
   // Check if card is playable
-  const isCardPlayable = (card: CardType) => {
+  const isCardPlayable = (card?: CardType) => {
     // Player can play if:
     // 1. It's their turn AND
     // 2. The game is in playing state AND
-    // 3. No truco has been requested or the player is the one who requested it
-    return isPlayerTurn && 
+    // 3. No bet is waiting for an answer
+    return !readOnly &&
+           isPlayerTurn && 
            gameState?.roundState === RoundState.PLAYING && 
-           (!gameState?.trucoRequested || gameState?.trucoRequestedBy === playerId);
+           !gameState?.trucoRequested;
   };
 
   // Handle card play
   const handlePlayCard = (card: CardType) => {
     if (!isCardPlayable(card)) return;
     playHit();
-    onPlayCard(card);
+    onPlayCard?.(card);
+  };
+
+  // Handle blind card play (face-down cards follow the same rules)
+  const handlePlayBlindCard = (index: number) => {
+    if (!isCardPlayable()) return;
+    playHit();
+    playBlindCard(index);
   };
 
   // Animation variants for the cards
@@ -68,7 +86,23 @@ const Hand: React.FC<HandProps> = ({ cards, playerId, onPlayCard, className }) =
       initial="hidden"
       animate="show"
     >
-      {cards.length === 0 ? (
+      {blindCardCount > 0 ? (
+        <div className="flex space-x-2">
+          {Array.from({ length: blindCardCount }, (_, index) => (
+            <motion.div 
+              key={`blind-${index}`} 
+              className="relative"
+              variants={item}
+              whileHover={{ y: -10, transition: { duration: 0.2 } }}
+            >
+              <CardBack
+                onClick={() => handlePlayBlindCard(index)}
+                disabled={!isCardPlayable()}
+              />
+            </motion.div>
+          ))}
+        </div>
+      ) : cards.length === 0 ? (
         <div className="text-gray-500 italic">No cards</div>
       ) : (
         <div className="flex space-x-2">
@@ -94,7 +128,7 @@ const Hand: React.FC<HandProps> = ({ cards, playerId, onPlayCard, className }) =
         </div>
       )}
       
-      {isPlayerTurn && (
+      {isPlayerTurn && !readOnly && (
         <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 bg-yellow-400 text-black px-3 py-1 rounded-full animate-bounce">
           Sua vez!
         </div>
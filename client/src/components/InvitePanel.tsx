@@ -0,0 +1,52 @@
+import { RoomInvite } from '@shared/types';
+import { Button } from './ui/button';
+import { Copy, Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface InvitePanelProps {
+  invite: RoomInvite;
+  className?: string;
+}
+
+// Invite code and link of a room, to bring friends in (the only way into private rooms)
+const InvitePanel: React.FC<InvitePanelProps> = ({ invite, className }) => {
+  const inviteLink = `${window.location.origin}/join/${invite.inviteCode}`;
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast.success('Link de convite copiado');
+    } catch {
+      toast.error('Não foi possível copiar o link');
+    }
+  };
+
+  return (
+    <div className={cn("bg-white bg-opacity-90 rounded-lg p-4 w-full max-w-md", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium">Convidar amigos</h3>
+        {invite.visibility !== 'public' && (
+          <span className="flex items-center gap-1 text-sm text-gray-600">
+            <Lock className="h-4 w-4" />
+            {invite.visibility === 'private' ? 'Sala privada' : 'Sala com senha'}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-xs text-gray-500">Código</div>
+          <div className="text-2xl font-mono font-bold tracking-widest">{invite.inviteCode}</div>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCopyLink}>
+          <Copy className="mr-2 h-4 w-4" /> Copiar link
+        </Button>
+      </div>
+      {invite.visibility === 'password' && (
+        <p className="text-xs text-gray-500 mt-2">Quem entrar pelo link não precisa da senha</p>
+      )}
+    </div>
+  );
+};
+
+export default InvitePanel;
@@ -1,43 +1,81 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import MatchmakingPanel from './MatchmakingPanel';
 import { RadioGroup, RadioGroupItem } from './ui/radio-group';
 import { useSocket } from '@/context/SocketContext';
-import { ActionType, GameMode, GameRoom } from '@shared/types';
+import { ActionType, GameMode, GameRoom, RuleVariant, BotDifficulty, DealSetup, RoomVisibility } from '@shared/types';
+import { RULE_SETS, getRuleSet } from '@shared/ruleSets';
+import { DEFAULT_TIMER_SETTINGS, TARGET_SCORE_OPTIONS, SERIES_LENGTH_OPTIONS } from '@shared/gameRules';
 import { toast } from 'sonner';
+import { Lock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+// Display names for each bot difficulty
+export const BOT_DIFFICULTY_NAMES: Record<BotDifficulty, string> = {
+  [BotDifficulty.EASY]: 'Fácil',
+  [BotDifficulty.MEDIUM]: 'Médio',
+  [BotDifficulty.HARD]: 'Difícil'
+};
+
+// Time limit options, in seconds (0 means no limit)
+export const CARD_TIMER_OPTIONS = [0, 15, 30, 60];
+export const BET_TIMER_OPTIONS = [0, 10, 20, 40];
+
+// Who can enter a new room
+const VISIBILITY_OPTIONS: [RoomVisibility, string][] = [
+  ['public', 'Pública'],
+  ['private', 'Privada (só com convite)'],
+  ['password', 'Com senha']
+];
+
+export const getTimerLabel = (seconds: number) => seconds === 0 ? 'Sem limite' : `${seconds}s`;
+
+export const getSeriesLabel = (bestOf: number) => bestOf === 1 ? 'Jogo único' : `Melhor de ${bestOf}`;
+
+// Build the test deal of a development game: one line of card ids per seat (e.g. "hearts-7, clubs-4")
+const parseDealSetup = (seed: string, vira: string, hands: string): DealSetup | undefined => {
+  const handLines = hands.split('\n').map(line => line.split(',').map(id => id.trim()).filter(Boolean));
+  while (handLines.length > 0 && handLines[handLines.length - 1].length === 0) handLines.pop();
+  
+  const deck = vira.trim() || handLines.length > 0
+    ? { vira: vira.trim() || undefined, hands: handLines }
+    : undefined;
+  return seed.trim() || deck ? { seed: seed.trim() || undefined, deck } : undefined;
+};
+
 interface LobbyProps {
   rooms: GameRoom[];
   className?: string;
 }
 
 const Lobby: React.FC<LobbyProps> = ({ rooms, className }) => {
-  const [username, setUsername] = useState('');
   const [roomName, setRoomName] = useState('');
   const [gameMode, setGameMode] = useState<GameMode>(GameMode.ONE_VS_ONE);
+  const [ruleVariant, setRuleVariant] = useState<RuleVariant>(RuleVariant.PAULISTA);
+  const [targetScore, setTargetScore] = useState(getRuleSet(RuleVariant.PAULISTA).targetScore);
+  const [bestOf, setBestOf] = useState(1);
+  const [ranked, setRanked] = useState(false);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty | 'none'>('none');
+  const [cardPlaySeconds, setCardPlaySeconds] = useState(DEFAULT_TIMER_SETTINGS.cardPlaySeconds);
+  const [betResponseSeconds, setBetResponseSeconds] = useState(DEFAULT_TIMER_SETTINGS.betResponseSeconds);
+  const [visibility, setVisibility] = useState<RoomVisibility>('public');
+  const [roomPassword, setRoomPassword] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const { socket } = useSocket();
+  const [inviteCode, setInviteCode] = useState('');
+  // Password protected room being entered, and whether to play or watch
+  const [passwordPrompt, setPasswordPrompt] = useState<{ roomId: string, watch: boolean } | null>(null);
+  const [enteredPassword, setEnteredPassword] = useState('');
+  const [testSeed, setTestSeed] = useState('');
+  const [testVira, setTestVira] = useState('');
+  const [testHands, setTestHands] = useState('');
+  const { socket, playerId } = useSocket();
   const navigate = useNavigate();
   
-  // On mount, check for and load username from localStorage
-  useEffect(() => {
-    const savedUsername = localStorage.getItem('trucoUsername');
-    if (savedUsername) {
-      setUsername(savedUsername);
-    }
-  }, []);
-  
-  // Save username to localStorage when it changes
-  useEffect(() => {
-    if (username) {
-      localStorage.setItem('trucoUsername', username);
-    }
-  }, [username]);
-  
   // Create new game room
   const handleCreateRoom = () => {
     if (!socket) {
@@ -45,20 +83,32 @@ const Lobby: React.FC<LobbyProps> = ({ rooms, className }) => {
       return;
     }
     
-    if (!username.trim()) {
-      toast.error('Digite seu nome de usuário');
+    if (!roomName.trim()) {
+      toast.error('Digite um nome para a sala');
       return;
     }
     
-    if (!roomName.trim()) {
-      toast.error('Digite um nome para a sala');
+    if (visibility === 'password' && !roomPassword) {
+      toast.error('Digite uma senha para a sala');
       return;
     }
     
     socket.emit(ActionType.CREATE_GAME, {
-      username,
       roomName,
-      mode: gameMode
+      mode: gameMode,
+      ruleVariant,
+      targetScore,
+      bestOf,
+      ranked,
+      visibility,
+      password: visibility === 'password' ? roomPassword : undefined,
+      botDifficulty: botDifficulty === 'none' || ranked ? undefined : botDifficulty,
+      timerSettings: {
+        ...DEFAULT_TIMER_SETTINGS,
+        cardPlaySeconds,
+        betResponseSeconds
+      },
+      dealSetup: import.meta.env.DEV && !ranked ? parseDealSetup(testSeed, testVira, testHands) : undefined
     });
     
     // Wait for server response
@@ -67,25 +117,46 @@ const Lobby: React.FC<LobbyProps> = ({ rooms, className }) => {
     });
   };
   
-  // Join existing game room
-  const handleJoinRoom = (roomId: string) => {
-    if (!socket) {
-      toast.error('Não foi possível conectar ao servidor');
+  // Join existing game room (the game page takes the seat); rooms with a password ask for it first,
+  // except to players who already have a seat there
+  const handleJoinRoom = (room: GameRoom) => {
+    if (room.visibility === 'password' && !room.players.includes(playerId ?? '')) {
+      setPasswordPrompt({ roomId: room.id, watch: false });
+      setEnteredPassword('');
       return;
     }
     
-    if (!username.trim()) {
-      toast.error('Digite seu nome de usuário');
+    navigate(`/game/${room.id}`);
+  };
+  
+  // Watch a game without taking a seat
+  const handleWatchRoom = (room: GameRoom) => {
+    if (room.visibility === 'password') {
+      setPasswordPrompt({ roomId: room.id, watch: true });
+      setEnteredPassword('');
       return;
     }
     
-    socket.emit(ActionType.JOIN_GAME, {
-      username,
-      gameId: roomId
-    });
+    navigate(`/game/${room.id}/watch`);
+  };
+  
+  // Enter the password protected room, the password is checked by the server
+  const handleSubmitPassword = () => {
+    if (!passwordPrompt || !enteredPassword) return;
     
-    // Navigate to game page
-    navigate(`/game/${roomId}`);
+    const { roomId, watch } = passwordPrompt;
+    navigate(watch ? `/game/${roomId}/watch` : `/game/${roomId}`, { state: { password: enteredPassword } });
+  };
+  
+  // Open an invite by its code
+  const handleJoinByCode = () => {
+    const code = inviteCode.trim().toUpperCase();
+    if (!code) {
+      toast.error('Digite o código do convite');
+      return;
+    }
+    
+    navigate(`/join/${code}`);
   };
   
   // Get game mode display text
@@ -100,26 +171,18 @@ const Lobby: React.FC<LobbyProps> = ({ rooms, className }) => {
   
   return (
     <div className={cn("w-full max-w-4xl mx-auto p-4", className)}>
+      <MatchmakingPanel className="mb-6" />
+      
       <Card className="mb-6">
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             <span>Truco Online - DM</span>
             <div className="text-2xl font-bold text-green-700">DM</div>
           </CardTitle>
-          <CardDescription>Truco Paulista - 1v1 ou 2v2</CardDescription>
+          <CardDescription>Truco Paulista, Mineiro, Gaúcho ou Espanhol - 1v1 ou 2v2</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">Seu nome de usuário</Label>
-              <Input
-                id="username"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                placeholder="Digite seu nome"
-              />
-            </div>
-            
             {!showCreateForm ? (
               <Button 
                 onClick={() => setShowCreateForm(true)}
@@ -155,6 +218,164 @@ const Lobby: React.FC<LobbyProps> = ({ rooms, className }) => {
                     </div>
                   </RadioGroup>
                 </div>
+                <div className="space-y-2">
+                  <Label>Regras</Label>
+                  <RadioGroup 
+                    value={ruleVariant} 
+                    onValueChange={(value) => {
+                      // Each set of rules is played to its own score, unless another one is picked after
+                      setRuleVariant(value as RuleVariant);
+                      setTargetScore(getRuleSet(value as RuleVariant).targetScore);
+                    }}
+                    className="grid grid-cols-2 gap-2"
+                  >
+                    {Object.values(RULE_SETS).map(rules => (
+                      <div key={rules.variant} className="flex items-center space-x-2">
+                        <RadioGroupItem value={rules.variant} id={`rules-${rules.variant}`} />
+                        <Label htmlFor={`rules-${rules.variant}`}>{rules.name}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Pontos para vencer</Label>
+                  <RadioGroup 
+                    value={String(targetScore)} 
+                    onValueChange={(value) => setTargetScore(Number(value))}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {TARGET_SCORE_OPTIONS.map(score => (
+                      <div key={score} className="flex items-center space-x-2">
+                        <RadioGroupItem value={String(score)} id={`target-${score}`} />
+                        <Label htmlFor={`target-${score}`}>{score}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Partida</Label>
+                  <RadioGroup 
+                    value={String(bestOf)} 
+                    onValueChange={(value) => setBestOf(Number(value))}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {SERIES_LENGTH_OPTIONS.map(games => (
+                      <div key={games} className="flex items-center space-x-2">
+                        <RadioGroupItem value={String(games)} id={`series-${games}`} />
+                        <Label htmlFor={`series-${games}`}>{getSeriesLabel(games)}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Quem pode entrar</Label>
+                  <RadioGroup 
+                    value={visibility} 
+                    onValueChange={(value) => setVisibility(value as RoomVisibility)}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {VISIBILITY_OPTIONS.map(([value, label]) => (
+                      <div key={value} className="flex items-center space-x-2">
+                        <RadioGroupItem value={value} id={`visibility-${value}`} />
+                        <Label htmlFor={`visibility-${value}`}>{label}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                  {visibility === 'password' && (
+                    <Input
+                      type="password"
+                      value={roomPassword}
+                      onChange={(e) => setRoomPassword(e.target.value)}
+                      placeholder="Senha da sala"
+                      maxLength={50}
+                    />
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Tempo para jogar uma carta</Label>
+                  <RadioGroup 
+                    value={String(cardPlaySeconds)} 
+                    onValueChange={(value) => setCardPlaySeconds(Number(value))}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {CARD_TIMER_OPTIONS.map(seconds => (
+                      <div key={seconds} className="flex items-center space-x-2">
+                        <RadioGroupItem value={String(seconds)} id={`card-timer-${seconds}`} />
+                        <Label htmlFor={`card-timer-${seconds}`}>{getTimerLabel(seconds)}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Tempo para responder apostas</Label>
+                  <RadioGroup 
+                    value={String(betResponseSeconds)} 
+                    onValueChange={(value) => setBetResponseSeconds(Number(value))}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {BET_TIMER_OPTIONS.map(seconds => (
+                      <div key={seconds} className="flex items-center space-x-2">
+                        <RadioGroupItem value={String(seconds)} id={`bet-timer-${seconds}`} />
+                        <Label htmlFor={`bet-timer-${seconds}`}>{getTimerLabel(seconds)}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Tipo de partida</Label>
+                  <RadioGroup 
+                    value={ranked ? 'ranked' : 'casual'} 
+                    onValueChange={(value) => setRanked(value === 'ranked')}
+                    className="flex flex-wrap gap-4"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="casual" id="type-casual" />
+                      <Label htmlFor="type-casual">Casual</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="ranked" id="type-ranked" />
+                      <Label htmlFor="type-ranked">Ranqueada (só jogadores, vale rating)</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+                {!ranked && (
+                  <div className="space-y-2">
+                    <Label>Completar com bots</Label>
+                    <RadioGroup 
+                      value={botDifficulty} 
+                      onValueChange={(value) => setBotDifficulty(value as BotDifficulty | 'none')}
+                      className="flex flex-wrap gap-4"
+                    >
+                      {[['none', 'Sem bots'], ...Object.entries(BOT_DIFFICULTY_NAMES)].map(([value, label]) => (
+                        <div key={value} className="flex items-center space-x-2">
+                          <RadioGroupItem value={value} id={`bots-${value}`} />
+                          <Label htmlFor={`bots-${value}`}>{label}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                )}
+                {import.meta.env.DEV && !ranked && (
+                  <div className="space-y-2 p-2 border border-dashed rounded-md">
+                    <Label>Opções de teste</Label>
+                    <Input
+                      value={testSeed}
+                      onChange={(e) => setTestSeed(e.target.value)}
+                      placeholder="Semente do baralho"
+                    />
+                    <Input
+                      value={testVira}
+                      onChange={(e) => setTestVira(e.target.value)}
+                      placeholder="Vira da primeira rodada (ex.: clubs-4)"
+                    />
+                    <Textarea
+                      value={testHands}
+                      onChange={(e) => setTestHands(e.target.value)}
+                      placeholder={'Mãos da primeira rodada, uma linha por lugar\n(ex.: hearts-5, spades-5, clubs-5)'}
+                      rows={4}
+                    />
+                  </div>
+                )}
                 <div className="flex space-x-2">
                   <Button onClick={handleCreateRoom} className="flex-1">
                     Criar Sala
@@ -168,6 +389,18 @@ const Lobby: React.FC<LobbyProps> = ({ rooms, className }) => {
                 </div>
               </div>
             )}
+            <div className="flex space-x-2">
+              <Input
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleJoinByCode()}
+                placeholder="Código de convite"
+                className="font-mono uppercase"
+              />
+              <Button variant="outline" onClick={handleJoinByCode}>
+                Entrar com código
+              </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -190,19 +423,54 @@ const Lobby: React.FC<LobbyProps> = ({ rooms, className }) => {
                   <CardContent className="p-4">
                     <div className="flex items-center justify-between">
                       <div>
-                        <h3 className="font-medium">{room.name}</h3>
+                        <h3 className="font-medium flex items-center gap-1">
+                          {room.visibility === 'password' && <Lock className="h-4 w-4 text-gray-500" />}
+                          {room.name}
+                        </h3>
                         <div className="text-sm text-gray-500">
-                          {getGameModeText(room.mode)} • {room.players.length}/{room.maxPlayers} jogadores
+                          {getRuleSet(room.ruleVariant).name} • {getGameModeText(room.mode)} • {room.targetScore} pontos
+                          {room.bestOf > 1 && ` • ${getSeriesLabel(room.bestOf)}`}
+                          {room.ranked && ' • Ranqueada'} • {room.players.length}/{room.maxPlayers} jogadores
+                          {room.spectatorCount > 0 && ` • ${room.spectatorCount} assistindo`}
                         </div>
                       </div>
-                      <Button 
-                        onClick={() => handleJoinRoom(room.id)}
-                        disabled={room.status !== 'waiting' || getRemainingSlots(room) <= 0}
-                        size="sm"
-                      >
-                        {room.status === 'waiting' ? 'Entrar' : 'Em jogo'}
-                      </Button>
+                      <div className="flex gap-2">
+                        {!room.players.includes(playerId ?? '') && (
+                          <Button 
+                            variant="outline"
+                            onClick={() => handleWatchRoom(room)}
+                            size="sm"
+                          >
+                            Assistir
+                          </Button>
+                        )}
+                        <Button 
+                          onClick={() => handleJoinRoom(room)}
+                          disabled={room.status !== 'waiting' || getRemainingSlots(room) <= 0}
+                          size="sm"
+                        >
+                          {room.status === 'waiting' ? 'Entrar' : 'Em jogo'}
+                        </Button>
+                      </div>
                     </div>
+                    {passwordPrompt?.roomId === room.id && (
+                      <div className="flex space-x-2 mt-3">
+                        <Input
+                          type="password"
+                          value={enteredPassword}
+                          onChange={(e) => setEnteredPassword(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleSubmitPassword()}
+                          placeholder="Senha da sala"
+                          autoFocus
+                        />
+                        <Button size="sm" onClick={handleSubmitPassword} disabled={!enteredPassword}>
+                          {passwordPrompt.watch ? 'Assistir' : 'Entrar'}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setPasswordPrompt(null)}>
+                          Cancelar
+                        </Button>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
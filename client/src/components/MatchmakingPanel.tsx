@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ActionType, ActionResult, GameMode } from '@shared/types';
+import { QueueStatus, ReadyCheck, READY_CHECK_SECONDS, getRatingWindow } from '@shared/matchmaking';
+import { useSocket } from '@/context/SocketContext';
+import { useAuth } from '@/context/AuthContext';
+import { REJECTION_MESSAGES } from '@/context/GameContext';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Progress } from './ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+const formatWait = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface MatchmakingPanelProps {
+  className?: string;
+}
+
+// "Jogar agora": the queue pairs the player with others of a similar rating, alone or with a partner in 2v2.
+// A match found has to be accepted by everyone before the game is created.
+const MatchmakingPanel: React.FC<MatchmakingPanelProps> = ({ className }) => {
+  const { socket, playerId } = useSocket();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<QueueStatus | null>(null);
+  const [queuedSince, setQueuedSince] = useState(0); // Local time the wait started
+  const [partner, setPartner] = useState('');
+  const [invitedPartner, setInvitedPartner] = useState<string | null>(null); // Waiting for them to answer our invite
+  const [duoInvite, setDuoInvite] = useState<string | null>(null); // Player who asked us to be their partner
+  const [readyCheck, setReadyCheck] = useState<ReadyCheck | null>(null);
+  const [readyDeadline, setReadyDeadline] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleStatus = (next: QueueStatus | null) => {
+      setStatus(next);
+      if (next) {
+        setQueuedSince(Date.now() - next.waitedMs);
+        setInvitedPartner(null);
+      }
+    };
+    const handleDuoInvite = (data: { from: string }) => setDuoInvite(data.from);
+    const handleDuoDeclined = (data: { username: string }) => {
+      setInvitedPartner(null);
+      toast.error(`${data.username} recusou jogar em dupla`);
+    };
+    const handleDuoInviteCancelled = () => {
+      setInvitedPartner(null);
+      setDuoInvite(null);
+    };
+    const handleReadyCheck = (check: ReadyCheck) => {
+      setReadyCheck(check);
+      setReadyDeadline(Date.now() + check.remainingMs);
+    };
+    const handleReadyCheckCancelled = (data: { declined: string[] }) => {
+      setReadyCheck(null);
+      if (!data.declined.includes(user?.username ?? '')) {
+        toast.info('Nem todos aceitaram a partida, você voltou para a fila');
+      }
+    };
+    const handleMatchStarted = (data: { gameId: string }) => {
+      setReadyCheck(null);
+      setStatus(null);
+      navigate(`/game/${data.gameId}`);
+    };
+
+    socket.on('queue_status', handleStatus);
+    socket.on('duo_invite', handleDuoInvite);
+    socket.on('duo_declined', handleDuoDeclined);
+    socket.on('duo_invite_cancelled', handleDuoInviteCancelled);
+    socket.on('ready_check', handleReadyCheck);
+    socket.on('ready_check_cancelled', handleReadyCheckCancelled);
+    socket.on('match_started', handleMatchStarted);
+
+    // The queue is only for players in the lobby
+    return () => {
+      socket.off('queue_status', handleStatus);
+      socket.off('duo_invite', handleDuoInvite);
+      socket.off('duo_declined', handleDuoDeclined);
+      socket.off('duo_invite_cancelled', handleDuoInviteCancelled);
+      socket.off('ready_check', handleReadyCheck);
+      socket.off('ready_check_cancelled', handleReadyCheckCancelled);
+      socket.off('match_started', handleMatchStarted);
+      socket.emit(ActionType.LEAVE_QUEUE, {});
+    };
+  }, [socket, navigate, user?.username]);
+
+  // Tick while waiting in the queue or for the others to accept
+  useEffect(() => {
+    if (!status && !readyCheck) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [status, readyCheck]);
+
+  // Send a queue action; rejections are shown to the player
+  const sendQueueAction = (action: ActionType, data: Record<string, unknown> = {}): Promise<boolean> => {
+    if (!socket) return Promise.resolve(false);
+
+    return new Promise(resolve => {
+      socket.emit(action, data, (result: ActionResult) => {
+        if (!result.ok) {
+          toast.error(REJECTION_MESSAGES[result.reason] ?? result.message);
+        }
+        resolve(result.ok);
+      });
+    });
+  };
+
+  // A partner is asked first, the duo joins the queue once they accept
+  const handleJoinQueue = async (mode: GameMode) => {
+    const partnerName = mode === GameMode.TWO_VS_TWO ? partner.trim() : '';
+    const ok = await sendQueueAction(ActionType.JOIN_QUEUE, { mode, partner: partnerName || undefined });
+    if (ok && partnerName) setInvitedPartner(partnerName);
+  };
+
+  const handleLeaveQueue = () => {
+    sendQueueAction(ActionType.LEAVE_QUEUE);
+    setInvitedPartner(null);
+  };
+
+  const handleAnswerDuoInvite = (accept: boolean) => {
+    sendQueueAction(ActionType.ANSWER_DUO_INVITE, { accept });
+    setDuoInvite(null);
+  };
+
+  const handleAnswerReadyCheck = (accept: boolean) => {
+    if (!readyCheck) return;
+
+    sendQueueAction(accept ? ActionType.ACCEPT_MATCH : ActionType.DECLINE_MATCH, { matchId: readyCheck.matchId });
+    if (!accept) setReadyCheck(null);
+  };
+
+  const waitedMs = Math.max(0, now - queuedSince);
+  const readyRemainingMs = Math.max(0, readyDeadline - now);
+  const hasAccepted = readyCheck?.players.some(p => p.playerId === playerId && p.accepted) ?? false;
+  const teamNames = (team: 'A' | 'B') => readyCheck?.players.filter(p => p.team === team) ?? [];
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Jogar agora</CardTitle>
+        <CardDescription>Partida ranqueada contra jogadores do seu nível</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {duoInvite && (
+          <div className="flex items-center justify-between gap-2 p-3 border rounded-md bg-yellow-50">
+            <span className="text-sm">{duoInvite} convidou você para jogar 2v2 em dupla</span>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleAnswerDuoInvite(true)}>Aceitar</Button>
+              <Button size="sm" variant="outline" onClick={() => handleAnswerDuoInvite(false)}>Recusar</Button>
+            </div>
+          </div>
+        )}
+
+        {status ? (
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <div className="font-medium">
+                Procurando partida {status.mode}{status.partner && ` com ${status.partner}`}... {formatWait(waitedMs)}
+              </div>
+              <div className="text-sm text-gray-500">
+                Rating {status.rating}, adversários até {getRatingWindow(waitedMs)} pontos de diferença
+              </div>
+            </div>
+            <Button variant="outline" onClick={handleLeaveQueue}>Cancelar</Button>
+          </div>
+        ) : invitedPartner ? (
+          <div className="flex items-center justify-between gap-2">
+            <div className="font-medium">Aguardando {invitedPartner} aceitar o convite...</div>
+            <Button variant="outline" onClick={handleLeaveQueue}>Cancelar</Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Button className="flex-1" onClick={() => handleJoinQueue(GameMode.ONE_VS_ONE)}>
+                Jogar agora 1v1
+              </Button>
+              <Button className="flex-1" onClick={() => handleJoinQueue(GameMode.TWO_VS_TWO)}>
+                {partner.trim() ? 'Jogar agora 2v2 em dupla' : 'Jogar agora 2v2'}
+              </Button>
+            </div>
+            <Input
+              value={partner}
+              onChange={(e) => setPartner(e.target.value)}
+              placeholder="Parceiro para o 2v2 (opcional)"
+            />
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(readyCheck)} onOpenChange={(open) => !open && handleAnswerReadyCheck(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Partida encontrada!</DialogTitle>
+            <DialogDescription>
+              {readyCheck?.mode} ranqueada • {Math.ceil(readyRemainingMs / 1000)}s para aceitar
+            </DialogDescription>
+          </DialogHeader>
+          <Progress value={readyRemainingMs / (READY_CHECK_SECONDS * 10)} />
+          <div className="grid grid-cols-2 gap-4">
+            {(['A', 'B'] as const).map(team => (
+              <div key={team} className="space-y-1">
+                <div className={cn("text-xs font-medium", team === 'A' ? 'text-blue-600' : 'text-red-600')}>
+                  Time {team}
+                </div>
+                {teamNames(team).map(player => (
+                  <div key={player.playerId} className="flex items-center gap-1 text-sm">
+                    {player.username}
+                    {player.accepted && <Check className="h-4 w-4 text-green-600" />}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleAnswerReadyCheck(false)}>Recusar</Button>
+            <Button onClick={() => handleAnswerReadyCheck(true)} disabled={hasAccepted}>
+              {hasAccepted ? 'Aguardando os outros...' : 'Aceitar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default MatchmakingPanel;
@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react';
 import { Player } from '@shared/types';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
@@ -6,17 +7,39 @@ import { cn } from '@/lib/utils';
 interface PlayerInfoProps {
   player: Player;
   isCurrentPlayer: boolean;
+  timer?: { deadline: number; durationMs: number }; // Turn timer running for this player
   className?: string;
 }
 
+// Size of the countdown ring around the avatar
+const RING_SIZE = 40;
+const RING_RADIUS = 18;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
 const PlayerInfo: React.FC<PlayerInfoProps> = ({
   player,
   isCurrentPlayer,
+  timer,
   className
 }) => {
+  const [now, setNow] = useState(Date.now());
+  
+  // Tick while a timer is running
+  useEffect(() => {
+    if (!timer) return;
+    
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [timer?.deadline]);
+  
   // Team color
   const teamColor = player.team === 'A' ? 'bg-blue-500' : 'bg-red-500';
   
+  // Fraction of the turn time left
+  const remainingMs = timer ? Math.max(0, timer.deadline - now) : 0;
+  const remaining = timer ? remainingMs / timer.durationMs : 0;
+  
   return (
     <Card 
       className={cn(
@@ -28,12 +51,35 @@ const PlayerInfo: React.FC<PlayerInfoProps> = ({
       <div className={`h-2 ${teamColor}`} />
       <CardContent className="pt-4">
         <div className="flex items-center gap-2">
-          {/* Avatar/Icon */}
-          <div className={cn(
-            "w-8 h-8 rounded-full flex items-center justify-center text-white",
-            teamColor
-          )}>
-            {player.username.charAt(0).toUpperCase()}
+          {/* Avatar/Icon, with the turn countdown around it */}
+          <div className="relative w-10 h-10 flex items-center justify-center">
+            {timer && (
+              <svg 
+                className="absolute inset-0 -rotate-90" 
+                width={RING_SIZE} 
+                height={RING_SIZE}
+              >
+                <circle
+                  cx={RING_SIZE / 2}
+                  cy={RING_SIZE / 2}
+                  r={RING_RADIUS}
+                  fill="none"
+                  strokeWidth={3}
+                  className={remaining < 0.25 ? "stroke-red-500" : "stroke-yellow-400"}
+                  strokeDasharray={RING_LENGTH}
+                  strokeDashoffset={RING_LENGTH * (1 - remaining)}
+                />
+              </svg>
+            )}
+            <div 
+              className={cn(
+                "w-8 h-8 rounded-full flex items-center justify-center text-white",
+                teamColor
+              )}
+              title={timer ? `${Math.ceil(remainingMs / 1000)}s` : undefined}
+            >
+              {player.username.charAt(0).toUpperCase()}
+            </div>
           </div>
           
           {/* Player details */}
@@ -59,6 +105,16 @@ const PlayerInfo: React.FC<PlayerInfoProps> = ({
                   Dealer
                 </Badge>
               )}
+              {player.isBot && (
+                <Badge variant="outline" className="bg-purple-100 text-xs py-0 h-5">
+                  Bot
+                </Badge>
+              )}
+              {player.isDisconnected && (
+                <Badge variant="outline" className="bg-gray-100 text-xs py-0 h-5">
+                  Bot jogando
+                </Badge>
+              )}
               {player.isReady && (
                 <Badge variant="outline" className="bg-green-100 text-xs py-0 h-5">
                   Pronto
@@ -69,7 +125,7 @@ const PlayerInfo: React.FC<PlayerInfoProps> = ({
           
           {/* Cards count */}
           <div className="flex items-center justify-center bg-gray-100 rounded-md px-2 py-1 text-xs font-medium">
-            {player.hand.length} cartas
+            {player.handCount ?? player.hand.length} cartas
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,29 @@
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+// Send visitors who aren't logged in to the login page, coming back here afterwards
+const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-green-900">
+        <div className="text-white text-xl">Carregando...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
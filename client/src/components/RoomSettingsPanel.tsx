@@ -0,0 +1,168 @@
+import { ActionType, GameMode, GameState, RoomSettings, RuleVariant } from '@shared/types';
+import { RULE_SETS, getRuleSet } from '@shared/ruleSets';
+import { TARGET_SCORE_OPTIONS, SERIES_LENGTH_OPTIONS } from '@shared/gameRules';
+import { useGame } from '@/context/GameContext';
+import { CARD_TIMER_OPTIONS, BET_TIMER_OPTIONS, getTimerLabel, getSeriesLabel } from './Lobby';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { cn } from '@/lib/utils';
+
+interface RoomSettingsPanelProps {
+  gameState: GameState;
+  playerId: string | null;
+  className?: string;
+}
+
+// Settings of a room before the game starts: the host changes them, everyone else sees them
+const RoomSettingsPanel: React.FC<RoomSettingsPanelProps> = ({ gameState, playerId, className }) => {
+  const { sendAction } = useGame();
+  const isHost = Boolean(playerId) && gameState.hostId === playerId;
+  const { timerSettings } = gameState;
+
+  const updateSettings = (settings: Partial<RoomSettings>) => {
+    sendAction(ActionType.UPDATE_SETTINGS, { settings });
+  };
+
+  if (!isHost) {
+    return (
+      <div className={cn("bg-white bg-opacity-90 rounded-lg p-4 w-full max-w-md text-sm space-y-1", className)}>
+        <h3 className="text-lg font-medium mb-2">Configurações</h3>
+        <div>Modo: {gameState.mode === GameMode.ONE_VS_ONE ? '1v1' : '2v2'}</div>
+        <div>Regras: {getRuleSet(gameState.ruleVariant).name}</div>
+        <div>Jogo até {gameState.targetScore} pontos • {getSeriesLabel(gameState.series.bestOf)}</div>
+        <div>{gameState.tournament ? 'Partida de torneio' : gameState.ranked ? 'Ranqueada' : 'Casual'}</div>
+        <div>Tempo para jogar uma carta: {getTimerLabel(timerSettings.cardPlaySeconds)}</div>
+        <div>Tempo para responder apostas: {getTimerLabel(timerSettings.betResponseSeconds)}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("bg-white bg-opacity-90 rounded-lg p-4 w-full max-w-md space-y-3", className)}>
+      <h3 className="text-lg font-medium">Configurações</h3>
+      <div className="space-y-2">
+        <Label>Modo de Jogo</Label>
+        <RadioGroup
+          value={gameState.mode}
+          onValueChange={(value) => updateSettings({ mode: value as GameMode })}
+          className="flex space-x-4"
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem
+              value={GameMode.ONE_VS_ONE}
+              id="settings-mode1v1"
+              disabled={gameState.players.length > 2}
+            />
+            <Label htmlFor="settings-mode1v1">1v1</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value={GameMode.TWO_VS_TWO} id="settings-mode2v2" />
+            <Label htmlFor="settings-mode2v2">2v2</Label>
+          </div>
+        </RadioGroup>
+      </div>
+      <div className="space-y-2">
+        <Label>Regras</Label>
+        <RadioGroup
+          value={gameState.ruleVariant}
+          onValueChange={(value) => updateSettings({ ruleVariant: value as RuleVariant })}
+          className="grid grid-cols-2 gap-2"
+        >
+          {Object.values(RULE_SETS).map(rules => (
+            <div key={rules.variant} className="flex items-center space-x-2">
+              <RadioGroupItem value={rules.variant} id={`settings-rules-${rules.variant}`} />
+              <Label htmlFor={`settings-rules-${rules.variant}`}>{rules.name}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+      <div className="space-y-2">
+        <Label>Pontos para vencer</Label>
+        <RadioGroup
+          value={String(gameState.targetScore)}
+          onValueChange={(value) => updateSettings({ targetScore: Number(value) })}
+          className="flex flex-wrap gap-4"
+        >
+          {TARGET_SCORE_OPTIONS.map(score => (
+            <div key={score} className="flex items-center space-x-2">
+              <RadioGroupItem value={String(score)} id={`settings-target-${score}`} />
+              <Label htmlFor={`settings-target-${score}`}>{score}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+      <div className="space-y-2">
+        <Label>Partida</Label>
+        <RadioGroup
+          value={String(gameState.series.bestOf)}
+          onValueChange={(value) => updateSettings({ bestOf: Number(value) })}
+          className="flex flex-wrap gap-4"
+        >
+          {SERIES_LENGTH_OPTIONS.map(games => (
+            <div key={games} className="flex items-center space-x-2">
+              <RadioGroupItem value={String(games)} id={`settings-series-${games}`} />
+              <Label htmlFor={`settings-series-${games}`}>{getSeriesLabel(games)}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+      <div className="space-y-2">
+        <Label>Tipo de partida</Label>
+        <RadioGroup
+          value={gameState.ranked ? 'ranked' : 'casual'}
+          onValueChange={(value) => updateSettings({ ranked: value === 'ranked' })}
+          className="flex space-x-4"
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="casual" id="settings-casual" />
+            <Label htmlFor="settings-casual">Casual</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem
+              value="ranked"
+              id="settings-ranked"
+              disabled={gameState.players.some(p => p.isBot)}
+            />
+            <Label htmlFor="settings-ranked">Ranqueada</Label>
+          </div>
+        </RadioGroup>
+      </div>
+      <div className="space-y-2">
+        <Label>Tempo para jogar uma carta</Label>
+        <RadioGroup
+          value={String(timerSettings.cardPlaySeconds)}
+          onValueChange={(value) => updateSettings({
+            timerSettings: { ...timerSettings, cardPlaySeconds: Number(value) }
+          })}
+          className="flex flex-wrap gap-4"
+        >
+          {CARD_TIMER_OPTIONS.map(seconds => (
+            <div key={seconds} className="flex items-center space-x-2">
+              <RadioGroupItem value={String(seconds)} id={`settings-card-timer-${seconds}`} />
+              <Label htmlFor={`settings-card-timer-${seconds}`}>{getTimerLabel(seconds)}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+      <div className="space-y-2">
+        <Label>Tempo para responder apostas</Label>
+        <RadioGroup
+          value={String(timerSettings.betResponseSeconds)}
+          onValueChange={(value) => updateSettings({
+            timerSettings: { ...timerSettings, betResponseSeconds: Number(value) }
+          })}
+          className="flex flex-wrap gap-4"
+        >
+          {BET_TIMER_OPTIONS.map(seconds => (
+            <div key={seconds} className="flex items-center space-x-2">
+              <RadioGroupItem value={String(seconds)} id={`settings-bet-timer-${seconds}`} />
+              <Label htmlFor={`settings-bet-timer-${seconds}`}>{getTimerLabel(seconds)}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+    </div>
+  );
+};
+
+export default RoomSettingsPanel;
@@ -0,0 +1,155 @@
+import { ActionType, GameState } from '@shared/types';
+import { useGame } from '@/context/GameContext';
+import { getSeatCount, getSeatTeam, getRelativeSeat } from '@/utils/gameUtils';
+import { Button } from './ui/button';
+import { Crown, Lock, LockOpen } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SeatingChartProps {
+  gameState: GameState;
+  playerId: string | null;
+  className?: string;
+}
+
+// Where each seat is drawn, by its position counted from the viewer's seat
+const SEAT_CELLS: Record<number, string[]> = {
+  2: ['col-start-2 row-start-3', 'col-start-2 row-start-1'],
+  4: ['col-start-2 row-start-3', 'col-start-3 row-start-2', 'col-start-2 row-start-1', 'col-start-1 row-start-2']
+};
+
+// The table before the game starts: players pick their seats (and with them their team)
+const SeatingChart: React.FC<SeatingChartProps> = ({ gameState, playerId, className }) => {
+  const { sendAction } = useGame();
+  const seatCount = getSeatCount(gameState.mode);
+  const currentPlayer = gameState.players.find(p => p.id === playerId);
+  const isHost = Boolean(playerId) && gameState.hostId === playerId;
+  const canMove = Boolean(currentPlayer) && !gameState.seatsLocked && !gameState.tournament;
+  const { seatSwap } = gameState;
+  const getName = (id: string) => gameState.players.find(p => p.id === id)?.username ?? 'Jogador';
+
+  return (
+    <div className={cn("bg-white bg-opacity-90 rounded-lg p-4 w-full max-w-md", className)}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-medium">Lugares</h3>
+        {isHost ? (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => sendAction(ActionType.LOCK_SEATS, { locked: !gameState.seatsLocked })}
+          >
+            {gameState.seatsLocked
+              ? <><LockOpen className="mr-1 h-4 w-4" /> Destravar lugares</>
+              : <><Lock className="mr-1 h-4 w-4" /> Travar lugares</>}
+          </Button>
+        ) : gameState.seatsLocked && (
+          <span className="flex items-center gap-1 text-sm text-gray-600">
+            <Lock className="h-4 w-4" /> Lugares travados
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 grid-rows-3 gap-2 items-center">
+        <div className="col-start-2 row-start-2 text-center text-xs text-gray-500">
+          {seatCount === 4 ? 'Parceiros sentam frente a frente' : 'Mesa'}
+        </div>
+
+        {Array.from({ length: seatCount }, (_, seat) => {
+          const occupant = gameState.players.find(p => p.seat === seat);
+          const team = getSeatTeam(seat);
+          const isMine = occupant?.id === playerId;
+          const cell = SEAT_CELLS[seatCount][getRelativeSeat(seat, currentPlayer?.seat, seatCount)];
+
+          return (
+            <div
+              key={seat}
+              className={cn(
+                "rounded-md border-2 p-2 text-center text-sm min-h-[72px] flex flex-col justify-center gap-1",
+                team === 'A' ? 'border-blue-500 bg-blue-50' : 'border-red-500 bg-red-50',
+                isMine && 'ring-2 ring-yellow-400',
+                cell
+              )}
+            >
+              <div className="text-xs text-gray-500">Time {team}</div>
+              {occupant ? (
+                <>
+                  <div className={cn("flex items-center justify-center gap-1 truncate", isMine && "font-bold")}>
+                    {occupant.id === gameState.hostId && (
+                      <Crown className="h-3 w-3 text-yellow-600" aria-label="Anfitrião" />
+                    )}
+                    {occupant.username}{occupant.isReady && ' ✓'}
+                  </div>
+                  {canMove && !isMine && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 text-xs"
+                      disabled={seatSwap?.fromPlayerId === playerId}
+                      onClick={() => sendAction(ActionType.CHOOSE_SEAT, { seat })}
+                    >
+                      Trocar
+                    </Button>
+                  )}
+                  {isHost && !isMine && (
+                    <div className="flex justify-center gap-1">
+                      {!occupant.isBot && !occupant.isDisconnected && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-1 text-xs"
+                          onClick={() => sendAction(ActionType.TRANSFER_HOST, { playerId: occupant.id })}
+                        >
+                          Tornar anfitrião
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-1 text-xs text-red-600"
+                        onClick={() => sendAction(ActionType.KICK_PLAYER, { playerId: occupant.id })}
+                      >
+                        Remover
+                      </Button>
+                    </div>
+                  )}
+                </>
+              ) : canMove ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 text-xs"
+                  onClick={() => sendAction(ActionType.CHOOSE_SEAT, { seat })}
+                >
+                  Sentar aqui
+                </Button>
+              ) : (
+                <div className="text-gray-400 italic">Lugar vazio</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Trades of seats wait for the other player's answer */}
+      {seatSwap?.toPlayerId === playerId && (
+        <div className="mt-3 flex items-center justify-between gap-2 text-sm">
+          <span>{getName(seatSwap.fromPlayerId)} quer trocar de lugar com você</span>
+          <div className="flex gap-1">
+            <Button size="sm" onClick={() => sendAction(ActionType.ANSWER_SEAT_SWAP, { accept: true })}>
+              Aceitar
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => sendAction(ActionType.ANSWER_SEAT_SWAP, { accept: false })}>
+              Recusar
+            </Button>
+          </div>
+        </div>
+      )}
+      {seatSwap?.fromPlayerId === playerId && (
+        <div className="mt-3 text-sm text-gray-600">
+          Aguardando {getName(seatSwap.toPlayerId)} aceitar a troca...
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeatingChart;
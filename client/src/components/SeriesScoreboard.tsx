@@ -0,0 +1,40 @@
+import { SeriesState } from '@shared/types';
+import { getSeriesWins } from '@/utils/gameUtils';
+import { getSeriesLabel } from './Lobby';
+import { cn } from '@/lib/utils';
+
+interface SeriesScoreboardProps {
+  series: SeriesState;
+  className?: string;
+}
+
+// Games won by each team in a partida played in quedas (nothing to show for a single game)
+const SeriesScoreboard: React.FC<SeriesScoreboardProps> = ({ series, className }) => {
+  if (series.bestOf === 1) return null;
+  const wins = getSeriesWins(series);
+
+  return (
+    <div className={cn("bg-amber-900 text-white rounded-lg px-3 py-2 text-sm", className)}>
+      <div className="flex items-center justify-between gap-4">
+        <span className="font-medium">{getSeriesLabel(series.bestOf)}</span>
+        <span>
+          {series.winner ? `Time ${series.winner} venceu a partida` : `Queda ${series.gameNumber}`}
+        </span>
+      </div>
+      <div className="flex items-center justify-center gap-3 text-lg font-bold">
+        <span className="text-blue-300">Time A {wins.A}</span>
+        <span>x</span>
+        <span className="text-red-300">{wins.B} Time B</span>
+      </div>
+      {series.games.length > 0 && (
+        <div className="flex justify-center gap-2 text-xs text-amber-200">
+          {series.games.map((game, index) => (
+            <span key={index}>{game.teamAScore}-{game.teamBScore}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeriesScoreboard;
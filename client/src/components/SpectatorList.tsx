@@ -0,0 +1,37 @@
+import { Spectator } from '@shared/types';
+import { Eye } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SpectatorListProps {
+  spectators: Spectator[];
+  currentPlayerId: string | null;
+  className?: string;
+}
+
+// Accounts watching the game
+const SpectatorList: React.FC<SpectatorListProps> = ({ spectators, currentPlayerId, className }) => {
+  if (spectators.length === 0) return null;
+
+  return (
+    <div className={cn("text-white text-sm", className)}>
+      <div className="flex items-center gap-1 font-medium mb-1">
+        <Eye className="h-4 w-4" /> Assistindo ({spectators.length})
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {spectators.map(spectator => (
+          <span
+            key={spectator.id}
+            className={cn(
+              "px-2 py-0.5 rounded-full bg-black bg-opacity-30",
+              spectator.id === currentPlayerId && "font-bold"
+            )}
+          >
+            {spectator.username}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SpectatorList;
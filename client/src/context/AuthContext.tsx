@@ -0,0 +1,80 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AuthUser } from '@shared/types';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { toast } from 'sonner';
+
+const ME_QUERY_KEY = ['/api/auth/me'];
+
+// Feedback shown when a login or registration fails, by HTTP status
+const AUTH_ERROR_MESSAGES: Record<number, string> = {
+  400: 'Verifique o nome de usuário e a senha',
+  401: 'Usuário ou senha inválidos',
+  409: 'Esse nome de usuário já está em uso'
+};
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<boolean>;
+  register: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType>({
+  user: null,
+  isLoading: true,
+  login: async () => false,
+  register: async () => false,
+  logout: async () => {}
+});
+
+export const useAuth = () => useContext(AuthContext);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: 'returnNull' })
+  });
+
+  // Send the credentials to a login or registration route and keep the account it returns
+  const authenticate = async (url: string, username: string, password: string): Promise<boolean> => {
+    try {
+      const res = await apiRequest('POST', url, { username, password });
+      queryClient.setQueryData(ME_QUERY_KEY, await res.json());
+      return true;
+    } catch (error) {
+      // apiRequest errors look like "409: {message}"
+      const status = parseInt(String((error as Error).message), 10);
+      toast.error(AUTH_ERROR_MESSAGES[status] ?? 'Não foi possível entrar. Tente novamente.');
+      return false;
+    }
+  };
+
+  const login = (username: string, password: string) =>
+    authenticate('/api/auth/login', username, password);
+
+  const register = (username: string, password: string) =>
+    authenticate('/api/auth/register', username, password);
+
+  const logout = async () => {
+    try {
+      await apiRequest('POST', '/api/auth/logout');
+    } finally {
+      // Forget the saved seat, it belongs to the account that left
+      localStorage.removeItem('truco_game_id');
+      localStorage.removeItem('truco_seat_token');
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+    }
+  };
+
+  return (
+    <AuthContext.Provider value={{ user: user ?? null, isLoading, login, register, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -1,13 +1,59 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { GameState, ActionType, RoundState, Card, ChatMessage } from '@shared/types';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { 
+  GameState, 
+  ActionType, 
+  RoundState, 
+  Card, 
+  ChatMessage, 
+  ActionResult, 
+  RejectionReason,
+  DealCommitment,
+  RoomInvite 
+} from '@shared/types';
+import { ObservedDeal } from '@shared/fairness';
+import { createSeed } from '@shared/random';
 import { useSocket } from './SocketContext';
 import { toast } from 'sonner';
 import { useAudio } from '@/lib/stores/useAudio';
 
+// Feedback shown when the server rejects an action
+export const REJECTION_MESSAGES: Record<RejectionReason, string> = {
+  [RejectionReason.GAME_NOT_FOUND]: 'Jogo não encontrado',
+  [RejectionReason.NOT_IN_GAME]: 'Você não está neste jogo',
+  [RejectionReason.NOT_YOUR_TURN]: 'Não é a sua vez',
+  [RejectionReason.CARD_NOT_IN_HAND]: 'Essa carta não está na sua mão',
+  [RejectionReason.BET_PENDING]: 'Há uma aposta aguardando resposta',
+  [RejectionReason.NO_PENDING_BET]: 'Não há aposta para responder',
+  [RejectionReason.BET_LIMIT_REACHED]: 'A rodada já está no valor máximo',
+  [RejectionReason.WRONG_TEAM]: 'Essa ação não cabe ao seu time',
+  [RejectionReason.INVALID_PHASE]: 'Essa ação não é permitida agora',
+  [RejectionReason.INVALID_REQUEST]: 'Ação inválida',
+  [RejectionReason.INVALID_SEAT_TOKEN]: 'Não foi possível recuperar seu lugar neste jogo',
+  [RejectionReason.INVITE_REQUIRED]: 'Esta sala é privada, entre pelo link de convite',
+  [RejectionReason.WRONG_PASSWORD]: 'Senha da sala incorreta',
+  [RejectionReason.SEATS_LOCKED]: 'O anfitrião travou os lugares',
+  [RejectionReason.NOT_HOST]: 'Só o anfitrião da sala pode fazer isso',
+  [RejectionReason.KICKED]: 'Você foi removido desta sala pelo anfitrião',
+  [RejectionReason.RANKED_HUMANS_ONLY]: 'Partidas ranqueadas são só entre jogadores, sem bots',
+  [RejectionReason.ALREADY_QUEUED]: 'Você ou seu parceiro já está procurando partida',
+  [RejectionReason.PARTNER_UNAVAILABLE]: 'Esse jogador não está online para formar dupla',
+  [RejectionReason.TOURNAMENT_ROOM]: 'Salas de torneio são só dos jogadores da partida e não podem ser alteradas'
+};
+
+// The cards this player saw dealt in a round, checked against the deck revealed after it
+export interface DealtCards extends Omit<ObservedDeal, 'ruleVariant'> {
+  commitment: DealCommitment;
+}
+
 interface GameContextProps {
   gameState: GameState | null;
   chatMessages: ChatMessage[];
+  turnDeadline: number | null; // Local time when the current turn timer runs out
+  dealtCards: DealtCards | null;
+  roomInvite: RoomInvite | null; // Invite of the room we are seated in
+  sendAction: (action: string, data?: Record<string, unknown>) => Promise<boolean>;
   playCard: (card: Card) => void;
+  playBlindCard: (cardIndex: number) => void;
   requestTruco: () => void;
   acceptTruco: () => void;
   declineTruco: () => void;
@@ -17,7 +63,12 @@ interface GameContextProps {
 const GameContext = createContext<GameContextProps>({
   gameState: null,
   chatMessages: [],
+  turnDeadline: null,
+  dealtCards: null,
+  roomInvite: null,
+  sendAction: async () => false,
   playCard: () => {},
+  playBlindCard: () => {},
   requestTruco: () => {},
   acceptTruco: () => {},
   declineTruco: () => {},
@@ -33,7 +84,11 @@ interface GameProviderProps {
 export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-  const { socket, clearGameData } = useSocket();
+  const [turnDeadline, setTurnDeadline] = useState<number | null>(null);
+  const [dealtCards, setDealtCards] = useState<DealtCards | null>(null);
+  const [roomInvite, setRoomInvite] = useState<RoomInvite | null>(null);
+  const dealNonceRef = useRef<{ seedHash: string; playerId: string; nonce: string } | null>(null); // Last nonce sent for a deal
+  const { socket, playerId, clearGameData } = useSocket();
   const { playHit, playSuccess } = useAudio();
   
   // Listen for game updates
@@ -44,6 +99,41 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     socket.on(ActionType.GAME_UPDATE, (data: GameState) => {
       setGameState(data);
       
+      // The server sends the time left, so the countdown runs on the local clock
+      setTurnDeadline(data.turnTimer ? Date.now() + data.turnTimer.remainingMs : null);
+      
+      // Remember the cards of a new deal (the hand only if it's still complete),
+      // and the nonce we sent for it
+      const sentNonce = dealNonceRef.current;
+      setDealtCards(prev => {
+        const commitment = data.dealCommitment;
+        if (!commitment || commitment.roundNumber !== data.roundNumber || prev?.commitment.hash === commitment.hash) {
+          return prev;
+        }
+        
+        const seat = data.players.findIndex(p => p.id === playerId);
+        const hand = seat !== -1 && !data.isIronHand && data.players[seat].hand.length === 3
+          ? data.players[seat].hand
+          : undefined;
+        return {
+          commitment,
+          seat: seat !== -1 ? seat : undefined,
+          hand,
+          vira: data.vira,
+          nextSeedHash: sentNonce?.seedHash,
+          playerId: sentNonce?.playerId,
+          nonce: sentNonce?.nonce
+        };
+      });
+      
+      // Answer the server seed committed for the next deal with a nonce of our own
+      const seated = data.players.some(p => p.id === playerId);
+      if (playerId && seated && data.nextSeedHash && data.nextSeedHash !== sentNonce?.seedHash) {
+        const nonce = createSeed();
+        dealNonceRef.current = { seedHash: data.nextSeedHash, playerId, nonce };
+        socket.emit(ActionType.SEND_DEAL_NONCE, { gameId: data.id, nonce });
+      }
+      
       // Play sounds based on game state changes
       if (data.roundState === RoundState.ROUND_OVER) {
         playSuccess();
@@ -56,37 +146,76 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       playHit();
     });
     
+    // Invite of the room, sent when we take a seat
+    socket.on('room_invite', (invite: RoomInvite) => {
+      setRoomInvite(invite);
+    });
+    
+    // Removed from the room by its host: the seat is gone
+    socket.on('kicked', () => {
+      clearGameData();
+      setGameState(null);
+      setChatMessages([]);
+      setDealtCards(null);
+      setRoomInvite(null);
+      toast.error(REJECTION_MESSAGES[RejectionReason.KICKED]);
+    });
+    
     // Error handling
-    socket.on(ActionType.ERROR, (error: { message: string }) => {
-      toast.error(error.message);
+    socket.on(ActionType.ERROR, (error: { message: string, reason?: RejectionReason }) => {
+      toast.error(error.reason ? REJECTION_MESSAGES[error.reason] : error.message);
     });
     
     return () => {
       socket.off(ActionType.GAME_UPDATE);
       socket.off('chat_message');
+      socket.off('room_invite');
+      socket.off('kicked');
       socket.off(ActionType.ERROR);
     };
-  }, [socket, playHit, playSuccess]);
+  }, [socket, playerId, playHit, playSuccess]);
+  
+  // Send a game action; the server answers with an acknowledgement telling if it was accepted
+  const sendAction = (action: string, data: Record<string, unknown> = {}): Promise<boolean> => {
+    if (!socket || !gameState) return Promise.resolve(false);
+    
+    return new Promise(resolve => {
+      socket.emit(action, { gameId: gameState.id, ...data }, (result: ActionResult) => {
+        if (!result.ok) {
+          toast.error(REJECTION_MESSAGES[result.reason] ?? result.message);
+        }
+        resolve(result.ok);
+      });
+    });
+  };
   
   // Play a card
   const playCard = (card: Card) => {
     if (!socket || !gameState) return;
     
-    socket.emit(ActionType.PLAY_CARD, {
-      gameId: gameState.id,
+    sendAction(ActionType.PLAY_CARD, {
       cardId: card.id
     });
     
     playHit();
   };
   
+  // Play a face-down card by its position in the hand (mão de ferro)
+  const playBlindCard = (cardIndex: number) => {
+    if (!socket || !gameState) return;
+    
+    sendAction(ActionType.PLAY_CARD, {
+      cardIndex
+    });
+    
+    playHit();
+  };
+  
   // Request truco
   const requestTruco = () => {
     if (!socket || !gameState) return;
     
-    socket.emit(ActionType.REQUEST_TRUCO, {
-      gameId: gameState.id
-    });
+    sendAction(ActionType.REQUEST_TRUCO);
     
     playSuccess();
   };
@@ -95,9 +224,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   const acceptTruco = () => {
     if (!socket || !gameState) return;
     
-    socket.emit(ActionType.ACCEPT_TRUCO, {
-      gameId: gameState.id
-    });
+    sendAction(ActionType.ACCEPT_TRUCO);
     
     playSuccess();
   };
@@ -106,9 +233,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   const declineTruco = () => {
     if (!socket || !gameState) return;
     
-    socket.emit(ActionType.DECLINE_TRUCO, {
-      gameId: gameState.id
-    });
+    sendAction(ActionType.DECLINE_TRUCO);
     
     playHit();
   };
@@ -121,12 +246,16 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       gameId: gameState.id
     });
     
+    // Clear reconnection data (spectators have no seat to come back to)
+    if (gameState.players.some(p => p.id === playerId)) {
+      clearGameData();
+    }
+    
     // Clear game state
     setGameState(null);
     setChatMessages([]);
-    
-    // Clear reconnection data
-    clearGameData();
+    setDealtCards(null);
+    setRoomInvite(null);
     
     toast.success('Você saiu do jogo');
   };
@@ -136,7 +265,12 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       value={{
         gameState,
         chatMessages,
+        turnDeadline,
+        dealtCards,
+        roomInvite,
+        sendAction,
         playCard,
+        playBlindCard,
         requestTruco,
         acceptTruco,
         declineTruco,
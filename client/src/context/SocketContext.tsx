@@ -1,18 +1,34 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { toast } from 'sonner';
+import { useAuth } from './AuthContext';
+import { ActionType, RejectionReason } from '@shared/types';
+
+// Where the last game joined and the token for its seat are kept
+const GAME_ID_KEY = 'truco_game_id';
+const SEAT_TOKEN_KEY = 'truco_seat_token';
+
+// The saved seat token, if it belongs to the given game
+const getSeatToken = (gameId: string): string | undefined =>
+  localStorage.getItem(GAME_ID_KEY) === gameId 
+    ? localStorage.getItem(SEAT_TOKEN_KEY) ?? undefined 
+    : undefined;
 
 interface SocketContextType {
   socket: Socket | null;
   isConnected: boolean;
-  reconnectToGame: (username: string, gameId: string) => void;
+  playerId: string | null; // Player ID of the logged in account
+  reconnectToGame: (gameId: string) => void;
+  getSeatToken: (gameId: string) => string | undefined; // Token of our seat in a game, sent to take it back
   clearGameData: () => void; // Add function to clear saved game data
 }
 
 const SocketContext = createContext<SocketContextType>({
   socket: null,
   isConnected: false,
+  playerId: null,
   reconnectToGame: () => {}, // No-op initial implementation
+  getSeatToken: () => undefined,
   clearGameData: () => {}    // No-op initial implementation
 });
 
@@ -25,35 +41,28 @@ interface SocketProviderProps {
 export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  
-  // Initialize from localStorage if available
-  const [lastGameId, setLastGameId] = useState<string | null>(
-    localStorage.getItem('truco_game_id') || null
-  );
-  const [lastUsername, setLastUsername] = useState<string | null>(
-    localStorage.getItem('truco_username') || null
-  );
+  const { user } = useAuth();
+  const userId = user?.id;
   
   // Function to try to reconnect to a game
-  const reconnectToGame = (username: string, gameId: string) => {
+  const reconnectToGame = (gameId: string) => {
     if (!socket) return;
     
-    // Save these details in case we need to reconnect later
-    setLastGameId(gameId);
-    setLastUsername(username);
-    
-    // Also save to localStorage
-    localStorage.setItem('truco_game_id', gameId);
-    localStorage.setItem('truco_username', username);
-    
-    // Try to reconnect to the game
-    socket.emit('reconnect_game', { username, gameId });
+    // Try to reconnect to the game, proving the seat is ours
+    socket.emit('reconnect_game', { gameId, seatToken: getSeatToken(gameId) });
     
     toast.info('Tentando reconectar ao jogo...');
-    console.log(`Trying to reconnect to game ${gameId} as ${username}`);
+    console.log(`Trying to reconnect to game ${gameId}`);
   };
   
   useEffect(() => {
+    // The server only accepts sockets from logged in accounts (the session cookie is sent with the handshake)
+    if (!userId) {
+      setSocket(null);
+      setIsConnected(false);
+      return;
+    }
+    
     // Initialize socket connection with reconnection options
     const socketInstance = io({
       reconnection: true,
@@ -70,12 +79,10 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       console.log('Socket connected with ID:', socketInstance.id);
       
       // If we have saved game info, try to reconnect automatically
-      if (lastGameId && lastUsername) {
-        socketInstance.emit('reconnect_game', { 
-          username: lastUsername, 
-          gameId: lastGameId 
-        });
-        console.log(`Auto-reconnecting to game ${lastGameId} as ${lastUsername}`);
+      const lastGameId = localStorage.getItem(GAME_ID_KEY);
+      if (lastGameId) {
+        socketInstance.emit('reconnect_game', { gameId: lastGameId, seatToken: getSeatToken(lastGameId) });
+        console.log(`Auto-reconnecting to game ${lastGameId}`);
       }
     });
     
@@ -119,8 +126,21 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       toast.error('Erro de conexão com o servidor. Tentando novamente...');
     });
     
+    // The server sends a seat token whenever we take a seat
+    socketInstance.on('seat_token', (data: { gameId: string, token: string }) => {
+      localStorage.setItem(GAME_ID_KEY, data.gameId);
+      localStorage.setItem(SEAT_TOKEN_KEY, data.token);
+    });
+    
     // Listen for error messages from server
-    socketInstance.on('error', (data: { message: string }) => {
+    socketInstance.on(ActionType.ERROR, (data: { message: string, reason?: RejectionReason }) => {
+      // A stale seat token can't get the seat back, so stop trying
+      if (data.reason === RejectionReason.INVALID_SEAT_TOKEN) {
+        localStorage.removeItem(GAME_ID_KEY);
+        localStorage.removeItem(SEAT_TOKEN_KEY);
+        return;
+      }
+      
       toast.error(data.message);
       console.error('Server error:', data.message);
     });
@@ -131,19 +151,17 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     return () => {
       socketInstance.disconnect();
     };
-  }, [lastGameId, lastUsername]);
+  }, [userId]);
   
   // Function to clear saved game data (used when leaving a game)
   const clearGameData = () => {
-    localStorage.removeItem('truco_game_id');
-    localStorage.removeItem('truco_username');
-    setLastGameId(null);
-    setLastUsername(null);
+    localStorage.removeItem(GAME_ID_KEY);
+    localStorage.removeItem(SEAT_TOKEN_KEY);
     console.log('Game data cleared');
   };
   
   return (
-    <SocketContext.Provider value={{ socket, isConnected, reconnectToGame, clearGameData }}>
+    <SocketContext.Provider value={{ socket, isConnected, playerId: user?.playerId ?? null, reconnectToGame, getSeatToken, clearGameData }}>
       {children}
     </SocketContext.Provider>
   );
@@ -0,0 +1,119 @@
+import { useState, FormEvent } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/context/AuthContext';
+import { toast } from 'sonner';
+
+const AuthPage = () => {
+  const { user, login, register } = useAuth();
+  const location = useLocation();
+  const [tab, setTab] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Go back to the page that asked for the login
+  const from = (location.state as { from?: string } | null)?.from ?? '/';
+  if (user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!username.trim() || !password) {
+      toast.error('Digite seu nome de usuário e senha');
+      return;
+    }
+
+    if (tab === 'register' && password !== confirmPassword) {
+      toast.error('As senhas não conferem');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const ok = tab === 'login'
+      ? await login(username.trim(), password)
+      : await register(username.trim(), password);
+    setIsSubmitting(false);
+
+    if (ok) {
+      toast.success(tab === 'login' ? 'Bem-vindo de volta!' : 'Conta criada!');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-green-800 flex items-center justify-center p-4">
+      <Helmet>
+        <title>Entrar - Truco Online - DM</title>
+      </Helmet>
+
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Truco Online - DM</span>
+            <div className="text-2xl font-bold text-green-700">DM</div>
+          </CardTitle>
+          <CardDescription>Entre na sua conta para jogar</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={tab} onValueChange={(value) => setTab(value as 'login' | 'register')}>
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Entrar</TabsTrigger>
+              <TabsTrigger value="register">Criar conta</TabsTrigger>
+            </TabsList>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Nome de usuário</Label>
+                <Input
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Digite seu nome"
+                  autoComplete="username"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Senha</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={tab === 'login' ? 'current-password' : 'new-password'}
+                />
+              </div>
+
+              <TabsContent value="register" className="mt-0 space-y-2">
+                <Label htmlFor="confirmPassword">Confirme a senha</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+                <p className="text-xs text-gray-500">
+                  De 3 a 20 letras, números, ".", "-" ou "_". A senha precisa ter pelo menos 6 caracteres.
+                </p>
+              </TabsContent>
+
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {tab === 'login' ? 'Entrar' : 'Criar conta'}
+              </Button>
+            </form>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthPage;
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ActionType, GameState, RoundState } from '@shared/types';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { ActionType, GameState, RoundState, RoomCredentials, RejectionReason } from '@shared/types';
 import { useSocket } from '@/context/SocketContext';
 import { useGame } from '@/context/GameContext';
 import GameTable from '@/components/GameTable';
@@ -8,22 +8,34 @@ import Hand from '@/components/Hand';
 import ChatBox from '@/components/ChatBox';
 import PlayerInfo from '@/components/PlayerInfo';
 import GameControls from '@/components/GameControls';
+import SpectatorList from '@/components/SpectatorList';
+import InvitePanel from '@/components/InvitePanel';
+import SeatingChart from '@/components/SeatingChart';
+import RoomSettingsPanel from '@/components/RoomSettingsPanel';
+import SeriesScoreboard from '@/components/SeriesScoreboard';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
 import { useAudio } from '@/lib/stores/useAudio';
 import { motion } from 'framer-motion';
+import { getRuleSet } from '@shared/ruleSets';
 
-const Game = () => {
+interface GameProps {
+  spectate?: boolean; // Watch the game instead of taking a seat
+}
+
+const Game: React.FC<GameProps> = ({ spectate = false }) => {
   const { gameId } = useParams<{ gameId: string }>();
-  const { socket, isConnected } = useSocket();
-  const { gameState, chatMessages, playCard, leaveGame } = useGame();
+  const { socket, isConnected, playerId, getSeatToken } = useSocket();
+  const { gameState, chatMessages, turnDeadline, roomInvite, playCard, leaveGame } = useGame();
   const navigate = useNavigate();
+  // Invite code or password of a room that isn't public, passed on by the lobby or the invite link
+  const credentials = (useLocation().state as RoomCredentials | null) ?? {};
   const { toggleMute, isMuted } = useAudio();
   const [isLoading, setIsLoading] = useState(true);
   
   // Join game room on component mount
   useEffect(() => {
-    if (!socket || !gameId || !isConnected) return;
+    if (!socket || !gameId || !isConnected || spectate) return;
     
     // Check if we're already in a game
     if (gameState && gameState.id === gameId) {
@@ -32,10 +44,7 @@ const Game = () => {
     }
     
     // Request to join the game
-    socket.emit(ActionType.JOIN_GAME, {
-      gameId,
-      username: localStorage.getItem('trucoUsername') || 'Player'
-    });
+    socket.emit(ActionType.JOIN_GAME, { gameId, seatToken: getSeatToken(gameId), ...credentials });
     
     // Wait for game state
     const handleGameUpdate = (data: GameState) => {
@@ -51,6 +60,48 @@ const Game = () => {
     };
   }, [socket, gameId, isConnected, gameState]);
   
+  // Spectators ask to watch again after every reconnection, the server forgets them with the old socket
+  useEffect(() => {
+    if (!socket || !gameId || !isConnected || !spectate) return;
+    
+    socket.emit(ActionType.WATCH_GAME, { gameId, ...credentials });
+    
+    const handleGameUpdate = (data: GameState) => {
+      if (data.id === gameId) {
+        setIsLoading(false);
+      }
+    };
+    
+    socket.on(ActionType.GAME_UPDATE, handleGameUpdate);
+    
+    return () => {
+      socket.off(ActionType.GAME_UPDATE, handleGameUpdate);
+    };
+  }, [socket, gameId, isConnected, spectate]);
+  
+  // Rooms we aren't allowed into, or were removed from, send us back to the lobby (the game context shows why)
+  useEffect(() => {
+    if (!socket) return;
+    
+    const handleError = (error: { reason?: RejectionReason }) => {
+      if (
+        error.reason === RejectionReason.INVITE_REQUIRED || 
+        error.reason === RejectionReason.WRONG_PASSWORD || 
+        error.reason === RejectionReason.KICKED
+      ) {
+        navigate('/');
+      }
+    };
+    const handleKicked = () => navigate('/');
+    
+    socket.on(ActionType.ERROR, handleError);
+    socket.on('kicked', handleKicked);
+    return () => {
+      socket.off(ActionType.ERROR, handleError);
+      socket.off('kicked', handleKicked);
+    };
+  }, [socket, navigate]);
+  
   // Handle game exit
   const handleLeaveGame = () => {
     leaveGame();
@@ -76,8 +127,9 @@ const Game = () => {
     );
   }
   
-  // Find current player
-  const currentPlayer = socket ? gameState.players.find(p => p.id === socket.id) : null;
+  // Find current player (spectators have no seat)
+  const currentPlayer = gameState.players.find(p => p.id === playerId) ?? null;
+  const isSpectator = !currentPlayer;
   
   // Waiting for players screen
   if (gameState.roundState === RoundState.WAITING_FOR_PLAYERS) {
@@ -96,25 +148,27 @@ const Game = () => {
         <div className="flex-1 flex flex-col items-center justify-center gap-8">
           <div className="text-center text-white">
             <h2 className="text-2xl font-bold mb-2">Aguardando Jogadores</h2>
+            <p className="text-sm mb-1">{getRuleSet(gameState.ruleVariant).name}</p>
             <p className="text-lg">
               {gameState.players.length} / {gameState.mode === '1v1' ? '2' : '4'} jogadores conectados
             </p>
           </div>
           
-          <div className="bg-white bg-opacity-90 rounded-lg p-6 w-full max-w-md">
-            <h3 className="text-lg font-medium mb-4">Jogadores:</h3>
-            <div className="space-y-2">
-              {gameState.players.map(player => (
-                <PlayerInfo 
-                  key={player.id}
-                  player={player}
-                  isCurrentPlayer={player.id === socket?.id}
-                />
-              ))}
-            </div>
-          </div>
+          <SeriesScoreboard series={gameState.series} className="w-full max-w-md" />
+          
+          <SeatingChart gameState={gameState} playerId={playerId} />
+          
+          <RoomSettingsPanel gameState={gameState} playerId={playerId} />
+          
+          {roomInvite?.gameId === gameState.id && <InvitePanel invite={roomInvite} />}
           
-          <GameControls />
+          <SpectatorList spectators={gameState.spectators} currentPlayerId={playerId} />
+          
+          {isSpectator ? (
+            <div className="text-white italic">Você está assistindo a esta partida</div>
+          ) : (
+            <GameControls />
+          )}
         </div>
       </div>
     );
@@ -134,7 +188,7 @@ const Game = () => {
           <ArrowLeft className="mr-2 h-4 w-4" /> Sair
         </Button>
         <h1 className="text-xl font-bold text-white">
-          Truco Paulista - DM
+          {getRuleSet(gameState.ruleVariant).name} - DM
         </h1>
         <Button variant="ghost" className="text-white" onClick={toggleMute}>
           {isMuted ? "Ativar Som" : "Silenciar"}
@@ -150,16 +204,28 @@ const Game = () => {
             <PlayerInfo 
               key={player.id}
               player={player}
-              isCurrentPlayer={player.id === socket?.id}
+              isCurrentPlayer={player.id === playerId}
+              timer={
+                turnDeadline && gameState.turnTimer?.playerIds.includes(player.id)
+                  ? { deadline: turnDeadline, durationMs: gameState.turnTimer.durationMs }
+                  : undefined
+              }
             />
           ))}
           
-          {/* Game controls */}
-          <GameControls className="mt-4" />
+          <SpectatorList spectators={gameState.spectators} currentPlayerId={playerId} className="mt-4" />
+          
+          {/* Game controls (spectators only watch) */}
+          {isSpectator ? (
+            <div className="text-white italic mt-4">Você está assistindo a esta partida</div>
+          ) : (
+            <GameControls className="mt-4" />
+          )}
         </div>
         
         {/* Center - Game table and player's hand */}
         <div className="md:w-2/4 flex flex-col flex-1">
+          <SeriesScoreboard series={gameState.series} className="mb-2" />
           <GameTable className="flex-1 mb-4" />
           
           {/* Round state notification */}
@@ -0,0 +1,88 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet-async';
+import { GameMode, GameRoom } from '@shared/types';
+import { getRuleSet } from '@shared/ruleSets';
+import { useSocket } from '@/context/SocketContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Lock } from 'lucide-react';
+
+// Invite link of a room: shows the room and enters it with the invite code
+const JoinRoom = () => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const { playerId } = useSocket();
+  const { data: room, isLoading, error } = useQuery<GameRoom>({
+    queryKey: [`/api/rooms/${code}`],
+    enabled: Boolean(code)
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-green-900">
+        <div className="text-white text-xl">Procurando a sala...</div>
+      </div>
+    );
+  }
+
+  if (error || !room || !code) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-green-900 gap-4">
+        <div className="text-white text-xl">Convite inválido ou sala encerrada</div>
+        <Button onClick={() => navigate('/')}>Voltar para o Lobby</Button>
+      </div>
+    );
+  }
+
+  const isSeated = room.players.includes(playerId ?? '');
+  const canJoin = isSeated || (room.status === 'waiting' && room.players.length < room.maxPlayers);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-green-900 p-4">
+      <Helmet>
+        <title>Convite - Truco Online - DM</title>
+      </Helmet>
+
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {room.visibility !== 'public' && <Lock className="h-5 w-5 text-gray-500" />}
+            {room.name}
+          </CardTitle>
+          <CardDescription>Você foi convidado para esta sala</CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm text-gray-600 space-y-1">
+          <div>{getRuleSet(room.ruleVariant).name} • {room.mode === GameMode.ONE_VS_ONE ? '1v1' : '2v2'}</div>
+          <div>
+            {room.players.length}/{room.maxPlayers} jogadores
+            {room.spectatorCount > 0 && ` • ${room.spectatorCount} assistindo`}
+          </div>
+          {!canJoin && <div>A partida já começou, mas você pode assistir</div>}
+        </CardContent>
+        <CardFooter className="flex gap-2">
+          <Button
+            className="flex-1"
+            disabled={!canJoin}
+            onClick={() => navigate(`/game/${room.id}`, { state: { inviteCode: code } })}
+          >
+            {isSeated ? 'Voltar ao jogo' : 'Entrar'}
+          </Button>
+          {!isSeated && (
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/game/${room.id}/watch`, { state: { inviteCode: code } })}
+            >
+              Assistir
+            </Button>
+          )}
+          <Button variant="ghost" onClick={() => navigate('/')}>
+            Lobby
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default JoinRoom;
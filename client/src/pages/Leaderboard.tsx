@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet-async';
+import { GameMode } from '@shared/types';
+import { LeaderboardEntry, LeaderboardPeriod, LEADERBOARD_PERIODS } from '@shared/ratings';
+import { useSocket } from '@/context/SocketContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface LeaderboardResponse {
+  mode: GameMode;
+  period: LeaderboardPeriod;
+  entries: LeaderboardEntry[];
+}
+
+const PERIOD_NAMES: Record<LeaderboardPeriod, string> = {
+  week: 'Semana',
+  month: 'Mês',
+  all: 'Sempre'
+};
+
+// Best rated players of each mode, among those who played ranked games in the period
+const Leaderboard = () => {
+  const navigate = useNavigate();
+  const { playerId } = useSocket();
+  const [mode, setMode] = useState<GameMode>(GameMode.ONE_VS_ONE);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all');
+  const { data, isLoading, error } = useQuery<LeaderboardResponse>({
+    queryKey: [`/api/leaderboard?mode=${mode}&period=${period}`],
+    staleTime: 0
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col bg-green-900">
+      <Helmet>
+        <title>Ranking - Truco Online - DM</title>
+      </Helmet>
+
+      <div className="flex justify-between items-center p-2 bg-green-800">
+        <Button variant="ghost" className="text-white" onClick={() => navigate('/')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Lobby
+        </Button>
+        <h1 className="text-xl font-bold text-white">Ranking</h1>
+        <div className="w-24" />
+      </div>
+
+      <main className="flex-1 container mx-auto py-8 px-4 max-w-3xl space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Tabs value={mode} onValueChange={(value) => setMode(value as GameMode)}>
+            <TabsList>
+              <TabsTrigger value={GameMode.ONE_VS_ONE}>1v1</TabsTrigger>
+              <TabsTrigger value={GameMode.TWO_VS_TWO}>2v2</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="flex gap-1">
+            {LEADERBOARD_PERIODS.map(value => (
+              <Button
+                key={value}
+                size="sm"
+                variant={period === value ? 'default' : 'outline'}
+                onClick={() => setPeriod(value)}
+              >
+                {PERIOD_NAMES[value]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-4 text-gray-500">Carregando ranking...</div>
+            ) : error || !data ? (
+              <div className="p-4 text-gray-500">Não foi possível carregar o ranking</div>
+            ) : data.entries.length === 0 ? (
+              <div className="p-4 text-gray-500">Nenhuma partida ranqueada neste período</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-500">
+                  <tr>
+                    <th className="p-3">#</th>
+                    <th className="p-3">Jogador</th>
+                    <th className="p-3 text-right">Rating</th>
+                    <th className="p-3 text-right">Vitórias</th>
+                    <th className="p-3 text-right">Variação</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.entries.map(entry => (
+                    <tr
+                      key={entry.playerId}
+                      className={cn("border-t cursor-pointer hover:bg-gray-50", entry.playerId === playerId && "bg-yellow-50")}
+                      onClick={() => navigate(`/players/${entry.username}`)}
+                    >
+                      <td className="p-3 font-bold">{entry.rank}</td>
+                      <td className="p-3">{entry.username}</td>
+                      <td className="p-3 text-right font-bold">{entry.rating}</td>
+                      <td className="p-3 text-right">{entry.gamesWon}/{entry.gamesPlayed}</td>
+                      <td className={cn("p-3 text-right", entry.ratingChange >= 0 ? 'text-green-600' : 'text-red-600')}>
+                        {entry.ratingChange >= 0 ? '+' : ''}{entry.ratingChange}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Leaderboard;
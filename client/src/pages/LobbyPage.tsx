@@ -1,16 +1,21 @@
 import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
 import Lobby from '@/components/Lobby';
 import { GameRoom } from '@shared/types';
 import { useSocket } from '@/context/SocketContext';
+import { useAuth } from '@/context/AuthContext';
 import { motion } from 'framer-motion';
 import { useAudio } from '@/lib/stores/useAudio';
 import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
 
 const LobbyPage = () => {
   const [rooms, setRooms] = useState<GameRoom[]>([]);
   const { socket, isConnected } = useSocket();
+  const { user, logout } = useAuth();
   const { toggleMute, isMuted, backgroundMusic } = useAudio();
+  const navigate = useNavigate();
   
   // When component mounts, fetch rooms and start background music
   useEffect(() => {
@@ -24,6 +29,13 @@ const LobbyPage = () => {
       setRooms(updatedRooms);
     });
     
+    // Invites to play a tournament as someone's duo partner are answered on the tournament page
+    socket.on('tournament_invite', (invite: { tournamentId: string; tournamentName: string; from: string }) => {
+      toast.info(`${invite.from} convidou você para o torneio ${invite.tournamentName}`, {
+        action: { label: 'Ver', onClick: () => navigate(`/tournaments/${invite.tournamentId}`) }
+      });
+    });
+    
     // Play background music
     if (backgroundMusic && !isMuted) {
       backgroundMusic.play().catch(err => console.log('Audio play prevented:', err));
@@ -31,8 +43,9 @@ const LobbyPage = () => {
     
     return () => {
       socket.off('rooms_update');
+      socket.off('tournament_invite');
     };
-  }, [socket, backgroundMusic, isMuted]);
+  }, [socket, backgroundMusic, isMuted, navigate]);
   
   return (
     <motion.div 
@@ -49,9 +62,27 @@ const LobbyPage = () => {
       <header className="bg-green-900 text-white p-4 shadow-md">
         <div className="container mx-auto flex justify-between items-center">
           <h1 className="text-2xl font-bold">Truco Online - DM</h1>
-          <Button variant="outline" className="text-white border-white" onClick={toggleMute}>
-            {isMuted ? "Ativar Som" : "Silenciar"}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button 
+              variant="ghost" 
+              className="text-white text-sm" 
+              onClick={() => navigate(`/players/${user?.username}`)}
+            >
+              {user?.username}
+            </Button>
+            <Button variant="outline" className="text-white border-white" onClick={() => navigate('/leaderboard')}>
+              Ranking
+            </Button>
+            <Button variant="outline" className="text-white border-white" onClick={() => navigate('/tournaments')}>
+              Torneios
+            </Button>
+            <Button variant="outline" className="text-white border-white" onClick={toggleMute}>
+              {isMuted ? "Ativar Som" : "Silenciar"}
+            </Button>
+            <Button variant="outline" className="text-white border-white" onClick={logout}>
+              Sair
+            </Button>
+          </div>
         </div>
       </header>
       
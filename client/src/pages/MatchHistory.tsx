@@ -0,0 +1,104 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet-async';
+import { GameMode } from '@shared/types';
+import { MatchSummary } from '@shared/matchStats';
+import { getRuleSet } from '@shared/ruleSets';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface MatchHistoryResponse {
+  username: string;
+  playerId: string;
+  matches: MatchSummary[];
+}
+
+// Latest games of an account, with the score and what the account did in each one
+const MatchHistory = () => {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useQuery<MatchHistoryResponse>({
+    queryKey: [`/api/users/${username}/history`],
+    enabled: Boolean(username),
+    staleTime: 0
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-green-900">
+        <div className="text-white text-xl">Carregando histórico...</div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-green-900 gap-4">
+        <div className="text-white text-xl">Jogador não encontrado</div>
+        <Button onClick={() => navigate('/')}>Voltar para o Lobby</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-green-900">
+      <Helmet>
+        <title>Histórico de {data.username} - Truco Online - DM</title>
+      </Helmet>
+
+      <div className="flex justify-between items-center p-2 bg-green-800">
+        <Button variant="ghost" className="text-white" onClick={() => navigate(`/players/${data.username}`)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Perfil
+        </Button>
+        <h1 className="text-xl font-bold text-white">Histórico de {data.username}</h1>
+        <div className="w-24" />
+      </div>
+
+      <main className="flex-1 container mx-auto py-8 px-4 space-y-3 max-w-3xl">
+        {data.matches.length === 0 && (
+          <div className="text-white text-center">Nenhum jogo terminado ainda</div>
+        )}
+
+        {data.matches.map(match => {
+          const player = match.players.find(p => p.playerId === data.playerId);
+          const won = player?.team === match.winner;
+          const teamNames = (team: 'A' | 'B') => match.players
+            .filter(p => p.team === team)
+            .map(p => p.username)
+            .join(' e ');
+
+          return (
+            <Card key={match.id} className="overflow-hidden">
+              <div className={cn("h-1", won ? 'bg-green-500' : 'bg-red-500')} />
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="font-medium">
+                    {won ? 'Vitória' : 'Derrota'}{match.ranked && ' (ranqueada)'} • {teamNames('A')} {match.teamAScore} x {match.teamBScore} {teamNames('B')}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {getRuleSet(match.ruleVariant).name} • {match.mode === GameMode.ONE_VS_ONE ? '1v1' : '2v2'} • {match.targetScore} pontos
+                    {match.forfeitTeam && ` • Time ${match.forfeitTeam} perdeu por tempo`}
+                    {' • '}{new Date(match.finishedAt).toLocaleString('pt-BR')}
+                  </div>
+                  {player && (
+                    <div className="text-xs text-gray-500">
+                      {player.roundsWon}/{player.roundsPlayed} mãos vencidas • {player.trucosCalled} truco(s) pedido(s)
+                      {' • '}correu {player.timesRan} vez(es) • {player.manilhasHeld} manilha(s)
+                    </div>
+                  )}
+                </div>
+                <Button size="sm" variant="outline" onClick={() => navigate(`/replay/${match.gameId}`)}>
+                  Ver replay
+                </Button>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </main>
+    </div>
+  );
+};
+
+export default MatchHistory;
@@ -0,0 +1,125 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet-async';
+import { GameMode } from '@shared/types';
+import { PlayerStats } from '@shared/matchStats';
+import { PlayerRating } from '@shared/ratings';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, History } from 'lucide-react';
+
+interface PlayerStatsResponse {
+  username: string;
+  playerId: string;
+  stats: PlayerStats;
+  ratings: PlayerRating[];
+}
+
+const percent = (part: number, whole: number) => whole > 0 ? `${Math.round(part / whole * 100)}%` : '-';
+
+// Statistics of an account over every game it finished
+const Profile = () => {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useQuery<PlayerStatsResponse>({
+    queryKey: [`/api/users/${username}/stats`],
+    enabled: Boolean(username),
+    staleTime: 0
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-green-900">
+        <div className="text-white text-xl">Carregando perfil...</div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-green-900 gap-4">
+        <div className="text-white text-xl">Jogador não encontrado</div>
+        <Button onClick={() => navigate('/')}>Voltar para o Lobby</Button>
+      </div>
+    );
+  }
+
+  const { stats } = data;
+  const entries: [string, string | number][] = [
+    ['Jogos', stats.gamesPlayed],
+    ['Vitórias', `${stats.gamesWon} (${percent(stats.gamesWon, stats.gamesPlayed)})`],
+    ['Mãos jogadas', stats.roundsPlayed],
+    ['Mãos vencidas', `${stats.roundsWon} (${percent(stats.roundsWon, stats.roundsPlayed)})`],
+    ['Trucos pedidos', stats.trucosCalled],
+    ['Trucos aceitos', stats.trucosAccepted],
+    ['Trucos vencidos', stats.trucosWon],
+    ['Vezes que correu', stats.timesRan],
+    ['Manilhas recebidas', stats.manilhasHeld],
+    ['Pontos por mão', stats.averagePointsPerHand.toFixed(2)]
+  ];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-green-900">
+      <Helmet>
+        <title>{data.username} - Truco Online - DM</title>
+      </Helmet>
+
+      <div className="flex justify-between items-center p-2 bg-green-800">
+        <Button variant="ghost" className="text-white" onClick={() => navigate('/')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Lobby
+        </Button>
+        <h1 className="text-xl font-bold text-white">{data.username}</h1>
+        <Button variant="ghost" className="text-white" onClick={() => navigate(`/players/${data.username}/history`)}>
+          <History className="mr-2 h-4 w-4" /> Histórico
+        </Button>
+      </div>
+
+      <main className="flex-1 container mx-auto py-8 px-4 space-y-4">
+        <Card className="max-w-2xl mx-auto">
+          <CardHeader>
+            <CardTitle>Rating</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {data.ratings.length === 0 ? (
+              <p className="text-gray-500">Nenhuma partida ranqueada ainda</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                {data.ratings.map(rating => (
+                  <div key={rating.mode} className="rounded-md bg-gray-50 p-3">
+                    <div className="text-xs text-gray-500">{rating.mode === GameMode.ONE_VS_ONE ? '1v1' : '2v2'}</div>
+                    <div className="text-xl font-bold">{rating.rating}</div>
+                    <div className="text-xs text-gray-500">
+                      {rating.gamesWon}/{rating.gamesPlayed} vitórias
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="max-w-2xl mx-auto">
+          <CardHeader>
+            <CardTitle>Estatísticas</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stats.gamesPlayed === 0 ? (
+              <p className="text-gray-500">Nenhum jogo terminado ainda</p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {entries.map(([label, value]) => (
+                  <div key={label} className="rounded-md bg-gray-50 p-3">
+                    <div className="text-xs text-gray-500">{label}</div>
+                    <div className="text-xl font-bold">{value}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
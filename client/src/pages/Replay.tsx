@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet-async';
+import { GameEvent } from '@shared/types';
+import { getRuleSet } from '@shared/ruleSets';
+import { buildReplay } from '@/utils/replay';
+import GameTable from '@/components/GameTable';
+import Hand from '@/components/Hand';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ArrowLeft, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Pause, Play } from 'lucide-react';
+
+// Time each position stays on screen while the replay plays by itself
+const AUTO_PLAY_INTERVAL_MS = 1200;
+
+interface GameEventsResponse {
+  gameId: string;
+  name: string | null;
+  events: GameEvent[];
+}
+
+const Replay = () => {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useQuery<GameEventsResponse>({
+    queryKey: [`/api/games/${gameId}/events`],
+    enabled: Boolean(gameId)
+  });
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const steps = useMemo(
+    () => (data && gameId ? buildReplay(gameId, data.events) : []),
+    [data, gameId]
+  );
+  const lastIndex = Math.max(steps.length - 1, 0);
+
+  // Advance one position at a time until the end of the game
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (stepIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setStepIndex(index => index + 1), AUTO_PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, stepIndex, lastIndex]);
+
+  const goTo = (index: number) => {
+    setIsPlaying(false);
+    setStepIndex(Math.min(Math.max(index, 0), lastIndex));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-green-900">
+        <div className="text-white text-xl">Carregando replay...</div>
+      </div>
+    );
+  }
+
+  // apiRequest errors look like "403: {message}"
+  if (error || steps.length === 0) {
+    const status = error ? parseInt(String((error as Error).message), 10) : 404;
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-green-900 gap-4">
+        <div className="text-white text-xl">
+          {status === 403 ? 'O replay fica disponível quando o jogo termina' : 'Replay não encontrado'}
+        </div>
+        <Button onClick={() => navigate('/')}>Voltar para o Lobby</Button>
+      </div>
+    );
+  }
+
+  const step = steps[stepIndex];
+  const { state } = step;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-green-900">
+      <Helmet>
+        <title>Replay - Truco Online - DM</title>
+      </Helmet>
+
+      {/* Header */}
+      <div className="flex justify-between items-center p-2 bg-green-800">
+        <Button variant="ghost" className="text-white" onClick={() => navigate('/')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Lobby
+        </Button>
+        <h1 className="text-xl font-bold text-white">
+          Replay{data?.name ? `: ${data.name}` : ''} - {getRuleSet(state.ruleVariant).name}
+        </h1>
+        <div className="text-white text-sm">
+          {stepIndex + 1} / {steps.length}
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row p-2 gap-2 flex-1">
+        {/* Table and every player's hand */}
+        <div className="md:w-3/4 flex flex-col gap-2">
+          <GameTable gameState={state} />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {state.players.map(player => (
+              <div key={player.id} className="bg-black bg-opacity-20 rounded-lg p-2">
+                <div className={player.team === 'A' ? 'text-blue-300' : 'text-red-300'}>
+                  {player.username} (Time {player.team}){player.id === state.dealer ? ' - deu as cartas' : ''}
+                </div>
+                <Hand
+                  cards={player.hand}
+                  playerId={player.id}
+                  gameState={state}
+                  readOnly
+                  className="min-h-[120px] p-2"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Event log and controls */}
+        <div className="md:w-1/4 flex flex-col gap-3 bg-white bg-opacity-90 rounded-lg p-4">
+          <div className="text-lg font-bold">{step.description}</div>
+          <div className="text-sm">
+            Time A {state.teamAScore} x {state.teamBScore} Time B
+          </div>
+
+          <Slider
+            min={0}
+            max={lastIndex}
+            step={1}
+            value={[stepIndex]}
+            onValueChange={([index]) => goTo(index)}
+          />
+
+          <div className="flex justify-center gap-1">
+            <Button size="icon" variant="outline" onClick={() => goTo(0)} title="Início">
+              <ChevronsLeft className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="outline" onClick={() => goTo(stepIndex - 1)} title="Anterior">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              onClick={() => setIsPlaying(playing => !playing)}
+              disabled={stepIndex >= lastIndex}
+              title={isPlaying ? 'Pausar' : 'Reproduzir'}
+            >
+              {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button size="icon" variant="outline" onClick={() => goTo(stepIndex + 1)} title="Próximo">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="outline" onClick={() => goTo(lastIndex)} title="Fim">
+              <ChevronsRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto max-h-96 text-sm space-y-1">
+            {steps.map((entry, index) => (
+              <button
+                key={entry.event.seq}
+                className={`block w-full text-left px-1 rounded ${index === stepIndex ? 'bg-yellow-200 font-medium' : 'hover:bg-gray-100'}`}
+                onClick={() => goTo(index)}
+              >
+                {entry.description}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
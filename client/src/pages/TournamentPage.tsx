@@ -0,0 +1,362 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet-async';
+import { ActionType, ActionResult, GameMode, RejectionReason } from '@shared/types';
+import { getRuleSet } from '@shared/ruleSets';
+import {
+  Tournament,
+  TournamentMatch,
+  BYE,
+  MIN_TOURNAMENT_ENTRANTS,
+  TOURNAMENT_FORMAT_NAMES,
+  TOURNAMENT_STATUS_NAMES,
+  getMatchLabel,
+  getPlayableMatches,
+  getSwissStandings
+} from '@shared/tournaments';
+import { useSocket } from '@/context/SocketContext';
+import { REJECTION_MESSAGES } from '@/context/GameContext';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, Trophy } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+const BRACKET_SECTIONS: { bracket: TournamentMatch['bracket']; title: string }[] = [
+  { bracket: 'winners', title: 'Chave principal' },
+  { bracket: 'losers', title: 'Repescagem' },
+  { bracket: 'final', title: 'Grande final' },
+  { bracket: 'swiss', title: 'Rodadas' }
+];
+
+// apiRequest errors look like "400: {message, reason}"
+function getErrorMessage(error: unknown): string {
+  try {
+    const message = String((error as Error).message);
+    const body = JSON.parse(message.slice(message.indexOf(':') + 1));
+    return REJECTION_MESSAGES[body.reason as RejectionReason] ?? body.message;
+  } catch {
+    return 'Algo deu errado, tente novamente';
+  }
+}
+
+// Matches of a bracket side by side, one column per round
+function groupByRound(matches: TournamentMatch[]): TournamentMatch[][] {
+  const rounds: TournamentMatch[][] = [];
+  matches.forEach(match => {
+    rounds[match.round - 1] = [...(rounds[match.round - 1] ?? []), match];
+  });
+  return rounds.filter(Boolean);
+}
+
+// Bracket of a tournament, with registration before it starts and the matches to play after
+const TournamentPage = () => {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const navigate = useNavigate();
+  const { socket, playerId } = useSocket();
+  const [partner, setPartner] = useState('');
+  const [pending, setPending] = useState(false);
+  const queryKey = [`/api/tournaments/${tournamentId}`];
+  const { data: tournament, isLoading, error } = useQuery<Tournament>({
+    queryKey,
+    staleTime: 0
+  });
+
+  // Follow registrations and results live
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUpdate = (updated: Tournament) => {
+      if (updated.id === tournamentId) {
+        queryClient.setQueryData([`/api/tournaments/${tournamentId}`], updated);
+      }
+    };
+    socket.on('tournament_update', handleUpdate);
+    return () => {
+      socket.off('tournament_update', handleUpdate);
+    };
+  }, [socket, tournamentId]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-green-900">
+        <div className="text-white text-xl">Carregando torneio...</div>
+      </div>
+    );
+  }
+
+  if (error || !tournament) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-green-900 gap-4">
+        <div className="text-white text-xl">Torneio não encontrado</div>
+        <Button onClick={() => navigate('/')}>Voltar para o Lobby</Button>
+      </div>
+    );
+  }
+
+  const isHost = tournament.hostId === playerId;
+  const myEntrant = tournament.entrants.find(e => e.players.some(p => p.playerId === playerId));
+  const receivedInvite = tournament.invites.find(i => i.partner.playerId === playerId);
+  const sentInvite = tournament.invites.find(i => i.inviter.playerId === playerId);
+  const playable = new Set(getPlayableMatches(tournament).map(m => m.id));
+  const getEntrantName = (entrantId: string | null) =>
+    entrantId === BYE ? 'Folga'
+      : tournament.entrants.find(e => e.id === entrantId)?.name ?? 'A definir';
+
+  // Send a tournament action; the answer is the tournament after it
+  const runAction = async (path: string, body?: unknown) => {
+    setPending(true);
+    try {
+      const response = await apiRequest('POST', `/api/tournaments/${tournament.id}${path}`, body);
+      queryClient.setQueryData(queryKey, await response.json());
+    } catch (actionError) {
+      toast.error(getErrorMessage(actionError));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleRegister = () => {
+    const partnerName = tournament.mode === GameMode.TWO_VS_TWO ? partner.trim() : '';
+    if (tournament.mode === GameMode.TWO_VS_TWO && !partnerName) {
+      toast.error('Digite o nome do seu parceiro');
+      return;
+    }
+    runAction('/register', partnerName ? { partner: partnerName } : {});
+  };
+
+  // The room of the match is opened again if it was closed before the match ended
+  const handlePlay = (match: TournamentMatch) => {
+    if (!socket) return;
+
+    socket.emit(
+      ActionType.JOIN_TOURNAMENT_MATCH,
+      { tournamentId: tournament.id, matchId: match.id },
+      (result: ActionResult, gameId?: string) => {
+        if (!result.ok) {
+          toast.error(REJECTION_MESSAGES[result.reason] ?? result.message);
+          return;
+        }
+        navigate(`/game/${gameId}`);
+      }
+    );
+  };
+
+  const renderEntrant = (match: TournamentMatch, entrantId: string | null) => {
+    const isMine = Boolean(myEntrant && entrantId === myEntrant.id);
+    return (
+      <div className={cn(
+        "flex items-center justify-between gap-2 px-2 py-1",
+        match.winner && match.winner === entrantId && "font-bold",
+        match.winner && match.winner !== entrantId && "text-gray-400",
+        isMine && "bg-yellow-50"
+      )}>
+        <span className="truncate">{getEntrantName(entrantId)}</span>
+        {isHost && playable.has(match.id) && entrantId && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-1"
+            title="Dar a vitória"
+            disabled={pending}
+            onClick={() => runAction(`/matches/${match.id}/winner`, { entrantId })}
+          >
+            <Trophy className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderMatch = (match: TournamentMatch) => {
+    const isMine = Boolean(myEntrant && (match.entrantA === myEntrant.id || match.entrantB === myEntrant.id));
+    return (
+      <div key={match.id} className="w-48 border rounded-md bg-white text-sm">
+        <div className="px-2 py-1 text-xs text-gray-500 border-b">{getMatchLabel(tournament, match)}</div>
+        {renderEntrant(match, match.entrantA)}
+        <div className="border-t" />
+        {renderEntrant(match, match.entrantB)}
+        {isMine && playable.has(match.id) && (
+          <div className="p-1 border-t">
+            <Button size="sm" className="w-full" onClick={() => handlePlay(match)}>Jogar</Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const winner = tournament.entrants.find(e => e.id === tournament.winner);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-green-900">
+      <Helmet>
+        <title>{tournament.name} - Truco Online - DM</title>
+      </Helmet>
+
+      <div className="flex justify-between items-center p-2 bg-green-800">
+        <Button variant="ghost" className="text-white" onClick={() => navigate('/tournaments')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Torneios
+        </Button>
+        <h1 className="text-xl font-bold text-white">{tournament.name}</h1>
+        <div className="w-24" />
+      </div>
+
+      <main className="flex-1 container mx-auto py-8 px-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>{TOURNAMENT_STATUS_NAMES[tournament.status]}</CardTitle>
+            <CardDescription>
+              {TOURNAMENT_FORMAT_NAMES[tournament.format]} • {tournament.mode} • {getRuleSet(tournament.ruleVariant).name} • {tournament.targetScore} pontos • Organizado por {tournament.hostName}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {winner && (
+              <div className="flex items-center gap-2 text-lg font-bold text-yellow-600">
+                <Trophy className="h-5 w-5" /> Campeão: {winner.name}
+              </div>
+            )}
+
+            {tournament.status === 'registration' && (
+              <div className="space-y-2">
+                {myEntrant ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <span>Você está inscrito como {myEntrant.name}</span>
+                    <Button variant="outline" disabled={pending} onClick={() => runAction('/unregister')}>
+                      Cancelar inscrição
+                    </Button>
+                  </div>
+                ) : receivedInvite ? (
+                  <div className="flex items-center justify-between gap-2 p-3 border rounded-md bg-yellow-50">
+                    <span className="text-sm">{receivedInvite.inviter.username} convidou você para jogar em dupla</span>
+                    <div className="flex gap-2">
+                      <Button size="sm" disabled={pending} onClick={() => runAction('/invite', { accept: true })}>
+                        Aceitar
+                      </Button>
+                      <Button size="sm" variant="outline" disabled={pending} onClick={() => runAction('/invite', { accept: false })}>
+                        Recusar
+                      </Button>
+                    </div>
+                  </div>
+                ) : sentInvite ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <span>Aguardando {sentInvite.partner.username} aceitar o convite...</span>
+                    <Button variant="outline" disabled={pending} onClick={() => runAction('/unregister')}>
+                      Cancelar
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    {tournament.mode === GameMode.TWO_VS_TWO && (
+                      <Input
+                        value={partner}
+                        onChange={(e) => setPartner(e.target.value)}
+                        placeholder="Nome do seu parceiro"
+                      />
+                    )}
+                    <Button
+                      disabled={pending || tournament.entrants.length >= tournament.maxEntrants}
+                      onClick={handleRegister}
+                    >
+                      {tournament.mode === GameMode.TWO_VS_TWO ? 'Convidar parceiro' : 'Inscrever-se'}
+                    </Button>
+                  </div>
+                )}
+                {isHost && (
+                  <Button
+                    className="w-full"
+                    disabled={pending || tournament.entrants.length < MIN_TOURNAMENT_ENTRANTS}
+                    onClick={() => runAction('/start')}
+                  >
+                    Iniciar torneio
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div>
+              <div className="text-sm font-medium text-gray-500 mb-1">
+                Inscritos ({tournament.entrants.length}/{tournament.maxEntrants})
+              </div>
+              {tournament.entrants.length === 0 ? (
+                <div className="text-sm text-gray-500">Ninguém se inscreveu ainda</div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {tournament.entrants.map(entrant => (
+                    <span
+                      key={entrant.id}
+                      className={cn("px-2 py-1 text-sm border rounded-md", entrant.id === myEntrant?.id && "bg-yellow-50")}
+                    >
+                      {entrant.name}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {BRACKET_SECTIONS.map(({ bracket, title }) => {
+          // Matches with nobody on either side are left out
+          const matches = tournament.matches.filter(m =>
+            m.bracket === bracket && !(m.entrantA === BYE && m.entrantB === BYE));
+          if (matches.length === 0) return null;
+
+          return (
+            <Card key={bracket}>
+              <CardHeader>
+                <CardTitle>{title}</CardTitle>
+              </CardHeader>
+              <CardContent className="flex gap-6 overflow-x-auto">
+                {groupByRound(matches).map((round, index) => (
+                  <div key={index} className="flex flex-col justify-around gap-4">
+                    {round.map(renderMatch)}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        {tournament.format === 'swiss' && tournament.status !== 'registration' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Classificação</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-500">
+                  <tr>
+                    <th className="p-3">#</th>
+                    <th className="p-3">{tournament.mode === GameMode.TWO_VS_TWO ? 'Dupla' : 'Jogador'}</th>
+                    <th className="p-3 text-right">Vitórias</th>
+                    <th className="p-3 text-right">Derrotas</th>
+                    <th className="p-3 text-right" title="Soma das vitórias dos adversários">Buchholz</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {getSwissStandings(tournament).map((standing, index) => (
+                    <tr
+                      key={standing.entrantId}
+                      className={cn("border-t", standing.entrantId === myEntrant?.id && "bg-yellow-50")}
+                    >
+                      <td className="p-3 font-bold">{index + 1}</td>
+                      <td className="p-3">{getEntrantName(standing.entrantId)}</td>
+                      <td className="p-3 text-right font-bold">{standing.wins}</td>
+                      <td className="p-3 text-right">{standing.losses}</td>
+                      <td className="p-3 text-right">{standing.buchholz}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TournamentPage;
@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet-async';
+import { GameMode, RuleVariant } from '@shared/types';
+import { RULE_SETS, getRuleSet } from '@shared/ruleSets';
+import { TARGET_SCORE_OPTIONS } from '@shared/gameRules';
+import {
+  Tournament,
+  TournamentFormat,
+  TOURNAMENT_FORMATS,
+  TOURNAMENT_FORMAT_NAMES,
+  TOURNAMENT_STATUS_NAMES
+} from '@shared/tournaments';
+import { useSocket } from '@/context/SocketContext';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+
+const MAX_ENTRANT_OPTIONS = [4, 8, 16, 32, 64];
+
+// Tournaments being played or open for registration, and the form to create one
+const Tournaments = () => {
+  const navigate = useNavigate();
+  const { socket } = useSocket();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [name, setName] = useState('');
+  const [mode, setMode] = useState<GameMode>(GameMode.ONE_VS_ONE);
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [ruleVariant, setRuleVariant] = useState<RuleVariant>(RuleVariant.PAULISTA);
+  const [targetScore, setTargetScore] = useState(getRuleSet(RuleVariant.PAULISTA).targetScore);
+  const [maxEntrants, setMaxEntrants] = useState(8);
+  const [creating, setCreating] = useState(false);
+  const { data: tournaments, isLoading, error } = useQuery<Tournament[]>({
+    queryKey: ['/api/tournaments'],
+    staleTime: 0
+  });
+
+  // Registrations and results show up as they happen
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUpdate = () => queryClient.invalidateQueries({ queryKey: ['/api/tournaments'] });
+    socket.on('tournament_update', handleUpdate);
+    return () => {
+      socket.off('tournament_update', handleUpdate);
+    };
+  }, [socket]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Digite o nome do torneio');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await apiRequest('POST', '/api/tournaments', {
+        name: name.trim(), mode, format, ruleVariant, targetScore, maxEntrants
+      });
+      const tournament: Tournament = await response.json();
+      navigate(`/tournaments/${tournament.id}`);
+    } catch {
+      toast.error('Não foi possível criar o torneio');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-green-900">
+      <Helmet>
+        <title>Torneios - Truco Online - DM</title>
+      </Helmet>
+
+      <div className="flex justify-between items-center p-2 bg-green-800">
+        <Button variant="ghost" className="text-white" onClick={() => navigate('/')}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Lobby
+        </Button>
+        <h1 className="text-xl font-bold text-white">Torneios</h1>
+        <div className="w-24" />
+      </div>
+
+      <main className="flex-1 container mx-auto py-8 px-4 max-w-3xl space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Novo torneio</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!showCreateForm ? (
+              <Button className="w-full" onClick={() => setShowCreateForm(true)}>
+                Criar Torneio
+              </Button>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tournamentName">Nome do torneio</Label>
+                  <Input
+                    id="tournamentName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Digite o nome do torneio"
+                    maxLength={50}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Modo de Jogo</Label>
+                  <RadioGroup
+                    value={mode}
+                    onValueChange={(value) => setMode(value as GameMode)}
+                    className="flex space-x-4"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value={GameMode.ONE_VS_ONE} id="tournament-1v1" />
+                      <Label htmlFor="tournament-1v1">1v1 (individual)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value={GameMode.TWO_VS_TWO} id="tournament-2v2" />
+                      <Label htmlFor="tournament-2v2">2v2 (duplas)</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Formato</Label>
+                  <RadioGroup
+                    value={format}
+                    onValueChange={(value) => setFormat(value as TournamentFormat)}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {TOURNAMENT_FORMATS.map(value => (
+                      <div key={value} className="flex items-center space-x-2">
+                        <RadioGroupItem value={value} id={`format-${value}`} />
+                        <Label htmlFor={`format-${value}`}>{TOURNAMENT_FORMAT_NAMES[value]}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Regras</Label>
+                  <RadioGroup
+                    value={ruleVariant}
+                    onValueChange={(value) => {
+                      setRuleVariant(value as RuleVariant);
+                      setTargetScore(getRuleSet(value as RuleVariant).targetScore);
+                    }}
+                    className="grid grid-cols-2 gap-2"
+                  >
+                    {Object.values(RULE_SETS).map(rules => (
+                      <div key={rules.variant} className="flex items-center space-x-2">
+                        <RadioGroupItem value={rules.variant} id={`tournament-rules-${rules.variant}`} />
+                        <Label htmlFor={`tournament-rules-${rules.variant}`}>{rules.name}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>Pontos para vencer</Label>
+                  <RadioGroup
+                    value={String(targetScore)}
+                    onValueChange={(value) => setTargetScore(Number(value))}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {TARGET_SCORE_OPTIONS.map(score => (
+                      <div key={score} className="flex items-center space-x-2">
+                        <RadioGroupItem value={String(score)} id={`tournament-target-${score}`} />
+                        <Label htmlFor={`tournament-target-${score}`}>{score}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label>{mode === GameMode.TWO_VS_TWO ? 'Máximo de duplas' : 'Máximo de jogadores'}</Label>
+                  <RadioGroup
+                    value={String(maxEntrants)}
+                    onValueChange={(value) => setMaxEntrants(Number(value))}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {MAX_ENTRANT_OPTIONS.map(count => (
+                      <div key={count} className="flex items-center space-x-2">
+                        <RadioGroupItem value={String(count)} id={`entrants-${count}`} />
+                        <Label htmlFor={`entrants-${count}`}>{count}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" className="flex-1" onClick={() => setShowCreateForm(false)}>
+                    Cancelar
+                  </Button>
+                  <Button className="flex-1" onClick={handleCreate} disabled={creating}>
+                    Criar
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-4 text-gray-500">Carregando torneios...</div>
+            ) : error || !tournaments ? (
+              <div className="p-4 text-gray-500">Não foi possível carregar os torneios</div>
+            ) : tournaments.length === 0 ? (
+              <div className="p-4 text-gray-500">Nenhum torneio ainda. Crie o primeiro!</div>
+            ) : (
+              <ul>
+                {tournaments.map(tournament => (
+                  <li
+                    key={tournament.id}
+                    className="flex items-center justify-between gap-2 p-4 border-t first:border-t-0 cursor-pointer hover:bg-gray-50"
+                    onClick={() => navigate(`/tournaments/${tournament.id}`)}
+                  >
+                    <div>
+                      <div className="font-medium">{tournament.name}</div>
+                      <div className="text-sm text-gray-500">
+                        {TOURNAMENT_FORMAT_NAMES[tournament.format]} • {tournament.mode} • {getRuleSet(tournament.ruleVariant).name} • {tournament.targetScore} pontos
+                      </div>
+                    </div>
+                    <div className="text-right text-sm">
+                      <div className="font-medium">{TOURNAMENT_STATUS_NAMES[tournament.status]}</div>
+                      <div className="text-gray-500">
+                        {tournament.entrants.length}/{tournament.maxEntrants} inscritos
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Tournaments;
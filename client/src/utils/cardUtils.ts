@@ -1,40 +1,47 @@
-import { Card, Suit, CardValue } from '@shared/types';
-import { v4 as uuidv4 } from 'uuid';
-import { getManilhaValue, isManilha } from '@shared/gameRules';
+import { Card, Suit, RuleVariant, DeckScript } from '@shared/types';
+import { getManilhaStrength } from '@shared/gameRules';
+import { createDeck, createShuffledDeck, getCardId, shuffleDeck } from '@shared/deck';
+
+// The deck is built and shuffled in shared code so the hand analysis and deal verification can use it too
+export { createDeck, createShuffledDeck, getCardId, shuffleDeck };
 
 /**
- * Create a full deck of cards for the truco game
+ * Check that a scripted deal only uses cards of the variant's deck, each one once
  */
-export function createDeck(): Card[] {
-  const deck: Card[] = [];
-  const suits = Object.values(Suit);
-  const values = Object.values(CardValue);
-  
-  for (const suit of suits) {
-    for (const value of values) {
-      deck.push({
-        suit,
-        value,
-        id: uuidv4()
-      });
-    }
-  }
+export function isValidDeckScript(
+  script: DeckScript, 
+  variant: RuleVariant, 
+  playerCount: number
+): boolean {
+  const hands = script.hands ?? [];
+  if (!Array.isArray(hands) || hands.length > playerCount) return false;
+  if (hands.some(hand => !Array.isArray(hand) || hand.length > 3)) return false;
   
-  return deck;
+  const ids = [...hands.flat(), ...(script.vira ? [script.vira] : [])];
+  const deckIds = new Set(createDeck(variant).map(card => card.id));
+  return ids.every(id => deckIds.has(id)) && new Set(ids).size === ids.length;
 }
 
 /**
- * Shuffle an array of cards using Fisher-Yates algorithm
+ * Reorder a shuffled deck so dealing it gives the scripted hands and vira.
+ * Hands are dealt three cards at a time from the top and the vira is the bottom card.
  */
-export function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
+export function stackDeck(deck: Card[], script: DeckScript, playerCount: number): Card[] {
+  const scripted = new Set([...(script.hands ?? []).flat(), ...(script.vira ? [script.vira] : [])]);
+  const rest = deck.filter(card => !scripted.has(card.id));
+  const byId = new Map(deck.map(card => [card.id, card]));
+  const stacked: Card[] = [];
   
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  for (let seat = 0; seat < playerCount; seat++) {
+    const hand = (script.hands?.[seat] ?? []).map(id => byId.get(id)!);
+    stacked.push(...hand, ...rest.splice(0, 3 - hand.length));
   }
   
-  return shuffled;
+  stacked.push(...rest);
+  const vira = script.vira && byId.get(script.vira);
+  if (vira) stacked.push(vira);
+  
+  return stacked;
 }
 
 /**
@@ -47,37 +54,19 @@ export function dealCards(deck: Card[], count: number): Card[] {
 /**
  * Update cards in a deck with manilha information
  */
-export function updateManilhas(cards: Card[], vira: Card | null): Card[] {
-  if (!vira) return cards;
-  
-  const manilhaValue = getManilhaValue(vira);
-  
+export function updateManilhas(
+  cards: Card[], 
+  vira: Card | null, 
+  variant: RuleVariant = RuleVariant.PAULISTA
+): Card[] {
   return cards.map(card => {
-    const isCardManilha = card.value === manilhaValue;
-    let rank = 0;
-    
-    if (isCardManilha) {
-      // Ranking manilhas by suit (clubs, hearts, spades, diamonds)
-      switch (card.suit) {
-        case Suit.CLUBS:
-          rank = 4;
-          break;
-        case Suit.HEARTS:
-          rank = 3;
-          break;
-        case Suit.SPADES:
-          rank = 2;
-          break;
-        case Suit.DIAMONDS:
-          rank = 1;
-          break;
-      }
-    }
+    // Manilhas are ranked by suit (or by the variant's fixed order)
+    const rank = getManilhaStrength(card, vira, variant);
     
     return {
       ...card,
-      isManilha: isCardManilha,
-      rank: isCardManilha ? rank : 0
+      isManilha: rank > 0,
+      rank
     };
   });
 }
@@ -0,0 +1,304 @@
+import { GameState, Player, Card, RoundState, EnvidoCall, EnvidoState } from '@shared/types';
+import {
+  hasFlor,
+  getEnvidoPoints,
+  getFlorPoints,
+  getFaltaEnvidoPoints,
+  getNextEnvidoCalls,
+  getAcceptedEnvidoPoints,
+  getDeclinedEnvidoPoints,
+  getInitialRoundValue,
+  hasWinningScore
+} from '@shared/gameRules';
+import { getRuleSet } from '@shared/ruleSets';
+import { closeRound, getTrucoRespondingTeam } from './gameUtils';
+
+/**
+ * Get the players in declaration order, starting with the "mão" (the player after the dealer)
+ */
+export function getPlayersFromMano(gameState: GameState): Player[] {
+  const dealerIndex = gameState.players.findIndex(p => p.id === gameState.dealer);
+  const count = gameState.players.length;
+
+  return gameState.players.map((_, i) => gameState.players[(dealerIndex + 1 + i) % count]);
+}
+
+/**
+ * Get the three cards a player was dealt this round, including a card already
+ * played in the first trick
+ */
+export function getRoundHand(gameState: GameState, playerId: string): Card[] {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) return [];
+
+  const played = gameState.tricks.length === 0
+    ? gameState.currentTrick.filter(pc => pc.playerId === playerId).map(pc => pc.card)
+    : [];
+
+  return [...player.hand, ...played];
+}
+
+/**
+ * Get the team that has to answer the pending envido or flor call
+ */
+export function getEnvidoRespondingTeam(gameState: GameState): 'A' | 'B' | null {
+  if (!gameState.envido?.pending) return null;
+
+  const caller = gameState.players.find(p => p.id === gameState.envido?.calledBy);
+  if (!caller) return null;
+
+  return caller.team === 'A' ? 'B' : 'A';
+}
+
+/**
+ * Check if a player can make an envido or flor call
+ */
+export function canCallEnvido(gameState: GameState, playerId: string, call: EnvidoCall): boolean {
+  if (!getRuleSet(gameState.ruleVariant).hasEnvido) return false;
+
+  // Envido is only played during the first trick
+  if (gameState.roundState !== RoundState.PLAYING || gameState.tricks.length > 0) return false;
+
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) return false;
+
+  // Players who already played their first card can't call
+  if (gameState.currentTrick.some(pc => pc.playerId === playerId)) return false;
+
+  // Flor and contraflor need three cards of the same suit
+  const needsFlor = call === EnvidoCall.FLOR || call === EnvidoCall.CONTRAFLOR;
+  if (needsFlor && !hasFlor(getRoundHand(gameState, playerId))) return false;
+
+  const envido = gameState.envido;
+
+  if (!envido) {
+    if (call === EnvidoCall.CONTRAFLOR) return false;
+
+    // "O envido vem primeiro": the team answering the first truco can call envido instead
+    if (gameState.trucoRequested) {
+      return getTrucoRespondingTeam(gameState) === player.team &&
+        gameState.roundValue === getInitialRoundValue(gameState.ruleVariant);
+    }
+
+    // Otherwise it's called on the player's own turn, before truco is accepted
+    return gameState.currentPlayer === playerId &&
+      gameState.roundValue === getInitialRoundValue(gameState.ruleVariant);
+  }
+
+  // Only the opposing team can answer a pending call
+  if (!envido.pending || getEnvidoRespondingTeam(gameState) !== player.team) return false;
+
+  // A flor always beats a pending envido
+  if (call === EnvidoCall.FLOR) return envido.calls[0] !== EnvidoCall.FLOR;
+
+  return getNextEnvidoCalls(envido.calls).includes(call);
+}
+
+/**
+ * Award envido points to a team; reaching the target score ends the game right away
+ */
+function awardEnvidoPoints(gameState: GameState, envido: EnvidoState): GameState {
+  const { winner, points } = envido;
+  const resolvedState = { ...gameState, envido };
+  if (!winner) return resolvedState;
+
+  const teamAScore = gameState.teamAScore + (winner === 'A' ? points : 0);
+  const teamBScore = gameState.teamBScore + (winner === 'B' ? points : 0);
+
+  if (hasWinningScore(winner === 'A' ? teamAScore : teamBScore, gameState.ruleVariant, gameState.targetScore)) {
+    return closeRound(resolvedState, winner, points);
+  }
+
+  return {
+    ...resolvedState,
+    teamAScore,
+    teamBScore
+  };
+}
+
+/**
+ * Find the winning team of a comparison of scores; ties go to the player closest to the mão
+ */
+function findBestTeam(
+  gameState: GameState,
+  getScore: (player: Player) => number | null
+): 'A' | 'B' | null {
+  let bestTeam: 'A' | 'B' | null = null;
+  let bestScore = -1;
+
+  for (const player of getPlayersFromMano(gameState)) {
+    const score = getScore(player);
+    if (score !== null && score > bestScore) {
+      bestScore = score;
+      bestTeam = player.team;
+    }
+  }
+
+  return bestTeam;
+}
+
+/**
+ * Make an envido, real envido, falta envido, flor or contraflor call
+ */
+export function callEnvido(gameState: GameState, playerId: string, call: EnvidoCall): GameState {
+  if (!canCallEnvido(gameState, playerId, call)) return gameState;
+
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) return gameState;
+
+  // A flor cancels any envido that was being bet
+  const previousCalls = gameState.envido?.calls ?? [];
+  const calls = call === EnvidoCall.FLOR ? [EnvidoCall.FLOR] : [...previousCalls, call];
+
+  const envido: EnvidoState = {
+    calls,
+    calledBy: playerId,
+    pending: true,
+    declarations: [],
+    declaringPlayer: null,
+    resolved: false,
+    winner: null,
+    points: 0
+  };
+
+  // A flor nobody on the other team can match scores right away
+  if (call === EnvidoCall.FLOR) {
+    const opponentHasFlor = gameState.players.some(p =>
+      p.team !== player.team && hasFlor(getRoundHand(gameState, p.id))
+    );
+
+    if (!opponentHasFlor) {
+      return awardEnvidoPoints(gameState, {
+        ...envido,
+        pending: false,
+        resolved: true,
+        winner: player.team,
+        points: getAcceptedEnvidoPoints(calls, 0)
+      });
+    }
+  }
+
+  return {
+    ...gameState,
+    envido
+  };
+}
+
+/**
+ * Accept the pending envido or flor call ("quero")
+ */
+export function acceptEnvido(gameState: GameState, playerId: string): GameState {
+  const envido = gameState.envido;
+  if (!envido || !envido.pending) return gameState;
+
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player || player.team !== getEnvidoRespondingTeam(gameState)) return gameState;
+
+  // Flores are compared right away
+  if (envido.calls[0] === EnvidoCall.FLOR) {
+    const winner = findBestTeam(gameState, p => {
+      const hand = getRoundHand(gameState, p.id);
+      return hasFlor(hand) ? getFlorPoints(hand) : null;
+    });
+
+    return awardEnvidoPoints(gameState, {
+      ...envido,
+      pending: false,
+      resolved: true,
+      winner,
+      points: getAcceptedEnvidoPoints(envido.calls, 0)
+    });
+  }
+
+  // Envido points are declared in order, starting with the mão
+  return {
+    ...gameState,
+    envido: {
+      ...envido,
+      pending: false,
+      declaringPlayer: getPlayersFromMano(gameState)[0]?.id ?? null
+    }
+  };
+}
+
+/**
+ * Decline the pending envido or flor call ("não quero")
+ */
+export function declineEnvido(gameState: GameState, playerId: string): GameState {
+  const envido = gameState.envido;
+  if (!envido || !envido.pending) return gameState;
+
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player || player.team !== getEnvidoRespondingTeam(gameState)) return gameState;
+
+  // The team that made the last call wins the points accepted so far
+  const winner = player.team === 'A' ? 'B' : 'A';
+
+  return awardEnvidoPoints(gameState, {
+    ...envido,
+    pending: false,
+    resolved: true,
+    winner,
+    points: getDeclinedEnvidoPoints(envido.calls)
+  });
+}
+
+/**
+ * Declare envido points, or concede with "son buenas"
+ */
+export function declareEnvido(gameState: GameState, playerId: string, sonBuenas: boolean): GameState {
+  const envido = gameState.envido;
+  if (!envido || envido.pending || envido.resolved || envido.declaringPlayer !== playerId) {
+    return gameState;
+  }
+
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) return gameState;
+
+  // "Son buenas" is only possible once the other team has declared
+  if (sonBuenas) {
+    const opponentDeclared = envido.declarations.some(d => {
+      const declarer = gameState.players.find(p => p.id === d.playerId);
+      return d.points !== null && declarer?.team !== player.team;
+    });
+    if (!opponentDeclared) return gameState;
+  }
+
+  // The server always declares the real points of the hand
+  const declarations = [
+    ...envido.declarations,
+    { playerId, points: sonBuenas ? null : getEnvidoPoints(getRoundHand(gameState, playerId)) }
+  ];
+
+  const nextDeclarer = getPlayersFromMano(gameState).find(p =>
+    !declarations.some(d => d.playerId === p.id)
+  );
+
+  if (nextDeclarer) {
+    return {
+      ...gameState,
+      envido: {
+        ...envido,
+        declarations,
+        declaringPlayer: nextDeclarer.id
+      }
+    };
+  }
+
+  // Everyone declared: the best points win, ties go to the player closest to the mão
+  const winner = findBestTeam(gameState, p =>
+    declarations.find(d => d.playerId === p.id)?.points ?? null
+  );
+  const faltaPoints = getFaltaEnvidoPoints(
+    gameState.teamAScore, gameState.teamBScore, gameState.ruleVariant, gameState.targetScore
+  );
+
+  return awardEnvidoPoints(gameState, {
+    ...envido,
+    declarations,
+    declaringPlayer: null,
+    resolved: true,
+    winner,
+    points: getAcceptedEnvidoPoints(envido.calls, faltaPoints)
+  });
+}
@@ -1,73 +1,199 @@
-import { GameState, Player, Card, RoundState, GameMode, PlayedCard } from '@shared/types';
-import { createDeck, shuffleDeck, dealCards, updateManilhas } from './cardUtils';
-import { determineTrickWinner, getRoundPoints, hasWinningScore } from '@shared/gameRules';
+import { 
+  GameState, 
+  Player, 
+  Card, 
+  RoundState, 
+  GameMode, 
+  PlayedCard, 
+  CompletedTrick, 
+  RuleVariant, 
+  TimerSettings,
+  DeckScript,
+  SeriesState,
+  SeriesGame 
+} from '@shared/types';
+import { createShuffledDeck, stackDeck, dealCards, updateManilhas } from './cardUtils';
+import { createSeed } from '@shared/random';
+import { 
+  determineTrickWinner, 
+  determineTrickOutcome,
+  determineRoundWinner,
+  getRoundPoints, 
+  hasWinningScore, 
+  getNextRoundValue, 
+  canRaiseRoundValue,
+  isHandOfElevenScore,
+  getHandOfElevenValue,
+  getInitialRoundValue,
+  getSeriesWinsNeeded,
+  DEFAULT_TIMER_SETTINGS
+} from '@shared/gameRules';
+import { getRuleSet } from '@shared/ruleSets';
 
 /**
  * Initialize a new game state
  */
-export function initializeGameState(gameId: string, mode: GameMode, players: Player[]): GameState {
+export function initializeGameState(
+  gameId: string, 
+  mode: GameMode, 
+  players: Player[], 
+  ruleVariant: RuleVariant = RuleVariant.PAULISTA,
+  timerSettings: TimerSettings = DEFAULT_TIMER_SETTINGS,
+  targetScore: number = getRuleSet(ruleVariant).targetScore,
+  bestOf: number = 1
+): GameState {
   // Initial game state
   return {
     id: gameId,
     mode,
+    ruleVariant,
     roundState: RoundState.WAITING_FOR_PLAYERS,
+    roundNumber: 0,
     players,
     currentTrick: [],
     tricks: [],
     vira: null,
     teamAScore: 0,
     teamBScore: 0,
-    roundValue: 1,
+    targetScore,
+    roundValue: getInitialRoundValue(ruleVariant),
     dealer: players[0]?.id || '',
     currentPlayer: '',
     winner: null,
     trucoRequested: false,
     trucoRequestedBy: null,
-    roundWinner: null
+    trucoRequestedValue: null,
+    lastRaiseTeam: null,
+    handOfElevenTeam: null,
+    isIronHand: false,
+    envido: null,
+    roundWinner: null,
+    timerSettings,
+    turnTimer: null,
+    forfeitTeam: null,
+    dealCommitment: null,
+    dealReveal: null,
+    nextSeedHash: null,
+    spectators: [],
+    hostId: null,
+    seatsLocked: false,
+    seatSwap: null,
+    series: createSeries(bestOf),
+    ranked: false,
+    tournament: null
   };
 }
 
 /**
- * Assign players to teams
+ * Number of seats at the table
+ */
+export function getSeatCount(mode: GameMode): number {
+  return mode === GameMode.ONE_VS_ONE ? 2 : 4;
+}
+
+/**
+ * Team of a seat. Teams alternate around the table, so partners sit opposite each other
+ * (seats 0,2 are team A, seats 1,3 are team B).
+ */
+export function getSeatTeam(seat: number): 'A' | 'B' {
+  return seat % 2 === 0 ? 'A' : 'B';
+}
+
+/**
+ * Position of a seat counted from the viewer's seat, going around the table
+ * (0 is the viewer, in 2v2 the partner is 2). Spectators see the table from seat 0.
+ */
+export function getRelativeSeat(seat: number, viewerSeat: number | undefined, seatCount: number): number {
+  return (seat - (viewerSeat ?? 0) + seatCount) % seatCount;
+}
+
+/**
+ * Give players without a seat a free one (their position in the list, if it's free)
+ * and assign teams from the seats, keeping the players in seat order
  */
 export function assignTeams(players: Player[], mode: GameMode): Player[] {
-  const updatedPlayers = [...players];
-  
-  if (mode === GameMode.ONE_VS_ONE) {
-    // In 1v1 mode, first player is team A, second is team B
-    if (updatedPlayers[0]) updatedPlayers[0].team = 'A';
-    if (updatedPlayers[1]) updatedPlayers[1].team = 'B';
-  } else {
-    // In 2v2 mode, players 0,2 are team A, players 1,3 are team B
-    for (let i = 0; i < updatedPlayers.length; i++) {
-      updatedPlayers[i].team = i % 2 === 0 ? 'A' : 'B';
+  const seatCount = getSeatCount(mode);
+  const isValidSeat = (seat: number | undefined): seat is number =>
+    seat !== undefined && seat >= 0 && seat < seatCount;
+  
+  const taken = new Set<number>();
+  players.forEach(p => {
+    if (isValidSeat(p.seat)) taken.add(p.seat);
+  });
+  
+  const seated = players.map((p, index) => {
+    let seat = p.seat;
+    if (!isValidSeat(seat)) {
+      seat = !taken.has(index) && index < seatCount
+        ? index
+        : Array.from({ length: seatCount }, (_, i) => i).find(i => !taken.has(i)) ?? index;
+      taken.add(seat);
     }
-  }
+    return { ...p, seat, team: getSeatTeam(seat) };
+  });
   
-  return updatedPlayers;
+  return seated.sort((a, b) => a.seat - b.seat);
 }
 
 /**
- * Deal cards to all players
+ * Move a player to a seat, trading places with whoever sits there
  */
-export function dealCardsToPlayers(gameState: GameState): GameState {
+export function changeSeat(gameState: GameState, playerId: string, seat: number): GameState {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) return gameState;
+  
+  const players = gameState.players.map(p => {
+    if (p.id === playerId) return { ...p, seat };
+    if (p.seat === seat) return { ...p, seat: player.seat };
+    return p;
+  });
+  
+  return { ...gameState, players: assignTeams(players, gameState.mode) };
+}
+
+/**
+ * Deal cards to all players. The same seed (and script) always deals the same cards.
+ */
+export function dealCardsToPlayers(
+  gameState: GameState, 
+  seed: string = createSeed(), 
+  script?: DeckScript
+): GameState {
   // Create and shuffle a deck
-  let deck = createDeck();
-  deck = shuffleDeck(deck);
+  let deck = createShuffledDeck(gameState.ruleVariant, seed);
+  if (script) {
+    deck = stackDeck(deck, script, gameState.players.length);
+  }
+  
+  return dealDeck(gameState, deck);
+}
+
+/**
+ * Deal a deck in order: three cards to each player from the top, and the vira from the bottom
+ */
+export function dealDeck(gameState: GameState, orderedDeck: Card[]): GameState {
+  const { ruleVariant } = gameState;
+  const deck = [...orderedDeck];
   
-  // Select a card for "vira" (determines manilhas)
-  const vira = deck.pop() || null;
+  // Select a card for "vira" (determines manilhas) when the variant uses one
+  const vira = getRuleSet(ruleVariant).usesVira ? deck.pop() || null : null;
   
   // Deal 3 cards to each player
-  const updatedPlayers = gameState.players.map(player => {
-    const hand = dealCards(deck, 3);
-    const updatedHand = updateManilhas(hand, vira);
-    
-    return {
-      ...player,
-      hand: updatedHand
-    };
-  });
+  const hands = gameState.players.map(() => updateManilhas(dealCards(deck, 3), vira, ruleVariant));
+  
+  return applyDeal(gameState, vira, hands);
+}
+
+/**
+ * Start a round with the given vira and hands (one per player, in seat order).
+ * Replays use it to repeat a recorded deal.
+ */
+export function applyDeal(gameState: GameState, vira: Card | null, hands: Card[][]): GameState {
+  const { ruleVariant } = gameState;
+  const updatedPlayers = gameState.players.map((player, index) => ({
+    ...player,
+    hand: hands[index] ?? []
+  }));
   
   // Determine first player (next to dealer)
   const dealerIndex = gameState.players.findIndex(p => p.id === gameState.dealer);
@@ -80,13 +206,30 @@ export function dealCardsToPlayers(gameState: GameState): GameState {
     isYourTurn: player.id === firstPlayerId
   }));
   
+  // Mão de onze: a team with 11 points decides whether to play the hand.
+  // Mão de ferro: when both teams have 11, the hand is played blind.
+  const teamAAtEleven = isHandOfElevenScore(gameState.teamAScore, ruleVariant, gameState.targetScore);
+  const teamBAtEleven = isHandOfElevenScore(gameState.teamBScore, ruleVariant, gameState.targetScore);
+  const isIronHand = teamAAtEleven && teamBAtEleven;
+  
+  let handOfElevenTeam: 'A' | 'B' | null = null;
+  if (!isIronHand && teamAAtEleven) {
+    handOfElevenTeam = 'A';
+  } else if (!isIronHand && teamBAtEleven) {
+    handOfElevenTeam = 'B';
+  }
+  
   return {
     ...gameState,
     players: playersWithTurn,
     vira,
-    roundState: RoundState.PLAYING,
+    roundState: handOfElevenTeam ? RoundState.HAND_OF_ELEVEN : RoundState.PLAYING,
+    roundNumber: gameState.roundNumber + 1,
     currentPlayer: firstPlayerId,
-    currentTrick: []
+    currentTrick: [],
+    handOfElevenTeam,
+    isIronHand,
+    envido: null
   };
 }
 
@@ -98,6 +241,10 @@ export function processPlayedCard(
   playerId: string, 
   cardId: string
 ): GameState {
+  // Cards can only be played during play, and not while a bet is waiting for an answer
+  if (gameState.roundState !== RoundState.PLAYING) return gameState;
+  if (gameState.trucoRequested || isEnvidoInProgress(gameState)) return gameState;
+  
   // Find the player who played the card
   const playerIndex = gameState.players.findIndex(p => p.id === playerId);
   if (playerIndex === -1) return gameState;
@@ -165,54 +312,42 @@ export function processPlayedCard(
  * Evaluate the winner of a trick
  */
 export function evaluateTrick(gameState: GameState): GameState {
-  const trickWinnerId = determineTrickWinner(gameState.currentTrick, gameState.vira);
-  
-  if (!trickWinnerId) {
-    // No winner (shouldn't happen in a complete trick)
-    return gameState;
-  }
+  const { outcome, winnerId } = determineTrickOutcome(
+    gameState.currentTrick, 
+    gameState.vira, 
+    gameState.players,
+    gameState.ruleVariant
+  );
+  
+  // Add the trick to history with its outcome
+  const completedTrick: CompletedTrick = {
+    cards: gameState.currentTrick,
+    outcome,
+    winnerId
+  };
+  const updatedTricks = [...gameState.tricks, completedTrick];
   
-  // Find the winner's team
-  const winnerPlayer = gameState.players.find(p => p.id === trickWinnerId);
-  if (!winnerPlayer) return gameState;
-  
-  // Add the trick to history
-  const updatedTricks = [...gameState.tricks, gameState.currentTrick];
-  
-  // Check if round is over (all players have played all their cards or a team won 2 tricks)
-  const teamATricks = updatedTricks.filter(trick => {
-    const winnerId = determineTrickWinner(trick, gameState.vira);
-    const winner = gameState.players.find(p => p.id === winnerId);
-    return winner?.team === 'A';
-  }).length;
-  
-  const teamBTricks = updatedTricks.filter(trick => {
-    const winnerId = determineTrickWinner(trick, gameState.vira);
-    const winner = gameState.players.find(p => p.id === winnerId);
-    return winner?.team === 'B';
-  }).length;
-  
-  // Check if the round is over
-  const isRoundOver = 
-    updatedTricks.length === 3 || // All tricks played
-    teamATricks >= 2 || // Team A won 2 tricks
-    teamBTricks >= 2; // Team B won 2 tricks
-  
-  if (isRoundOver) {
+  // Check if the round is decided
+  const { finished } = determineRoundWinner(updatedTricks.map(t => t.outcome));
+  if (finished) {
     return finishRound(gameState, updatedTricks);
   }
   
-  // Set the trick winner as the next player
+  // The trick winner leads the next trick; after a draw, the player
+  // who first played the top card leads
+  const nextPlayerId = winnerId ?? determineTrickWinner(gameState.currentTrick, gameState.vira, gameState.ruleVariant);
+  if (!nextPlayerId) return gameState;
+  
   const updatedPlayers = gameState.players.map(p => ({
     ...p,
-    isYourTurn: p.id === trickWinnerId
+    isYourTurn: p.id === nextPlayerId
   }));
   
   // Start a new trick
   return {
     ...gameState,
     players: updatedPlayers,
-    currentPlayer: trickWinnerId,
+    currentPlayer: nextPlayerId,
     currentTrick: [],
     tricks: updatedTricks
   };
@@ -221,47 +356,36 @@ export function evaluateTrick(gameState: GameState): GameState {
 /**
  * Finish a round and update scores
  */
-export function finishRound(gameState: GameState, tricks: PlayedCard[][]): GameState {
-  // Count tricks won by each team
-  const teamATricks = tricks.filter(trick => {
-    const winnerId = determineTrickWinner(trick, gameState.vira);
-    const winner = gameState.players.find(p => p.id === winnerId);
-    return winner?.team === 'A';
-  }).length;
-  
-  const teamBTricks = tricks.filter(trick => {
-    const winnerId = determineTrickWinner(trick, gameState.vira);
-    const winner = gameState.players.find(p => p.id === winnerId);
-    return winner?.team === 'B';
-  }).length;
-  
-  // Determine round winner
-  let roundWinner: 'A' | 'B' | null = null;
-  if (teamATricks > teamBTricks) {
-    roundWinner = 'A';
-  } else if (teamBTricks > teamATricks) {
-    roundWinner = 'B';
-  } else {
-    // If round is tied, the dealer's team wins
-    const dealer = gameState.players.find(p => p.id === gameState.dealer);
-    roundWinner = dealer?.team || null;
-  }
+export function finishRound(gameState: GameState, tricks: CompletedTrick[]): GameState {
+  // A round where every trick was drawn has no winner
+  const { winner: roundWinner } = determineRoundWinner(tricks.map(t => t.outcome));
   
+  return closeRound(gameState, roundWinner, getRoundPoints(gameState.roundValue));
+}
+
+/**
+ * Award the round points to the winning team, move the dealer and clear the table
+ */
+export function closeRound(
+  gameState: GameState, 
+  roundWinner: 'A' | 'B' | null, 
+  points: number
+): GameState {
   // Update scores
   let teamAScore = gameState.teamAScore;
   let teamBScore = gameState.teamBScore;
   
   if (roundWinner === 'A') {
-    teamAScore += getRoundPoints(gameState.roundValue);
+    teamAScore += points;
   } else if (roundWinner === 'B') {
-    teamBScore += getRoundPoints(gameState.roundValue);
+    teamBScore += points;
   }
   
   // Check if we have a winner for the game
   let winner: 'A' | 'B' | null = null;
-  if (hasWinningScore(teamAScore)) {
+  if (hasWinningScore(teamAScore, gameState.ruleVariant, gameState.targetScore)) {
     winner = 'A';
-  } else if (hasWinningScore(teamBScore)) {
+  } else if (hasWinningScore(teamBScore, gameState.ruleVariant, gameState.targetScore)) {
     winner = 'B';
   }
   
@@ -288,101 +412,221 @@ export function finishRound(gameState: GameState, tricks: PlayedCard[][]): GameS
     roundWinner,
     currentTrick: [],
     tricks: [],
-    roundValue: 1, // Reset round value for next round
+    roundValue: getInitialRoundValue(gameState.ruleVariant), // Reset round value for next round
     dealer: nextDealerId,
     trucoRequested: false,
-    trucoRequestedBy: null
+    trucoRequestedBy: null,
+    trucoRequestedValue: null,
+    lastRaiseTeam: null,
+    handOfElevenTeam: null,
+    isIronHand: false,
+    envido: null
   };
 }
 
 /**
  * Start a new round
  */
-export function startNewRound(gameState: GameState): GameState {
+export function startNewRound(
+  gameState: GameState, 
+  deal: (gameState: GameState) => GameState = dealCardsToPlayers
+): GameState {
   // Only start a new round if the current round is over
   if (gameState.roundState !== RoundState.ROUND_OVER) {
     return gameState;
   }
   
   // Deal new cards
-  return dealCardsToPlayers({
+  return deal({
     ...gameState,
     roundState: RoundState.PLAYING,
     currentTrick: [],
     tricks: [],
-    roundValue: 1,
+    roundValue: getInitialRoundValue(gameState.ruleVariant),
     trucoRequested: false,
     trucoRequestedBy: null,
+    trucoRequestedValue: null,
+    lastRaiseTeam: null,
+    handOfElevenTeam: null,
+    isIronHand: false,
+    envido: null,
     roundWinner: null
   });
 }
 
 /**
- * Process a truco request
+ * End the game with a loss for a team that ran out of time too many times
  */
-export function processTrucoRequest(gameState: GameState, playerId: string): GameState {
-  // Check if truco was already requested
+export function forfeitGame(gameState: GameState, losingTeam: 'A' | 'B'): GameState {
+  return {
+    ...gameState,
+    players: gameState.players.map(p => ({ ...p, isYourTurn: false, hand: [] })),
+    roundState: RoundState.GAME_OVER,
+    winner: losingTeam === 'A' ? 'B' : 'A',
+    forfeitTeam: losingTeam,
+    currentTrick: [],
+    tricks: [],
+    trucoRequested: false,
+    trucoRequestedBy: null,
+    trucoRequestedValue: null,
+    envido: null,
+    turnTimer: null
+  };
+}
+
+/**
+ * Start a series of games, before its first game
+ */
+export function createSeries(bestOf: number): SeriesState {
+  return { bestOf, gameNumber: 1, games: [], winner: null };
+}
+
+/**
+ * Games each team has won in a series
+ */
+export function getSeriesWins(series: SeriesState): { A: number; B: number } {
+  return {
+    A: series.games.filter(g => g.winner === 'A').length,
+    B: series.games.filter(g => g.winner === 'B').length
+  };
+}
+
+/**
+ * Count a finished game for the series, which is won once a team can't be caught
+ */
+export function recordSeriesGame(series: SeriesState, game: SeriesGame): SeriesState {
+  const games = [...series.games, game];
+  const wins = getSeriesWins({ ...series, games });
+  const needed = getSeriesWinsNeeded(series.bestOf);
+  
+  return {
+    ...series,
+    games,
+    winner: wins.A >= needed ? 'A' : wins.B >= needed ? 'B' : null
+  };
+}
+
+/**
+ * Move a series on to its next game, or start a new series once it has a winner.
+ * A game that was stopped before it ended is played again.
+ */
+export function startNextSeriesGame(series: SeriesState): SeriesState {
+  if (series.winner) return createSeries(series.bestOf);
+  if (series.games.length < series.gameNumber) return series;
+  return { ...series, gameNumber: series.gameNumber + 1 };
+}
+
+/**
+ * Check if an envido or flor bet is still being played
+ */
+export function isEnvidoInProgress(gameState: GameState): boolean {
+  return gameState.envido !== null && !gameState.envido.resolved;
+}
+
+/**
+ * Get the team that has to answer the pending truco request
+ */
+export function getTrucoRespondingTeam(gameState: GameState): 'A' | 'B' | null {
+  if (!gameState.trucoRequested || !gameState.trucoRequestedBy) return null;
+  
+  const requestingPlayer = gameState.players.find(p => p.id === gameState.trucoRequestedBy);
+  if (!requestingPlayer) return null;
+  
+  return requestingPlayer.team === 'A' ? 'B' : 'A';
+}
+
+/**
+ * Check if a player is allowed to raise the bet (truco, seis, nove or doze)
+ */
+export function canPlayerRaise(gameState: GameState, playerId: string): boolean {
+  if (gameState.roundState !== RoundState.PLAYING) return false;
+  
+  // No truco during the mão de onze or the mão de ferro
+  if (gameState.handOfElevenTeam || gameState.isIronHand) return false;
+  
+  // The envido is settled before the truco
+  if (isEnvidoInProgress(gameState)) return false;
+  
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) return false;
+  
+  // The same team can't raise twice in a row
+  if (gameState.lastRaiseTeam === player.team) return false;
+  
   if (gameState.trucoRequested) {
+    // While a bet is pending, only the answering team can counter-raise
+    if (getTrucoRespondingTeam(gameState) !== player.team) return false;
+    return canRaiseRoundValue(gameState.trucoRequestedValue ?? gameState.roundValue, gameState.ruleVariant);
+  }
+  
+  // A fresh raise can only be made on the player's own turn
+  if (gameState.currentPlayer !== playerId) return false;
+  
+  return canRaiseRoundValue(gameState.roundValue, gameState.ruleVariant);
+}
+
+/**
+ * Process a truco request (or a counter-raise to a pending one)
+ */
+export function processTrucoRequest(gameState: GameState, playerId: string): GameState {
+  if (!canPlayerRaise(gameState, playerId)) {
     return gameState;
   }
   
-  // Ensure the requesting player exists
   const player = gameState.players.find(p => p.id === playerId);
   if (!player) return gameState;
   
+  // Counter-raising accepts the pending bet before asking for more
+  const roundValue = gameState.trucoRequested && gameState.trucoRequestedValue
+    ? gameState.trucoRequestedValue
+    : gameState.roundValue;
+  
   return {
     ...gameState,
+    roundValue,
     trucoRequested: true,
-    trucoRequestedBy: playerId
+    trucoRequestedBy: playerId,
+    trucoRequestedValue: getNextRoundValue(roundValue, gameState.ruleVariant),
+    lastRaiseTeam: player.team
   };
 }
 
 /**
  * Accept a truco request
  */
-export function acceptTrucoRequest(gameState: GameState): GameState {
-  // Check if truco was requested
-  if (!gameState.trucoRequested || !gameState.trucoRequestedBy) {
+export function acceptTrucoRequest(gameState: GameState, playerId: string): GameState {
+  // Check if truco was requested (an envido called in answer is settled first)
+  if (!gameState.trucoRequested || !gameState.trucoRequestedBy || isEnvidoInProgress(gameState)) {
     return gameState;
   }
   
-  // Find the team of the player who requested truco
-  const requestingPlayer = gameState.players.find(p => p.id === gameState.trucoRequestedBy);
-  if (!requestingPlayer) return gameState;
-  
-  // Determine the next round value
-  let nextRoundValue = 1;
-  switch (gameState.roundValue) {
-    case 1:
-      nextRoundValue = 3; // Truco
-      break;
-    case 3:
-      nextRoundValue = 6; // Seis
-      break;
-    case 6:
-      nextRoundValue = 9; // Nove
-      break;
-    case 9:
-      nextRoundValue = 12; // Doze
-      break;
-    default:
-      nextRoundValue = 3;
+  // Only the opposing team can answer
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player || player.team !== getTrucoRespondingTeam(gameState)) {
+    return gameState;
   }
   
   return {
     ...gameState,
     trucoRequested: false,
     trucoRequestedBy: null,
-    roundValue: nextRoundValue
+    roundValue: gameState.trucoRequestedValue ?? getNextRoundValue(gameState.roundValue, gameState.ruleVariant),
+    trucoRequestedValue: null
   };
 }
 
 /**
  * Decline a truco request (run away)
  */
-export function declineTrucoRequest(gameState: GameState): GameState {
-  // Check if truco was requested
-  if (!gameState.trucoRequested || !gameState.trucoRequestedBy) {
+export function declineTrucoRequest(gameState: GameState, playerId: string): GameState {
+  // Check if truco was requested (an envido called in answer is settled first)
+  if (!gameState.trucoRequested || !gameState.trucoRequestedBy || isEnvidoInProgress(gameState)) {
+    return gameState;
+  }
+  
+  // Only the opposing team can run away
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player || player.team !== getTrucoRespondingTeam(gameState)) {
     return gameState;
   }
   
@@ -390,53 +634,40 @@ export function declineTrucoRequest(gameState: GameState): GameState {
   const requestingPlayer = gameState.players.find(p => p.id === gameState.trucoRequestedBy);
   if (!requestingPlayer) return gameState;
   
-  // The team that requested truco wins when the other team declines
+  // The team that requested truco wins the last accepted round value when the other team declines
   const winningTeam = requestingPlayer.team === 'A' ? 'A' : 'B';
   
-  let teamAScore = gameState.teamAScore;
-  let teamBScore = gameState.teamBScore;
-  
-  // Award 1 point (or current round value if higher) to the winning team
-  if (winningTeam === 'A') {
-    teamAScore += getRoundPoints(gameState.roundValue);
-  } else {
-    teamBScore += getRoundPoints(gameState.roundValue);
-  }
-  
-  // Check if we have a winner for the game
-  let winner: 'A' | 'B' | null = null;
-  if (hasWinningScore(teamAScore)) {
-    winner = 'A';
-  } else if (hasWinningScore(teamBScore)) {
-    winner = 'B';
-  }
-  
-  // Advance the dealer to the next player
-  const dealerIndex = gameState.players.findIndex(p => p.id === gameState.dealer);
-  const nextDealerIndex = (dealerIndex + 1) % gameState.players.length;
-  const nextDealerId = gameState.players[nextDealerIndex].id;
+  return closeRound(gameState, winningTeam, getRoundPoints(gameState.roundValue));
+}
+
+/**
+ * Play the mão de onze: the hand is worth 3 points (in Paulista rules)
+ */
+export function playHandOfEleven(gameState: GameState, playerId: string): GameState {
+  if (gameState.roundState !== RoundState.HAND_OF_ELEVEN) return gameState;
   
-  // Update dealer flag
-  const updatedPlayers = gameState.players.map(p => ({
-    ...p,
-    isDealer: p.id === nextDealerId,
-    isYourTurn: false,
-    hand: [] // Clear hands at the end of the round
-  }));
+  // Only the team with 11 points decides
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player || player.team !== gameState.handOfElevenTeam) return gameState;
   
   return {
     ...gameState,
-    players: updatedPlayers,
-    teamAScore,
-    teamBScore,
-    roundState: winner ? RoundState.GAME_OVER : RoundState.ROUND_OVER,
-    winner,
-    roundWinner: winningTeam,
-    currentTrick: [],
-    tricks: [],
-    roundValue: 1, // Reset round value for next round
-    dealer: nextDealerId,
-    trucoRequested: false,
-    trucoRequestedBy: null
+    roundState: RoundState.PLAYING,
+    roundValue: getHandOfElevenValue(gameState.ruleVariant)
   };
 }
+
+/**
+ * Fold the mão de onze: the opposing team scores the value of a regular round
+ */
+export function foldHandOfEleven(gameState: GameState, playerId: string): GameState {
+  if (gameState.roundState !== RoundState.HAND_OF_ELEVEN) return gameState;
+  
+  // Only the team with 11 points decides
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player || player.team !== gameState.handOfElevenTeam) return gameState;
+  
+  const winningTeam = player.team === 'A' ? 'B' : 'A';
+  
+  return closeRound(gameState, winningTeam, getInitialRoundValue(gameState.ruleVariant));
+}
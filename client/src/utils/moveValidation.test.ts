@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameMode, Player, RejectionReason, RoundState } from '@shared/types';
+import { createDeck } from '@shared/deck';
+import { initializeGameState, applyDeal } from './gameUtils';
+import { validateNewRound, validatePlayCard } from './moveValidation';
+
+const createPlayer = (id: string, seat: number): Player => ({
+  id,
+  username: id,
+  hand: [],
+  isDealer: seat === 0,
+  team: seat % 2 === 0 ? 'A' : 'B',
+  isReady: true,
+  isYourTurn: false,
+  seat
+});
+
+// A round dealt with both teams at 11 points
+function createIronHandState() {
+  const deck = createDeck();
+  const state = {
+    ...initializeGameState('game', GameMode.ONE_VS_ONE, [createPlayer('p1', 0), createPlayer('p2', 1)]),
+    teamAScore: 11,
+    teamBScore: 11
+  };
+  return applyDeal(state, deck[6], [deck.slice(0, 3), deck.slice(3, 6)]);
+}
+
+test('the mão de ferro is played blind', () => {
+  const state = createIronHandState();
+  assert.equal(state.isIronHand, true);
+
+  const player = state.players.find(p => p.id === state.currentPlayer) as Player;
+  const result = validatePlayCard(state, player.id, { cardId: player.hand[0].id });
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.reason, RejectionReason.INVALID_REQUEST);
+
+  assert.equal(validatePlayCard(state, player.id, { cardIndex: 0 }).ok, true);
+  assert.equal(validatePlayCard(state, player.id, { cardIndex: 3 }).ok, false);
+});
+
+test('cards are played by id outside the mão de ferro', () => {
+  const state = { ...createIronHandState(), isIronHand: false };
+  const player = state.players.find(p => p.id === state.currentPlayer) as Player;
+
+  assert.equal(validatePlayCard(state, player.id, { cardId: player.hand[0].id }).ok, true);
+  assert.equal(validatePlayCard(state, player.id, { cardIndex: 0 }).ok, false);
+});
+
+test('any player at the table starts the next round', () => {
+  const state = { ...createIronHandState(), roundState: RoundState.ROUND_OVER, hostId: 'p1' };
+
+  assert.equal(validateNewRound(state, 'p2').ok, true);
+  const result = validateNewRound(state, 'spectator');
+  assert.equal(!result.ok && result.reason, RejectionReason.NOT_IN_GAME);
+  assert.equal(validateNewRound({ ...state, roundState: RoundState.PLAYING }, 'p1').ok, false);
+});
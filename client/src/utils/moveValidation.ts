@@ -0,0 +1,452 @@
+import { 
+  GameState, 
+  Player, 
+  RoundState, 
+  EnvidoCall, 
+  ActionResult, 
+  RejectionReason, 
+  GameMode, 
+  RuleVariant, 
+  RoomSettings 
+} from '@shared/types';
+import { canRaiseRoundValue, TARGET_SCORE_OPTIONS, SERIES_LENGTH_OPTIONS } from '@shared/gameRules';
+import { getRuleSet } from '@shared/ruleSets';
+import { getTrucoRespondingTeam, isEnvidoInProgress, getSeatCount } from './gameUtils';
+import { canCallEnvido, getEnvidoRespondingTeam } from './envidoUtils';
+
+// Validation of player actions.
+// Every action is checked here before the game state is changed, so the server
+// can tell the player exactly why an action was rejected.
+
+/**
+ * Successful validation result
+ */
+export function accepted(): ActionResult {
+  return { ok: true };
+}
+
+/**
+ * Failed validation result
+ */
+export function rejected(reason: RejectionReason, message: string): ActionResult {
+  return { ok: false, reason, message };
+}
+
+/**
+ * Find the acting player, or the rejection when they aren't part of the game
+ */
+function findPlayer(gameState: GameState, playerId: string): Player | ActionResult {
+  const player = gameState.players.find(p => p.id === playerId);
+  return player ?? rejected(RejectionReason.NOT_IN_GAME, 'Player is not part of this game');
+}
+
+function isResult(value: Player | ActionResult): value is ActionResult {
+  return 'ok' in value;
+}
+
+/**
+ * Validate playing a card (by id, or by position for blind cards)
+ */
+export function validatePlayCard(
+  gameState: GameState,
+  playerId: string,
+  card: { cardId?: string; cardIndex?: number }
+): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (gameState.roundState !== RoundState.PLAYING) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Cards can only be played during a round');
+  }
+
+  if (gameState.trucoRequested || isEnvidoInProgress(gameState)) {
+    return rejected(RejectionReason.BET_PENDING, 'A bet is waiting for an answer');
+  }
+
+  if (gameState.currentPlayer !== playerId) {
+    return rejected(RejectionReason.NOT_YOUR_TURN, 'It is not your turn');
+  }
+
+  // Card ids can be guessed, so in the mão de ferro only a position in the hand is accepted;
+  // otherwise whether a guess is accepted would tell the player what their hidden cards are
+  if (gameState.isIronHand && card.cardId !== undefined) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Cards are played blind in the mão de ferro');
+  }
+
+  const inHand = gameState.isIronHand
+    ? card.cardIndex !== undefined && player.hand[card.cardIndex] !== undefined
+    : card.cardId !== undefined && player.hand.some(c => c.id === card.cardId);
+
+  if (!inHand) {
+    return rejected(RejectionReason.CARD_NOT_IN_HAND, 'That card is not in your hand');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate a truco request or a counter-raise
+ */
+export function validateTrucoRequest(gameState: GameState, playerId: string): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (gameState.roundState !== RoundState.PLAYING) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Truco can only be requested during a round');
+  }
+
+  if (gameState.handOfElevenTeam || gameState.isIronHand) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Truco is not allowed in the mão de onze');
+  }
+
+  if (isEnvidoInProgress(gameState)) {
+    return rejected(RejectionReason.BET_PENDING, 'The envido must be settled first');
+  }
+
+  if (gameState.lastRaiseTeam === player.team) {
+    return rejected(RejectionReason.WRONG_TEAM, 'Your team made the last raise');
+  }
+
+  if (gameState.trucoRequested) {
+    if (getTrucoRespondingTeam(gameState) !== player.team) {
+      return rejected(RejectionReason.BET_PENDING, 'Your request is waiting for an answer');
+    }
+  } else if (gameState.currentPlayer !== playerId) {
+    return rejected(RejectionReason.NOT_YOUR_TURN, 'Truco can only be requested on your turn');
+  }
+
+  const value = gameState.trucoRequestedValue ?? gameState.roundValue;
+  if (!canRaiseRoundValue(value, gameState.ruleVariant)) {
+    return rejected(RejectionReason.BET_LIMIT_REACHED, 'The round is already at its highest value');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate accepting or declining a truco request
+ */
+export function validateTrucoAnswer(gameState: GameState, playerId: string): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (!gameState.trucoRequested) {
+    return rejected(RejectionReason.NO_PENDING_BET, 'There is no truco to answer');
+  }
+
+  if (isEnvidoInProgress(gameState)) {
+    return rejected(RejectionReason.BET_PENDING, 'The envido must be settled first');
+  }
+
+  if (getTrucoRespondingTeam(gameState) !== player.team) {
+    return rejected(RejectionReason.WRONG_TEAM, 'Only the opposing team can answer');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate the decision on the mão de onze
+ */
+export function validateHandOfElevenDecision(gameState: GameState, playerId: string): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (gameState.roundState !== RoundState.HAND_OF_ELEVEN) {
+    return rejected(RejectionReason.INVALID_PHASE, 'There is no mão de onze to decide');
+  }
+
+  if (player.team !== gameState.handOfElevenTeam) {
+    return rejected(RejectionReason.WRONG_TEAM, 'Only the team with 11 points decides');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate an envido or flor call
+ */
+export function validateEnvidoCall(gameState: GameState, playerId: string, call: EnvidoCall): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (!getRuleSet(gameState.ruleVariant).hasEnvido) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Envido is not played with these rules');
+  }
+
+  if (gameState.roundState !== RoundState.PLAYING || gameState.tricks.length > 0) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Envido can only be called in the first trick');
+  }
+
+  if (gameState.envido?.pending && getEnvidoRespondingTeam(gameState) !== player.team) {
+    return rejected(RejectionReason.BET_PENDING, 'Your call is waiting for an answer');
+  }
+
+  if (gameState.envido && !gameState.envido.pending) {
+    return rejected(RejectionReason.INVALID_PHASE, 'The envido was already played this round');
+  }
+
+  if (!canCallEnvido(gameState, playerId, call)) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'That call is not allowed right now');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate accepting or declining an envido or flor call
+ */
+export function validateEnvidoAnswer(gameState: GameState, playerId: string): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (!gameState.envido?.pending) {
+    return rejected(RejectionReason.NO_PENDING_BET, 'There is no envido to answer');
+  }
+
+  if (getEnvidoRespondingTeam(gameState) !== player.team) {
+    return rejected(RejectionReason.WRONG_TEAM, 'Only the opposing team can answer');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate an envido declaration
+ */
+export function validateEnvidoDeclaration(gameState: GameState, playerId: string, sonBuenas: boolean): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  const envido = gameState.envido;
+  if (!envido || envido.pending || envido.resolved || !envido.declaringPlayer) {
+    return rejected(RejectionReason.INVALID_PHASE, 'There are no envido points to declare');
+  }
+
+  if (envido.declaringPlayer !== playerId) {
+    return rejected(RejectionReason.NOT_YOUR_TURN, 'It is not your turn to declare');
+  }
+
+  if (sonBuenas) {
+    const opponentDeclared = envido.declarations.some(d => {
+      const declarer = gameState.players.find(p => p.id === d.playerId);
+      return d.points !== null && declarer?.team !== player.team;
+    });
+
+    if (!opponentDeclared) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The other team has not declared yet');
+    }
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate starting the game
+ */
+export function validateStartGame(gameState: GameState, minPlayers: number): ActionResult {
+  if (gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+    return rejected(RejectionReason.INVALID_PHASE, 'The game has already started');
+  }
+
+  if (gameState.players.length < minPlayers) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Not enough players to start');
+  }
+
+  if (gameState.ranked && gameState.players.some(p => p.isBot)) {
+    return rejected(RejectionReason.RANKED_HUMANS_ONLY, 'Ranked games are only between players');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate moving to another seat (or asking its player to trade places)
+ */
+export function validateSeatChange(gameState: GameState, playerId: string, seat: number): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Seats can only change before the game starts');
+  }
+
+  if (gameState.seatsLocked) {
+    return rejected(RejectionReason.SEATS_LOCKED, 'The host locked the seats');
+  }
+
+  if (gameState.tournament) {
+    return rejected(RejectionReason.TOURNAMENT_ROOM, 'Each player of a tournament match sits on their team');
+  }
+
+  if (!Number.isInteger(seat) || seat < 0 || seat >= getSeatCount(gameState.mode)) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'There is no such seat');
+  }
+
+  if (player.seat === seat) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'You are already in that seat');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate answering a request to trade seats
+ */
+export function validateSeatSwapAnswer(gameState: GameState, playerId: string): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (gameState.seatSwap?.toPlayerId !== playerId) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Nobody asked to trade seats with you');
+  }
+
+  if (gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Seats can only change before the game starts');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate an action only the host of the room can take
+ */
+export function validateHostAction(gameState: GameState, playerId: string, action: string): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (gameState.tournament) {
+    return rejected(RejectionReason.TOURNAMENT_ROOM, `Nobody can ${action} in a tournament room`);
+  }
+
+  if (gameState.hostId !== playerId) {
+    return rejected(RejectionReason.NOT_HOST, `Only the host can ${action}`);
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate locking or unlocking the seats
+ */
+export function validateSeatLock(gameState: GameState, playerId: string): ActionResult {
+  const result = validateHostAction(gameState, playerId, 'lock the seats');
+  if (!result.ok) return result;
+
+  if (gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Seats can only change before the game starts');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate the host removing a player (or a bot) from the room
+ */
+export function validateKick(gameState: GameState, playerId: string, targetId: string): ActionResult {
+  const result = validateHostAction(gameState, playerId, 'remove players');
+  if (!result.ok) return result;
+
+  if (gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Players can only be removed before the game starts');
+  }
+
+  if (targetId === playerId || !gameState.players.some(p => p.id === targetId)) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'That player can not be removed');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate the host handing the room over to another player
+ */
+export function validateHostTransfer(gameState: GameState, playerId: string, targetId: string): ActionResult {
+  const result = validateHostAction(gameState, playerId, 'hand over the room');
+  if (!result.ok) return result;
+
+  const target = gameState.players.find(p => p.id === targetId);
+  if (!target || target.id === playerId || target.isBot || target.isDisconnected) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'The room can only be handed to another connected player');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate the host changing the room settings
+ */
+export function validateSettingsChange(
+  gameState: GameState,
+  playerId: string,
+  settings: Partial<RoomSettings>
+): ActionResult {
+  const result = validateHostAction(gameState, playerId, 'change the settings');
+  if (!result.ok) return result;
+
+  if (gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+    return rejected(RejectionReason.INVALID_PHASE, 'Settings can only change before the game starts');
+  }
+
+  const { mode, ruleVariant, targetScore, bestOf, ranked } = settings;
+  if (mode !== undefined && !Object.values(GameMode).includes(mode)) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Unknown game mode');
+  }
+
+  if (mode === GameMode.ONE_VS_ONE && gameState.players.length > 2) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Too many players for a 1v1 game');
+  }
+
+  if (ruleVariant !== undefined && !Object.values(RuleVariant).includes(ruleVariant)) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Unknown rules');
+  }
+
+  if (targetScore !== undefined && !TARGET_SCORE_OPTIONS.includes(targetScore)) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Unsupported target score');
+  }
+
+  if (bestOf !== undefined && !SERIES_LENGTH_OPTIONS.includes(bestOf)) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Unsupported number of games');
+  }
+
+  if (ranked !== undefined && typeof ranked !== 'boolean') {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Invalid ranked setting');
+  }
+
+  if (ranked && gameState.players.some(p => p.isBot)) {
+    return rejected(RejectionReason.RANKED_HUMANS_ONLY, 'Remove the bots to make the game ranked');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate starting the next round, which any player at the table can do
+ */
+export function validateNewRound(gameState: GameState, playerId: string): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (gameState.roundState !== RoundState.ROUND_OVER) {
+    return rejected(RejectionReason.INVALID_PHASE, 'The current round is not over');
+  }
+
+  return accepted();
+}
+
+/**
+ * Validate a player's nonce for the next deal (up to 64 letters, digits, '-' or '_')
+ */
+export function validateDealNonce(gameState: GameState, playerId: string, nonce: unknown): ActionResult {
+  const player = findPlayer(gameState, playerId);
+  if (isResult(player)) return player;
+
+  if (!gameState.nextSeedHash) {
+    return rejected(RejectionReason.INVALID_PHASE, 'This game is dealt from a fixed seed');
+  }
+  if (typeof nonce !== 'string' || !/^[\w-]{1,64}$/.test(nonce)) {
+    return rejected(RejectionReason.INVALID_REQUEST, 'Invalid deal nonce');
+  }
+
+  return accepted();
+}
@@ -0,0 +1,154 @@
+import { GameState, GameEvent, Player, RoundState, EnvidoCall } from '@shared/types';
+import { getRoundValueName } from '@shared/gameRules';
+import { getCardDisplayName } from './cardUtils';
+import {
+  initializeGameState,
+  applyDeal,
+  startNewRound,
+  processPlayedCard,
+  processTrucoRequest,
+  acceptTrucoRequest,
+  declineTrucoRequest,
+  playHandOfEleven,
+  foldHandOfEleven,
+  forfeitGame
+} from './gameUtils';
+import { callEnvido, acceptEnvido, declineEnvido, declareEnvido } from './envidoUtils';
+
+// One position in a replay: the event and the game as it was right after it
+export interface ReplayStep {
+  event: GameEvent;
+  state: GameState;
+  description: string;
+}
+
+const ENVIDO_CALL_NAMES: Record<EnvidoCall, string> = {
+  [EnvidoCall.ENVIDO]: 'Envido',
+  [EnvidoCall.REAL_ENVIDO]: 'Real envido',
+  [EnvidoCall.FALTA_ENVIDO]: 'Falta envido',
+  [EnvidoCall.FLOR]: 'Flor',
+  [EnvidoCall.CONTRAFLOR]: 'Contraflor'
+};
+
+/**
+ * Apply a logged event to the game state, using the same rules the server played with
+ */
+export function applyGameEvent(gameState: GameState | null, event: GameEvent): GameState | null {
+  if (event.type === 'game_start') {
+    const players: Player[] = event.players.map(p => ({
+      ...p,
+      hand: [],
+      isDealer: p.id === event.dealer,
+      isReady: true,
+      isYourTurn: false
+    }));
+    const state = initializeGameState(
+      gameState?.id ?? '', event.mode, players, event.ruleVariant, undefined, event.targetScore
+    );
+    return { ...state, dealer: event.dealer };
+  }
+
+  // Nothing can happen before the game starts
+  if (!gameState) return null;
+
+  switch (event.type) {
+    case 'deal': {
+      const deal = (state: GameState) => applyDeal({ ...state, dealer: event.dealer }, event.vira, event.hands);
+      return gameState.roundState === RoundState.ROUND_OVER
+        ? startNewRound(gameState, deal)
+        : deal(gameState);
+    }
+    case 'play_card':
+      return processPlayedCard(gameState, event.playerId, event.card.id);
+    case 'truco_request':
+      return processTrucoRequest(gameState, event.playerId);
+    case 'truco_accept':
+      return acceptTrucoRequest(gameState, event.playerId);
+    case 'truco_decline':
+      return declineTrucoRequest(gameState, event.playerId);
+    case 'hand_of_eleven_play':
+      return playHandOfEleven(gameState, event.playerId);
+    case 'hand_of_eleven_fold':
+      return foldHandOfEleven(gameState, event.playerId);
+    case 'envido_call':
+      return callEnvido(gameState, event.playerId, event.call);
+    case 'envido_accept':
+      return acceptEnvido(gameState, event.playerId);
+    case 'envido_decline':
+      return declineEnvido(gameState, event.playerId);
+    case 'envido_declare':
+      return declareEnvido(gameState, event.playerId, event.sonBuenas);
+    case 'forfeit':
+      return forfeitGame(gameState, event.team);
+    case 'round_result':
+    case 'series_result':
+      // Only summaries, the round (and the game) were already closed by the play that ended them
+      return gameState;
+  }
+}
+
+/**
+ * Describe an event for the replay viewer
+ */
+export function describeGameEvent(event: GameEvent, state: GameState): string {
+  const name = (playerId: string) =>
+    state.players.find(p => p.id === playerId)?.username ?? 'Jogador';
+
+  switch (event.type) {
+    case 'game_start':
+      return `Início do jogo: ${event.players.map(p => `${p.username} (Time ${p.team})`).join(', ')}`;
+    case 'deal':
+      return `Rodada ${event.roundNumber}: ${name(event.dealer)} deu as cartas` +
+        (event.vira ? `, vira ${getCardDisplayName(event.vira)}` : '');
+    case 'play_card':
+      return `${name(event.playerId)} jogou ${getCardDisplayName(event.card)}`;
+    case 'truco_request':
+      return `${name(event.playerId)} pediu ${getRoundValueName(state.trucoRequestedValue ?? state.roundValue, state.ruleVariant)}`;
+    case 'truco_accept':
+      return `${name(event.playerId)} aceitou, a rodada vale ${state.roundValue}`;
+    case 'truco_decline':
+      return `${name(event.playerId)} correu`;
+    case 'hand_of_eleven_play':
+      return `${name(event.playerId)} decidiu jogar a mão de onze`;
+    case 'hand_of_eleven_fold':
+      return `${name(event.playerId)} correu da mão de onze`;
+    case 'envido_call':
+      return `${name(event.playerId)} cantou ${ENVIDO_CALL_NAMES[event.call]}`;
+    case 'envido_accept':
+      return `${name(event.playerId)} quis`;
+    case 'envido_decline':
+      return `${name(event.playerId)} não quis`;
+    case 'envido_declare': {
+      const declaration = state.envido?.declarations.find(d => d.playerId === event.playerId);
+      return event.sonBuenas || declaration?.points == null
+        ? `${name(event.playerId)}: são boas`
+        : `${name(event.playerId)} declarou ${declaration.points}`;
+    }
+    case 'round_result':
+      return (event.winner ? `Time ${event.winner} fez ${event.points} ponto(s)` : 'Rodada empatada') +
+        ` — ${event.teamAScore} x ${event.teamBScore}`;
+    case 'forfeit':
+      return `Time ${event.team} perdeu por tempo esgotado`;
+    case 'series_result': {
+      const wins = event.games.filter(g => g.winner === event.winner).length;
+      return `Time ${event.winner} venceu a partida por ${wins} x ${event.games.length - wins}`;
+    }
+  }
+}
+
+/**
+ * Rebuild every position of a game from its event log
+ */
+export function buildReplay(gameId: string, events: GameEvent[]): ReplayStep[] {
+  const steps: ReplayStep[] = [];
+  let state: GameState | null = null;
+
+  for (const event of events) {
+    const next = applyGameEvent(state, event);
+    if (!next) continue;
+    state = { ...next, id: gameId };
+    steps.push({ event, state, description: describeGameEvent(event, state) });
+  }
+
+  return steps;
+}
@@ -0,0 +1,59 @@
+CREATE TABLE "game_players" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" text NOT NULL,
+	"seat" integer NOT NULL,
+	"player_id" text NOT NULL,
+	"username" text NOT NULL,
+	"team" text NOT NULL,
+	"is_bot" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "game_players_game_id_seat_unique" UNIQUE("game_id","seat")
+);
+--> statement-breakpoint
+CREATE TABLE "games" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"mode" text NOT NULL,
+	"rule_variant" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"round_state" text NOT NULL,
+	"team_a_score" integer DEFAULT 0 NOT NULL,
+	"team_b_score" integer DEFAULT 0 NOT NULL,
+	"winner" text,
+	"snapshot" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "rounds" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" text NOT NULL,
+	"round_number" integer NOT NULL,
+	"winner" text,
+	"points" integer NOT NULL,
+	"team_a_score" integer NOT NULL,
+	"team_b_score" integer NOT NULL,
+	"vira" jsonb,
+	"finished_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tricks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" text NOT NULL,
+	"round_number" integer NOT NULL,
+	"trick_number" integer NOT NULL,
+	"cards" jsonb NOT NULL,
+	"outcome" text NOT NULL,
+	"winner_id" text,
+	"played_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "game_players" ADD CONSTRAINT "game_players_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rounds" ADD CONSTRAINT "rounds_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tricks" ADD CONSTRAINT "tricks_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
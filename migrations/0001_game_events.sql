@@ -0,0 +1,11 @@
+CREATE TABLE "game_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" text NOT NULL,
+	"seq" integer NOT NULL,
+	"type" text NOT NULL,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "game_events_game_id_seq_unique" UNIQUE("game_id","seq")
+);
+--> statement-breakpoint
+ALTER TABLE "game_events" ADD CONSTRAINT "game_events_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
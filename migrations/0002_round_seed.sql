@@ -0,0 +1 @@
+ALTER TABLE "rounds" ADD COLUMN "seed" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "games" ADD COLUMN "visibility" text DEFAULT 'public' NOT NULL;--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "invite_code" text;--> statement-breakpoint
+ALTER TABLE "games" ADD COLUMN "password_hash" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "series_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" text NOT NULL,
+	"mode" text NOT NULL,
+	"rule_variant" text NOT NULL,
+	"target_score" integer NOT NULL,
+	"best_of" integer NOT NULL,
+	"winner" text NOT NULL,
+	"games" jsonb NOT NULL,
+	"players" jsonb NOT NULL,
+	"finished_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "series_results" ADD CONSTRAINT "series_results_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
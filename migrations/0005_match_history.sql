@@ -0,0 +1,33 @@
+CREATE TABLE "match_players" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"match_id" integer NOT NULL,
+	"player_id" text NOT NULL,
+	"username" text NOT NULL,
+	"team" text NOT NULL,
+	"is_bot" boolean DEFAULT false NOT NULL,
+	"rounds_played" integer NOT NULL,
+	"rounds_won" integer NOT NULL,
+	"points_scored" integer NOT NULL,
+	"trucos_called" integer NOT NULL,
+	"trucos_accepted" integer NOT NULL,
+	"trucos_won" integer NOT NULL,
+	"times_ran" integer NOT NULL,
+	"manilhas_held" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "matches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_id" text NOT NULL,
+	"mode" text NOT NULL,
+	"rule_variant" text NOT NULL,
+	"target_score" integer NOT NULL,
+	"winner" text NOT NULL,
+	"team_a_score" integer NOT NULL,
+	"team_b_score" integer NOT NULL,
+	"forfeit_team" text,
+	"finished_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "match_players" ADD CONSTRAINT "match_players_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "matches" ADD CONSTRAINT "matches_game_id_games_id_fk" FOREIGN KEY ("game_id") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "match_players_player_id_idx" ON "match_players" USING btree ("player_id");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "rating_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"match_id" integer NOT NULL,
+	"player_id" text NOT NULL,
+	"mode" text NOT NULL,
+	"won" boolean NOT NULL,
+	"rating_before" integer NOT NULL,
+	"rating_after" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ratings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"player_id" text NOT NULL,
+	"username" text NOT NULL,
+	"mode" text NOT NULL,
+	"rating" integer NOT NULL,
+	"games_played" integer DEFAULT 0 NOT NULL,
+	"games_won" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ratings_player_id_mode_unique" UNIQUE("player_id","mode")
+);
+--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "ranked" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "rating_changes" ADD CONSTRAINT "rating_changes_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "rating_changes_mode_created_at_idx" ON "rating_changes" USING btree ("mode","created_at");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "tournaments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"host_id" text NOT NULL,
+	"mode" text NOT NULL,
+	"format" text NOT NULL,
+	"status" text NOT NULL,
+	"state" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,5 @@
+CREATE TABLE "server_secrets" (
+	"name" text PRIMARY KEY NOT NULL,
+	"value" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,120 @@
+import type { Express, RequestHandler } from 'express';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import passport from 'passport';
+import { Strategy as LocalStrategy } from 'passport-local';
+import { scrypt, randomBytes, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { type User } from '@shared/schema';
+import { AuthUser } from '@shared/types';
+import { storage } from './storage';
+import { log } from './logger';
+
+declare module 'express-session' {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
+declare global {
+  namespace Express {
+    interface User {
+      id: number;
+      username: string;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const MemoryStore = createMemoryStore(session);
+
+// Sessions last a week
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a password with a random salt, stored as "hash.salt"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString('hex')}.${salt}`;
+}
+
+/**
+ * Check a password against a hash made by hashPassword
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split('.');
+  if (!hashed || !salt) return false;
+
+  const storedHash = Buffer.from(hashed, 'hex');
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+/**
+ * The account as the client sees it, without the password
+ */
+export function toAuthUser(user: Pick<User, 'id' | 'username'>): AuthUser {
+  return {
+    id: user.id,
+    username: user.username,
+    playerId: `user-${user.id}`
+  };
+}
+
+/**
+ * Set up cookie sessions and password login.
+ * Returns the session middleware, so the socket.io handshake can read the same session.
+ */
+export function setupAuth(app: Express): RequestHandler {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    log('SESSION_SECRET is not set, sessions will not survive a restart', 'auth');
+  }
+
+  const sessionMiddleware = session({
+    secret: secret || randomBytes(32).toString('hex'),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: app.get('env') === 'production',
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  });
+
+  if (app.get('env') === 'production') {
+    app.set('trust proxy', 1);
+  }
+
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, { id: user.id, username: user.username });
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? { id: user.id, username: user.username } : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  return sessionMiddleware;
+}
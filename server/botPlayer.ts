@@ -0,0 +1,321 @@
+import { GameState, Player, Card, RoundState, BotDifficulty, EnvidoCall } from '@shared/types';
+import { compareCards, getManilhaStrength, getEnvidoPoints, hasFlor } from '@shared/gameRules';
+import { getRuleSet } from '@shared/ruleSets';
+import { estimateWinProbability, suggestCards } from '@shared/handAnalysis';
+import { getTrucoRespondingTeam, isEnvidoInProgress } from '@/utils/gameUtils';
+import { getEnvidoRespondingTeam, getRoundHand } from '@/utils/envidoUtils';
+import {
+  validatePlayCard,
+  validateTrucoRequest,
+  validateEnvidoCall
+} from '@/utils/moveValidation';
+import { createPlayerView } from './gameView';
+
+// Decision making for bot players.
+// Bots only look at public information, their own hand and (in the mão de onze)
+// their partner's hand, the same things a human in their seat would see.
+
+export type BotAction =
+  | { type: 'play_card'; cardId: string }
+  | { type: 'play_blind_card'; cardIndex: number }
+  | { type: 'request_truco' }
+  | { type: 'accept_truco' }
+  | { type: 'decline_truco' }
+  | { type: 'play_hand_of_eleven' }
+  | { type: 'fold_hand_of_eleven' }
+  | { type: 'call_envido'; call: EnvidoCall }
+  | { type: 'accept_envido' }
+  | { type: 'decline_envido' }
+  | { type: 'declare_envido'; sonBuenas: boolean };
+
+interface BotProfile {
+  mistakeChance: number; // Chance of playing a random card
+  raiseThreshold: number; // Round chance needed to raise the bet
+  acceptThreshold: number; // Round chance needed to accept a bet
+  bluffChance: number; // Chance of raising with a weak hand
+  envidoThreshold: number; // Envido points needed to call envido
+  handOfElevenThreshold: number; // Hand strength needed to play the mão de onze
+  useAnalysis: boolean; // Simulate the round (handAnalysis.ts) instead of using simple heuristics
+}
+
+// Simulated deals per decision for bots using the hand analysis
+const BOT_ANALYSIS_SAMPLES = 200;
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  [BotDifficulty.EASY]: {
+    mistakeChance: 0.5,
+    raiseThreshold: 0.8,
+    acceptThreshold: 0.3,
+    bluffChance: 0.05,
+    envidoThreshold: 30,
+    handOfElevenThreshold: 0.3,
+    useAnalysis: false
+  },
+  [BotDifficulty.MEDIUM]: {
+    mistakeChance: 0.15,
+    raiseThreshold: 0.65,
+    acceptThreshold: 0.45,
+    bluffChance: 0.08,
+    envidoThreshold: 28,
+    handOfElevenThreshold: 0.5,
+    useAnalysis: false
+  },
+  [BotDifficulty.HARD]: {
+    mistakeChance: 0,
+    raiseThreshold: 0.6,
+    acceptThreshold: 0.5,
+    bluffChance: 0.15,
+    envidoThreshold: 27,
+    handOfElevenThreshold: 0.55,
+    useAnalysis: true
+  }
+};
+
+// Manilhas rank above every other card (strongest regular card is 10)
+const MANILHA_BASE_POWER = 10;
+const MAX_CARD_POWER = 14;
+
+/**
+ * Strength of a card between 0 and 1
+ */
+export function getCardPower(card: Card, gameState: GameState): number {
+  const manilha = getManilhaStrength(card, gameState.vira, gameState.ruleVariant);
+  const power = manilha > 0
+    ? MANILHA_BASE_POWER + manilha
+    : getRuleSet(gameState.ruleVariant).cardStrengths[card.value];
+
+  return power / MAX_CARD_POWER;
+}
+
+/**
+ * Average strength of a set of cards between 0 and 1
+ */
+export function getHandPower(cards: Card[], gameState: GameState): number {
+  if (cards.length === 0) return 0;
+  return cards.reduce((sum, card) => sum + getCardPower(card, gameState), 0) / cards.length;
+}
+
+/**
+ * Estimate the chance of the bot's team winning the round from its cards and the tricks so far
+ */
+function estimateRoundChance(gameState: GameState, bot: Player, profile: BotProfile): number {
+  if (profile.useAnalysis) {
+    return estimateWinProbability(createPlayerView(gameState, bot.id), bot.id, { samples: BOT_ANALYSIS_SAMPLES });
+  }
+
+  let chance = gameState.isIronHand ? 0.5 : getHandPower(bot.hand, gameState);
+
+  // Strong cards matter more than the average
+  const best = bot.hand.reduce((max, card) => Math.max(max, getCardPower(card, gameState)), 0);
+  chance = (chance + best) / 2;
+
+  for (const trick of gameState.tricks) {
+    if (trick.outcome === bot.team) chance += 0.25;
+    else if (trick.outcome !== 'draw') chance -= 0.25;
+  }
+
+  return Math.max(0, Math.min(1, chance));
+}
+
+/**
+ * Check if a team has a connected human, who answers for the team instead of the bots
+ */
+function hasHumanOnTeam(gameState: GameState, team: 'A' | 'B', bots: Set<string>): boolean {
+  return gameState.players.some(p => p.team === team && !bots.has(p.id));
+}
+
+/**
+ * Check if the bot is the one answering for its team (the first bot of a team without humans)
+ */
+function answersForTeam(gameState: GameState, bot: Player, bots: Set<string>): boolean {
+  if (hasHumanOnTeam(gameState, bot.team, bots)) return false;
+  return gameState.players.find(p => p.team === bot.team && bots.has(p.id))?.id === bot.id;
+}
+
+/**
+ * Pick the card to play in the current trick
+ */
+function chooseCard(gameState: GameState, bot: Player, profile: BotProfile): Card | null {
+  const playable = bot.hand.filter(card =>
+    validatePlayCard(gameState, bot.id, { cardId: card.id }).ok
+  );
+  if (playable.length === 0) return null;
+
+  if (Math.random() < profile.mistakeChance) {
+    return playable[Math.floor(Math.random() * playable.length)];
+  }
+
+  // Pick the card that wins the most simulated rounds
+  if (profile.useAnalysis) {
+    const view = createPlayerView(gameState, bot.id);
+    const best = suggestCards(view, bot.id, { samples: BOT_ANALYSIS_SAMPLES })
+      .find(s => playable.some(card => card.id === s.card.id));
+    if (best) return best.card;
+  }
+
+  const { vira, ruleVariant, currentTrick } = gameState;
+  const sorted = [...playable].sort((a, b) => compareCards(a, b, vira, ruleVariant));
+  const weakest = sorted[0];
+  const strongest = sorted[sorted.length - 1];
+
+  // Leading the trick
+  if (currentTrick.length === 0) {
+    // After winning a trick, close the round with the best card
+    if (gameState.tricks.some(t => t.outcome === bot.team)) return strongest;
+
+    // Open the first trick with the middle card, keeping the best one for later
+    return sorted.length === 3 ? sorted[1] : strongest;
+  }
+
+  // Find the card currently winning the trick
+  let winning = currentTrick[0];
+  for (const played of currentTrick.slice(1)) {
+    if (compareCards(played.card, winning.card, vira, ruleVariant) > 0) {
+      winning = played;
+    }
+  }
+
+  // Don't waste cards when the partner is already winning
+  const winningTeam = gameState.players.find(p => p.id === winning.playerId)?.team;
+  if (winningTeam === bot.team) return weakest;
+
+  // Beat the winning card as cheaply as possible, or give up the weakest card
+  const beating = sorted.find(card => compareCards(card, winning.card, vira, ruleVariant) > 0);
+  return beating ?? weakest;
+}
+
+/**
+ * Decide the bot's answer to a pending envido or flor call
+ */
+function chooseEnvidoAnswer(gameState: GameState, bot: Player, profile: BotProfile): BotAction {
+  const hand = getRoundHand(gameState, bot.id);
+
+  // Answer a flor with a flor whenever possible
+  if (hasFlor(hand)) {
+    for (const call of [EnvidoCall.FLOR, EnvidoCall.CONTRAFLOR]) {
+      if (validateEnvidoCall(gameState, bot.id, call).ok) return { type: 'call_envido', call };
+    }
+    return { type: 'accept_envido' };
+  }
+
+  const points = getEnvidoPoints(hand);
+
+  if (points >= profile.envidoThreshold + 3 && validateEnvidoCall(gameState, bot.id, EnvidoCall.REAL_ENVIDO).ok) {
+    return { type: 'call_envido', call: EnvidoCall.REAL_ENVIDO };
+  }
+
+  return points >= profile.envidoThreshold - 2 ? { type: 'accept_envido' } : { type: 'decline_envido' };
+}
+
+/**
+ * Decide the bot's envido declaration: "son buenas" when the other team already showed more points
+ */
+function chooseEnvidoDeclaration(gameState: GameState, bot: Player): BotAction {
+  const points = getEnvidoPoints(getRoundHand(gameState, bot.id));
+  const bestOpponent = Math.max(-1, ...(gameState.envido?.declarations ?? []).map(d => {
+    const declarer = gameState.players.find(p => p.id === d.playerId);
+    return declarer?.team !== bot.team && d.points !== null ? d.points : -1;
+  }));
+
+  return { type: 'declare_envido', sonBuenas: bestOpponent > points };
+}
+
+/**
+ * Choose the next action of a bot, or null when it has nothing to do.
+ * `bots` holds every seat played by the server, used to let humans answer for their team.
+ */
+export function chooseBotAction(
+  gameState: GameState,
+  botId: string,
+  difficulty: BotDifficulty,
+  bots: Set<string>
+): BotAction | null {
+  const bot = gameState.players.find(p => p.id === botId);
+  if (!bot) return null;
+
+  const profile = BOT_PROFILES[difficulty];
+
+  // Mão de onze: look at the partners' cards and decide for the team
+  if (gameState.roundState === RoundState.HAND_OF_ELEVEN) {
+    if (bot.team !== gameState.handOfElevenTeam || !answersForTeam(gameState, bot, bots)) return null;
+
+    const teamCards = gameState.players
+      .filter(p => p.team === bot.team)
+      .flatMap(p => p.hand);
+
+    return getHandPower(teamCards, gameState) >= profile.handOfElevenThreshold
+      ? { type: 'play_hand_of_eleven' }
+      : { type: 'fold_hand_of_eleven' };
+  }
+
+  if (gameState.roundState !== RoundState.PLAYING) return null;
+
+  const envido = gameState.envido;
+
+  // Envido declarations are made by each player in turn
+  if (envido && !envido.pending && !envido.resolved && envido.declaringPlayer === bot.id) {
+    return chooseEnvidoDeclaration(gameState, bot);
+  }
+
+  // Answer a pending envido
+  if (envido?.pending) {
+    if (getEnvidoRespondingTeam(gameState) !== bot.team || !answersForTeam(gameState, bot, bots)) return null;
+    return chooseEnvidoAnswer(gameState, bot, profile);
+  }
+
+  if (isEnvidoInProgress(gameState)) return null;
+
+  // Answer a pending truco: raise again, accept or run
+  if (gameState.trucoRequested) {
+    if (getTrucoRespondingTeam(gameState) !== bot.team || !answersForTeam(gameState, bot, bots)) return null;
+
+    // "O envido vem primeiro": answer the truco with an envido when the hand is good for it
+    const envidoPoints = getEnvidoPoints(getRoundHand(gameState, bot.id));
+    if (
+      envidoPoints >= profile.envidoThreshold &&
+      validateEnvidoCall(gameState, bot.id, EnvidoCall.ENVIDO).ok
+    ) {
+      return { type: 'call_envido', call: EnvidoCall.ENVIDO };
+    }
+
+    // Only estimated once the bot is sure to act, as hard bots simulate the rest of the round
+    const chance = estimateRoundChance(gameState, bot, profile);
+    if (chance >= profile.raiseThreshold + 0.1 && validateTrucoRequest(gameState, bot.id).ok) {
+      return { type: 'request_truco' };
+    }
+
+    return chance >= profile.acceptThreshold ? { type: 'accept_truco' } : { type: 'decline_truco' };
+  }
+
+  if (gameState.currentPlayer !== bot.id) return null;
+
+  // Flor is always sung, and a good envido is called before playing the first card
+  if (getRuleSet(gameState.ruleVariant).hasEnvido) {
+    if (validateEnvidoCall(gameState, bot.id, EnvidoCall.FLOR).ok) {
+      return { type: 'call_envido', call: EnvidoCall.FLOR };
+    }
+
+    const envidoPoints = getEnvidoPoints(getRoundHand(gameState, bot.id));
+    if (
+      envidoPoints >= profile.envidoThreshold &&
+      validateEnvidoCall(gameState, bot.id, EnvidoCall.ENVIDO).ok
+    ) {
+      return { type: 'call_envido', call: EnvidoCall.ENVIDO };
+    }
+  }
+
+  if (validateTrucoRequest(gameState, bot.id).ok) {
+    const wantsToRaise = Math.random() < profile.bluffChance ||
+      estimateRoundChance(gameState, bot, profile) >= profile.raiseThreshold;
+    if (wantsToRaise) return { type: 'request_truco' };
+  }
+
+  // In the mão de ferro the cards are played blind
+  if (gameState.isIronHand) {
+    const cardCount = bot.hand.length;
+    return cardCount > 0 ? { type: 'play_blind_card', cardIndex: Math.floor(Math.random() * cardCount) } : null;
+  }
+
+  const card = chooseCard(gameState, bot, profile);
+  return card ? { type: 'play_card', cardId: card.id } : null;
+}
@@ -0,0 +1,43 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { migrate as migrateNeon } from 'drizzle-orm/neon-serverless/migrator';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import { migrate as migratePglite } from 'drizzle-orm/pglite/migrator';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+import { log } from './logger';
+
+// Database connection.
+// With DATABASE_URL set the hosted Postgres database is used; otherwise an embedded
+// Postgres (PGlite) keeps its files in PGLITE_DATA_DIR, so the server runs without setup.
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+const MIGRATIONS_FOLDER = './migrations';
+const DEFAULT_PGLITE_DATA_DIR = './data/truco';
+
+/**
+ * Connect to the database and bring its tables up to date
+ */
+export async function connectDatabase(): Promise<Database> {
+  if (process.env.DATABASE_URL) {
+    neonConfig.webSocketConstructor = ws;
+
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    const db = drizzleNeon({ client: pool, schema });
+    await migrateNeon(db, { migrationsFolder: MIGRATIONS_FOLDER });
+
+    log('Connected to Postgres database', 'storage');
+    return db;
+  }
+
+  const dataDir = process.env.PGLITE_DATA_DIR || DEFAULT_PGLITE_DATA_DIR;
+  const client = new PGlite(dataDir);
+  const db = drizzlePglite({ client, schema });
+  await migratePglite(db, { migrationsFolder: MIGRATIONS_FOLDER });
+
+  log(`Using embedded database in ${dataDir}`, 'storage');
+  return db;
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameMode, RoundState, RuleVariant } from '@shared/types';
+import { DatabaseStorage, MemStorage } from './storage';
+import { GameManager } from './gameManager';
+
+// A finished 1v1 game between ana and bia, in a room of the given visibility
+async function playGame(visibility: 'public' | 'private') {
+  const storage = new MemStorage();
+  await storage.init();
+  const gameManager = new GameManager(storage);
+  const game = gameManager.createGame('game', GameMode.ONE_VS_ONE, 'Mesa', RuleVariant.PAULISTA, undefined, visibility);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  game.startGame();
+
+  // Let the room be saved before it is archived
+  await gameManager.getGameEvents('game');
+  gameManager.removeGame('game');
+
+  return { gameManager, events: await gameManager.getGameEvents('game') };
+}
+
+test('replays of private rooms are only for their players', async () => {
+  const { gameManager, events } = await playGame('private');
+
+  assert.equal(await gameManager.canViewReplay('game', 'ana', events), true);
+  assert.equal(await gameManager.canViewReplay('game', 'caio', events), false);
+});
+
+test('replays of public rooms are for everyone', async () => {
+  const { gameManager, events } = await playGame('public');
+
+  assert.equal(await gameManager.canViewReplay('game', 'caio', events), true);
+});
+
+test('games in progress are restored from the database after a restart', async () => {
+  process.env.PGLITE_DATA_DIR = 'memory://';
+  const storage = new DatabaseStorage();
+  await storage.init();
+
+  const gameManager = new GameManager(storage);
+  const game = gameManager.createGame('game', GameMode.ONE_VS_ONE, 'Mesa', RuleVariant.MINEIRO, undefined, 'private');
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  game.startGame();
+  const { currentPlayer, players } = game.gameState;
+  const card = players.find(p => p.id === currentPlayer)?.hand[0];
+  assert.equal(game.playCard(currentPlayer, card?.id as string).ok, true);
+  await gameManager.getGameEvents('game');
+  game.dispose();
+
+  // A new server reads the game back, waiting for its players to reconnect
+  const restarted = new GameManager(storage);
+  const [restored] = await restarted.restoreGames();
+  assert.equal(restarted.getGame('game'), restored);
+  assert.equal(restarted.getRoomName('game'), 'Mesa');
+  assert.equal(restarted.getPublicRooms().length, 0);
+
+  const { gameState } = restored;
+  assert.equal(gameState.roundState, RoundState.PLAYING);
+  assert.equal(gameState.ruleVariant, RuleVariant.MINEIRO);
+  assert.deepEqual(gameState.currentTrick.map(play => play.card.id), [card?.id]);
+  assert.deepEqual(gameState.players.map(p => p.hand), game.gameState.players.map(p => p.hand));
+  assert.deepEqual(gameState.players.map(p => p.isDisconnected), [true, true]);
+  restored.dispose();
+});
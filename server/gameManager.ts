@@ -1,25 +1,162 @@
 import { EventEmitter } from 'events';
-import { TrucoGame } from './trucoGame';
-import { GameState, GameMode, GameRoom } from '@shared/types';
+import { randomInt } from 'crypto';
+import { TrucoGame, RoundResult, TrickResult, SeriesResult, GameResult } from './trucoGame';
+import { 
+  GameState, 
+  GameMode, 
+  GameRoom, 
+  RuleVariant, 
+  TimerSettings, 
+  GameEvent, 
+  RoomVisibility, 
+  RoomCredentials, 
+  RoomInvite, 
+  ActionResult, 
+  RejectionReason 
+} from '@shared/types';
+import { IStorage } from './storage';
+import { summarizeMatch, MatchResult } from '@shared/matchStats';
+import { calculateRatingChanges, DEFAULT_RATING } from '@shared/ratings';
+import { comparePasswords } from './auth';
+import { log } from './logger';
+
+// Invite codes are short enough to read out loud, without letters and digits that look alike
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 6;
+
+// Who can enter a room. Every room has an invite code, private rooms can only be entered with it.
+export interface RoomAccess {
+  visibility: RoomVisibility;
+  inviteCode: string;
+  passwordHash: string | null; // Only for password protected rooms
+}
 
 export class GameManager extends EventEmitter {
   private games: Map<string, TrucoGame> = new Map();
+  private pendingWrites: Map<string, Promise<void>> = new Map(); // Writes of each game, in order
+  private queuedSaves: Set<string> = new Set(); // Games with a snapshot waiting to be written
   
-  constructor() {
+  constructor(private storage: IStorage) {
     super();
   }
   
   // Create a new game
-  public createGame(id: string, mode: GameMode, name: string): TrucoGame {
-    const game = new TrucoGame(id, mode);
+  public createGame(
+    id: string, 
+    mode: GameMode, 
+    name: string, 
+    ruleVariant: RuleVariant = RuleVariant.PAULISTA,
+    timerSettings?: TimerSettings,
+    visibility: RoomVisibility = 'public',
+    passwordHash: string | null = null
+  ): TrucoGame {
+    const game = new TrucoGame(id, mode, ruleVariant, timerSettings);
+    this.setRoomName(id, name);
+    this.roomAccess.set(id, { visibility, inviteCode: this.createInviteCode(), passwordHash });
+    this.addGame(game);
+    this.saveGame(id);
+    return game;
+  }
+  
+  // Track a game and save it after every change
+  private addGame(game: TrucoGame): void {
+    const id = game.gameState.id;
     
     // Set up event forwarding
     game.on('game_update', (gameState: GameState) => {
       this.emit('game_update', id, gameState);
+      this.saveGame(id);
+    });
+    
+    game.on('trick_completed', (trick: TrickResult) => {
+      this.enqueueWrite(id, 'save trick', () => this.storage.saveTrick(id, trick));
+    });
+    
+    game.on('round_completed', (round: RoundResult) => {
+      this.enqueueWrite(id, 'save round', () => this.storage.saveRound(id, round));
+    });
+    
+    // The game's events are queued before it ends, so the history is worked out from them
+    game.on('game_completed', (result: GameResult) => {
+      this.enqueueWrite(id, 'save match', async () => {
+        const events = await this.storage.getGameEvents(id);
+        const match: MatchResult = { gameId: id, ...result, players: summarizeMatch(events) };
+        const matchId = await this.storage.saveMatch(match);
+        if (match.ranked) await this.updateRatings(matchId, match);
+      });
+    });
+    
+    game.on('series_completed', (series: SeriesResult) => {
+      this.enqueueWrite(id, 'save series', () => this.storage.saveSeries(id, series));
+    });
+    
+    game.on('game_event', (event: GameEvent) => {
+      this.enqueueWrite(id, 'log event', () => this.storage.appendGameEvent(id, event));
     });
     
     this.games.set(id, game);
-    return game;
+  }
+  
+  // Bring back the games that were running when the server stopped
+  public async restoreGames(): Promise<TrucoGame[]> {
+    const saved = await this.storage.loadActiveGames();
+    
+    return saved.map(({ id, name, access, snapshot }) => {
+      const game = TrucoGame.fromSnapshot(snapshot);
+      this.setRoomName(id, name);
+      this.roomAccess.set(id, access ?? { visibility: 'public', inviteCode: this.createInviteCode(), passwordHash: null });
+      this.addGame(game);
+      log(`Restored game ${id} (${snapshot.state.roundState})`, 'storage');
+      return game;
+    });
+  }
+  
+  // Rate the players of a ranked game (players without a rating start from the default one)
+  private async updateRatings(matchId: number, match: MatchResult): Promise<void> {
+    const current = await this.storage.getRatings(match.players.map(p => p.playerId), match.mode);
+    const changes = calculateRatingChanges(
+      match.players.map(p => ({
+        playerId: p.playerId,
+        username: p.username,
+        team: p.team,
+        rating: current.find(r => r.playerId === p.playerId)?.rating ?? DEFAULT_RATING
+      })),
+      match.winner
+    );
+    await this.storage.applyRatingChanges(matchId, match.mode, changes);
+  }
+  
+  private saveGame(id: string): void {
+    // Only the latest state matters, so one queued snapshot covers any number of changes
+    if (this.queuedSaves.has(id)) return;
+    this.queuedSaves.add(id);
+    
+    this.enqueueWrite(id, 'save game', async () => {
+      this.queuedSaves.delete(id);
+      const game = this.games.get(id);
+      if (!game) return;
+      
+      await this.storage.saveGame({
+        id,
+        name: this.getRoomName(id) || '',
+        access: this.roomAccess.get(id),
+        snapshot: game.toSnapshot()
+      });
+    });
+  }
+  
+  // Writes for a game run one after another, so they reach the database in order.
+  // A failed write is logged and doesn't stop the game.
+  private enqueueWrite(id: string, description: string, write: () => Promise<void>): void {
+    const previous = this.pendingWrites.get(id) ?? Promise.resolve();
+    const next = previous
+      .then(write)
+      .catch(error => log(`Failed to ${description} for game ${id}: ${error}`, 'error'));
+    
+    this.pendingWrites.set(id, next);
+    next.then(() => {
+      if (this.pendingWrites.get(id) === next) this.pendingWrites.delete(id);
+    });
   }
   
   // Get a game by ID
@@ -29,7 +166,30 @@ export class GameManager extends EventEmitter {
   
   // Remove a game
   public removeGame(id: string): boolean {
-    return this.games.delete(id);
+    const game = this.games.get(id);
+    if (!game) return false;
+    
+    game.dispose();
+    this.games.delete(id);
+    this.enqueueWrite(id, 'archive', () => this.storage.archiveGame(id));
+    this.roomNames.delete(id);
+    this.roomAccess.delete(id);
+    return true;
+  }
+  
+  // Event log of a game, for replays (games removed from memory are read from storage)
+  public async getGameEvents(id: string): Promise<GameEvent[]> {
+    // Let the events still being written reach the storage first
+    await this.pendingWrites.get(id);
+    return this.storage.getGameEvents(id);
+  }
+  
+  // Replays of private and password rooms are only shown to the players of their games
+  public async canViewReplay(id: string, playerId: string, events: GameEvent[]): Promise<boolean> {
+    const visibility = this.roomAccess.get(id)?.visibility ?? await this.storage.getGameVisibility(id) ?? 'public';
+    if (visibility === 'public') return true;
+    
+    return events.some(event => event.type === 'game_start' && event.players.some(p => p.id === playerId));
   }
   
   // Get all games
@@ -44,27 +204,84 @@ export class GameManager extends EventEmitter {
     );
   }
   
-  // Get public room information for the lobby
+  // Get public room information for the lobby (private rooms are only found by their invite code)
   public getPublicRooms(): GameRoom[] {
-    return this.getAllGames().map(game => {
-      const { id, mode, players, roundState } = game.gameState;
-      
-      return {
-        id,
-        name: this.getRoomName(id) || `Game ${id.substring(0, 5)}`,
-        mode,
-        players: players.map(p => p.id),
-        maxPlayers: mode === GameMode.ONE_VS_ONE ? 2 : 4,
-        status: roundState === 'waiting_for_players' ? 'waiting' : 
-                players.length < (mode === GameMode.ONE_VS_ONE ? 2 : 4) ? 'waiting' : 'playing',
-        createdAt: Date.now() // Ideally this would be stored when creating the game
-      };
-    });
+    return this.getAllGames()
+      .filter(game => this.roomAccess.get(game.gameState.id)?.visibility !== 'private')
+      .map(game => this.getRoomInfo(game));
+  }
+  
+  // Room of an invite code, for the invite links
+  public getRoomByInviteCode(inviteCode: string): GameRoom | undefined {
+    const code = inviteCode.trim().toUpperCase();
+    const game = this.getAllGames()
+      .find(game => this.roomAccess.get(game.gameState.id)?.inviteCode === code);
+    return game && this.getRoomInfo(game);
+  }
+  
+  private getRoomInfo(game: TrucoGame): GameRoom {
+    const { id, mode, ruleVariant, targetScore, series, ranked, players, roundState } = game.gameState;
+    
+    return {
+      id,
+      name: this.getRoomName(id) || `Game ${id.substring(0, 5)}`,
+      mode,
+      ruleVariant,
+      targetScore,
+      bestOf: series.bestOf,
+      ranked,
+      visibility: this.roomAccess.get(id)?.visibility ?? 'public',
+      players: players.map(p => p.id),
+      maxPlayers: mode === GameMode.ONE_VS_ONE ? 2 : 4,
+      spectatorCount: game.gameState.spectators.length,
+      status: roundState === 'waiting_for_players' ? 'waiting' : 
+              players.length < (mode === GameMode.ONE_VS_ONE ? 2 : 4) ? 'waiting' : 'playing',
+      createdAt: Date.now() // Ideally this would be stored when creating the game
+    };
+  }
+  
+  // Invite of a room, for the players seated in it
+  public getRoomInvite(id: string): RoomInvite | undefined {
+    const access = this.roomAccess.get(id);
+    return access && { gameId: id, visibility: access.visibility, inviteCode: access.inviteCode };
+  }
+  
+  // Check the invite code or password of someone taking a seat in a room, or watching it
+  public async checkRoomAccess(id: string, credentials: RoomCredentials = {}): Promise<ActionResult> {
+    const access = this.roomAccess.get(id);
+    if (!access || access.visibility === 'public') return { ok: true };
+    
+    const { inviteCode, password } = credentials;
+    if (typeof inviteCode === 'string' && inviteCode.trim().toUpperCase() === access.inviteCode) {
+      return { ok: true };
+    }
+    
+    if (access.visibility === 'private') {
+      return { ok: false, reason: RejectionReason.INVITE_REQUIRED, message: 'This room can only be joined with an invite' };
+    }
+    if (!access.passwordHash || typeof password !== 'string' || !(await comparePasswords(password, access.passwordHash))) {
+      return { ok: false, reason: RejectionReason.WRONG_PASSWORD, message: 'Wrong room password' };
+    }
+    return { ok: true };
+  }
+  
+  private createInviteCode(): string {
+    const inUse = new Set(Array.from(this.roomAccess.values(), access => access.inviteCode));
+    let code: string;
+    do {
+      code = Array.from({ length: INVITE_CODE_LENGTH }, () => 
+        INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]
+      ).join('');
+    } while (inUse.has(code));
+    return code;
   }
   
   // Room name cache
   private roomNames: Map<string, string> = new Map();
   
+  // Visibility, invite code and password of each room
+  private roomAccess: Map<string, RoomAccess> = new Map();
+  
   public setRoomName(id: string, name: string): void {
     this.roomNames.set(id, name);
   }
@@ -0,0 +1,57 @@
+import { GameState, Player, RoundState } from '@shared/types';
+
+// Per-player projections of the game state.
+// The server keeps the full GameState; clients only ever receive a view
+// built for them, so the cards in other players' hands never leave the server.
+
+/**
+ * Hide a player's hand, keeping only the number of cards they hold
+ */
+function redactPlayer(player: Player): Player {
+  return {
+    ...player,
+    hand: [],
+    handCount: player.hand.length
+  };
+}
+
+/**
+ * Build the game state as seen by a single player.
+ * The viewer keeps their own hand; every other hand is replaced by a card count.
+ * Passing a null viewer produces a view with every hand hidden.
+ *
+ * During the mão de onze the deciding team also sees the partner's hand,
+ * and during the mão de ferro nobody sees their own cards.
+ */
+export function createPlayerView(gameState: GameState, viewerId: string | null): GameState {
+  const viewer = gameState.players.find(p => p.id === viewerId);
+  const showsPartnerHand = 
+    gameState.roundState === RoundState.HAND_OF_ELEVEN &&
+    viewer?.team === gameState.handOfElevenTeam;
+
+  const players = gameState.players.map(player => {
+    if (player.id === viewerId) {
+      return gameState.isIronHand 
+        ? redactPlayer(player) 
+        : { ...player, handCount: player.hand.length };
+    }
+
+    if (showsPartnerHand && player.team === viewer?.team) {
+      return { ...player, handCount: player.hand.length };
+    }
+
+    return redactPlayer(player);
+  });
+
+  // Remaining time is measured when the view is built, so clients don't depend on the server clock
+  const turnTimer = gameState.turnTimer && {
+    ...gameState.turnTimer,
+    remainingMs: Math.max(0, gameState.turnTimer.expiresAt - Date.now())
+  };
+
+  return {
+    ...gameState,
+    players,
+    turnTimer
+  };
+}
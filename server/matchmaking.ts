@@ -0,0 +1,303 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { GameMode, ActionResult, RejectionReason } from '@shared/types';
+import { QueueStatus, ReadyCheck, READY_CHECK_SECONDS, getRatingWindow } from '@shared/matchmaking';
+import { getSeatCount } from '@/utils/gameUtils';
+import { rejected } from '@/utils/moveValidation';
+import { log } from './logger';
+
+// How often the queue looks for new matches (the rating windows grow between passes)
+const MATCHMAKING_INTERVAL_MS = 2000;
+
+export interface QueuedPlayer {
+  playerId: string;
+  username: string;
+  rating: number; // Rating in the mode queued for
+}
+
+// A solo player, or a duo that plays on the same team
+interface QueueEntry {
+  mode: GameMode;
+  players: QueuedPlayer[];
+  rating: number; // Average of the players
+  joinedAt: number;
+}
+
+// A match found, waiting for every player to accept it
+export interface QueueMatch {
+  id: string;
+  mode: GameMode;
+  entries: QueueEntry[];
+  teams: [QueuedPlayer[], QueuedPlayer[]];
+  accepted: Set<string>;
+  deadline: number;
+  timer: NodeJS.Timeout;
+}
+
+// A player asked a friend to queue for 2v2 as a duo
+export interface DuoInvite {
+  inviter: QueuedPlayer;
+  partner: QueuedPlayer;
+}
+
+// Split the players of a match in two teams: duos play together, solo players are paired to even out the ratings
+function formTeams(mode: GameMode, entries: QueueEntry[]): [QueuedPlayer[], QueuedPlayer[]] {
+  const solos = entries
+    .filter(entry => entry.players.length === 1)
+    .map(entry => entry.players[0])
+    .sort((a, b) => b.rating - a.rating);
+  if (mode === GameMode.ONE_VS_ONE) return [[solos[0]], [solos[1]]];
+
+  const teams = entries.filter(entry => entry.players.length === 2).map(entry => entry.players);
+  if (solos.length === 4) {
+    teams.push([solos[0], solos[3]], [solos[1], solos[2]]);
+  } else if (solos.length === 2) {
+    teams.push(solos);
+  }
+  return [teams[0], teams[1]];
+}
+
+export class Matchmaker extends EventEmitter {
+  private queue: QueueEntry[] = []; // In the order players joined
+  private matches: Map<string, QueueMatch> = new Map();
+  private duoInvites: Map<string, DuoInvite> = new Map(); // By the invited player
+  private interval: NodeJS.Timeout | null = null;
+
+  // Queue a solo player or a duo
+  public join(mode: GameMode, players: QueuedPlayer[]): ActionResult {
+    if (players.some(p => this.isBusy(p.playerId))) {
+      return rejected(RejectionReason.ALREADY_QUEUED, 'Already looking for a game');
+    }
+
+    const rating = Math.round(players.reduce((sum, p) => sum + p.rating, 0) / players.length);
+    this.addEntry({ mode, players, rating, joinedAt: Date.now() });
+    log(`${players.map(p => p.username).join(' and ')} joined the ${mode} queue (rating ${rating})`, 'game');
+
+    this.findMatches();
+    return { ok: true };
+  }
+
+  // Leave the queue, and drop any duo invite or match found the player is part of
+  public leave(playerId: string): void {
+    const entry = this.findEntry(playerId);
+    if (entry) {
+      this.queue = this.queue.filter(e => e !== entry);
+      entry.players.forEach(p => this.emit('queue_update', p.playerId, null));
+      this.stopIfEmpty();
+    }
+
+    this.duoInvites.forEach((invite, partnerId) => {
+      if (invite.inviter.playerId !== playerId && partnerId !== playerId) return;
+      this.duoInvites.delete(partnerId);
+      this.emit('duo_invite_cancelled', invite);
+    });
+
+    const match = this.findMatch(playerId);
+    if (match) this.cancelMatch(match, [playerId]);
+  }
+
+  // Ask a friend to queue for 2v2 together
+  public inviteDuo(inviter: QueuedPlayer, partner: QueuedPlayer): ActionResult {
+    if (inviter.playerId === partner.playerId) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'Pick another player as partner');
+    }
+    if (this.isBusy(inviter.playerId)) {
+      return rejected(RejectionReason.ALREADY_QUEUED, 'Already looking for a game');
+    }
+    if (this.isBusy(partner.playerId)) {
+      return rejected(RejectionReason.PARTNER_UNAVAILABLE, `${partner.username} is already looking for a game`);
+    }
+
+    this.duoInvites.set(partner.playerId, { inviter, partner });
+    this.emit('duo_invite', { inviter, partner });
+    return { ok: true };
+  }
+
+  // The invited player accepts (and the duo joins the 2v2 queue) or declines
+  public answerDuoInvite(playerId: string, accept: boolean): ActionResult {
+    const invite = this.duoInvites.get(playerId);
+    if (!invite) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The invite is no longer valid');
+    }
+
+    this.duoInvites.delete(playerId);
+    if (!accept) {
+      this.emit('duo_declined', invite);
+      return { ok: true };
+    }
+
+    return this.join(GameMode.TWO_VS_TWO, [invite.inviter, invite.partner]);
+  }
+
+  public acceptMatch(playerId: string, matchId: string): ActionResult {
+    const match = this.matches.get(matchId);
+    if (!match || !match.entries.some(entry => entry.players.some(p => p.playerId === playerId))) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The match is no longer available');
+    }
+
+    match.accepted.add(playerId);
+    if (match.accepted.size < getSeatCount(match.mode)) {
+      this.emit('ready_check', match);
+      return { ok: true };
+    }
+
+    // Everyone accepted: the match leaves the queue for good
+    clearTimeout(match.timer);
+    this.matches.delete(match.id);
+    log(`Match ${match.id} accepted by everyone`, 'game');
+    this.emit('match_ready', match);
+    return { ok: true };
+  }
+
+  public declineMatch(playerId: string, matchId: string): ActionResult {
+    const match = this.matches.get(matchId);
+    if (!match || !match.entries.some(entry => entry.players.some(p => p.playerId === playerId))) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The match is no longer available');
+    }
+
+    this.cancelMatch(match, [playerId]);
+    return { ok: true };
+  }
+
+  // Readable view of a match for its players
+  public getReadyCheck(match: QueueMatch): ReadyCheck {
+    return {
+      matchId: match.id,
+      mode: match.mode,
+      players: match.teams.flatMap((team, index) => team.map(p => ({
+        playerId: p.playerId,
+        username: p.username,
+        team: index === 0 ? 'A' as const : 'B' as const,
+        accepted: match.accepted.has(p.playerId)
+      }))),
+      remainingMs: Math.max(0, match.deadline - Date.now())
+    };
+  }
+
+  // Queued, invited to a duo, or in a match waiting to be accepted
+  private isBusy(playerId: string): boolean {
+    return Boolean(this.findEntry(playerId) || this.findMatch(playerId)) ||
+      this.duoInvites.has(playerId) ||
+      Array.from(this.duoInvites.values()).some(invite => invite.inviter.playerId === playerId);
+  }
+
+  private findEntry(playerId: string): QueueEntry | undefined {
+    return this.queue.find(entry => entry.players.some(p => p.playerId === playerId));
+  }
+
+  private findMatch(playerId: string): QueueMatch | undefined {
+    return Array.from(this.matches.values())
+      .find(match => match.entries.some(entry => entry.players.some(p => p.playerId === playerId)));
+  }
+
+  private getStatus(entry: QueueEntry, playerId: string): QueueStatus {
+    return {
+      mode: entry.mode,
+      partner: entry.players.find(p => p.playerId !== playerId)?.username ?? null,
+      rating: entry.rating,
+      waitedMs: Date.now() - entry.joinedAt
+    };
+  }
+
+  // Put an entry in the queue, keeping the order players joined in
+  private addEntry(entry: QueueEntry): void {
+    this.queue = [...this.queue, entry].sort((a, b) => a.joinedAt - b.joinedAt);
+    entry.players.forEach(p => this.emit('queue_update', p.playerId, this.getStatus(entry, p.playerId)));
+
+    if (!this.interval) {
+      this.interval = setInterval(() => this.findMatches(), MATCHMAKING_INTERVAL_MS);
+    }
+  }
+
+  private stopIfEmpty(): void {
+    if (this.queue.length === 0 && this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // Match the players who have waited the longest first
+  private findMatches(): void {
+    for (const mode of [GameMode.ONE_VS_ONE, GameMode.TWO_VS_TWO]) {
+      let entries = this.pickEntries(mode);
+      while (entries) {
+        this.startReadyCheck(mode, entries);
+        entries = this.pickEntries(mode);
+      }
+    }
+    this.stopIfEmpty();
+  }
+
+  // Entries that fill a game with the player who has waited the longest, closest ratings first.
+  // Two entries fit if their gap is within the window of either one.
+  private pickEntries(mode: GameMode): QueueEntry[] | null {
+    const now = Date.now();
+    const waiting = this.queue.filter(entry => entry.mode === mode);
+    const playerCount = getSeatCount(mode);
+
+    for (const anchor of waiting) {
+      const gap = (entry: QueueEntry) => Math.abs(entry.rating - anchor.rating);
+      const candidates = waiting
+        .filter(entry => entry !== anchor && gap(entry) <= Math.max(
+          getRatingWindow(now - anchor.joinedAt),
+          getRatingWindow(now - entry.joinedAt)
+        ))
+        .sort((a, b) => gap(a) - gap(b));
+
+      const picked = [anchor];
+      let size = anchor.players.length;
+      for (const candidate of candidates) {
+        if (size + candidate.players.length > playerCount) continue;
+        picked.push(candidate);
+        size += candidate.players.length;
+        if (size === playerCount) return picked;
+      }
+    }
+    return null;
+  }
+
+  private startReadyCheck(mode: GameMode, entries: QueueEntry[]): void {
+    this.queue = this.queue.filter(entry => !entries.includes(entry));
+
+    const id = uuidv4();
+    const match: QueueMatch = {
+      id,
+      mode,
+      entries,
+      teams: formTeams(mode, entries),
+      accepted: new Set(),
+      deadline: Date.now() + READY_CHECK_SECONDS * 1000,
+      timer: setTimeout(() => {
+        const current = this.matches.get(id);
+        if (!current) return;
+        const missing = current.entries
+          .flatMap(entry => entry.players)
+          .filter(p => !current.accepted.has(p.playerId))
+          .map(p => p.playerId);
+        this.cancelMatch(current, missing);
+      }, READY_CHECK_SECONDS * 1000)
+    };
+
+    this.matches.set(id, match);
+    log(`Match ${id} found for ${entries.flatMap(e => e.players).map(p => p.username).join(', ')}`, 'game');
+    this.emit('ready_check', match);
+  }
+
+  // Players who declined or didn't answer leave the queue (with their duo partner);
+  // everyone else goes back to it, in the place they had
+  private cancelMatch(match: QueueMatch, declined: string[]): void {
+    clearTimeout(match.timer);
+    this.matches.delete(match.id);
+
+    const declinedEntries = match.entries.filter(entry => entry.players.some(p => declined.includes(p.playerId)));
+    this.emit('match_cancelled', match, declinedEntries.flatMap(entry => entry.players));
+
+    declinedEntries.forEach(entry => entry.players.forEach(p => this.emit('queue_update', p.playerId, null)));
+    match.entries
+      .filter(entry => !declinedEntries.includes(entry))
+      .forEach(entry => this.addEntry(entry));
+
+    log(`Match ${match.id} cancelled, not accepted by ${declined.length} player(s)`, 'game');
+    this.findMatches();
+  }
+}
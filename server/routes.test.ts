@@ -0,0 +1,184 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { io } from 'socket.io-client';
+import { ActionResult, ActionType, GameEvent, GameMode, GameState, RejectionReason, RoundState, RuleVariant } from '@shared/types';
+import { MatchSummary, PlayerStats } from '@shared/matchStats';
+import { DEFAULT_RATING, LeaderboardEntry, PlayerRating } from '@shared/ratings';
+import { Tournament } from '@shared/tournaments';
+import { joinGame, nextView, playGame, startGame, startTestServer, TestClient, TestServer } from './testServer';
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+const rejectedFor = (result: ActionResult) => (result.ok ? null : result.reason);
+
+// The session cookie set by a response
+const sessionOf = (response: Response) => (response.headers.get('set-cookie') ?? '').split(';')[0];
+
+test('accounts log in with their password and keep a session', async () => {
+  const registered = await server.request('/api/auth/register', { body: { username: 'ana012', password: 'senha123' } });
+  assert.equal(registered.status, 201);
+  const user = await registered.json();
+  assert.equal(user.playerId, `user-${user.id}`);
+  assert.equal('password' in user, false);
+
+  const taken = await server.request('/api/auth/register', { body: { username: 'ana012', password: 'outra123' } });
+  assert.equal(taken.status, 409);
+
+  const wrongPassword = await server.request('/api/auth/login', { body: { username: 'ana012', password: 'errada' } });
+  assert.equal(wrongPassword.status, 401);
+
+  const login = await server.request('/api/auth/login', { body: { username: 'ana012', password: 'senha123' } });
+  assert.equal(login.status, 200);
+  const cookie = sessionOf(login);
+  assert.deepEqual(await (await server.request('/api/auth/me', { cookie })).json(), user);
+
+  assert.equal((await server.request('/api/auth/logout', { method: 'POST', cookie })).status, 204);
+  assert.equal((await server.request('/api/auth/me', { cookie })).status, 401);
+});
+
+test('sockets need a logged in session', async () => {
+  const socket = io(server.url, { transports: ['websocket'], forceNew: true });
+  const error = await new Promise<Error>(resolve => socket.once('connect_error', resolve));
+  socket.disconnect();
+  assert.equal(error.message, 'Authentication required');
+
+  // Logged in sockets are connected as their account
+  const bia = await server.signUp('bia012');
+  assert.equal(bia.socket.connected, true);
+});
+
+test('replays are shown once the game is over, to its players when the room is private', async () => {
+  const { ana, bia, gameId } = await startGame(server, ['ana014', 'bia014'], { visibility: 'private' });
+  const caio = await server.signUp('caio014');
+  const replayFor = (client = ana) => client.request(`/api/games/${gameId}/events`);
+
+  assert.equal((await replayFor()).status, 403);
+  await playGame([ana, bia], gameId);
+
+  const replay = await replayFor();
+  assert.equal(replay.status, 200);
+  const { events }: { events: GameEvent[] } = await replay.json();
+  assert.deepEqual(events.map(event => event.seq), events.map((_, index) => index));
+  assert.deepEqual(
+    [...new Set(events.map(event => event.type))],
+    ['game_start', 'deal', 'truco_request', 'truco_accept', 'play_card', 'round_result', 'series_result']
+  );
+
+  assert.equal((await replayFor(caio)).status, 404);
+  assert.equal((await server.request(`/api/games/${gameId}/events`)).status, 401);
+});
+
+test('finished games count for the players\' stats and history', async () => {
+  const { ana, bia, gameId } = await startGame(server, ['ana022', 'bia022']);
+  const view = await playGame([ana, bia], gameId);
+  const anaWon = view.players.find(player => player.id === ana.user.playerId)?.team === view.winner;
+  const [winner, loser] = anaWon ? [ana, bia] : [bia, ana];
+
+  // The replay waits for the game's writes, the finished match among them
+  assert.equal((await ana.request(`/api/games/${gameId}/events`)).status, 200);
+
+  const statsOf = async (client: TestClient): Promise<PlayerStats> =>
+    (await (await ana.request(`/api/users/${client.user.username}/stats`)).json()).stats;
+  const [winnerStats, loserStats] = await Promise.all([statsOf(winner), statsOf(loser)]);
+  const totals = (stats: PlayerStats) =>
+    [stats.gamesPlayed, stats.gamesWon, stats.roundsPlayed, stats.roundsWon, stats.trucosCalled, stats.timesRan, stats.averagePointsPerHand];
+  assert.deepEqual(totals(winnerStats), [1, 1, 1, 1, 2, 0, 12]);
+  assert.deepEqual(totals(loserStats), [1, 0, 1, 0, 2, 0, 0]);
+  // Only the raise to doze was accepted
+  assert.equal(winnerStats.trucosAccepted + loserStats.trucosAccepted, 1);
+
+  const history = await (await bia.request(`/api/users/${ana.user.username}/history`)).json();
+  assert.deepEqual(history.matches.map((match: MatchSummary) => [match.gameId, match.winner, match.ranked]), [[gameId, view.winner, false]]);
+  assert.equal((await bia.request('/api/users/nobody022/stats')).status, 404);
+});
+
+test('ranked games change the players\' ratings and the leaderboard', async () => {
+  const { ana, bia, gameId } = await startGame(server, ['ana023', 'bia023'], { ranked: true });
+  const view = await playGame([ana, bia], gameId);
+  const anaWon = view.players.find(player => player.id === ana.user.playerId)?.team === view.winner;
+  const [winner, loser] = anaWon ? [ana, bia] : [bia, ana];
+  assert.equal((await ana.request(`/api/games/${gameId}/events`)).status, 200);
+
+  const ratingOf = async (client: TestClient): Promise<PlayerRating[]> =>
+    (await (await ana.request(`/api/users/${client.user.username}/stats`)).json()).ratings;
+  const ratingAfter = (won: boolean) => DEFAULT_RATING + (won ? 16 : -16);
+  assert.deepEqual(
+    (await ratingOf(winner)).map(rating => [rating.mode, rating.rating, rating.gamesPlayed, rating.gamesWon]),
+    [[GameMode.ONE_VS_ONE, ratingAfter(true), 1, 1]]
+  );
+  assert.deepEqual(
+    (await ratingOf(loser)).map(rating => [rating.mode, rating.rating, rating.gamesPlayed, rating.gamesWon]),
+    [[GameMode.ONE_VS_ONE, ratingAfter(false), 1, 0]]
+  );
+
+  const leaderboard = await (await ana.request('/api/leaderboard?mode=1v1&period=week')).json();
+  const entries = (leaderboard.entries as LeaderboardEntry[]).filter(entry => entry.username.endsWith('023'));
+  assert.deepEqual(
+    entries.map(entry => [entry.username, entry.rating, entry.ratingChange]),
+    [[winner.user.username, ratingAfter(true), 16], [loser.user.username, ratingAfter(false), -16]]
+  );
+
+  // Other modes have their own ratings
+  const twoVsTwo = await (await ana.request('/api/leaderboard?mode=2v2')).json();
+  assert.equal(twoVsTwo.entries.some((entry: LeaderboardEntry) => entry.username.endsWith('023')), false);
+});
+
+test('tournament matches are played in their rooms, and the winner advances', async () => {
+  const [host, ana, bia] = await Promise.all(['host025', 'ana025', 'bia025'].map(name => server.signUp(name)));
+  const settings = {
+    name: 'Copa', mode: GameMode.ONE_VS_ONE, format: 'single_elimination',
+    ruleVariant: RuleVariant.PAULISTA, targetScore: 12, maxEntrants: 4
+  };
+  assert.equal((await host.request('/api/tournaments', { body: { ...settings, format: 'liga' } })).status, 400);
+  assert.equal((await host.request('/api/tournaments', { body: { ...settings, maxEntrants: 1 } })).status, 400);
+  assert.equal((await server.request('/api/tournaments', { body: settings })).status, 401);
+
+  const created = await host.request('/api/tournaments', { body: settings });
+  assert.equal(created.status, 201);
+  const { id }: Tournament = await created.json();
+  for (const client of [ana, bia]) {
+    assert.equal((await client.request(`/api/tournaments/${id}/register`, { body: {} })).status, 200);
+  }
+
+  const notHost = await ana.request(`/api/tournaments/${id}/start`, { body: {} });
+  assert.equal(notHost.status, 403);
+  assert.equal((await notHost.json()).reason, RejectionReason.NOT_HOST);
+  const started: Tournament = await (await host.request(`/api/tournaments/${id}/start`, { body: {} })).json();
+  assert.equal(started.status, 'in_progress');
+  const [match] = started.matches;
+
+  // Each player enters the match's room, where nobody else can sit
+  const gameIds = await Promise.all([ana, bia].map(async client => {
+    assert.deepEqual(await client.act(ActionType.JOIN_TOURNAMENT_MATCH, { tournamentId: id, matchId: match.id }), { ok: true });
+    const { gameId, token } = await client.next<{ gameId: string; token: string }>('seat_token');
+    await joinGame(client, gameId, { seatToken: token });
+    return gameId;
+  }));
+  assert.equal(gameIds[0], gameIds[1]);
+  const [gameId] = gameIds;
+  assert.equal(
+    rejectedFor(await host.act(ActionType.JOIN_TOURNAMENT_MATCH, { tournamentId: id, matchId: match.id })),
+    RejectionReason.NOT_IN_GAME
+  );
+
+  ana.socket.emit(ActionType.READY, { gameId });
+  bia.socket.emit(ActionType.READY, { gameId });
+  const isPlaying = (view: GameState) => view.roundState === RoundState.PLAYING;
+  await Promise.all([nextView(ana, isPlaying), nextView(bia, isPlaying)]);
+  const view = await playGame([ana, bia], gameId);
+
+  const anaWon = view.players.find(player => player.id === ana.user.playerId)?.team === view.winner;
+  const finished = await host.next<Tournament>(
+    'tournament_update',
+    tournament => tournament.id === id && tournament.status === 'finished'
+  );
+  const winner = finished.entrants.find(entrant => entrant.id === finished.winner);
+  assert.deepEqual(winner?.players.map(p => p.username), [anaWon ? 'ana025' : 'bia025']);
+  assert.deepEqual(await (await host.request(`/api/tournaments/${id}`)).json(), finished);
+});
@@ -1,18 +1,391 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import passport from "passport";
 import { setupWebSocketServer } from "./webSocketHandler";
+import { storage } from "./storage";
+import { initSeatTokens } from "./seatTokens";
+import { setupAuth, hashPassword, toAuthUser } from "./auth";
+import { GameManager } from "./gameManager";
+import { TournamentManager } from "./tournamentManager";
+import { registerUserSchema } from "@shared/schema";
+import { GameMode, RoundState, RuleVariant, RejectionReason, type ActionResult } from "@shared/types";
+import { LEADERBOARD_PERIODS, getPeriodStart, type LeaderboardPeriod } from "@shared/ratings";
+import { TARGET_SCORE_OPTIONS } from "@shared/gameRules";
+import {
+  TOURNAMENT_FORMATS,
+  MIN_TOURNAMENT_ENTRANTS,
+  MAX_TOURNAMENT_ENTRANTS,
+  type TournamentFormat
+} from "@shared/tournaments";
+
+// Games shown in a page of match history
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
+// Players shown in the leaderboard
+const LEADERBOARD_SIZE = 50;
+
+const MAX_TOURNAMENT_NAME_LENGTH = 50;
+
+// Status code of a rejected tournament action
+function getRejectionStatus(result: Extract<ActionResult, { ok: false }>): number {
+  return result.reason === RejectionReason.NOT_HOST ? 403 : 400;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
-  
+
+  // Connect the storage and restore saved games before accepting players
+  await storage.init();
+  await initSeatTokens(storage);
+
+  const sessionMiddleware = setupAuth(app);
+  const gameManager = new GameManager(storage);
+  const tournamentManager = new TournamentManager(storage, gameManager);
+  await tournamentManager.restoreTournaments();
+
   // API routes
   app.get('/api/health', (req, res) => {
     res.json({ status: 'ok', message: 'Truco Online API is running' });
   });
-  
+
+  // Accounts
+  app.post('/api/auth/register', async (req, res, next) => {
+    try {
+      const parsed = registerUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: 'Username already taken' });
+      }
+
+      const user = await storage.createUser({ username, password: await hashPassword(password) });
+      req.login({ id: user.id, username: user.username }, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toAuthUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/auth/login', (req, res, next) => {
+    passport.authenticate('local', (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: 'Invalid username or password' });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toAuthUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+    res.json(toAuthUser(req.user));
+  });
+
+  // Replays. The log has every hand, so it is only shown once the game is over,
+  // and only to the players of the game when the room is not public.
+  app.get('/api/games/:gameId/events', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not logged in' });
+      }
+
+      const { gameId } = req.params;
+      const events = await gameManager.getGameEvents(gameId);
+      if (events.length === 0) {
+        return res.status(404).json({ message: 'Game not found' });
+      }
+      // Private rooms are not found by anyone else, as in the lobby
+      if (!(await gameManager.canViewReplay(gameId, toAuthUser(req.user).playerId, events))) {
+        return res.status(404).json({ message: 'Game not found' });
+      }
+
+      const roundState = gameManager.getGame(gameId)?.gameState.roundState;
+      if (roundState && roundState !== RoundState.GAME_OVER && roundState !== RoundState.WAITING_FOR_PLAYERS) {
+        return res.status(403).json({ message: 'The replay is available when the game is over' });
+      }
+
+      res.json({ gameId, name: gameManager.getRoomName(gameId) ?? null, events });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Statistics of an account, over every game it finished
+  app.get('/api/users/:username/stats', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not logged in' });
+      }
+
+      const user = await storage.getUserByUsername(req.params.username);
+      if (!user) {
+        return res.status(404).json({ message: 'Player not found' });
+      }
+
+      const { playerId } = toAuthUser(user);
+      const [stats, ratings] = await Promise.all([
+        storage.getPlayerStats(playerId),
+        storage.getPlayerRatings(playerId)
+      ]);
+      res.json({ username: user.username, playerId, stats, ratings });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Latest games of an account, newest first
+  app.get('/api/users/:username/history', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not logged in' });
+      }
+
+      const user = await storage.getUserByUsername(req.params.username);
+      if (!user) {
+        return res.status(404).json({ message: 'Player not found' });
+      }
+
+      const requested = Number(req.query.limit);
+      const limit = Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_HISTORY_LIMIT)
+        : DEFAULT_HISTORY_LIMIT;
+      const { playerId } = toAuthUser(user);
+      const matches = await storage.getMatchHistory(playerId, limit);
+      res.json({ username: user.username, playerId, matches });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Best rated players of a mode, among those who played ranked games in the period
+  app.get('/api/leaderboard', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not logged in' });
+      }
+
+      const mode = Object.values(GameMode).includes(req.query.mode as GameMode)
+        ? req.query.mode as GameMode
+        : GameMode.ONE_VS_ONE;
+      const period = LEADERBOARD_PERIODS.includes(req.query.period as LeaderboardPeriod)
+        ? req.query.period as LeaderboardPeriod
+        : 'all';
+
+      const entries = await storage.getLeaderboard(mode, getPeriodStart(period), LEADERBOARD_SIZE);
+      res.json({ mode, period, entries });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Room of an invite link. The code is enough to enter the room, so it isn't sent back.
+  app.get('/api/rooms/:inviteCode', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    const room = gameManager.getRoomByInviteCode(req.params.inviteCode);
+    if (!room) {
+      return res.status(404).json({ message: 'Invite not found' });
+    }
+    res.json(room);
+  });
+
+  // Tournaments
+  app.get('/api/tournaments', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+    res.json(tournamentManager.getTournaments());
+  });
+
+  app.post('/api/tournaments', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    const { name, mode, format, ruleVariant, targetScore, maxEntrants, swissRounds } = req.body ?? {};
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+    if (!trimmedName || trimmedName.length > MAX_TOURNAMENT_NAME_LENGTH) {
+      return res.status(400).json({ message: `The name must have 1 to ${MAX_TOURNAMENT_NAME_LENGTH} characters` });
+    }
+    if (!Object.values(GameMode).includes(mode)) {
+      return res.status(400).json({ message: 'Invalid game mode' });
+    }
+    if (!TOURNAMENT_FORMATS.includes(format)) {
+      return res.status(400).json({ message: 'Invalid tournament format' });
+    }
+    if (!Object.values(RuleVariant).includes(ruleVariant)) {
+      return res.status(400).json({ message: 'Invalid rule variant' });
+    }
+    if (!TARGET_SCORE_OPTIONS.includes(targetScore)) {
+      return res.status(400).json({ message: 'Invalid target score' });
+    }
+    if (!Number.isInteger(maxEntrants) || maxEntrants < MIN_TOURNAMENT_ENTRANTS || maxEntrants > MAX_TOURNAMENT_ENTRANTS) {
+      return res.status(400).json({
+        message: `Tournaments take ${MIN_TOURNAMENT_ENTRANTS} to ${MAX_TOURNAMENT_ENTRANTS} entries`
+      });
+    }
+    // Zero lets the number of Swiss rounds follow the number of entries
+    const rounds = swissRounds ?? 0;
+    if (!Number.isInteger(rounds) || rounds < 0) {
+      return res.status(400).json({ message: 'Invalid number of rounds' });
+    }
+
+    const { playerId } = toAuthUser(req.user);
+    const tournament = tournamentManager.createTournament(
+      { playerId, username: req.user.username },
+      {
+        name: trimmedName,
+        mode,
+        format: format as TournamentFormat,
+        ruleVariant,
+        targetScore,
+        maxEntrants,
+        swissRounds: rounds
+      }
+    );
+    res.status(201).json(tournament);
+  });
+
+  app.get('/api/tournaments/:id', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    const tournament = tournamentManager.getTournament(req.params.id);
+    if (!tournament) {
+      return res.status(404).json({ message: 'Tournament not found' });
+    }
+    res.json(tournament);
+  });
+
+  // Register alone, or invite a partner in 2v2 (the duo is registered when they accept)
+  app.post('/api/tournaments/:id/register', async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not logged in' });
+      }
+
+      if (!tournamentManager.getTournament(req.params.id)) {
+        return res.status(404).json({ message: 'Tournament not found' });
+      }
+
+      const player = { playerId: toAuthUser(req.user).playerId, username: req.user.username };
+      const partnerName = typeof req.body?.partner === 'string' ? req.body.partner.trim() : '';
+      const partnerUser = partnerName ? await storage.getUserByUsername(partnerName) : undefined;
+      if (partnerName && !partnerUser) {
+        return res.status(404).json({ message: 'Player not found' });
+      }
+      const partner = partnerUser && { playerId: toAuthUser(partnerUser).playerId, username: partnerUser.username };
+
+      const result = tournamentManager.register(req.params.id, player, partner);
+      if (!result.ok) {
+        return res.status(getRejectionStatus(result)).json({ message: result.message, reason: result.reason });
+      }
+      res.json(tournamentManager.getTournament(req.params.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Answer an invite to play the tournament as someone's duo partner
+  app.post('/api/tournaments/:id/invite', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    if (!tournamentManager.getTournament(req.params.id)) {
+      return res.status(404).json({ message: 'Tournament not found' });
+    }
+
+    const result = tournamentManager.answerInvite(
+      req.params.id,
+      toAuthUser(req.user).playerId,
+      req.body?.accept === true
+    );
+    if (!result.ok) {
+      return res.status(getRejectionStatus(result)).json({ message: result.message, reason: result.reason });
+    }
+    res.json(tournamentManager.getTournament(req.params.id));
+  });
+
+  app.post('/api/tournaments/:id/unregister', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    if (!tournamentManager.getTournament(req.params.id)) {
+      return res.status(404).json({ message: 'Tournament not found' });
+    }
+
+    const result = tournamentManager.unregister(req.params.id, toAuthUser(req.user).playerId);
+    if (!result.ok) {
+      return res.status(getRejectionStatus(result)).json({ message: result.message, reason: result.reason });
+    }
+    res.json(tournamentManager.getTournament(req.params.id));
+  });
+
+  app.post('/api/tournaments/:id/start', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    if (!tournamentManager.getTournament(req.params.id)) {
+      return res.status(404).json({ message: 'Tournament not found' });
+    }
+
+    const result = tournamentManager.start(req.params.id, toAuthUser(req.user).playerId);
+    if (!result.ok) {
+      return res.status(getRejectionStatus(result)).json({ message: result.message, reason: result.reason });
+    }
+    res.json(tournamentManager.getTournament(req.params.id));
+  });
+
+  // Result of a match set by the host
+  app.post('/api/tournaments/:id/matches/:matchId/winner', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    if (!tournamentManager.getTournament(req.params.id)) {
+      return res.status(404).json({ message: 'Tournament not found' });
+    }
+
+    const result = tournamentManager.reportWinner(
+      req.params.id,
+      toAuthUser(req.user).playerId,
+      req.params.matchId,
+      String(req.body?.entrantId ?? '')
+    );
+    if (!result.ok) {
+      return res.status(getRejectionStatus(result)).json({ message: result.message, reason: result.reason });
+    }
+    res.json(tournamentManager.getTournament(req.params.id));
+  });
+
   // Set up WebSocket server for real-time game communication
-  setupWebSocketServer(httpServer);
+  await setupWebSocketServer(httpServer, sessionMiddleware, gameManager, tournamentManager);
 
   return httpServer;
 }
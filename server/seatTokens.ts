@@ -0,0 +1,70 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IStorage } from './storage';
+
+// Signed seat tokens.
+// A player gets one when they take a seat and must present it to get the seat back
+// after losing the connection. The token names the game, the player and the seat's
+// current nonce; a new nonce is drawn whenever the seat changes hands, which makes
+// tokens from earlier stays at the table stale.
+//
+// Tokens are signed with SEAT_TOKEN_SECRET, or SESSION_SECRET when that is not set.
+// Without either, a secret is drawn once and saved with the games, so the tokens of
+// games restored after a restart stay valid.
+
+export interface SeatTokenPayload {
+  gameId: string;
+  playerId: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+// Tokens outlive a long game, but not much more
+const SEAT_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+let secret = process.env.SEAT_TOKEN_SECRET || process.env.SESSION_SECRET || null;
+
+/**
+ * Load the saved secret when none is configured, before any token is issued
+ */
+export async function initSeatTokens(storage: IStorage): Promise<void> {
+  if (!secret) {
+    secret = await storage.getSecret('seat_tokens', () => randomBytes(32).toString('hex'));
+  }
+}
+
+const sign = (data: string) => {
+  if (!secret) {
+    throw new Error('Seat tokens used before initSeatTokens()');
+  }
+  return createHmac('sha256', secret).update(data).digest('base64url');
+};
+
+/**
+ * Issue a token for a player's seat
+ */
+export function issueSeatToken(gameId: string, playerId: string, nonce: string): string {
+  const payload: SeatTokenPayload = { gameId, playerId, nonce, expiresAt: Date.now() + SEAT_TOKEN_TTL_MS };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Read a seat token, or null when it was tampered with, is malformed or has expired
+ */
+export function verifySeatToken(token: unknown): SeatTokenPayload | null {
+  if (typeof token !== 'string') return null;
+
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as SeatTokenPayload;
+    return payload.expiresAt > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
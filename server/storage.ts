@@ -1,33 +1,115 @@
-import { users, type User, type InsertUser } from "@shared/schema";
-import { TrucoGame } from "./trucoGame";
-import { GameMode } from "@shared/types";
+import { and, asc, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import {
+  users,
+  games,
+  gamePlayers,
+  rounds,
+  tricks,
+  gameEvents,
+  seriesResults,
+  matches,
+  matchPlayers,
+  ratings,
+  ratingChanges,
+  tournaments,
+  serverSecrets,
+  type User,
+  type InsertUser,
+  type MatchRecord,
+  type MatchPlayerRecord,
+  type RatingRecord
+} from "@shared/schema";
+import type { GameSnapshot, RoundResult, TrickResult, SeriesResult } from "./trucoGame";
+import type { RoomAccess } from "./gameManager";
+import type { GameEvent, GameMode, RoomVisibility, RuleVariant } from "@shared/types";
+import {
+  combinePlayerStats,
+  type MatchResult,
+  type MatchSummary,
+  type PlayerMatchStats,
+  type PlayerStats
+} from "@shared/matchStats";
+import type { LeaderboardEntry, PlayerRating, RatingChange } from "@shared/ratings";
+import type { Tournament } from "@shared/tournaments";
+import { connectDatabase, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
 
+// A game as saved by the game manager
+export interface SavedGame {
+  id: string;
+  name: string;
+  access?: RoomAccess; // Missing for games saved before rooms could be private
+  snapshot: GameSnapshot;
+}
+
 export interface IStorage {
+  // Prepare the storage before the server starts
+  init(): Promise<void>;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
+
   // Game related storage
-  getGame(id: string): Promise<TrucoGame | undefined>;
-  getAllGames(): Promise<TrucoGame[]>;
-  createGame(id: string, mode: GameMode): Promise<TrucoGame>;
-  removeGame(id: string): Promise<boolean>;
+  saveGame(game: SavedGame): Promise<void>;
+  loadActiveGames(): Promise<SavedGame[]>;
+  archiveGame(id: string): Promise<void>;
+  getGameVisibility(id: string): Promise<RoomVisibility | undefined>; // Archived games too
+  saveRound(gameId: string, round: RoundResult): Promise<void>;
+  saveTrick(gameId: string, trick: TrickResult): Promise<void>;
+  saveSeries(gameId: string, series: SeriesResult): Promise<void>;
+  appendGameEvent(gameId: string, event: GameEvent): Promise<void>;
+  getGameEvents(gameId: string): Promise<GameEvent[]>;
+
+  // Match history of the accounts (saving a match returns its id)
+  saveMatch(match: MatchResult): Promise<number>;
+  getMatchHistory(playerId: string, limit: number): Promise<MatchSummary[]>;
+  getPlayerStats(playerId: string): Promise<PlayerStats>;
+
+  // Ratings of ranked games (accounts without a rating in a mode have no entry)
+  getRatings(playerIds: string[], mode: GameMode): Promise<PlayerRating[]>;
+  getPlayerRatings(playerId: string): Promise<PlayerRating[]>;
+  applyRatingChanges(matchId: number, mode: GameMode, changes: RatingChange[]): Promise<void>;
+  getLeaderboard(mode: GameMode, since: Date | null, limit: number): Promise<LeaderboardEntry[]>;
+
+  // Tournaments, saved whole after every change
+  saveTournament(tournament: Tournament): Promise<void>;
+  loadTournaments(): Promise<Tournament[]>;
+
+  // A secret kept across restarts, drawn with create() the first time it is asked for
+  getSecret(name: string, create: () => string): Promise<string>;
 }
 
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
-  private games: Map<string, TrucoGame>;
+  private games: Map<string, SavedGame>;
+  private gameVisibility: Map<string, RoomVisibility>; // Kept after a game is archived
+  private gameEvents: Map<string, GameEvent[]>;
+  private matches: MatchSummary[];
+  private ratings: Map<string, PlayerRating>; // By player and mode
+  private ratingChanges: (RatingChange & { mode: GameMode; createdAt: Date })[];
+  private tournaments: Map<string, Tournament>;
+  private secrets: Map<string, string>;
   currentId: number;
 
   constructor() {
     this.users = new Map();
     this.games = new Map();
+    this.gameVisibility = new Map();
+    this.gameEvents = new Map();
+    this.matches = [];
+    this.ratings = new Map();
+    this.ratingChanges = [];
+    this.tournaments = new Map();
+    this.secrets = new Map();
     this.currentId = 1;
   }
 
+  async init(): Promise<void> {}
+
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -44,25 +126,399 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
-  
-  // Game methods
-  async getGame(id: string): Promise<TrucoGame | undefined> {
-    return this.games.get(id);
+
+  // Game methods (nothing outlives the process, so rounds and tricks aren't kept)
+  async saveGame(game: SavedGame): Promise<void> {
+    this.games.set(game.id, game);
+    this.gameVisibility.set(game.id, game.access?.visibility ?? "public");
   }
-  
-  async getAllGames(): Promise<TrucoGame[]> {
+
+  async loadActiveGames(): Promise<SavedGame[]> {
     return Array.from(this.games.values());
   }
-  
-  async createGame(id: string, mode: GameMode): Promise<TrucoGame> {
-    const game = new TrucoGame(id, mode);
-    this.games.set(id, game);
-    return game;
+
+  async archiveGame(id: string): Promise<void> {
+    this.games.delete(id);
+  }
+
+  async getGameVisibility(id: string): Promise<RoomVisibility | undefined> {
+    return this.gameVisibility.get(id);
+  }
+
+  async saveRound(): Promise<void> {}
+
+  async saveTrick(): Promise<void> {}
+
+  async saveSeries(): Promise<void> {}
+
+  async appendGameEvent(gameId: string, event: GameEvent): Promise<void> {
+    const events = this.gameEvents.get(gameId) ?? [];
+    events.push(event);
+    this.gameEvents.set(gameId, events);
+  }
+
+  async getGameEvents(gameId: string): Promise<GameEvent[]> {
+    return this.gameEvents.get(gameId) ?? [];
+  }
+
+  async saveMatch(match: MatchResult): Promise<number> {
+    const id = this.matches.length + 1;
+    this.matches.push({ ...match, id, finishedAt: new Date().toISOString() });
+    return id;
+  }
+
+  async getMatchHistory(playerId: string, limit: number): Promise<MatchSummary[]> {
+    return this.matches
+      .filter(match => match.players.some(p => p.playerId === playerId))
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async getPlayerStats(playerId: string): Promise<PlayerStats> {
+    return combinePlayerStats(this.matches.flatMap(match => match.players
+      .filter(p => p.playerId === playerId)
+      .map(stats => ({ stats, won: stats.team === match.winner }))));
   }
-  
-  async removeGame(id: string): Promise<boolean> {
-    return this.games.delete(id);
+
+  async getRatings(playerIds: string[], mode: GameMode): Promise<PlayerRating[]> {
+    return playerIds.flatMap(playerId => this.ratings.get(`${playerId}:${mode}`) ?? []);
+  }
+
+  async getPlayerRatings(playerId: string): Promise<PlayerRating[]> {
+    return Array.from(this.ratings.values()).filter(rating => rating.playerId === playerId);
+  }
+
+  async applyRatingChanges(matchId: number, mode: GameMode, changes: RatingChange[]): Promise<void> {
+    changes.forEach(change => {
+      const key = `${change.playerId}:${mode}`;
+      const current = this.ratings.get(key);
+      this.ratings.set(key, {
+        playerId: change.playerId,
+        username: change.username,
+        mode,
+        rating: change.ratingAfter,
+        gamesPlayed: (current?.gamesPlayed ?? 0) + 1,
+        gamesWon: (current?.gamesWon ?? 0) + (change.won ? 1 : 0)
+      });
+      this.ratingChanges.push({ ...change, mode, createdAt: new Date() });
+    });
+  }
+
+  async getLeaderboard(mode: GameMode, since: Date | null, limit: number): Promise<LeaderboardEntry[]> {
+    const entries = new Map<string, Omit<LeaderboardEntry, "rank">>();
+    this.ratingChanges
+      .filter(change => change.mode === mode && (!since || change.createdAt >= since))
+      .forEach(change => {
+        const rating = this.ratings.get(`${change.playerId}:${mode}`);
+        const entry = entries.get(change.playerId) ?? {
+          playerId: change.playerId,
+          username: rating?.username ?? change.username,
+          rating: rating?.rating ?? change.ratingAfter,
+          gamesPlayed: 0,
+          gamesWon: 0,
+          ratingChange: 0
+        };
+        entry.gamesPlayed++;
+        if (change.won) entry.gamesWon++;
+        entry.ratingChange += change.ratingAfter - change.ratingBefore;
+        entries.set(change.playerId, entry);
+      });
+
+    return Array.from(entries.values())
+      .sort((a, b) => b.rating - a.rating)
+      .slice(0, limit)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  async saveTournament(tournament: Tournament): Promise<void> {
+    this.tournaments.set(tournament.id, tournament);
+  }
+
+  async loadTournaments(): Promise<Tournament[]> {
+    return Array.from(this.tournaments.values());
+  }
+
+  async getSecret(name: string, create: () => string): Promise<string> {
+    if (!this.secrets.has(name)) {
+      this.secrets.set(name, create());
+    }
+    return this.secrets.get(name) as string;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  private database: Database | null = null;
+  private playerSignatures: Map<string, string> = new Map(); // Seated players last written for each game
+
+  async init(): Promise<void> {
+    this.database = await connectDatabase();
+  }
+
+  private get db(): Database {
+    if (!this.database) {
+      throw new Error("Storage used before init()");
+    }
+    return this.database;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
   }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Game methods
+  async saveGame({ id, name, access, snapshot }: SavedGame): Promise<void> {
+    const { state } = snapshot;
+    const values = {
+      name,
+      visibility: access?.visibility ?? "public",
+      inviteCode: access?.inviteCode ?? null,
+      passwordHash: access?.passwordHash ?? null,
+      mode: state.mode,
+      ruleVariant: state.ruleVariant,
+      roundState: state.roundState,
+      teamAScore: state.teamAScore,
+      teamBScore: state.teamBScore,
+      winner: state.winner,
+      snapshot,
+      updatedAt: new Date()
+    };
+
+    await this.db.insert(games)
+      .values({ id, ...values })
+      .onConflictDoUpdate({ target: games.id, set: values });
+
+    // The seats only change between rounds, so they are rewritten when they do
+    const signature = state.players.map(p => `${p.id}:${p.team}`).join(',');
+    if (this.playerSignatures.get(id) === signature) return;
+
+    await this.db.transaction(async (tx) => {
+      await tx.delete(gamePlayers).where(eq(gamePlayers.gameId, id));
+      if (state.players.length > 0) {
+        await tx.insert(gamePlayers).values(state.players.map((p, seat) => ({
+          gameId: id,
+          seat,
+          playerId: p.id,
+          username: p.username,
+          team: p.team,
+          isBot: Boolean(p.isBot)
+        })));
+      }
+    });
+    this.playerSignatures.set(id, signature);
+  }
+
+  async loadActiveGames(): Promise<SavedGame[]> {
+    const rows = await this.db.select().from(games).where(eq(games.status, "active"));
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      access: row.inviteCode
+        ? { visibility: row.visibility as RoomVisibility, inviteCode: row.inviteCode, passwordHash: row.passwordHash }
+        : undefined,
+      snapshot: row.snapshot as GameSnapshot
+    }));
+  }
+
+  async archiveGame(id: string): Promise<void> {
+    await this.db.update(games)
+      .set({ status: "archived", updatedAt: new Date() })
+      .where(eq(games.id, id));
+    this.playerSignatures.delete(id);
+  }
+
+  async getGameVisibility(id: string): Promise<RoomVisibility | undefined> {
+    const [row] = await this.db.select({ visibility: games.visibility }).from(games).where(eq(games.id, id));
+    return row?.visibility as RoomVisibility | undefined;
+  }
+
+  async saveRound(gameId: string, round: RoundResult): Promise<void> {
+    await this.db.insert(rounds).values({ gameId, ...round });
+  }
+
+  async saveTrick(gameId: string, trick: TrickResult): Promise<void> {
+    await this.db.insert(tricks).values({ gameId, ...trick });
+  }
+
+  async saveSeries(gameId: string, series: SeriesResult): Promise<void> {
+    await this.db.insert(seriesResults).values({ gameId, ...series });
+  }
+
+  async appendGameEvent(gameId: string, event: GameEvent): Promise<void> {
+    await this.db.insert(gameEvents).values({ gameId, seq: event.seq, type: event.type, data: event });
+  }
+
+  async getGameEvents(gameId: string): Promise<GameEvent[]> {
+    const rows = await this.db.select().from(gameEvents)
+      .where(eq(gameEvents.gameId, gameId))
+      .orderBy(asc(gameEvents.seq));
+    return rows.map(row => row.data as GameEvent);
+  }
+
+  async saveMatch({ players, ...match }: MatchResult): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const [{ id }] = await tx.insert(matches).values(match).returning({ id: matches.id });
+      if (players.length > 0) {
+        await tx.insert(matchPlayers).values(players.map(p => ({ matchId: id, ...p })));
+      }
+      return id;
+    });
+  }
+
+  async getMatchHistory(playerId: string, limit: number): Promise<MatchSummary[]> {
+    const played = await this.db.select({ matchId: matchPlayers.matchId }).from(matchPlayers)
+      .where(eq(matchPlayers.playerId, playerId))
+      .orderBy(desc(matchPlayers.matchId))
+      .limit(limit);
+    const ids = played.map(row => row.matchId);
+    if (ids.length === 0) return [];
+
+    const [matchRows, playerRows] = await Promise.all([
+      this.db.select().from(matches).where(inArray(matches.id, ids)).orderBy(desc(matches.id)),
+      this.db.select().from(matchPlayers).where(inArray(matchPlayers.matchId, ids)).orderBy(asc(matchPlayers.id))
+    ]);
+    return matchRows.map(row => toMatchSummary(row, playerRows.filter(p => p.matchId === row.id)));
+  }
+
+  async getPlayerStats(playerId: string): Promise<PlayerStats> {
+    const rows = await this.db.select({ player: matchPlayers, winner: matches.winner })
+      .from(matchPlayers)
+      .innerJoin(matches, eq(matchPlayers.matchId, matches.id))
+      .where(eq(matchPlayers.playerId, playerId));
+    return combinePlayerStats(rows.map(({ player, winner }) => ({
+      stats: toPlayerMatchStats(player),
+      won: player.team === winner
+    })));
+  }
+
+  async getRatings(playerIds: string[], mode: GameMode): Promise<PlayerRating[]> {
+    if (playerIds.length === 0) return [];
+    const rows = await this.db.select().from(ratings)
+      .where(and(inArray(ratings.playerId, playerIds), eq(ratings.mode, mode)));
+    return rows.map(toPlayerRating);
+  }
+
+  async getPlayerRatings(playerId: string): Promise<PlayerRating[]> {
+    const rows = await this.db.select().from(ratings).where(eq(ratings.playerId, playerId));
+    return rows.map(toPlayerRating);
+  }
+
+  async applyRatingChanges(matchId: number, mode: GameMode, changes: RatingChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    await this.db.transaction(async (tx) => {
+      for (const change of changes) {
+        const wins = change.won ? 1 : 0;
+        await tx.insert(ratings)
+          .values({ playerId: change.playerId, username: change.username, mode, rating: change.ratingAfter, gamesPlayed: 1, gamesWon: wins })
+          .onConflictDoUpdate({
+            target: [ratings.playerId, ratings.mode],
+            set: {
+              username: change.username,
+              rating: change.ratingAfter,
+              gamesPlayed: sql`${ratings.gamesPlayed} + 1`,
+              gamesWon: sql`${ratings.gamesWon} + ${wins}`,
+              updatedAt: new Date()
+            }
+          });
+      }
+
+      await tx.insert(ratingChanges).values(changes.map(change => ({
+        matchId,
+        playerId: change.playerId,
+        mode,
+        won: change.won,
+        ratingBefore: change.ratingBefore,
+        ratingAfter: change.ratingAfter
+      })));
+    });
+  }
+
+  async getLeaderboard(mode: GameMode, since: Date | null, limit: number): Promise<LeaderboardEntry[]> {
+    const rows = await this.db.select({
+      playerId: ratingChanges.playerId,
+      username: ratings.username,
+      rating: ratings.rating,
+      gamesPlayed: sql<number>`count(*)::int`,
+      gamesWon: sql<number>`count(*) filter (where ${ratingChanges.won})::int`,
+      ratingChange: sql<number>`sum(${ratingChanges.ratingAfter} - ${ratingChanges.ratingBefore})::int`
+    })
+      .from(ratingChanges)
+      .innerJoin(ratings, and(eq(ratings.playerId, ratingChanges.playerId), eq(ratings.mode, ratingChanges.mode)))
+      .where(and(eq(ratingChanges.mode, mode), since ? gte(ratingChanges.createdAt, since) : undefined))
+      .groupBy(ratingChanges.playerId, ratings.username, ratings.rating)
+      .orderBy(desc(ratings.rating))
+      .limit(limit);
+    return rows.map((row, index) => ({ ...row, rank: index + 1 }));
+  }
+
+  async saveTournament(tournament: Tournament): Promise<void> {
+    const values = {
+      name: tournament.name,
+      hostId: tournament.hostId,
+      mode: tournament.mode,
+      format: tournament.format,
+      status: tournament.status,
+      state: tournament,
+      updatedAt: new Date()
+    };
+
+    await this.db.insert(tournaments)
+      .values({ id: tournament.id, ...values })
+      .onConflictDoUpdate({ target: tournaments.id, set: values });
+  }
+
+  async loadTournaments(): Promise<Tournament[]> {
+    const rows = await this.db.select().from(tournaments).orderBy(asc(tournaments.createdAt));
+    return rows.map(row => row.state as Tournament);
+  }
+
+  async getSecret(name: string, create: () => string): Promise<string> {
+    // Another server starting at the same time may save its own first; both use that one
+    await this.db.insert(serverSecrets).values({ name, value: create() }).onConflictDoNothing();
+    const [row] = await this.db.select().from(serverSecrets).where(eq(serverSecrets.name, name));
+    return row.value;
+  }
+}
+
+function toPlayerRating(row: RatingRecord): PlayerRating {
+  return {
+    playerId: row.playerId,
+    username: row.username,
+    mode: row.mode as GameMode,
+    rating: row.rating,
+    gamesPlayed: row.gamesPlayed,
+    gamesWon: row.gamesWon
+  };
+}
+
+function toPlayerMatchStats({ id, matchId, ...stats }: MatchPlayerRecord): PlayerMatchStats {
+  return { ...stats, team: stats.team as "A" | "B" };
+}
+
+function toMatchSummary(row: MatchRecord, players: MatchPlayerRecord[]): MatchSummary {
+  return {
+    ...row,
+    mode: row.mode as GameMode,
+    ruleVariant: row.ruleVariant as RuleVariant,
+    winner: row.winner as "A" | "B",
+    forfeitTeam: row.forfeitTeam as "A" | "B" | null,
+    finishedAt: row.finishedAt.toISOString(),
+    players: players.map(toPlayerMatchStats)
+  };
 }
 
-export const storage = new MemStorage();
+// STORAGE=memory keeps everything in memory, as before games were persisted
+export const storage: IStorage = process.env.STORAGE === "memory"
+  ? new MemStorage()
+  : new DatabaseStorage();
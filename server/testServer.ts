@@ -0,0 +1,197 @@
+import assert from 'node:assert/strict';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { io, type Socket } from 'socket.io-client';
+import { ActionResult, ActionType, AuthUser, GameMode, GameState, RoomInvite, RoundState } from '@shared/types';
+import { registerRoutes } from './routes';
+
+// A server with the app's REST routes and socket handlers, and logged in clients talking to it,
+// for the tests of the server's behavior as the players see it.
+// Run with STORAGE=memory, so nothing is written to the database.
+
+// How long a test waits for an event before giving up
+const EVENT_TIMEOUT_MS = 5000;
+
+export interface TestClient {
+  user: AuthUser;
+  socket: Socket;
+  // Call a REST route as this account
+  request: (path: string, init?: { method?: string; body?: unknown }) => Promise<Response>;
+  // Send a socket action and wait for its acknowledgement
+  act: <T = ActionResult>(event: string, data?: unknown) => Promise<T>;
+  // Wait for the next event of a type (received since the last wait) that matches the predicate
+  next: <T = any>(event: string, predicate?: (data: T) => boolean) => Promise<T>;
+  // The last event of a type received so far
+  latest: <T = any>(event: string) => T | undefined;
+}
+
+export interface TestServer {
+  url: string;
+  // Call a REST route without logging in
+  request: (path: string, init?: { method?: string; body?: unknown; cookie?: string }) => Promise<Response>;
+  // Register an account and connect a socket logged in with it
+  signUp: (username: string) => Promise<TestClient>;
+  // Connect another socket (a second tab) for the account of a client
+  connect: (client: TestClient) => Promise<TestClient>;
+  close: () => Promise<void>;
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  const httpServer = await registerRoutes(app);
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+
+  const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  const sockets: Socket[] = [];
+  const cookies = new Map<number, string>();
+
+  const request: TestServer['request'] = (path, init = {}) => fetch(`${url}${path}`, {
+    method: init.method ?? (init.body === undefined ? 'GET' : 'POST'),
+    headers: {
+      ...(init.body === undefined ? {} : { 'content-type': 'application/json' }),
+      ...(init.cookie ? { cookie: init.cookie } : {})
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  });
+
+  const connectAs = async (user: AuthUser): Promise<TestClient> => {
+    const cookie = cookies.get(user.id) as string;
+    const socket = io(url, { transports: ['websocket'], extraHeaders: { cookie }, forceNew: true });
+    sockets.push(socket);
+
+    // Events are kept until a test waits for them, so none is missed between two actions
+    const received: { event: string; data: any }[] = [];
+    const latest = new Map<string, any>();
+    const waiting = new Set<() => void>();
+    socket.onAny((event: string, data: unknown) => {
+      received.push({ event, data });
+      latest.set(event, data);
+      waiting.forEach(check => check());
+    });
+
+    const next: TestClient['next'] = (event, predicate = () => true) => new Promise((resolve, reject) => {
+      const check = () => {
+        const index = received.findIndex(entry => entry.event === event && predicate(entry.data));
+        if (index === -1) return false;
+
+        // Earlier events of the type are skipped along with it
+        const entry = received[index];
+        for (let i = index; i >= 0; i--) {
+          if (received[i].event === event) received.splice(i, 1);
+        }
+        waiting.delete(check);
+        clearTimeout(timeout);
+        resolve(entry.data);
+        return true;
+      };
+      const timeout = setTimeout(() => {
+        waiting.delete(check);
+        reject(new Error(`Timed out waiting for ${event} as ${user.username}`));
+      }, EVENT_TIMEOUT_MS);
+
+      if (!check()) waiting.add(check);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', resolve);
+      socket.once('connect_error', reject);
+    });
+
+    return {
+      user,
+      socket,
+      request: (path, init) => request(path, { ...init, cookie }),
+      act: (event, data) => socket.timeout(EVENT_TIMEOUT_MS).emitWithAck(event, data),
+      next,
+      latest: event => latest.get(event)
+    };
+  };
+
+  const signUp = async (username: string) => {
+    const response = await request('/api/auth/register', { body: { username, password: 'senha123' } });
+    if (response.status !== 201) {
+      throw new Error(`Could not register ${username}: ${response.status}`);
+    }
+
+    const user: AuthUser = await response.json();
+    cookies.set(user.id, (response.headers.get('set-cookie') ?? '').split(';')[0]);
+    return connectAs(user);
+  };
+
+  const close = async () => {
+    sockets.forEach(socket => socket.disconnect());
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  };
+
+  return { url, request, signUp, connect: client => connectAs(client.user), close };
+}
+
+// Games played through the sockets
+
+// Create a room as the host and return its ID
+export async function createGame(host: TestClient, settings: Record<string, unknown> = {}): Promise<string> {
+  host.socket.emit(ActionType.CREATE_GAME, { roomName: 'Mesa', mode: GameMode.ONE_VS_ONE, ...settings });
+  const { gameId } = await host.next<{ gameId: string }>('game_created');
+  return gameId;
+}
+
+// Seat a player in a room and wait for their first view of it
+export async function joinGame(client: TestClient, gameId: string, credentials: Record<string, unknown> = {}): Promise<GameState> {
+  client.socket.emit(ActionType.JOIN_GAME, { gameId, ...credentials });
+  return client.next<GameState>(ActionType.GAME_UPDATE);
+}
+
+// Wait for a client's view of the game once a condition holds
+export const nextView = (client: TestClient, predicate: (view: GameState) => boolean) =>
+  client.next<GameState>(ActionType.GAME_UPDATE, predicate);
+
+// A 1v1 game between two new accounts, started and waiting for the first card
+export async function startGame(server: TestServer, names: [string, string], settings: Record<string, unknown> = {}) {
+  const [ana, bia] = await Promise.all(names.map(name => server.signUp(name)));
+  const gameId = await createGame(ana, settings);
+  const { inviteCode } = await ana.next<RoomInvite>('room_invite');
+  await joinGame(bia, gameId, { inviteCode });
+
+  ana.socket.emit(ActionType.READY, { gameId });
+  bia.socket.emit(ActionType.READY, { gameId });
+  const isPlaying = (view: GameState) => view.roundState === RoundState.PLAYING;
+  const [anaView, biaView] = await Promise.all([nextView(ana, isPlaying), nextView(bia, isPlaying)]);
+
+  return { ana, bia, gameId, anaView, biaView };
+}
+
+// Play a round out from a view of it, each player playing their first card on their turn
+export async function playRound(clients: TestClient[], gameId: string, view: GameState): Promise<GameState> {
+  while (view.roundState === RoundState.PLAYING) {
+    const client = clients.find(c => c.user.playerId === view.currentPlayer) as TestClient;
+    const ownView = await nextView(client, v => v.currentPlayer === client.user.playerId && !v.trucoRequested);
+    const card = ownView.players.find(p => p.id === client.user.playerId)?.hand[0];
+    assert.deepEqual(await client.act(ActionType.PLAY_CARD, { gameId, cardId: card?.id }), { ok: true });
+
+    // The acting player's updates arrive before the answer to their action
+    view = client.latest<GameState>(ActionType.GAME_UPDATE) as GameState;
+  }
+  return view;
+}
+
+// Play a 1v1 game out from its first round: truco is raised to doze, which ends the game
+export async function playGame(clients: [TestClient, TestClient], gameId: string): Promise<GameState> {
+  const [first, second] = clients;
+  const starter = first.user.playerId === first.latest<GameState>(ActionType.GAME_UPDATE)?.currentPlayer ? first : second;
+  const other = starter === first ? second : first;
+  for (const [client, action] of [
+    [starter, ActionType.REQUEST_TRUCO],
+    [other, ActionType.REQUEST_TRUCO],
+    [starter, ActionType.REQUEST_TRUCO],
+    [other, ActionType.REQUEST_TRUCO],
+    [starter, ActionType.ACCEPT_TRUCO]
+  ] as const) {
+    assert.deepEqual(await client.act(action, { gameId }), { ok: true });
+  }
+
+  const view = await playRound(clients, gameId, starter.latest<GameState>(ActionType.GAME_UPDATE) as GameState);
+  assert.equal(view.roundState, RoundState.GAME_OVER);
+  return view;
+}
@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionResult, BotDifficulty, GameMode, RejectionReason, RuleVariant } from '@shared/types';
+import { TournamentMatch } from '@shared/tournaments';
+import { MemStorage } from './storage';
+import { GameManager } from './gameManager';
+import { TrucoGame } from './trucoGame';
+import { TournamentManager, TournamentSettings } from './tournamentManager';
+
+const player = (name: string) => ({ playerId: name, username: name });
+
+const SETTINGS: TournamentSettings = {
+  name: 'Copa',
+  mode: GameMode.TWO_VS_TWO,
+  format: 'single_elimination',
+  ruleVariant: RuleVariant.PAULISTA,
+  targetScore: 12,
+  maxEntrants: 8,
+  swissRounds: 0
+};
+
+async function createManagers() {
+  const storage = new MemStorage();
+  await storage.init();
+  const gameManager = new GameManager(storage);
+  return { gameManager, tournamentManager: new TournamentManager(storage, gameManager) };
+}
+
+test('a duo is registered only once the partner accepts', async () => {
+  const { tournamentManager } = await createManagers();
+  const { id } = tournamentManager.createTournament(player('host'), SETTINGS);
+
+  assert.equal(tournamentManager.register(id, player('ana'), player('bia')).ok, true);
+  assert.equal(tournamentManager.getTournament(id)?.entrants.length, 0);
+  assert.equal(tournamentManager.getTournament(id)?.invites.length, 1);
+
+  // Only the invited player can answer
+  assert.equal(tournamentManager.answerInvite(id, 'ana', true).ok, false);
+  assert.equal(tournamentManager.answerInvite(id, 'bia', true).ok, true);
+
+  const tournament = tournamentManager.getTournament(id);
+  assert.deepEqual(tournament?.entrants.map(e => e.name), ['ana e bia']);
+  assert.equal(tournament?.invites.length, 0);
+});
+
+test('a declined invite registers nobody', async () => {
+  const { tournamentManager } = await createManagers();
+  const { id } = tournamentManager.createTournament(player('host'), SETTINGS);
+
+  tournamentManager.register(id, player('ana'), player('bia'));
+  assert.equal(tournamentManager.answerInvite(id, 'bia', false).ok, true);
+
+  const tournament = tournamentManager.getTournament(id);
+  assert.equal(tournament?.entrants.length, 0);
+  assert.equal(tournament?.invites.length, 0);
+});
+
+test('a player with an invite waiting cannot be invited again', async () => {
+  const { tournamentManager } = await createManagers();
+  const { id } = tournamentManager.createTournament(player('host'), SETTINGS);
+
+  tournamentManager.register(id, player('ana'), player('bia'));
+  assert.equal(tournamentManager.register(id, player('caio'), player('bia')).ok, false);
+
+  // Cancelling the invite frees the partner
+  assert.equal(tournamentManager.unregister(id, 'ana').ok, true);
+  assert.equal(tournamentManager.register(id, player('caio'), player('bia')).ok, true);
+});
+
+// A 1v1 tournament between ana and bia, started, with the room of their match
+async function startMatch() {
+  const managers = await createManagers();
+  const { gameManager, tournamentManager } = managers;
+  const { id } = tournamentManager.createTournament(player('host'), { ...SETTINGS, mode: GameMode.ONE_VS_ONE, targetScore: 15 });
+  tournamentManager.register(id, player('ana'));
+  tournamentManager.register(id, player('bia'));
+  tournamentManager.start(id, 'host');
+
+  const match = tournamentManager.getTournament(id)?.matches.find(m => m.gameId) as TournamentMatch;
+  const game = gameManager.getGame(match.gameId as string) as TrucoGame;
+  return { ...managers, id, match, game };
+}
+
+const rejectedFor = (result: ActionResult) => (result.ok ? null : result.reason);
+
+test('the players of a match are seated on their entry\'s team, with nobody hosting', async () => {
+  const { game } = await startMatch();
+
+  assert.equal(game.gameState.hostId, null);
+  assert.equal(game.gameState.targetScore, 15);
+  assert.deepEqual(game.gameState.players.map(p => [p.id, p.team]), [['ana', 'A'], ['bia', 'B']]);
+});
+
+test('tournament rooms refuse host actions, bots and seat changes', async () => {
+  const { game } = await startMatch();
+
+  assert.equal(rejectedFor(game.kickPlayer('ana', 'bia')), RejectionReason.TOURNAMENT_ROOM);
+  assert.equal(rejectedFor(game.updateSettings('ana', { targetScore: 12 })), RejectionReason.TOURNAMENT_ROOM);
+  assert.equal(rejectedFor(game.forceStart('ana', BotDifficulty.EASY)), RejectionReason.TOURNAMENT_ROOM);
+  assert.equal(rejectedFor(game.transferHost('ana', 'bia')), RejectionReason.TOURNAMENT_ROOM);
+  assert.equal(rejectedFor(game.chooseSeat('ana', 1)), RejectionReason.TOURNAMENT_ROOM);
+
+  // Even with a seat emptied
+  game.removePlayer('bia');
+  assert.equal(rejectedFor(game.addBot(BotDifficulty.EASY)), RejectionReason.TOURNAMENT_ROOM);
+  assert.equal(rejectedFor(game.fillWithBots(BotDifficulty.EASY)), RejectionReason.TOURNAMENT_ROOM);
+});
+
+test('only the players of the match can take its seats', async () => {
+  const { tournamentManager, id, match, game } = await startMatch();
+  game.removePlayer('bia');
+
+  assert.equal(game.canTakeSeat('caio'), false);
+  assert.equal(game.addPlayer('caio', 'caio'), null);
+  assert.equal(tournamentManager.joinMatch(id, match.id, 'caio').ok, false);
+
+  // The player who left comes back to their own team
+  assert.equal(tournamentManager.joinMatch(id, match.id, 'bia').ok, true);
+  assert.equal(game.gameState.players.find(p => p.id === 'bia')?.team, 'B');
+});
+
+test('the winning team\'s entry advances', async () => {
+  const { gameManager, tournamentManager, id, match, game } = await startMatch();
+
+  gameManager.emit('game_update', game.gameState.id, { ...game.gameState, winner: 'B' });
+
+  const tournament = tournamentManager.getTournament(id);
+  assert.equal(tournament?.status, 'finished');
+  assert.equal(tournament?.winner, match.entrantB);
+});
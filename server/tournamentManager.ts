@@ -0,0 +1,373 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { GameManager } from './gameManager';
+import { TrucoGame } from './trucoGame';
+import { IStorage } from './storage';
+import { ActionResult, GameMode, GameState, RejectionReason, RuleVariant } from '@shared/types';
+import {
+  Tournament,
+  TournamentEntrant,
+  TournamentFormat,
+  TournamentInvite,
+  TournamentMatch,
+  MIN_TOURNAMENT_ENTRANTS,
+  startTournament,
+  recordMatchWinner,
+  getPlayableMatches,
+  getMatchLabel
+} from '@shared/tournaments';
+import { rejected } from '@/utils/moveValidation';
+import { log } from './logger';
+
+export interface TournamentSettings {
+  name: string;
+  mode: GameMode;
+  format: TournamentFormat;
+  ruleVariant: RuleVariant;
+  targetScore: number;
+  maxEntrants: number;
+  swissRounds: number;
+}
+
+interface TournamentPlayer {
+  playerId: string;
+  username: string;
+}
+
+// Where a room belongs in a tournament
+interface MatchRef {
+  tournamentId: string;
+  matchId: string;
+}
+
+type Rejection = Extract<ActionResult, { ok: false }>;
+
+const tournamentNotFound = (): Rejection =>
+  ({ ok: false, reason: RejectionReason.INVALID_REQUEST, message: 'Tournament not found' });
+
+export class TournamentManager extends EventEmitter {
+  private tournaments: Map<string, Tournament> = new Map();
+  private matchGames: Map<string, MatchRef> = new Map(); // Rooms of the matches being played, by game ID
+  private pendingSaves: Map<string, Promise<void>> = new Map(); // Saves of each tournament, in order
+
+  constructor(private storage: IStorage, private gameManager: GameManager) {
+    super();
+
+    // Winners advance as soon as the game of their match is over
+    gameManager.on('game_update', (gameId: string, gameState: GameState) => {
+      if (gameState.winner) this.handleGameOver(gameId, gameState);
+    });
+  }
+
+  // Bring back the tournaments saved before the last shutdown. Rooms lost with the restart
+  // are opened again when their players come back to the match.
+  public async restoreTournaments(): Promise<void> {
+    const saved = await this.storage.loadTournaments();
+    saved.forEach(tournament => {
+      this.tournaments.set(tournament.id, tournament);
+      getPlayableMatches(tournament)
+        .filter(match => match.gameId)
+        .forEach(match => this.matchGames.set(match.gameId as string, { tournamentId: tournament.id, matchId: match.id }));
+    });
+    if (saved.length > 0) log(`Restored ${saved.length} tournament(s)`, 'storage');
+  }
+
+  public getTournament(id: string): Tournament | undefined {
+    return this.tournaments.get(id);
+  }
+
+  // Newest first
+  public getTournaments(): Tournament[] {
+    return Array.from(this.tournaments.values()).reverse();
+  }
+
+  public createTournament(host: TournamentPlayer, settings: TournamentSettings): Tournament {
+    const tournament: Tournament = {
+      id: uuidv4(),
+      ...settings,
+      hostId: host.playerId,
+      hostName: host.username,
+      status: 'registration',
+      entrants: [],
+      invites: [],
+      matches: [],
+      winner: null,
+      createdAt: new Date().toISOString()
+    };
+
+    this.save(tournament);
+    log(`Tournament ${tournament.id} "${tournament.name}" created by ${host.username}`, 'game');
+    return tournament;
+  }
+
+  // Register a player. In 2v2 the partner is invited, and the duo is registered once they accept.
+  public register(id: string, player: TournamentPlayer, partner?: TournamentPlayer): ActionResult {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) return tournamentNotFound();
+
+    if (tournament.mode !== GameMode.TWO_VS_TWO) {
+      if (partner) return rejected(RejectionReason.INVALID_REQUEST, 'Only one player per entry');
+
+      const result = this.validateEntry(tournament, [player]);
+      if (!result.ok) return result;
+      this.save({ ...tournament, entrants: [...tournament.entrants, this.createEntrant([player])] });
+      return { ok: true };
+    }
+
+    if (!partner) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'A partner is required');
+    }
+    if (partner.playerId === player.playerId) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'Pick another player as partner');
+    }
+    const result = this.validateEntry(tournament, [player, partner]);
+    if (!result.ok) return result;
+    if (this.findInvite(tournament, player.playerId)) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'You already have an invite waiting for an answer');
+    }
+    if (this.findInvite(tournament, partner.playerId)) {
+      return rejected(RejectionReason.PARTNER_UNAVAILABLE, `${partner.username} already has an invite waiting for an answer`);
+    }
+
+    const invite: TournamentInvite = { inviter: player, partner };
+    this.save({ ...tournament, invites: [...tournament.invites, invite] });
+    this.emit('tournament_invite', tournament, invite);
+    return { ok: true };
+  }
+
+  // The invited player accepts (and the duo is registered) or declines
+  public answerInvite(id: string, playerId: string, accept: boolean): ActionResult {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) return tournamentNotFound();
+
+    const invite = tournament.invites.find(i => i.partner.playerId === playerId);
+    if (!invite) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The invite is no longer valid');
+    }
+
+    const withoutInvite = { ...tournament, invites: tournament.invites.filter(i => i !== invite) };
+    const result = accept ? this.validateEntry(withoutInvite, [invite.inviter, invite.partner]) : { ok: true as const };
+    if (!accept || !result.ok) {
+      this.save(withoutInvite);
+      return result;
+    }
+
+    this.save({
+      ...withoutInvite,
+      entrants: [...tournament.entrants, this.createEntrant([invite.inviter, invite.partner])]
+    });
+    return { ok: true };
+  }
+
+  // Take a player's entry (and their partner's) out before the tournament starts,
+  // or drop the duo invite they sent or received
+  public unregister(id: string, playerId: string): ActionResult {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) return tournamentNotFound();
+
+    if (tournament.status !== 'registration') {
+      return rejected(RejectionReason.INVALID_PHASE, 'Registration is closed');
+    }
+    const invite = this.findInvite(tournament, playerId);
+    if (!this.isRegistered(tournament, playerId) && !invite) {
+      return rejected(RejectionReason.NOT_IN_GAME, 'You are not registered');
+    }
+
+    this.save({
+      ...tournament,
+      entrants: tournament.entrants.filter(e => !e.players.some(p => p.playerId === playerId)),
+      invites: tournament.invites.filter(i => i !== invite)
+    });
+    return { ok: true };
+  }
+
+  // Draw the bracket and open the rooms of the first matches
+  public start(id: string, playerId: string): ActionResult {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) return tournamentNotFound();
+
+    if (tournament.hostId !== playerId) {
+      return rejected(RejectionReason.NOT_HOST, 'Only the host can start the tournament');
+    }
+    if (tournament.status !== 'registration') {
+      return rejected(RejectionReason.INVALID_PHASE, 'The tournament has already started');
+    }
+    if (tournament.entrants.length < MIN_TOURNAMENT_ENTRANTS) {
+      return rejected(RejectionReason.INVALID_REQUEST, `At least ${MIN_TOURNAMENT_ENTRANTS} entries are needed`);
+    }
+
+    this.save(this.openMatchRooms(startTournament(tournament)));
+    log(`Tournament ${id} started with ${tournament.entrants.length} entries`, 'game');
+    return { ok: true };
+  }
+
+  // The host settles a match by hand (a no-show, or a game played elsewhere)
+  public reportWinner(id: string, playerId: string, matchId: string, entrantId: string): ActionResult {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) return tournamentNotFound();
+
+    if (tournament.hostId !== playerId) {
+      return rejected(RejectionReason.NOT_HOST, 'Only the host can set the result of a match');
+    }
+    const match = getPlayableMatches(tournament).find(m => m.id === matchId);
+    if (!match || (entrantId !== match.entrantA && entrantId !== match.entrantB)) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The match is not being played');
+    }
+
+    this.recordWinner(tournament, match, entrantId);
+    return { ok: true };
+  }
+
+  // Room of a player's match, opened again if it was closed before the match ended.
+  // A player who left the room gets a seat back on their entry's team.
+  public joinMatch(
+    id: string,
+    matchId: string,
+    playerId: string
+  ): { ok: true; game: TrucoGame } | Rejection {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) return tournamentNotFound();
+
+    const match = getPlayableMatches(tournament).find(m => m.id === matchId);
+    if (!match) {
+      return { ok: false, reason: RejectionReason.INVALID_PHASE, message: 'The match is not ready to be played' };
+    }
+    const [entrantA, entrantB] = this.getMatchEntrants(tournament, match);
+    if (![...entrantA.players, ...entrantB.players].some(p => p.playerId === playerId)) {
+      return { ok: false, reason: RejectionReason.NOT_IN_GAME, message: 'You are not playing this match' };
+    }
+
+    const existing = match.gameId ? this.gameManager.getGame(match.gameId) : undefined;
+    if (existing?.isKicked(playerId)) {
+      return { ok: false, reason: RejectionReason.KICKED, message: 'You were removed from this room' };
+    }
+    if (!existing) {
+      const gameId = this.createMatchRoom(tournament, match);
+      this.save({ ...tournament, matches: tournament.matches.map(m => m.id === match.id ? { ...m, gameId } : m) });
+      return { ok: true, game: this.gameManager.getGame(gameId) as TrucoGame };
+    }
+
+    // The room keeps the player's seat free for them, on their entry's team
+    if (!existing.gameState.players.some(p => p.id === playerId)) {
+      const username = [...entrantA.players, ...entrantB.players].find(p => p.playerId === playerId)?.username ?? '';
+      if (!existing.addPlayer(playerId, username)) {
+        return { ok: false, reason: RejectionReason.INVALID_REQUEST, message: 'Failed to join game' };
+      }
+    }
+    return { ok: true, game: existing };
+  }
+
+  private isRegistered(tournament: Tournament, playerId: string): boolean {
+    return tournament.entrants.some(e => e.players.some(p => p.playerId === playerId));
+  }
+
+  // Invite a player sent or received
+  private findInvite(tournament: Tournament, playerId: string): TournamentInvite | undefined {
+    return tournament.invites.find(i => i.inviter.playerId === playerId || i.partner.playerId === playerId);
+  }
+
+  // Whether an entry with these players can still be made
+  private validateEntry(tournament: Tournament, players: TournamentPlayer[]): ActionResult {
+    if (tournament.status !== 'registration') {
+      return rejected(RejectionReason.INVALID_PHASE, 'Registration is closed');
+    }
+    if (tournament.entrants.length >= tournament.maxEntrants) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The tournament is full');
+    }
+    const registered = players.find(p => this.isRegistered(tournament, p.playerId));
+    if (registered) {
+      return rejected(RejectionReason.INVALID_REQUEST, `${registered.username} is already registered`);
+    }
+    return { ok: true };
+  }
+
+  private createEntrant(players: TournamentPlayer[]): TournamentEntrant {
+    return { id: uuidv4(), name: players.map(p => p.username).join(' e '), players };
+  }
+
+  // Both sides of a match that can be played
+  private getMatchEntrants(tournament: Tournament, match: TournamentMatch): [TournamentEntrant, TournamentEntrant] {
+    const find = (entrantId: string | null) => tournament.entrants.find(e => e.id === entrantId) as TournamentEntrant;
+    return [find(match.entrantA), find(match.entrantB)];
+  }
+
+  // Open a room for every match that can be played and has none yet
+  private openMatchRooms(tournament: Tournament): Tournament {
+    const playable = new Set(getPlayableMatches(tournament).filter(m => !m.gameId).map(m => m.id));
+    if (playable.size === 0) return tournament;
+
+    return {
+      ...tournament,
+      matches: tournament.matches.map(m => playable.has(m.id) ? { ...m, gameId: this.createMatchRoom(tournament, m) } : m)
+    };
+  }
+
+  // A private room with the match's players already seated, the first entry on team A.
+  // Only they can sit in it, and nobody hosts it, so the room can't be changed or filled with bots.
+  private createMatchRoom(tournament: Tournament, match: TournamentMatch): string {
+    const [entrantA, entrantB] = this.getMatchEntrants(tournament, match);
+    const players = entrantA.players.flatMap((player, index) => [player, entrantB.players[index]]);
+    const teams = Object.fromEntries([
+      ...entrantA.players.map(p => [p.playerId, 'A' as const]),
+      ...entrantB.players.map(p => [p.playerId, 'B' as const])
+    ]);
+    const gameId = uuidv4();
+    const game = this.gameManager.createGame(
+      gameId,
+      tournament.mode,
+      `${tournament.name} • ${getMatchLabel(tournament, match)}`,
+      tournament.ruleVariant,
+      undefined,
+      'private'
+    );
+
+    game.setTournamentRoom({ tournamentId: tournament.id, matchId: match.id, teams }, tournament.targetScore);
+    players.forEach(player => game.addPlayer(player.playerId, player.username));
+
+    this.matchGames.set(gameId, { tournamentId: tournament.id, matchId: match.id });
+    log(`Game ${gameId} opened for match ${match.id} of tournament ${tournament.id}`, 'game');
+    return gameId;
+  }
+
+  // The first entry of a match plays on team A
+  private handleGameOver(gameId: string, gameState: GameState): void {
+    const ref = this.matchGames.get(gameId);
+    const tournament = ref && this.tournaments.get(ref.tournamentId);
+    const match = tournament?.matches.find(m => m.id === ref?.matchId);
+    if (!tournament || !match || match.winner !== null) return;
+
+    const winner = gameState.winner === 'A' ? match.entrantA : match.entrantB;
+    if (!winner) return;
+
+    this.matchGames.delete(gameId);
+    this.recordWinner(tournament, match, winner);
+  }
+
+  private recordWinner(tournament: Tournament, match: TournamentMatch, entrantId: string): void {
+    if (match.gameId) this.matchGames.delete(match.gameId);
+
+    const updated = this.openMatchRooms(recordMatchWinner(tournament, match.id, entrantId));
+    this.save(updated);
+    log(`Match ${match.id} of tournament ${tournament.id} won by ${entrantId}`, 'game');
+    if (updated.status === 'finished') {
+      log(`Tournament ${tournament.id} won by ${updated.entrants.find(e => e.id === updated.winner)?.name}`, 'game');
+    }
+  }
+
+  // Keep the new state and write it; saves of a tournament run one after another, a failed one is logged
+  private save(tournament: Tournament): void {
+    const id = tournament.id;
+    this.tournaments.set(id, tournament);
+    this.emit('tournament_update', tournament);
+
+    const previous = this.pendingSaves.get(id) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.storage.saveTournament(tournament))
+      .catch(error => log(`Failed to save tournament ${id}: ${error}`, 'error'));
+
+    this.pendingSaves.set(id, next);
+    next.then(() => {
+      if (this.pendingSaves.get(id) === next) this.pendingSaves.delete(id);
+    });
+  }
+}
@@ -0,0 +1,599 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionResult, BotDifficulty, EnvidoCall, GameEvent, GameMode, RejectionReason, RoundState, RuleVariant, TrickOutcome } from '@shared/types';
+import { verifyDeal } from '@shared/fairness';
+import { TrucoGame, TrickResult, SeriesResult } from './trucoGame';
+import { createPlayerView } from './gameView';
+
+const rejectedFor = (result: ActionResult) => (result.ok ? null : result.reason);
+
+test('games dealt from a test setup are never ranked', () => {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE);
+  game.addPlayer('ana', 'ana');
+  game.setDealSetup({ seed: 'seed' });
+
+  assert.equal(rejectedFor(game.updateSettings('ana', { ranked: true })), RejectionReason.RANKED_HUMANS_ONLY);
+  assert.equal(game.gameState.ranked, false);
+
+  // Nor can a ranked game be given one
+  const ranked = new TrucoGame('ranked', GameMode.ONE_VS_ONE);
+  ranked.addPlayer('ana', 'ana');
+  assert.equal(ranked.updateSettings('ana', { ranked: true }).ok, true);
+  assert.equal(rejectedFor(ranked.setDealSetup({ seed: 'seed' })), RejectionReason.RANKED_HUMANS_ONLY);
+});
+
+test('card plays are evaluated for the post-game analysis, shown once the game is over', async () => {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  assert.equal(game.startGame().ok, true);
+
+  const { currentPlayer, players } = game.gameState;
+  const card = players.find(p => p.id === currentPlayer)?.hand[0];
+  assert.equal(game.playCard(currentPlayer, card?.id as string).ok, true);
+  assert.equal(await game.getGameAnalysis('ana'), null);
+
+  game.gameState = { ...game.gameState, roundState: RoundState.GAME_OVER };
+  assert.equal(await game.getGameAnalysis('caio'), null);
+  assert.deepEqual((await game.getGameAnalysis('ana'))?.map(a => [a.playerId, a.plays]), [[currentPlayer, 1]]);
+  game.dispose();
+});
+
+test('the players\' nonces are mixed into the committed deal', async () => {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+
+  const { nextSeedHash } = game.gameState;
+  assert.equal(game.setDealNonce('ana', 'ana-nonce').ok, true);
+  assert.equal(game.setDealNonce('caio', 'caio-nonce').ok, false);
+  assert.equal(game.setDealNonce('bia', 'not a nonce').ok, false);
+  game.startGame();
+  const commitment = game.gameState.dealCommitment;
+  assert.notEqual(game.gameState.nextSeedHash, nextSeedHash);
+
+  // Play the round out
+  while (game.gameState.roundState === RoundState.PLAYING) {
+    const { currentPlayer, players } = game.gameState;
+    const card = players.find(p => p.id === currentPlayer)?.hand[0];
+    assert.equal(game.playCard(currentPlayer, card?.id as string).ok, true);
+  }
+
+  const reveal = game.gameState.dealReveal;
+  assert.ok(commitment && reveal);
+  assert.deepEqual(reveal.nonces, [{ playerId: 'ana', nonce: 'ana-nonce' }]);
+  const observed = { ruleVariant: game.gameState.ruleVariant, nextSeedHash, playerId: 'ana', nonce: 'ana-nonce' };
+  const result = await verifyDeal(commitment, reveal, observed);
+  assert.equal(result.seedMatches, true);
+  assert.equal(result.nonceIncluded, true);
+  assert.equal(result.ok, true);
+
+  // The nonce only counts for the player who sent it
+  const misattributed = await verifyDeal(commitment, reveal, { ...observed, playerId: 'bia' });
+  assert.equal(misattributed.nonceIncluded, false);
+  assert.equal(misattributed.ok, false);
+  game.dispose();
+});
+
+// A 1v1 game between ana and bia (or a bot) in its last round, with both teams at 11 points
+function startIronHand(withBot = false) {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE);
+  game.addPlayer('ana', 'ana');
+  if (withBot) game.addBot(BotDifficulty.HARD);
+  else game.addPlayer('bia', 'bia');
+  game.startGame();
+
+  game.gameState = { ...game.gameState, teamAScore: 11, teamBScore: 11, roundState: RoundState.ROUND_OVER };
+  assert.equal(game.startNewRound('ana').ok, true);
+  assert.equal(game.gameState.isIronHand, true);
+  return game;
+}
+
+test('a mão de ferro is played blind to the end of the game', () => {
+  const game = startIronHand();
+
+  while (game.gameState.roundState === RoundState.PLAYING) {
+    const { currentPlayer, players } = game.gameState;
+    const hand = players.find(p => p.id === currentPlayer)?.hand ?? [];
+    assert.equal(rejectedFor(game.playCard(currentPlayer, hand[0].id)), RejectionReason.INVALID_REQUEST);
+    assert.equal(game.playBlindCard(currentPlayer, hand.length - 1).ok, true);
+  }
+
+  assert.equal(game.gameState.roundState, RoundState.GAME_OVER);
+  game.dispose();
+});
+
+test('bots play the mão de ferro blind too', () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const game = startIronHand(true);
+
+    for (let turn = 0; turn < 6 && game.gameState.roundState === RoundState.PLAYING; turn++) {
+      if (game.gameState.currentPlayer === 'ana') assert.equal(game.playBlindCard('ana', 0).ok, true);
+      else mock.timers.tick(5000);
+    }
+
+    assert.equal(game.gameState.roundState, RoundState.GAME_OVER);
+    game.dispose();
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('nobody plays for a player who left a ranked game, and the turn timer decides', () => {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE, undefined, { cardPlaySeconds: 0, betResponseSeconds: 0, maxTimeouts: 3 });
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  assert.equal(game.updateSettings('ana', { ranked: true }).ok, true);
+  game.startGame();
+  assert.equal(game.gameState.turnTimer, null);
+
+  const { currentPlayer } = game.gameState;
+  game.markPlayerDisconnected(currentPlayer);
+  assert.equal(game.isBotControlled(currentPlayer), false);
+  assert.deepEqual(game.gameState.turnTimer?.playerIds, [currentPlayer]);
+
+  // A restored ranked game keeps the seats for their players too
+  const restored = TrucoGame.fromSnapshot(game.toSnapshot());
+  assert.equal(restored.isBotControlled('ana') || restored.isBotControlled('bia'), false);
+  game.dispose();
+  restored.dispose();
+});
+
+test('ranked games are only between players', () => {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE);
+  game.addPlayer('ana', 'ana');
+  assert.equal(game.addBot(BotDifficulty.EASY).ok, true);
+  assert.equal(rejectedFor(game.updateSettings('ana', { ranked: true })), RejectionReason.RANKED_HUMANS_ONLY);
+
+  const ranked = new TrucoGame('ranked', GameMode.ONE_VS_ONE);
+  ranked.addPlayer('ana', 'ana');
+  assert.equal(ranked.updateSettings('ana', { ranked: true }).ok, true);
+  assert.equal(rejectedFor(ranked.addBot(BotDifficulty.EASY)), RejectionReason.RANKED_HUMANS_ONLY);
+  assert.equal(rejectedFor(ranked.fillWithBots(BotDifficulty.EASY)), RejectionReason.RANKED_HUMANS_ONLY);
+  game.dispose();
+  ranked.dispose();
+});
+
+test('a declined contraflor is worth the flor that was on the table', () => {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE, RuleVariant.GAUCHO);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  game.setDealSetup({ deck: { hands: [['hearts-A', 'hearts-2', 'hearts-3'], ['spades-A', 'spades-2', 'spades-3']] } });
+  game.startGame();
+
+  // bia is the mão and sings flor first
+  assert.equal(game.gameState.currentPlayer, 'bia');
+  assert.equal(game.callEnvido('bia', EnvidoCall.FLOR).ok, true);
+  assert.equal(game.callEnvido('ana', EnvidoCall.CONTRAFLOR).ok, true);
+  assert.equal(game.declineEnvido('bia').ok, true);
+
+  assert.equal(game.gameState.envido?.winner, 'A');
+  assert.equal(game.gameState.teamAScore, 3);
+  game.dispose();
+});
+
+// A 1v1 game between ana and bia, started: ana deals and bia plays first
+function startOneVsOne(ruleVariant?: RuleVariant) {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE, ruleVariant);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  game.startGame();
+  return game;
+}
+
+test('truco is raised in turns up to doze, and only the other team answers', () => {
+  const game = startOneVsOne();
+  const biaCard = game.gameState.players[1].hand[0].id;
+
+  assert.equal(rejectedFor(game.requestTruco('ana')), RejectionReason.NOT_YOUR_TURN);
+  assert.equal(game.requestTruco('bia').ok, true);
+  assert.equal(game.gameState.trucoRequestedValue, 3);
+  assert.equal(rejectedFor(game.acceptTruco('bia')), RejectionReason.WRONG_TEAM);
+  assert.equal(rejectedFor(game.requestTruco('bia')), RejectionReason.WRONG_TEAM);
+  assert.equal(rejectedFor(game.playCard('bia', biaCard)), RejectionReason.BET_PENDING);
+
+  // Each raise accepts the bet before it
+  assert.equal(game.requestTruco('ana').ok, true);
+  assert.deepEqual([game.gameState.roundValue, game.gameState.trucoRequestedValue], [3, 6]);
+  assert.equal(game.requestTruco('bia').ok, true);
+  assert.equal(game.requestTruco('ana').ok, true);
+  assert.deepEqual([game.gameState.roundValue, game.gameState.trucoRequestedValue], [9, 12]);
+  assert.equal(rejectedFor(game.requestTruco('bia')), RejectionReason.BET_LIMIT_REACHED);
+
+  assert.equal(game.acceptTruco('bia').ok, true);
+  assert.equal(game.gameState.roundValue, 12);
+  assert.equal(game.gameState.trucoRequested, false);
+  assert.equal(game.playCard('bia', biaCard).ok, true);
+  game.dispose();
+});
+
+test('running from a raise gives the other team the bet that was accepted', () => {
+  const game = startOneVsOne();
+
+  assert.equal(game.requestTruco('bia').ok, true);
+  assert.equal(game.requestTruco('ana').ok, true);
+  assert.equal(game.declineTruco('bia').ok, true);
+
+  assert.equal(game.gameState.roundState, RoundState.ROUND_OVER);
+  assert.deepEqual([game.gameState.teamAScore, game.gameState.teamBScore], [3, 0]);
+  game.dispose();
+});
+
+// Deal the next round of a game with the given scores
+function dealWithScores(game: TrucoGame, teamAScore: number, teamBScore: number) {
+  game.gameState = { ...game.gameState, teamAScore, teamBScore, roundState: RoundState.ROUND_OVER };
+  assert.equal(game.startNewRound(game.gameState.players[0].id).ok, true);
+}
+
+test('the team at 11 decides the mão de onze, which is worth 3 points and can\'t be trucoed', () => {
+  const game = startOneVsOne();
+  dealWithScores(game, 11, 5);
+  assert.equal(game.gameState.roundState, RoundState.HAND_OF_ELEVEN);
+  assert.equal(game.gameState.handOfElevenTeam, 'A');
+
+  assert.equal(rejectedFor(game.playHandOfEleven('bia')), RejectionReason.WRONG_TEAM);
+  assert.equal(game.playHandOfEleven('ana').ok, true);
+  assert.equal(game.gameState.roundState, RoundState.PLAYING);
+  assert.equal(game.gameState.roundValue, 3);
+  assert.equal(rejectedFor(game.requestTruco(game.gameState.currentPlayer)), RejectionReason.INVALID_PHASE);
+  game.dispose();
+});
+
+test('folding the mão de onze gives the other team 1 point', () => {
+  const game = startOneVsOne();
+  dealWithScores(game, 11, 5);
+
+  assert.equal(game.foldHandOfEleven('ana').ok, true);
+  assert.deepEqual([game.gameState.teamAScore, game.gameState.teamBScore], [11, 6]);
+  game.dispose();
+});
+
+test('in the mão de onze the deciding team sees the partner\'s cards', () => {
+  const game = new TrucoGame('game', GameMode.TWO_VS_TWO);
+  ['ana', 'bia', 'caio', 'duda'].forEach(name => game.addPlayer(name, name));
+  game.startGame();
+  dealWithScores(game, 11, 5);
+
+  // ana and caio are team A, seated across from each other
+  const handSizes = (viewerId: string) => createPlayerView(game.gameState, viewerId).players.map(p => p.hand.length);
+  assert.deepEqual(handSizes('ana'), [3, 0, 3, 0]);
+  assert.deepEqual(handSizes('bia'), [0, 3, 0, 0]);
+  game.dispose();
+});
+
+// A 1v1 round dealt from scripted hands (ana's first), each played in order.
+// Paulista rounds have the 4 of clubs as vira, so the 5s are the manilhas.
+function playScriptedRound(anaCards: string[], biaCards: string[], ruleVariant = RuleVariant.PAULISTA) {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE, ruleVariant);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  const vira = ruleVariant === RuleVariant.PAULISTA ? 'clubs-4' : undefined;
+  game.setDealSetup({ deck: { vira, hands: [anaCards, biaCards] } });
+  game.startGame();
+
+  const outcomes: TrickOutcome[] = [];
+  game.on('trick_completed', (trick: TrickResult) => outcomes.push(trick.outcome));
+
+  const toPlay: Record<string, string[]> = { ana: [...anaCards], bia: [...biaCards] };
+  while (game.gameState.roundState === RoundState.PLAYING) {
+    const { currentPlayer } = game.gameState;
+    assert.equal(game.playCard(currentPlayer, toPlay[currentPlayer].shift() as string).ok, true);
+  }
+
+  game.dispose();
+  return { outcomes, score: [game.gameState.teamAScore, game.gameState.teamBScore] };
+}
+
+test('a drawn first trick is decided by the next one', () => {
+  const round = playScriptedRound(['hearts-3', 'hearts-K', 'hearts-6'], ['spades-3', 'spades-A', 'spades-7']);
+  assert.deepEqual(round.outcomes, ['draw', 'B']);
+  assert.deepEqual(round.score, [0, 1]);
+});
+
+test('a drawn trick after the first goes to the winner of the first', () => {
+  const round = playScriptedRound(['hearts-3', 'hearts-K', 'hearts-6'], ['spades-A', 'spades-K', 'spades-7']);
+  assert.deepEqual(round.outcomes, ['A', 'draw']);
+  assert.deepEqual(round.score, [1, 0]);
+});
+
+test('nobody scores when every trick is drawn', () => {
+  const round = playScriptedRound(['hearts-3', 'hearts-K', 'hearts-6'], ['spades-3', 'spades-K', 'spades-6']);
+  assert.deepEqual(round.outcomes, ['draw', 'draw', 'draw']);
+  assert.deepEqual(round.score, [0, 0]);
+});
+
+test('the Mineiro manilhas are fixed, with the 4 of clubs on top', () => {
+  const round = playScriptedRound(['clubs-4', 'hearts-7', 'spades-4'], ['hearts-3', 'diamonds-7', 'hearts-2'], RuleVariant.MINEIRO);
+  assert.deepEqual(round.outcomes, ['A', 'A']);
+  // Mineiro hands are worth 2 points
+  assert.deepEqual(round.score, [2, 0]);
+
+  // Without the fixed manilhas the 3 is the highest card
+  const paulista = playScriptedRound(['clubs-4', 'hearts-7', 'spades-4'], ['hearts-3', 'diamonds-7', 'hearts-2']);
+  assert.deepEqual(paulista.outcomes, ['B', 'draw']);
+});
+
+// A 1v1 Gaúcho game dealt from scripted hands (ana's first): bia is the mão
+function startGaucho(anaCards: string[], biaCards: string[]) {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE, RuleVariant.GAUCHO);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  game.setDealSetup({ deck: { hands: [anaCards, biaCards] } });
+  game.startGame();
+  return game;
+}
+
+test('an accepted envido is declared from the mão and scored before the tricks', () => {
+  // ana has 33 envido points, bia has 29
+  const game = startGaucho(['hearts-7', 'hearts-6', 'spades-K'], ['clubs-5', 'clubs-4', 'diamonds-A']);
+
+  assert.equal(game.callEnvido('bia', EnvidoCall.ENVIDO).ok, true);
+  assert.equal(rejectedFor(game.playCard('bia', 'clubs-5')), RejectionReason.BET_PENDING);
+  assert.equal(game.callEnvido('ana', EnvidoCall.REAL_ENVIDO).ok, true);
+  assert.equal(game.acceptEnvido('bia').ok, true);
+
+  assert.equal(rejectedFor(game.declareEnvido('ana', false)), RejectionReason.NOT_YOUR_TURN);
+  assert.equal(rejectedFor(game.declareEnvido('bia', true)), RejectionReason.INVALID_REQUEST);
+  assert.equal(game.declareEnvido('bia', false).ok, true);
+  assert.equal(game.declareEnvido('ana', false).ok, true);
+
+  assert.deepEqual(game.gameState.envido?.declarations, [{ playerId: 'bia', points: 29 }, { playerId: 'ana', points: 33 }]);
+  assert.equal(game.gameState.envido?.winner, 'A');
+  assert.deepEqual([game.gameState.teamAScore, game.gameState.teamBScore], [5, 0]);
+  assert.equal(game.gameState.roundState, RoundState.PLAYING);
+  assert.equal(game.playCard('bia', 'clubs-5').ok, true);
+  game.dispose();
+});
+
+test('"son buenas" concedes the envido to the other team', () => {
+  const game = startGaucho(['hearts-7', 'spades-6', 'clubs-K'], ['clubs-5', 'clubs-4', 'diamonds-A']);
+
+  assert.equal(game.callEnvido('bia', EnvidoCall.ENVIDO).ok, true);
+  assert.equal(game.acceptEnvido('ana').ok, true);
+  assert.equal(game.declareEnvido('bia', false).ok, true);
+  assert.equal(game.declareEnvido('ana', true).ok, true);
+
+  assert.equal(game.gameState.envido?.winner, 'B');
+  assert.deepEqual([game.gameState.teamAScore, game.gameState.teamBScore], [0, 2]);
+  game.dispose();
+});
+
+test('a flor the other team can\'t match scores right away', () => {
+  const game = startGaucho(['hearts-7', 'spades-6', 'clubs-K'], ['clubs-5', 'clubs-4', 'clubs-A']);
+
+  assert.equal(rejectedFor(game.callEnvido('bia', EnvidoCall.CONTRAFLOR)), RejectionReason.INVALID_REQUEST);
+  assert.equal(game.callEnvido('bia', EnvidoCall.FLOR).ok, true);
+
+  assert.equal(game.gameState.envido?.resolved, true);
+  assert.deepEqual([game.gameState.teamAScore, game.gameState.teamBScore], [0, 3]);
+  game.dispose();
+});
+
+test('a team of two practices against bots, which play their seats', () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const game = new TrucoGame('game', GameMode.TWO_VS_TWO);
+    game.addPlayer('ana', 'ana');
+    game.addPlayer('caio', 'caio');
+    assert.equal(game.fillWithBots(BotDifficulty.EASY, true).ok, true);
+    assert.deepEqual(game.gameState.players.map(p => [p.team, Boolean(p.isBot)]), [['A', false], ['B', true], ['A', false], ['B', true]]);
+    assert.equal(game.startGame().ok, true);
+
+    // The humans play their first card and accept any truco from the bots
+    for (let step = 0; step < 30 && game.gameState.roundState === RoundState.PLAYING; step++) {
+      const { currentPlayer, players, trucoRequested, trucoRequestedBy } = game.gameState;
+      const requester = players.find(p => p.id === trucoRequestedBy);
+      if (trucoRequested && requester?.isBot) {
+        assert.equal(game.acceptTruco('ana').ok, true);
+      } else if (!trucoRequested && (currentPlayer === 'ana' || currentPlayer === 'caio')) {
+        const card = players.find(p => p.id === currentPlayer)?.hand[0];
+        assert.equal(game.playCard(currentPlayer, card?.id as string).ok, true);
+      } else {
+        mock.timers.tick(5000);
+      }
+    }
+
+    assert.equal(game.gameState.roundState, RoundState.ROUND_OVER);
+    game.dispose();
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('a bot plays for a player who lost the connection until they come back', () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const game = startOneVsOne();
+    const biaActions: string[] = [];
+    game.on('game_event', (event: GameEvent) => {
+      if ('playerId' in event && event.playerId === 'bia') biaActions.push(event.type);
+    });
+    game.markPlayerDisconnected('bia');
+    assert.equal(game.isBotControlled('bia'), true);
+
+    // The bot plays a card or asks for truco on bia's turn
+    mock.timers.tick(5000);
+    assert.equal(biaActions.length, 1);
+
+    assert.equal(game.reconnectPlayer('bia'), true);
+    assert.equal(game.isBotControlled('bia'), false);
+    game.dispose();
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+// A 1v1 game with turn timers, dealt from scripted hands (ana's first): bia plays first
+function startTimedGame(maxTimeouts: number) {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE, undefined, { cardPlaySeconds: 10, betResponseSeconds: 5, maxTimeouts });
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  game.setDealSetup({ deck: { vira: 'diamonds-7', hands: [['hearts-A', 'hearts-5', 'hearts-6'], ['spades-3', 'clubs-4', 'spades-K']] } });
+  game.startGame();
+  return game;
+}
+
+test('a player who runs out of time plays their weakest card', () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const game = startTimedGame(3);
+    assert.deepEqual(game.gameState.turnTimer?.playerIds, ['bia']);
+    assert.equal(game.gameState.turnTimer?.durationMs, 10000);
+
+    mock.timers.tick(9000);
+    assert.equal(game.gameState.currentTrick.length, 0);
+    mock.timers.tick(1000);
+    assert.deepEqual(game.gameState.currentTrick.map(play => play.card.id), ['clubs-4']);
+    assert.deepEqual(game.gameState.turnTimer?.playerIds, ['ana']);
+    game.dispose();
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('a truco left unanswered is refused when the time is up', () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const game = startTimedGame(3);
+    assert.equal(game.requestTruco('bia').ok, true);
+    assert.equal(game.gameState.turnTimer?.durationMs, 5000);
+
+    mock.timers.tick(5000);
+    assert.equal(game.gameState.roundState, RoundState.ROUND_OVER);
+    assert.deepEqual([game.gameState.teamAScore, game.gameState.teamBScore], [0, 1]);
+    game.dispose();
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('running out of time too many times in a row forfeits the game', () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const game = startTimedGame(2);
+    for (let step = 0; step < 6 && game.gameState.roundState === RoundState.PLAYING; step++) {
+      if (game.gameState.currentPlayer === 'ana') {
+        const card = game.gameState.players[0].hand[0];
+        assert.equal(game.playCard('ana', card.id).ok, true);
+      } else {
+        mock.timers.tick(10000);
+      }
+    }
+
+    assert.equal(game.gameState.roundState, RoundState.GAME_OVER);
+    assert.equal(game.gameState.forfeitTeam, 'B');
+    assert.equal(game.gameState.winner, 'A');
+    game.dispose();
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('games dealt from the same seed get the same cards every round', () => {
+  const deals = ['seed', 'seed', 'other'].map(seed => {
+    const game = new TrucoGame('game', GameMode.ONE_VS_ONE);
+    game.addPlayer('ana', 'ana');
+    game.addPlayer('bia', 'bia');
+    game.setDealSetup({ seed });
+    game.startGame();
+
+    // Each round ends with a truco that is refused
+    const rounds = [];
+    for (let round = 0; round < 2; round++) {
+      const { players, vira, currentPlayer } = game.gameState;
+      rounds.push([vira?.id, ...players.map(p => p.hand.map(card => card.id).join())]);
+      assert.equal(game.requestTruco(currentPlayer).ok, true);
+      assert.equal(game.declineTruco(currentPlayer === 'ana' ? 'bia' : 'ana').ok, true);
+      assert.equal(game.startNewRound('ana').ok, true);
+    }
+    game.dispose();
+    return rounds;
+  });
+
+  assert.deepEqual(deals[0], deals[1]);
+  assert.notDeepEqual(deals[0][0], deals[0][1]);
+  assert.notDeepEqual(deals[0], deals[2]);
+  assert.match(deals[0][0][0] as string, /^(clubs|hearts|spades|diamonds)-(A|[2-7]|Q|J|K)$/);
+});
+
+test('players pick their seats before the game, and keep them for the rematch', () => {
+  const game = new TrucoGame('game', GameMode.TWO_VS_TWO);
+  ['ana', 'bia', 'caio'].forEach(name => game.addPlayer(name, name));
+  const seating = () => game.gameState.players.map(p => [p.id, p.seat, p.team]);
+
+  // bia asks caio for the seat across from ana
+  assert.equal(game.chooseSeat('bia', 2).ok, true);
+  assert.deepEqual(game.gameState.seatSwap, { fromPlayerId: 'bia', toPlayerId: 'caio' });
+  assert.equal(rejectedFor(game.answerSeatSwap('ana', true)), RejectionReason.INVALID_REQUEST);
+  assert.equal(game.answerSeatSwap('caio', true).ok, true);
+  assert.deepEqual(seating(), [['ana', 0, 'A'], ['caio', 1, 'B'], ['bia', 2, 'A']]);
+
+  assert.equal(rejectedFor(game.setSeatsLocked('bia', true)), RejectionReason.NOT_HOST);
+  assert.equal(game.setSeatsLocked('ana', true).ok, true);
+  game.addPlayer('duda', 'duda');
+  assert.equal(rejectedFor(game.chooseSeat('duda', 1)), RejectionReason.SEATS_LOCKED);
+
+  game.startGame();
+  game.gameState = { ...game.gameState, roundState: RoundState.GAME_OVER };
+  game.setPlayerReady('caio');
+  assert.equal(game.gameState.roundState, RoundState.WAITING_FOR_PLAYERS);
+  assert.deepEqual(seating(), [['ana', 0, 'A'], ['caio', 1, 'B'], ['bia', 2, 'A'], ['duda', 3, 'B']]);
+  game.dispose();
+});
+
+// Win the 1v1 game in progress for a team, 3 points short of the target: its player raises the truco until the other runs
+function winGame(game: TrucoGame, team: 'A' | 'B') {
+  const { players, currentPlayer, targetScore } = game.gameState;
+  const winner = players.find(p => p.team === team)?.id as string;
+  const loser = players.find(p => p.team !== team)?.id as string;
+  game.gameState = { ...game.gameState, [team === 'A' ? 'teamAScore' : 'teamBScore']: targetScore - 3 };
+
+  const calls = currentPlayer === winner ? [winner, loser, winner] : [loser, winner];
+  calls.forEach(playerId => assert.equal(game.requestTruco(playerId).ok, true));
+  assert.equal(game.declineTruco(calls[calls.length - 1] === winner ? loser : winner).ok, true);
+  assert.equal(game.gameState.winner, team);
+}
+
+test('games are played to the room\'s target score', () => {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  assert.equal(rejectedFor(game.updateSettings('ana', { targetScore: 13 })), RejectionReason.INVALID_REQUEST);
+  assert.equal(game.updateSettings('ana', { targetScore: 15 }).ok, true);
+  game.startGame();
+
+  // 12 points don't win
+  game.gameState = { ...game.gameState, teamAScore: 9 };
+  assert.equal(game.requestTruco('bia').ok, true);
+  assert.equal(game.requestTruco('ana').ok, true);
+  assert.equal(game.declineTruco('bia').ok, true);
+  assert.equal(game.gameState.teamAScore, 12);
+  assert.equal(game.gameState.roundState, RoundState.ROUND_OVER);
+
+  assert.equal(game.startNewRound('ana').ok, true);
+  winGame(game, 'A');
+  assert.equal(game.gameState.roundState, RoundState.GAME_OVER);
+  game.dispose();
+});
+
+test('a best of 3 series goes on until a team wins two games', () => {
+  const game = new TrucoGame('game', GameMode.ONE_VS_ONE);
+  game.addPlayer('ana', 'ana');
+  game.addPlayer('bia', 'bia');
+  assert.equal(game.updateSettings('ana', { bestOf: 3 }).ok, true);
+  game.startGame();
+  const results: SeriesResult[] = [];
+  game.on('series_completed', (result: SeriesResult) => results.push(result));
+
+  // Readying up after a game plays the next one of the series
+  for (const team of ['A', 'B', 'A'] as const) {
+    winGame(game, team);
+    game.setPlayerReady('ana');
+    game.setPlayerReady('bia');
+  }
+
+  assert.deepEqual(results.map(result => [result.winner, result.games.map(g => g.winner)]), [['A', ['A', 'B', 'A']]]);
+  assert.deepEqual(game.gameState.series, { bestOf: 3, gameNumber: 1, games: [], winner: null });
+  game.dispose();
+});
@@ -5,30 +5,217 @@ import {
   RoundState, 
   Card, 
   PlayedCard, 
-  ChatMessage 
+  ChatMessage,
+  RuleVariant,
+  EnvidoCall,
+  ActionResult,
+  RoomSettings,
+  BotDifficulty,
+  RejectionReason,
+  TimerSettings,
+  TurnTimer,
+  TrickOutcome,
+  GameEvent,
+  GameEventData,
+  DealSetup,
+  DealNonce,
+  DealReveal,
+  TournamentRoom,
+  SeriesGame
 } from '@shared/types';
+import { getInitialRoundValue, compareCards, determineTrickOutcome, DEFAULT_TIMER_SETTINGS } from '@shared/gameRules';
 import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
 import { 
   initializeGameState, 
   assignTeams, 
-  dealCardsToPlayers, 
+  getSeatCount, 
+  getSeatTeam, 
+  changeSeat, 
+  dealDeck, 
   processPlayedCard, 
   startNewRound,
   processTrucoRequest,
   acceptTrucoRequest,
-  declineTrucoRequest
+  declineTrucoRequest,
+  playHandOfEleven,
+  foldHandOfEleven,
+  forfeitGame,
+  getTrucoRespondingTeam,
+  createSeries,
+  recordSeriesGame,
+  startNextSeriesGame
 } from '@/utils/gameUtils';
+import { 
+  callEnvido, 
+  acceptEnvido, 
+  declineEnvido, 
+  declareEnvido, 
+  getEnvidoRespondingTeam 
+} from '@/utils/envidoUtils';
+import {
+  validatePlayCard,
+  validateTrucoRequest,
+  validateTrucoAnswer,
+  validateHandOfElevenDecision,
+  validateEnvidoCall,
+  validateEnvidoAnswer,
+  validateEnvidoDeclaration,
+  validateStartGame,
+  validateNewRound,
+  validateDealNonce,
+  validateSeatChange,
+  validateSeatSwapAnswer,
+  validateSeatLock,
+  validateHostAction,
+  validateKick,
+  validateHostTransfer,
+  validateSettingsChange,
+  rejected
+} from '@/utils/moveValidation';
+import { chooseBotAction, BotAction } from './botPlayer';
+import { createPlayerView } from './gameView';
+import { analyzePlay, summarizePlays, PlayAnalysis, PlayerAnalysis } from '@shared/handAnalysis';
+import { createSeed } from '@shared/random';
+import { createShuffledDeck, stackDeck } from '@/utils/cardUtils';
+import { getDealCommitmentPayload, mixDealSeed } from '@shared/fairness';
+import { getRuleSet } from '@shared/ruleSets';
+import { log } from './logger';
+
+// Delay before a bot acts, so humans can follow the game
+const BOT_ACTION_DELAY_MS = 1200;
+
+// Simulated deals used to evaluate each card played, for the post-game analysis
+const ANALYSIS_SAMPLES = 200;
+
+// Upper bounds of the room timer settings
+const MAX_TIMER_SECONDS = 300;
+const MAX_TIMEOUTS = 10;
+
+// Keep timer settings sent by a client within sane bounds
+function sanitizeTimerSettings(settings: Partial<TimerSettings>): TimerSettings {
+  const clamp = (value: unknown, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(0, Math.round(value))) : fallback;
+  
+  return {
+    cardPlaySeconds: clamp(settings.cardPlaySeconds, MAX_TIMER_SECONDS, DEFAULT_TIMER_SETTINGS.cardPlaySeconds),
+    betResponseSeconds: clamp(settings.betResponseSeconds, MAX_TIMER_SECONDS, DEFAULT_TIMER_SETTINGS.betResponseSeconds),
+    maxTimeouts: clamp(settings.maxTimeouts, MAX_TIMEOUTS, DEFAULT_TIMER_SETTINGS.maxTimeouts)
+  };
+}
+
+// Names given to bot players
+const BOT_NAMES = ['Zé', 'Tião', 'Dona Cida', 'Seu Lima', 'Chico', 'Dito'];
+
+// Everything needed to rebuild a game after a server restart
+export interface GameSnapshot {
+  state: GameState;
+  chatMessages: ChatMessage[];
+  playerNames: [string, string][];
+  disconnectedPlayers: [string, string][];
+  seatNonces?: [string, string][]; // Missing in games saved before seat tokens
+  kickedPlayers?: string[];
+  bots: [string, BotDifficulty][];
+  playAnalysis: PlayAnalysis[]; // Plays still waiting for their evaluation are not saved
+  eventCount?: number; // Events logged so far (missing in games saved before the event log)
+  dealSetup?: DealSetup | null;
+  roundSeed?: string | null;
+  roundDeck?: string[];
+  nextServerSeed?: string | null; // Missing in games saved before the players sent nonces
+  dealNonces?: [string, string][];
+  roundServerSeed?: string | null;
+  roundNonces?: DealNonce[];
+}
+
+// Emitted as 'trick_completed' when the last card of a trick is played
+export interface TrickResult {
+  roundNumber: number;
+  trickNumber: number;
+  cards: PlayedCard[];
+  outcome: TrickOutcome;
+  winnerId: string | null;
+}
+
+// Emitted as 'round_completed' when a round is scored (including folds and forfeits)
+export interface RoundResult {
+  roundNumber: number;
+  winner: 'A' | 'B' | null;
+  points: number;
+  teamAScore: number;
+  teamBScore: number;
+  vira: Card | null;
+  seed: string | null; // Seed the round's deck was shuffled with
+}
+
+// Emitted as 'game_completed' when a game ends (its events are logged before it)
+export interface GameResult {
+  mode: GameMode;
+  ruleVariant: RuleVariant;
+  targetScore: number;
+  ranked: boolean;
+  winner: 'A' | 'B';
+  teamAScore: number;
+  teamBScore: number;
+  forfeitTeam: 'A' | 'B' | null;
+}
+
+// Emitted as 'series_completed' when a team wins the series (a single game is a series of one)
+export interface SeriesResult {
+  mode: GameMode;
+  ruleVariant: RuleVariant;
+  targetScore: number;
+  bestOf: number;
+  winner: 'A' | 'B';
+  games: SeriesGame[];
+  players: { id: string; username: string; team: 'A' | 'B'; isBot: boolean }[];
+}
+
+// A card play waiting for its evaluation, with the game as the player saw it
+interface PendingPlay {
+  view: GameState;
+  playerId: string;
+  cardId: string;
+}
 
 export class TrucoGame extends EventEmitter {
   public gameState: GameState;
   private chatMessages: ChatMessage[] = [];
   private playerNames: Map<string, string> = new Map();
   private disconnectedPlayers: Map<string, string> = new Map(); // Map of disconnected player IDs to usernames
+  private seatNonces: Map<string, string> = new Map(); // Current nonce of each human's seat, signed into their seat token
+  private kickedPlayers: Set<string> = new Set(); // Removed by the host, they can't take a seat again
+  private bots: Map<string, BotDifficulty> = new Map(); // Seats played by the server, including disconnected humans
+  private botTimer: NodeJS.Timeout | null = null;
+  private playAnalysis: PlayAnalysis[] = []; // Evaluation of every card played this game
+  private pendingPlays: PendingPlay[] = []; // Card plays still to be evaluated, in order
+  private analysisTimer: NodeJS.Immediate | null = null;
+  
+  private turnTimeout: NodeJS.Timeout | null = null;
+  private turnTimerKey: string | null = null; // Identifies the decision the running timer is for
+  private timeoutCounts: Map<string, number> = new Map(); // Timeouts in a row for each player
+  
+  private lastEmittedState: GameState | null = null; // Used to notice deals and rounds being scored
+  private eventCount = 0; // Sequence number of the next logged event
+  
+  private dealSetup: DealSetup | null = null; // Fixed seed or scripted deck of a test game
+  private roundSeed: string | null = null; // Seed of the current round's deck
+  private roundDeck: string[] = []; // Card ids of the current round's deck, in deal order
+  private nextServerSeed: string | null = null; // Server seed of the next deal, published as its hash
+  private dealNonces: Map<string, string> = new Map(); // Nonces the players sent for the next deal
+  private roundServerSeed: string | null = null; // Server seed and nonces mixed into the current round's seed
+  private roundNonces: DealNonce[] = [];
   
-  constructor(id: string, mode: GameMode) {
+  constructor(
+    id: string, 
+    mode: GameMode, 
+    ruleVariant: RuleVariant = RuleVariant.PAULISTA,
+    timerSettings: TimerSettings = DEFAULT_TIMER_SETTINGS
+  ) {
     super();
-    this.gameState = initializeGameState(id, mode, []);
+    this.gameState = this.commitNextSeed(
+      initializeGameState(id, mode, [], ruleVariant, sanitizeTimerSettings(timerSettings))
+    );
   }
   
   // Player management
@@ -44,8 +231,18 @@ export class TrucoGame extends EventEmitter {
       return this.gameState.players.find(p => p.id === playerId) || null;
     }
     
-    // Store player name
+    // The seats of a tournament match are kept for its players, on their entry's team
+    const { tournament } = this.gameState;
+    if (!this.canTakeSeat(playerId)) return null;
+    const takenSeats = new Set(this.gameState.players.map(p => p.seat));
+    const seat = tournament
+      ? Array.from({ length: maxPlayers }, (_, i) => i)
+        .find(i => getSeatTeam(i) === tournament.teams[playerId] && !takenSeats.has(i))
+      : undefined;
+    
+    // Store player name and start a new stay at the table
     this.playerNames.set(playerId, username);
+    this.seatNonces.set(playerId, uuidv4());
     
     // Create new player
     const newPlayer: Player = {
@@ -53,19 +250,23 @@ export class TrucoGame extends EventEmitter {
       username,
       hand: [],
       isDealer: this.gameState.players.length === 0, // First player is dealer
-      team: 'A', // Will be properly assigned later
+      team: 'A', // Set from the free seat the player gets
       isReady: false,
-      isYourTurn: false
+      isYourTurn: false,
+      seat
     };
     
-    // Add player and reassign teams
+    // Sit the player in a free seat
     const updatedPlayers = [...this.gameState.players, newPlayer];
     const playersWithTeams = assignTeams(updatedPlayers, this.gameState.mode);
     
-    // Update game state
+    // Update game state (a spectator taking a seat stops watching, the first player hosts the room
+    // unless it is a tournament match)
     this.gameState = {
       ...this.gameState,
-      players: playersWithTeams
+      players: playersWithTeams,
+      spectators: this.gameState.spectators.filter(s => s.id !== playerId),
+      hostId: tournament ? null : this.gameState.hostId ?? playerId
     };
     
     // If this is the first player, make them the dealer
@@ -79,19 +280,53 @@ export class TrucoGame extends EventEmitter {
     return newPlayer;
   }
   
+  // Spectators watch the game without a seat; they only get the view with every hand hidden
+  public addSpectator(playerId: string, username: string): ActionResult {
+    if (this.gameState.players.some(p => p.id === playerId)) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'Players can not watch their own game');
+    }
+    
+    if (!this.isSpectator(playerId)) {
+      this.gameState = {
+        ...this.gameState,
+        spectators: [...this.gameState.spectators, { id: playerId, username }]
+      };
+      this.emitGameUpdate();
+    }
+    return { ok: true };
+  }
+  
+  public removeSpectator(playerId: string): void {
+    if (!this.isSpectator(playerId)) return;
+    
+    this.gameState = {
+      ...this.gameState,
+      spectators: this.gameState.spectators.filter(s => s.id !== playerId)
+    };
+    this.emitGameUpdate();
+  }
+  
+  public isSpectator(playerId: string): boolean {
+    return this.gameState.spectators.some(s => s.id === playerId);
+  }
+  
   public removePlayer(playerId: string): void {
     // Remove player
     const playerIndex = this.gameState.players.findIndex(p => p.id === playerId);
     if (playerIndex === -1) return;
     
+    // The series is between the players who started it
+    this.gameState = { ...this.gameState, series: createSeries(this.gameState.series.bestOf) };
+    
     // Reset game if in progress
     if (this.gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
       this.resetGame();
       return;
     }
     
-    // Update players
+    // Update players (tokens issued for the seat are no longer valid)
     const updatedPlayers = this.gameState.players.filter(p => p.id !== playerId);
+    this.seatNonces.delete(playerId);
     
     // Reset dealer if necessary
     let dealer = this.gameState.dealer;
@@ -99,14 +334,14 @@ export class TrucoGame extends EventEmitter {
       dealer = updatedPlayers[0].id;
     }
     
-    // Reassign teams
-    const playersWithTeams = assignTeams(updatedPlayers, this.gameState.mode);
-    
-    // Update game state
+    // Everyone else keeps their seat; the next human hosts the room if the host left
+    const { hostId, seatSwap } = this.gameState;
     this.gameState = {
       ...this.gameState,
-      players: playersWithTeams,
-      dealer
+      players: assignTeams(updatedPlayers, this.gameState.mode),
+      dealer,
+      hostId: hostId === playerId ? updatedPlayers.find(p => !p.isBot)?.id ?? null : hostId,
+      seatSwap: seatSwap?.fromPlayerId === playerId || seatSwap?.toPlayerId === playerId ? null : seatSwap
     };
     
     this.emitGameUpdate();
@@ -114,8 +349,13 @@ export class TrucoGame extends EventEmitter {
   
   public setPlayerReady(playerId: string): void {
     // Find player
+    if (!this.gameState.players.some(p => p.id === playerId)) return;
+    
+    // Asking for a rematch brings everyone back to the table, in the same seats
+    if (this.gameState.roundState === RoundState.GAME_OVER) {
+      this.resetGame();
+    }
     const playerIndex = this.gameState.players.findIndex(p => p.id === playerId);
-    if (playerIndex === -1) return;
     
     // Update player ready status
     const updatedPlayers = [...this.gameState.players];
@@ -131,86 +371,835 @@ export class TrucoGame extends EventEmitter {
     };
     
     this.emitGameUpdate();
-    
-    // Check if all players are ready and we have enough players
-    const allReady = updatedPlayers.every(p => p.isReady);
+    this.startIfReady();
+  }
+  
+  // Start the game once every seat is taken and everyone is ready
+  private startIfReady(): void {
+    const allReady = this.gameState.players.every(p => p.isReady);
     const minPlayers = this.gameState.mode === GameMode.ONE_VS_ONE ? 2 : 4;
     
-    if (allReady && updatedPlayers.length === minPlayers) {
+    if (allReady && this.gameState.players.length === minPlayers) {
       this.startGame();
     }
   }
   
-  // Game control methods
-  public startGame(): void {
-    // Ensure we have enough players
-    const minPlayers = this.gameState.mode === GameMode.ONE_VS_ONE ? 2 : 4;
-    if (this.gameState.players.length < minPlayers) {
-      return;
+  // Seats. An empty seat, or a bot's, is taken right away; a player's is traded only if they agree.
+  public chooseSeat(playerId: string, seat: number): ActionResult {
+    const result = validateSeatChange(this.gameState, playerId, seat);
+    if (!result.ok) return result;
+    
+    const occupant = this.gameState.players.find(p => p.seat === seat);
+    if (occupant && !occupant.isBot) {
+      this.gameState = { ...this.gameState, seatSwap: { fromPlayerId: playerId, toPlayerId: occupant.id } };
+    } else {
+      this.gameState = { ...changeSeat(this.gameState, playerId, seat), seatSwap: null };
     }
     
-    // Deal cards and start the game
-    this.gameState = dealCardsToPlayers(this.gameState);
     this.emitGameUpdate();
+    return result;
   }
   
-  public playCard(playerId: string, cardId: string): void {
-    // Ensure it's the player's turn
-    if (this.gameState.currentPlayer !== playerId) {
-      return;
+  public answerSeatSwap(playerId: string, accept: boolean): ActionResult {
+    const result = validateSeatSwapAnswer(this.gameState, playerId);
+    if (!result.ok) return result;
+    
+    // The trade is dropped if the seats were locked while it waited
+    const { fromPlayerId } = this.gameState.seatSwap!;
+    const seat = this.gameState.players.find(p => p.id === playerId)?.seat;
+    const state = accept && !this.gameState.seatsLocked && seat !== undefined
+      ? changeSeat(this.gameState, fromPlayerId, seat)
+      : this.gameState;
+    this.gameState = { ...state, seatSwap: null };
+    
+    this.emitGameUpdate();
+    return result;
+  }
+  
+  public setSeatsLocked(playerId: string, locked: boolean): ActionResult {
+    const result = validateSeatLock(this.gameState, playerId);
+    if (!result.ok) return result;
+    
+    this.gameState = {
+      ...this.gameState,
+      seatsLocked: locked,
+      seatSwap: locked ? null : this.gameState.seatSwap
+    };
+    
+    this.emitGameUpdate();
+    return result;
+  }
+  
+  // Room host
+  public kickPlayer(playerId: string, targetId: string): ActionResult {
+    const result = validateKick(this.gameState, playerId, targetId);
+    if (!result.ok) return result;
+    
+    if (this.bots.has(targetId) && !this.disconnectedPlayers.has(targetId)) {
+      return this.removeBot(targetId);
     }
     
-    // Process the card play
-    this.gameState = processPlayedCard(this.gameState, playerId, cardId);
+    this.kickedPlayers.add(targetId);
+    this.removePlayer(targetId);
+    log(`Player ${targetId} was removed from game ${this.gameState.id} by the host`, 'game');
+    return result;
+  }
+  
+  public isKicked(playerId: string): boolean {
+    return this.kickedPlayers.has(playerId);
+  }
+  
+  public transferHost(playerId: string, targetId: string): ActionResult {
+    const result = validateHostTransfer(this.gameState, playerId, targetId);
+    if (!result.ok) return result;
+    
+    this.gameState = { ...this.gameState, hostId: targetId };
     this.emitGameUpdate();
+    return result;
   }
   
-  public requestTruco(playerId: string): void {
-    this.gameState = processTrucoRequest(this.gameState, playerId);
+  public updateSettings(playerId: string, settings: Partial<RoomSettings>): ActionResult {
+    const result = validateSettingsChange(this.gameState, playerId, settings);
+    if (!result.ok) return result;
+    if (settings.ranked && this.dealSetup) {
+      return rejected(RejectionReason.RANKED_HUMANS_ONLY, 'Games dealt from a test seed or deck can not be ranked');
+    }
+    
+    const state = this.gameState;
+    const mode = settings.mode ?? state.mode;
+    const ruleVariant = settings.ruleVariant ?? state.ruleVariant;
+    
+    // Other rules come with their own target score, unless one is chosen too
+    const targetScore = settings.targetScore ?? 
+      (ruleVariant !== state.ruleVariant ? getRuleSet(ruleVariant).targetScore : state.targetScore);
+    const bestOf = settings.bestOf ?? state.series.bestOf;
+    const ranked = settings.ranked ?? state.ranked;
+    
+    // A scripted test deck only fits the rules and number of players it was written for
+    if (this.dealSetup?.deck && (mode !== state.mode || ruleVariant !== state.ruleVariant)) {
+      this.dealSetup = { seed: this.dealSetup.seed };
+    }
+    
+    // Everyone confirms they are ready again with the new settings
+    this.gameState = {
+      ...state,
+      mode,
+      ruleVariant,
+      targetScore,
+      roundValue: getInitialRoundValue(ruleVariant),
+      timerSettings: settings.timerSettings ? sanitizeTimerSettings(settings.timerSettings) : state.timerSettings,
+      players: assignTeams(state.players, mode).map(p => ({ ...p, isReady: Boolean(p.isBot) })),
+      seatSwap: null,
+      series: createSeries(bestOf), // Games played with other settings don't count
+      ranked
+    };
+    
     this.emitGameUpdate();
+    return result;
+  }
+  
+  // Start right away, with bots in the empty seats
+  public forceStart(playerId: string, difficulty: BotDifficulty): ActionResult {
+    const result = validateHostAction(this.gameState, playerId, 'start the game');
+    if (!result.ok) return result;
+    
+    if (!this.isGameFull()) {
+      const filled = this.fillWithBots(difficulty);
+      if (!filled.ok) return filled;
+    }
+    
+    // The last bot starts the game when everyone else was ready
+    if (this.gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) return result;
+    return this.startGame();
   }
   
-  public acceptTruco(): void {
-    this.gameState = acceptTrucoRequest(this.gameState);
+  // Bot players
+  public addBot(difficulty: BotDifficulty, team?: 'A' | 'B'): ActionResult {
+    if (this.gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+      return rejected(RejectionReason.INVALID_PHASE, 'Bots can only join before the game starts');
+    }
+    
+    if (this.gameState.ranked) {
+      return rejected(RejectionReason.RANKED_HUMANS_ONLY, 'Ranked games are only between players');
+    }
+    
+    if (this.gameState.tournament) {
+      return rejected(RejectionReason.TOURNAMENT_ROOM, 'Tournament matches are only between their players');
+    }
+    
+    if (this.isGameFull()) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The game is full');
+    }
+    
+    const teamA = this.gameState.players.filter(p => p.team === 'A');
+    const teamB = this.gameState.players.filter(p => p.team === 'B');
+    const botTeam = team ?? (teamA.length <= teamB.length ? 'A' : 'B');
+    
+    // The bot takes the first free seat of its team
+    const takenSeats = new Set(this.gameState.players.map(p => p.seat));
+    const seat = Array.from({ length: getSeatCount(this.gameState.mode) }, (_, i) => i)
+      .find(i => getSeatTeam(i) === botTeam && !takenSeats.has(i));
+    if (seat === undefined) {
+      return rejected(RejectionReason.WRONG_TEAM, `Team ${botTeam} is full`);
+    }
+    
+    const usedNames = new Set(this.gameState.players.map(p => p.username));
+    const name = BOT_NAMES.find(n => !usedNames.has(`${n} (bot)`)) ?? `Bot ${this.bots.size + 1}`;
+    
+    const bot: Player = {
+      id: `bot-${uuidv4()}`,
+      username: `${name} (bot)`,
+      hand: [],
+      isDealer: false,
+      team: botTeam,
+      isReady: true,
+      isYourTurn: false,
+      isBot: true,
+      seat
+    };
+    
+    this.bots.set(bot.id, difficulty);
+    this.playerNames.set(bot.id, bot.username);
+    this.seatPlayers([...this.gameState.players, bot]);
+    
+    log(`${bot.username} (${difficulty}) joined game ${this.gameState.id} on team ${botTeam}`, 'game');
     this.emitGameUpdate();
+    this.startIfReady();
+    return { ok: true };
+  }
+  
+  public removeBot(botId: string): ActionResult {
+    const bot = this.gameState.players.find(p => p.id === botId);
+    if (!bot?.isBot) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'That player is not a bot');
+    }
+    
+    if (this.gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+      return rejected(RejectionReason.INVALID_PHASE, 'Bots can only be removed before the game starts');
+    }
+    
+    this.bots.delete(botId);
+    this.playerNames.delete(botId);
+    this.removePlayer(botId);
+    return { ok: true };
+  }
+  
+  // Fill every empty seat with bots. For practice, the humans are put on the same team first.
+  public fillWithBots(difficulty: BotDifficulty, practice = false): ActionResult {
+    if (this.gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+      return rejected(RejectionReason.INVALID_PHASE, 'Bots can only join before the game starts');
+    }
+    
+    if (this.gameState.ranked) {
+      return rejected(RejectionReason.RANKED_HUMANS_ONLY, 'Ranked games are only between players');
+    }
+    
+    if (this.gameState.tournament) {
+      return rejected(RejectionReason.TOURNAMENT_ROOM, 'Tournament matches are only between their players');
+    }
+    
+    if (this.isGameFull()) {
+      return rejected(RejectionReason.INVALID_REQUEST, 'The game is full');
+    }
+    
+    if (practice && this.gameState.mode === GameMode.TWO_VS_TWO) {
+      const humans = this.gameState.players.filter(p => !p.isBot);
+      if (humans.length > 2) {
+        return rejected(RejectionReason.INVALID_REQUEST, 'Practice is for a team of at most two players');
+      }
+      if (this.gameState.seatsLocked) {
+        return rejected(RejectionReason.SEATS_LOCKED, 'The host locked the seats');
+      }
+      
+      // Remove existing bots and sit the humans together on team A
+      this.gameState.players.filter(p => p.isBot).forEach(p => {
+        this.bots.delete(p.id);
+        this.playerNames.delete(p.id);
+      });
+      this.seatPlayers(humans.map((p, i) => ({ ...p, seat: i * 2 })));
+      
+      if (humans.length === 1) this.addBot(difficulty, 'A');
+      this.addBot(difficulty, 'B');
+      return this.addBot(difficulty, 'B');
+    }
+    
+    while (!this.isGameFull()) {
+      const result = this.addBot(difficulty);
+      if (!result.ok) return result;
+    }
+    
+    return { ok: true };
+  }
+  
+  // Put the players in seat order, with the teams of their seats, and keep a dealer among them
+  private seatPlayers(players: Player[]): void {
+    const playersWithTeams = assignTeams(players, this.gameState.mode);
+    const dealer = playersWithTeams.some(p => p.id === this.gameState.dealer)
+      ? this.gameState.dealer
+      : playersWithTeams[0]?.id || '';
+    
+    this.gameState = {
+      ...this.gameState,
+      players: playersWithTeams.map(p => ({ ...p, isDealer: p.id === dealer })),
+      dealer
+    };
+  }
+  
+  public isBotControlled(playerId: string): boolean {
+    return this.bots.has(playerId);
+  }
+  
+  // Ranked games and tournament matches, whose results only count when humans play every seat
+  private isCompetitive(): boolean {
+    return this.gameState.ranked || Boolean(this.gameState.tournament);
+  }
+  
+  // Let the first bot with something to do act after a short delay
+  private scheduleBotAction(): void {
+    if (this.botTimer || this.bots.size === 0) return;
+    
+    this.botTimer = setTimeout(() => {
+      this.botTimer = null;
+      this.runBotAction();
+    }, BOT_ACTION_DELAY_MS);
+  }
+  
+  private runBotAction(): void {
+    const botIds = new Set(this.bots.keys());
+    
+    for (const [botId, difficulty] of this.bots.entries()) {
+      const action = chooseBotAction(this.gameState, botId, difficulty, botIds);
+      if (!action) continue;
+      
+      const result = this.applyBotAction(botId, action);
+      if (!result.ok) {
+        log(`Bot ${botId} action ${action.type} rejected: ${result.reason}`, 'error');
+        
+        // Fall back to what a player who ran out of time would do, so the game doesn't stall
+        const fallback = this.applyTimeoutAction(botId);
+        if (!fallback.ok) {
+          log(`Fallback action for bot ${botId} rejected: ${fallback.reason}`, 'error');
+        }
+      }
+      return;
+    }
+  }
+  
+  private applyBotAction(botId: string, action: BotAction): ActionResult {
+    switch (action.type) {
+      case 'play_card':
+        return this.playCard(botId, action.cardId);
+      case 'play_blind_card':
+        return this.playBlindCard(botId, action.cardIndex);
+      case 'request_truco':
+        return this.requestTruco(botId);
+      case 'accept_truco':
+        return this.acceptTruco(botId);
+      case 'decline_truco':
+        return this.declineTruco(botId);
+      case 'play_hand_of_eleven':
+        return this.playHandOfEleven(botId);
+      case 'fold_hand_of_eleven':
+        return this.foldHandOfEleven(botId);
+      case 'call_envido':
+        return this.callEnvido(botId, action.call);
+      case 'accept_envido':
+        return this.acceptEnvido(botId);
+      case 'decline_envido':
+        return this.declineEnvido(botId);
+      case 'declare_envido':
+        return this.declareEnvido(botId, action.sonBuenas);
+    }
+  }
+  
+  // Stop pending bot actions when the game is removed
+  public dispose(): void {
+    if (this.botTimer) {
+      clearTimeout(this.botTimer);
+      this.botTimer = null;
+    }
+    if (this.analysisTimer) {
+      clearImmediate(this.analysisTimer);
+      this.analysisTimer = null;
+    }
+    this.pendingPlays = [];
+    this.clearTurnTimer();
+    this.removeAllListeners();
+  }
+  
+  // Turn timers
+  // Humans (bots don't need timers) who have to act now, and what they have to do
+  private getPendingDecision(): { kind: 'card' | 'bet'; playerIds: string[] } | null {
+    const state = this.gameState;
+    const humansOf = (team: 'A' | 'B' | null) => state.players
+      .filter(p => p.team === team && !this.bots.has(p.id))
+      .map(p => p.id);
+    const humanIds = (ids: string[]) => ids.filter(id => !this.bots.has(id));
+    
+    if (state.roundState === RoundState.HAND_OF_ELEVEN) {
+      return { kind: 'bet', playerIds: humansOf(state.handOfElevenTeam) };
+    }
+    
+    if (state.roundState !== RoundState.PLAYING) return null;
+    
+    if (state.envido?.pending) {
+      return { kind: 'bet', playerIds: humansOf(getEnvidoRespondingTeam(state)) };
+    }
+    
+    if (state.envido && !state.envido.resolved && state.envido.declaringPlayer) {
+      return { kind: 'bet', playerIds: humanIds([state.envido.declaringPlayer]) };
+    }
+    
+    if (state.trucoRequested) {
+      return { kind: 'bet', playerIds: humansOf(getTrucoRespondingTeam(state)) };
+    }
+    
+    return { kind: 'card', playerIds: humanIds([state.currentPlayer]) };
+  }
+  
+  // Start, keep or stop the turn timer to match the decision the game is waiting for
+  private updateTurnTimer(): void {
+    const decision = this.getPendingDecision();
+    const { timerSettings } = this.gameState;
+    let seconds = decision?.kind === 'card' 
+      ? timerSettings.cardPlaySeconds 
+      : timerSettings.betResponseSeconds;
+    
+    // No bot plays for the players who left a ranked or tournament game, so the game
+    // times them out even in rooms without timers
+    const waitsOnDisconnected = decision?.playerIds.some(id => 
+      this.gameState.players.find(p => p.id === id)?.isDisconnected
+    );
+    if (seconds <= 0 && waitsOnDisconnected && this.isCompetitive()) {
+      seconds = decision?.kind === 'card' 
+        ? DEFAULT_TIMER_SETTINGS.cardPlaySeconds 
+        : DEFAULT_TIMER_SETTINGS.betResponseSeconds;
+    }
+    
+    if (!decision || decision.playerIds.length === 0 || seconds <= 0) {
+      this.clearTurnTimer();
+      return;
+    }
+    
+    const state = this.gameState;
+    const key = [
+      decision.kind,
+      decision.playerIds.join(','),
+      state.roundState,
+      state.teamAScore,
+      state.teamBScore,
+      state.tricks.length,
+      state.currentTrick.length,
+      state.trucoRequestedValue,
+      state.envido?.calls.length,
+      state.envido?.declarations.length
+    ].join('|');
+    
+    if (key === this.turnTimerKey) return;
+    
+    // The players of the previous timer acted in time
+    this.clearTurnTimer();
+    
+    const durationMs = seconds * 1000;
+    const turnTimer: TurnTimer = {
+      kind: decision.kind,
+      playerIds: decision.playerIds,
+      durationMs,
+      expiresAt: Date.now() + durationMs,
+      remainingMs: durationMs
+    };
+    
+    this.gameState = { ...this.gameState, turnTimer };
+    this.turnTimerKey = key;
+    this.turnTimeout = setTimeout(() => this.handleTurnTimeout(), durationMs);
+  }
+  
+  private clearTurnTimer(): void {
+    if (this.turnTimeout) {
+      clearTimeout(this.turnTimeout);
+      this.turnTimeout = null;
+    }
+    
+    // Acting before the timer ran out breaks a streak of timeouts
+    if (this.turnTimerKey && this.gameState.turnTimer) {
+      this.gameState.turnTimer.playerIds.forEach(id => this.timeoutCounts.delete(id));
+    }
+    
+    this.turnTimerKey = null;
+    if (this.gameState.turnTimer) {
+      this.gameState = { ...this.gameState, turnTimer: null };
+    }
   }
   
-  public declineTruco(): void {
-    this.gameState = declineTrucoRequest(this.gameState);
+  // Act for the players who ran out of time: play the weakest card or refuse the bet.
+  // Too many timeouts in a row forfeit the game.
+  private handleTurnTimeout(): void {
+    const timer = this.gameState.turnTimer;
+    this.turnTimeout = null;
+    this.turnTimerKey = null;
+    if (!timer) return;
+    
+    const { maxTimeouts } = this.gameState.timerSettings;
+    for (const playerId of timer.playerIds) {
+      const count = (this.timeoutCounts.get(playerId) ?? 0) + 1;
+      this.timeoutCounts.set(playerId, count);
+      
+      const player = this.gameState.players.find(p => p.id === playerId);
+      if (player && maxTimeouts > 0 && count >= maxTimeouts) {
+        log(`Player ${playerId} timed out ${count} times, team ${player.team} forfeits game ${this.gameState.id}`, 'game');
+        this.gameState = forfeitGame(this.gameState, player.team);
+        this.recordEvent({ type: 'forfeit', team: player.team });
+        this.timeoutCounts.clear();
+        this.emitGameUpdate();
+        return;
+      }
+    }
+    
+    const playerId = timer.playerIds[0];
+    log(`Player ${playerId} timed out in game ${this.gameState.id}`, 'game');
+    const result = this.applyTimeoutAction(playerId);
+    
+    // Restart the timer if the automatic action couldn't be made
+    if (!result.ok) {
+      log(`Automatic action for ${playerId} rejected: ${result.reason}`, 'error');
+      this.emitGameUpdate();
+    }
+  }
+  
+  private applyTimeoutAction(playerId: string): ActionResult {
+    const state = this.gameState;
+    
+    if (state.roundState === RoundState.HAND_OF_ELEVEN) return this.foldHandOfEleven(playerId);
+    if (state.envido?.pending) return this.declineEnvido(playerId);
+    if (state.envido && !state.envido.resolved) return this.declareEnvido(playerId, false);
+    if (state.trucoRequested) return this.declineTruco(playerId);
+    
+    if (state.isIronHand) return this.playBlindCard(playerId, 0);
+    
+    const player = state.players.find(p => p.id === playerId);
+    const weakest = player?.hand.reduce<Card | null>((min, card) =>
+      !min || compareCards(card, min, state.vira, state.ruleVariant) < 0 ? card : min, null);
+    
+    return weakest
+      ? this.playCard(playerId, weakest.id)
+      : rejected(RejectionReason.CARD_NOT_IN_HAND, 'No card to play');
+  }
+  
+  // Game control methods
+  // Actions return an ActionResult so the caller can report why an action was rejected
+  // Started by the host, or by the game itself once everyone is ready
+  public startGame(playerId?: string): ActionResult {
+    if (playerId !== undefined) {
+      const hostResult = validateHostAction(this.gameState, playerId, 'start the game');
+      if (!hostResult.ok) return hostResult;
+    }
+    
+    // Ensure we have enough players
+    const minPlayers = this.gameState.mode === GameMode.ONE_VS_ONE ? 2 : 4;
+    const result = validateStartGame(this.gameState, minPlayers);
+    if (!result.ok) return result;
+    
+    // Deal cards and start the game (a trade of seats nobody answered is dropped)
+    this.gameState = this.deal({ ...this.gameState, seatSwap: null });
     this.emitGameUpdate();
+    return result;
+  }
+  
+  public playCard(playerId: string, cardId: string): ActionResult {
+    const result = validatePlayCard(this.gameState, playerId, { cardId });
+    if (!result.ok) return result;
+    
+    // Evaluate the play from the player's point of view later (blind cards can't be evaluated)
+    this.pendingPlays.push({ view: createPlayerView(this.gameState, playerId), playerId, cardId });
+    this.scheduleAnalysis();
+    
+    this.applyCardPlay(playerId, cardId);
+    return result;
   }
   
-  public startNewRound(): void {
-    this.gameState = startNewRound(this.gameState);
+  // Play a card whose move was already validated by the caller
+  private applyCardPlay(playerId: string, cardId: string): void {
+    const before = this.gameState;
+    const card = before.players.find(p => p.id === playerId)?.hand.find(c => c.id === cardId);
+    this.gameState = processPlayedCard(this.gameState, playerId, cardId);
+    if (card) this.recordEvent({ type: 'play_card', playerId, card });
+    this.emitTrickResult(before, playerId, cardId);
     this.emitGameUpdate();
   }
   
+  // Report the trick when the card played was the last one of it
+  private emitTrickResult(before: GameState, playerId: string, cardId: string): void {
+    const card = before.players.find(p => p.id === playerId)?.hand.find(c => c.id === cardId);
+    if (!card || before.currentTrick.length + 1 !== before.players.length) return;
+    
+    const cards: PlayedCard[] = [...before.currentTrick, { playerId, card, timestamp: Date.now() }];
+    const { outcome, winnerId } = determineTrickOutcome(cards, before.vira, before.players, before.ruleVariant);
+    const trick: TrickResult = {
+      roundNumber: before.roundNumber,
+      trickNumber: before.tricks.length + 1,
+      cards,
+      outcome,
+      winnerId
+    };
+    
+    this.emit('trick_completed', trick);
+  }
+  
+  // In the mão de ferro cards are played blind, picked by their position in the hand
+  public playBlindCard(playerId: string, cardIndex: number): ActionResult {
+    const result = validatePlayCard(this.gameState, playerId, { cardIndex });
+    if (!result.ok) return result;
+    
+    const player = this.gameState.players.find(p => p.id === playerId);
+    const card = player?.hand[cardIndex];
+    if (card) this.applyCardPlay(playerId, card.id);
+    return result;
+  }
+  
+  public requestTruco(playerId: string): ActionResult {
+    return this.applyAction(
+      validateTrucoRequest(this.gameState, playerId),
+      () => processTrucoRequest(this.gameState, playerId),
+      { type: 'truco_request', playerId }
+    );
+  }
+  
+  public acceptTruco(playerId: string): ActionResult {
+    return this.applyAction(
+      validateTrucoAnswer(this.gameState, playerId),
+      () => acceptTrucoRequest(this.gameState, playerId),
+      { type: 'truco_accept', playerId }
+    );
+  }
+  
+  public declineTruco(playerId: string): ActionResult {
+    return this.applyAction(
+      validateTrucoAnswer(this.gameState, playerId),
+      () => declineTrucoRequest(this.gameState, playerId),
+      { type: 'truco_decline', playerId }
+    );
+  }
+  
+  public playHandOfEleven(playerId: string): ActionResult {
+    return this.applyAction(
+      validateHandOfElevenDecision(this.gameState, playerId),
+      () => playHandOfEleven(this.gameState, playerId),
+      { type: 'hand_of_eleven_play', playerId }
+    );
+  }
+  
+  public foldHandOfEleven(playerId: string): ActionResult {
+    return this.applyAction(
+      validateHandOfElevenDecision(this.gameState, playerId),
+      () => foldHandOfEleven(this.gameState, playerId),
+      { type: 'hand_of_eleven_fold', playerId }
+    );
+  }
+  
+  // Envido and flor (Spanish-style variants)
+  public callEnvido(playerId: string, call: EnvidoCall): ActionResult {
+    return this.applyAction(
+      validateEnvidoCall(this.gameState, playerId, call),
+      () => callEnvido(this.gameState, playerId, call),
+      { type: 'envido_call', playerId, call }
+    );
+  }
+  
+  public acceptEnvido(playerId: string): ActionResult {
+    return this.applyAction(
+      validateEnvidoAnswer(this.gameState, playerId),
+      () => acceptEnvido(this.gameState, playerId),
+      { type: 'envido_accept', playerId }
+    );
+  }
+  
+  public declineEnvido(playerId: string): ActionResult {
+    return this.applyAction(
+      validateEnvidoAnswer(this.gameState, playerId),
+      () => declineEnvido(this.gameState, playerId),
+      { type: 'envido_decline', playerId }
+    );
+  }
+  
+  public declareEnvido(playerId: string, sonBuenas: boolean): ActionResult {
+    return this.applyAction(
+      validateEnvidoDeclaration(this.gameState, playerId, sonBuenas),
+      () => declareEnvido(this.gameState, playerId, sonBuenas),
+      { type: 'envido_declare', playerId, sonBuenas }
+    );
+  }
+  
+  public startNewRound(playerId: string): ActionResult {
+    return this.applyAction(
+      validateNewRound(this.gameState, playerId),
+      () => startNewRound(this.gameState, state => this.deal(state))
+    );
+  }
+  
+  // Shuffle a new deck for a round: from the committed server seed and the players' nonces,
+  // unless the game has a fixed seed
+  private deal(gameState: GameState): GameState {
+    const roundNumber = gameState.roundNumber + 1;
+    const fixedSeed = this.dealSetup?.seed;
+    this.roundServerSeed = fixedSeed ? null : this.nextServerSeed ?? createSeed();
+    this.roundNonces = fixedSeed ? [] : gameState.players.flatMap(p => {
+      const nonce = this.dealNonces.get(p.id);
+      return nonce ? [{ playerId: p.id, nonce }] : [];
+    });
+    const seed = this.roundServerSeed
+      ? mixDealSeed(this.roundServerSeed, this.roundNonces)
+      : `${fixedSeed}:${roundNumber}`;
+    const script = roundNumber === 1 ? this.dealSetup?.deck : undefined;
+    
+    let deck = createShuffledDeck(gameState.ruleVariant, seed);
+    if (script) {
+      deck = stackDeck(deck, script, gameState.players.length);
+    }
+    
+    // Commit to the deck before anyone plays; it's revealed when the round is over
+    this.roundSeed = seed;
+    this.roundDeck = deck.map(card => card.id);
+    const hash = createHash('sha256').update(getDealCommitmentPayload(seed, this.roundDeck)).digest('hex');
+    
+    const dealt = {
+      ...dealDeck(gameState, deck),
+      dealCommitment: { roundNumber, hash },
+      dealReveal: null
+    };
+    return fixedSeed ? dealt : this.commitNextSeed(dealt);
+  }
+  
+  // Draw the server seed of the next deal and publish its hash, for the players to answer with nonces
+  private commitNextSeed(gameState: GameState): GameState {
+    this.nextServerSeed = createSeed();
+    this.dealNonces.clear();
+    return { ...gameState, nextSeedHash: createHash('sha256').update(this.nextServerSeed).digest('hex') };
+  }
+  
+  // A player's nonce for the next deal, sent after its server seed was committed to
+  public setDealNonce(playerId: string, nonce: unknown): ActionResult {
+    const result = validateDealNonce(this.gameState, playerId, nonce);
+    if (result.ok) this.dealNonces.set(playerId, nonce as string);
+    return result;
+  }
+  
+  // Reveal the round's seed and deck once the round is over
+  private revealDeal(): void {
+    const { roundState, dealCommitment, dealReveal } = this.gameState;
+    const isOver = roundState === RoundState.ROUND_OVER || roundState === RoundState.GAME_OVER;
+    if (!isOver || !dealCommitment || dealReveal || !this.roundSeed) return;
+    
+    const reveal: DealReveal = {
+      roundNumber: dealCommitment.roundNumber,
+      seed: this.roundSeed,
+      deck: this.roundDeck,
+      ...(this.roundServerSeed && { serverSeed: this.roundServerSeed, nonces: this.roundNonces })
+    };
+    this.gameState = { ...this.gameState, dealReveal: reveal };
+  }
+  
+  // Deal test games from a fixed seed or a scripted deck (checked by the caller),
+  // which a ranked game never does
+  public setDealSetup(setup: DealSetup | null): ActionResult {
+    if (setup && this.gameState.ranked) {
+      return rejected(RejectionReason.RANKED_HUMANS_ONLY, 'Ranked games can not be dealt from a test seed or deck');
+    }
+    this.dealSetup = setup;
+    
+    // A fixed seed leaves nothing for the players' nonces to mix into
+    if (setup?.seed) {
+      this.nextServerSeed = null;
+      this.gameState = { ...this.gameState, nextSeedHash: null };
+    }
+    return { ok: true };
+  }
+  
+  // Make this the room of a tournament match, before its players sit down
+  public setTournamentRoom(room: TournamentRoom, targetScore: number): void {
+    this.gameState = { ...this.gameState, tournament: room, targetScore, hostId: null };
+  }
+  
+  // Anyone can sit in a free seat, except in tournament rooms
+  public canTakeSeat(playerId: string): boolean {
+    const { tournament } = this.gameState;
+    return !tournament || tournament.teams[playerId] !== undefined;
+  }
+  
+  // Evaluating a play simulates the rest of the round many times, so it runs after the
+  // play was handled, one play per tick of the event loop
+  private scheduleAnalysis(): void {
+    if (this.analysisTimer || this.pendingPlays.length === 0) return;
+    
+    this.analysisTimer = setImmediate(() => {
+      this.analysisTimer = null;
+      this.analyzeNextPlay();
+      this.scheduleAnalysis();
+    });
+  }
+  
+  private analyzeNextPlay(): void {
+    const play = this.pendingPlays.shift();
+    if (!play) return;
+    
+    const analysis = analyzePlay(play.view, play.playerId, play.cardId, { samples: ANALYSIS_SAMPLES });
+    if (analysis) this.playAnalysis.push(analysis);
+  }
+  
+  // Post-game analysis: how close each player's cards were to the best ones.
+  // Only for the players and spectators of the game, once it is over (null otherwise).
+  public async getGameAnalysis(playerId: string): Promise<PlayerAnalysis[] | null> {
+    const isInGame = this.gameState.players.some(p => p.id === playerId) || this.isSpectator(playerId);
+    if (!isInGame || this.gameState.roundState !== RoundState.GAME_OVER) return null;
+    
+    // Wait for the plays still being evaluated, one per tick
+    while (this.pendingPlays.length > 0) {
+      this.scheduleAnalysis();
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return summarizePlays(this.playAnalysis);
+  }
+  
   public resetGame(): void {
-    // Reset game state, keeping players but clearing hands and scores
-    const updatedPlayers = this.gameState.players.map(p => ({
+    this.playAnalysis = [];
+    this.pendingPlays = [];
+    this.timeoutCounts.clear();
+    
+    // Reset game state, keeping players in their seats but clearing hands and scores
+    const updatedPlayers = assignTeams(this.gameState.players, this.gameState.mode).map((p, index) => ({
       ...p,
       hand: [],
-      isReady: false,
+      isReady: Boolean(p.isBot),
       isYourTurn: false,
-      isDealer: p.id === this.gameState.players[0]?.id
+      isDealer: index === 0
     }));
     
     this.gameState = {
       ...this.gameState,
       players: updatedPlayers,
       roundState: RoundState.WAITING_FOR_PLAYERS,
+      roundNumber: 0,
       currentTrick: [],
       tricks: [],
       vira: null,
       teamAScore: 0,
       teamBScore: 0,
-      roundValue: 1,
-      dealer: this.gameState.players[0]?.id || '',
+      roundValue: getInitialRoundValue(this.gameState.ruleVariant),
+      dealer: updatedPlayers[0]?.id || '',
       currentPlayer: '',
       winner: null,
       trucoRequested: false,
       trucoRequestedBy: null,
-      roundWinner: null
+      trucoRequestedValue: null,
+      lastRaiseTeam: null,
+      handOfElevenTeam: null,
+      isIronHand: false,
+      envido: null,
+      roundWinner: null,
+      forfeitTeam: null,
+      dealCommitment: null,
+      dealReveal: null,
+      seatSwap: null,
+      series: startNextSeriesGame(this.gameState.series)
     };
     
     this.emitGameUpdate();
@@ -218,7 +1207,8 @@ export class TrucoGame extends EventEmitter {
   
   // Chat methods
   public addChatMessage(playerId: string, content: string, isTeamOnly: boolean): ChatMessage {
-    const player = this.gameState.players.find(p => p.id === playerId);
+    // Spectators have their own channel, players never see it
+    const isSpectatorOnly = this.isSpectator(playerId);
     
     // Create message
     const message: ChatMessage = {
@@ -226,7 +1216,8 @@ export class TrucoGame extends EventEmitter {
       sender: playerId,
       content,
       timestamp: Date.now(),
-      isTeamOnly
+      isTeamOnly: isTeamOnly && !isSpectatorOnly,
+      isSpectatorOnly
     };
     
     // Add to messages
@@ -243,8 +1234,126 @@ export class TrucoGame extends EventEmitter {
   }
   
   // Utility methods
+  
+  // Apply a state change only when its validation passed, logging the event that caused it
+  private applyAction(result: ActionResult, update: () => GameState, event?: GameEventData): ActionResult {
+    if (!result.ok) return result;
+    
+    this.gameState = update();
+    if (event) this.recordEvent(event);
+    this.emitGameUpdate();
+    return result;
+  }
+  
   private emitGameUpdate(): void {
+    this.revealDeal();
+    this.updateTurnTimer();
+    this.emitRoundEvents();
+    this.updateSeries();
     this.emit('game_update', this.gameState);
+    this.scheduleBotAction();
+  }
+  
+  // Append an event to the game's log; listeners persist it
+  private recordEvent(data: GameEventData): void {
+    const event: GameEvent = { ...data, seq: this.eventCount++, timestamp: Date.now() };
+    this.emit('game_event', event);
+  }
+  
+  // Log a new deal, and report the round when the game has just moved to the end of a round
+  private emitRoundEvents(): void {
+    const previous = this.lastEmittedState;
+    const state = this.gameState;
+    this.lastEmittedState = state;
+    if (!previous) return;
+    
+    if (state.roundNumber > previous.roundNumber) {
+      if (state.roundNumber === 1) {
+        this.recordEvent({
+          type: 'game_start',
+          mode: state.mode,
+          ruleVariant: state.ruleVariant,
+          targetScore: state.targetScore,
+          dealer: state.dealer,
+          players: state.players.map(({ id, username, team, isBot }) => ({ id, username, team, isBot }))
+        });
+      }
+      
+      this.recordEvent({
+        type: 'deal',
+        roundNumber: state.roundNumber,
+        dealer: state.dealer,
+        seed: this.roundSeed,
+        vira: state.vira,
+        hands: state.players.map(p => p.hand)
+      });
+    }
+    
+    const isOver = (s: GameState) => 
+      s.roundState === RoundState.ROUND_OVER || s.roundState === RoundState.GAME_OVER;
+    if (!isOver(state) || isOver(previous)) return;
+    
+    // Envido points are scored during the round, so only the change in the last step is the round's
+    const round: RoundResult = {
+      roundNumber: state.roundNumber,
+      winner: state.roundWinner,
+      points: (state.teamAScore - previous.teamAScore) + (state.teamBScore - previous.teamBScore),
+      teamAScore: state.teamAScore,
+      teamBScore: state.teamBScore,
+      vira: previous.vira,
+      seed: this.roundSeed
+    };
+    
+    this.emit('round_completed', round);
+    this.recordEvent({
+      type: 'round_result',
+      roundNumber: round.roundNumber,
+      winner: round.winner,
+      points: round.points,
+      teamAScore: round.teamAScore,
+      teamBScore: round.teamBScore
+    });
+  }
+  
+  // Report a game that just ended, count it for the series and report the series once a team wins it
+  private updateSeries(): void {
+    const state = this.gameState;
+    const { series } = state;
+    if (state.roundState !== RoundState.GAME_OVER || !state.winner) return;
+    if (series.games.length >= series.gameNumber) return;
+    
+    const updated = recordSeriesGame(series, {
+      winner: state.winner,
+      teamAScore: state.teamAScore,
+      teamBScore: state.teamBScore
+    });
+    this.gameState = { ...state, series: updated };
+    
+    const game: GameResult = {
+      mode: state.mode,
+      ruleVariant: state.ruleVariant,
+      targetScore: state.targetScore,
+      ranked: state.ranked,
+      winner: state.winner,
+      teamAScore: state.teamAScore,
+      teamBScore: state.teamBScore,
+      forfeitTeam: state.forfeitTeam
+    };
+    this.emit('game_completed', game);
+    if (!updated.winner) return;
+    
+    const result: SeriesResult = {
+      mode: state.mode,
+      ruleVariant: state.ruleVariant,
+      targetScore: state.targetScore,
+      bestOf: updated.bestOf,
+      winner: updated.winner,
+      games: updated.games,
+      players: state.players.map(({ id, username, team, isBot }) => ({ id, username, team, isBot: Boolean(isBot) }))
+    };
+    
+    this.emit('series_completed', result);
+    this.recordEvent({ type: 'series_result', bestOf: result.bestOf, winner: result.winner, games: result.games });
   }
   
   public getPlayerUsername(playerId: string): string {
@@ -271,15 +1380,24 @@ export class TrucoGame extends EventEmitter {
     }
     
     // If game is in progress, don't remove immediately, just mark as disconnected
-    if (this.gameState.roundState === RoundState.PLAYING) {
+    if (this.gameState.roundState !== RoundState.WAITING_FOR_PLAYERS) {
+      // A bot plays the seat until the player comes back, except in ranked and tournament
+      // games, which only humans play: there the turn timer acts for them and can forfeit
+      if (!this.isCompetitive()) this.bots.set(playerId, BotDifficulty.MEDIUM);
+      
       // Don't remove - just update the game state to reflect disconnection
       const updatedPlayers = this.gameState.players.map(p => 
         p.id === playerId ? { ...p, isDisconnected: true } : p
       );
       
+      // A connected player takes over the room, so the game doesn't wait on the host
+      const { hostId } = this.gameState;
+      const newHost = updatedPlayers.find(p => !p.isBot && !p.isDisconnected);
+      
       this.gameState = {
         ...this.gameState,
-        players: updatedPlayers
+        players: updatedPlayers,
+        hostId: hostId === playerId && newHost ? newHost.id : hostId
       };
       
       this.emitGameUpdate();
@@ -289,72 +1407,125 @@ export class TrucoGame extends EventEmitter {
     }
   }
   
-  public reconnectPlayer(socketId: string, username: string): boolean {
-    // Check if there's a disconnected player with this username
-    let foundPlayerId: string | null = null;
+  // Seat tokens
+  public getSeatNonce(playerId: string): string | undefined {
+    return this.seatNonces.get(playerId);
+  }
+  
+  // Whether a seat token's nonce is the current one for the player's seat
+  public hasSeat(playerId: string, nonce: string): boolean {
+    return this.seatNonces.get(playerId) === nonce && this.gameState.players.some(p => p.id === playerId);
+  }
+  
+  // Give a disconnected player their seat back; player IDs belong to accounts, so they don't change
+  public reconnectPlayer(playerId: string): boolean {
+    if (!this.disconnectedPlayers.has(playerId)) return false;
     
-    // Iterate over Map entries with downlevelIteration enabled in tsconfig
-    for (const [playerId, playerName] of this.disconnectedPlayers.entries()) {
-      if (playerName === username) {
-        foundPlayerId = playerId;
-        break;
-      }
+    this.gameState = {
+      ...this.gameState,
+      players: this.gameState.players.map(p => 
+        p.id === playerId ? { ...p, isDisconnected: false } : p
+      )
+    };
+    
+    // Remove from disconnected players map and take the seat back from the bot
+    this.disconnectedPlayers.delete(playerId);
+    this.bots.delete(playerId);
+    
+    this.emitGameUpdate();
+    return true;
+  }
+  
+  // Persistence
+  public toSnapshot(): GameSnapshot {
+    return {
+      state: this.gameState,
+      chatMessages: this.chatMessages,
+      playerNames: Array.from(this.playerNames.entries()),
+      disconnectedPlayers: Array.from(this.disconnectedPlayers.entries()),
+      seatNonces: Array.from(this.seatNonces.entries()),
+      kickedPlayers: Array.from(this.kickedPlayers),
+      bots: Array.from(this.bots.entries()),
+      playAnalysis: this.playAnalysis,
+      eventCount: this.eventCount,
+      dealSetup: this.dealSetup,
+      roundSeed: this.roundSeed,
+      roundDeck: this.roundDeck,
+      nextServerSeed: this.nextServerSeed,
+      dealNonces: Array.from(this.dealNonces.entries()),
+      roundServerSeed: this.roundServerSeed,
+      roundNonces: this.roundNonces
+    };
+  }
+  
+  // Rebuild a saved game. Every human is disconnected after a restart: in games in progress
+  // their seats are kept for their seat tokens, and bots play them until the players
+  // reconnect (except in ranked and tournament games, where the turn timer acts for them).
+  public static fromSnapshot(snapshot: GameSnapshot): TrucoGame {
+    const { state } = snapshot;
+    const game = new TrucoGame(state.id, state.mode, state.ruleVariant, state.timerSettings);
+    
+    game.chatMessages = snapshot.chatMessages;
+    game.playerNames = new Map(snapshot.playerNames);
+    game.disconnectedPlayers = new Map(snapshot.disconnectedPlayers);
+    game.seatNonces = new Map(snapshot.seatNonces ?? []);
+    game.kickedPlayers = new Set(snapshot.kickedPlayers ?? []);
+    game.bots = new Map(snapshot.bots);
+    game.playAnalysis = snapshot.playAnalysis;
+    game.eventCount = snapshot.eventCount ?? 0;
+    game.dealSetup = snapshot.dealSetup ?? null;
+    game.roundSeed = snapshot.roundSeed ?? null;
+    game.roundDeck = snapshot.roundDeck ?? [];
+    game.roundServerSeed = snapshot.roundServerSeed ?? null;
+    game.roundNonces = snapshot.roundNonces ?? [];
+    
+    // Games saved before the players sent nonces keep the server seed drawn by the constructor
+    const committedHash = game.gameState.nextSeedHash;
+    if (snapshot.nextServerSeed !== undefined) {
+      game.nextServerSeed = snapshot.nextServerSeed;
+      game.dealNonces = new Map(snapshot.dealNonces ?? []);
     }
     
-    if (foundPlayerId) {
-      // Update the player's socket ID and mark as reconnected
-      const updatedPlayers = this.gameState.players.map(p => {
-        if (p.username === username) {
-          return { 
-            ...p, 
-            id: socketId,
-            isDisconnected: false
-          };
-        }
-        return p;
-      });
-      
-      // Replace old player ID with new socket ID in all necessary places
-      let currentPlayer = this.gameState.currentPlayer;
-      if (currentPlayer === foundPlayerId) {
-        currentPlayer = socketId;
+    const inProgress = state.roundState !== RoundState.WAITING_FOR_PLAYERS;
+    const competitive = Boolean(state.ranked || state.tournament);
+    const humans = state.players.filter(p => !p.isBot);
+    humans.forEach(p => {
+      if (inProgress) {
+        game.disconnectedPlayers.set(p.id, p.username);
+        if (!competitive) game.bots.set(p.id, BotDifficulty.MEDIUM);
+      } else {
+        game.playerNames.delete(p.id);
+        game.seatNonces.delete(p.id);
       }
-      
-      let dealer = this.gameState.dealer;
-      if (dealer === foundPlayerId) {
-        dealer = socketId;
-      }
-      
-      let trucoRequestedBy = this.gameState.trucoRequestedBy;
-      if (trucoRequestedBy === foundPlayerId) {
-        trucoRequestedBy = socketId;
-      }
-      
-      // Update game state with new socket ID
-      this.gameState = {
-        ...this.gameState,
-        players: updatedPlayers,
-        currentPlayer,
-        dealer,
-        trucoRequestedBy
-      };
-      
-      // Remove from disconnected players map
-      this.disconnectedPlayers.delete(foundPlayerId);
-      
-      // Update player name map with new socket ID
-      this.playerNames.delete(foundPlayerId);
-      this.playerNames.set(socketId, username);
-      
-      this.emitGameUpdate();
-      return true;
+    });
+    
+    game.gameState = {
+      ...state,
+      turnTimer: null,
+      spectators: [],
+      targetScore: state.targetScore ?? getRuleSet(state.ruleVariant).targetScore,
+      hostId: state.hostId ?? null,
+      seatsLocked: state.seatsLocked ?? false,
+      seatSwap: null,
+      series: state.series ?? createSeries(1),
+      ranked: state.ranked ?? false,
+      nextSeedHash: snapshot.nextServerSeed !== undefined ? state.nextSeedHash : committedHash
+    };
+    if (inProgress) {
+      game.gameState.players = state.players.map(p => p.isBot ? p : { ...p, isDisconnected: true });
+    } else {
+      game.gameState.hostId = null;
+      game.gameState.series = createSeries(game.gameState.series.bestOf);
+      game.seatPlayers(state.players.filter(p => p.isBot));
     }
     
-    return false;
+    game.lastEmittedState = game.gameState;
+    return game;
   }
   
   public getConnectedPlayerCount(): number {
     // Use optional chaining to safely handle the case where isDisconnected might be undefined
-    return this.gameState.players.filter(p => !p?.isDisconnected).length;
+    // (bots don't count, a game with only bots left is abandoned)
+    return this.gameState.players.filter(p => !p?.isDisconnected && !p?.isBot).length;
   }
 }
@@ -0,0 +1,266 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionResult, ActionType, BotDifficulty, GameMode, GameRoom, GameState, RejectionReason, RoomInvite, RoundState, RuleVariant, ChatMessage } from '@shared/types';
+import { PlayerAnalysis } from '@shared/handAnalysis';
+import { verifyDeal } from '@shared/fairness';
+import { QueueStatus, ReadyCheck } from '@shared/matchmaking';
+import { createGame, joinGame, nextView, playGame, startGame, startTestServer, TestClient, TestServer } from './testServer';
+
+let server: TestServer;
+
+const rejectedFor = (result: ActionResult) => (result.ok ? null : result.reason);
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+test('each player is sent only their own hand, and spectators see no hand', async () => {
+  const { ana, bia, gameId, anaView, biaView } = await startGame(server, ['ana001', 'bia001']);
+
+  const handsIn = (view: GameState) => view.players.map(p => [p.id, p.hand.length, p.handCount]);
+  assert.deepEqual(handsIn(anaView), [[ana.user.playerId, 3, 3], [bia.user.playerId, 0, 3]]);
+  assert.deepEqual(handsIn(biaView), [[ana.user.playerId, 0, 3], [bia.user.playerId, 3, 3]]);
+  assert.equal('deck' in anaView, false);
+
+  const caio = await server.signUp('caio001');
+  caio.socket.emit(ActionType.WATCH_GAME, { gameId });
+  const caioView = await caio.next<GameState>(ActionType.GAME_UPDATE);
+  assert.deepEqual(handsIn(caioView), [[ana.user.playerId, 0, 3], [bia.user.playerId, 0, 3]]);
+});
+
+test('rooms are created with the chosen rule variant, shown in the room list', async () => {
+  const ana = await server.signUp('ana005');
+  const gaucho = await createGame(ana, { ruleVariant: RuleVariant.GAUCHO });
+  // Unknown variants get the Paulista rules
+  const unknown = await createGame(ana, { ruleVariant: 'carioca' });
+
+  const rooms = await ana.next<GameRoom[]>('rooms_update', rooms => rooms.some(room => room.id === unknown));
+  const variantOf = (gameId: string) => rooms.find(room => room.id === gameId)?.ruleVariant;
+  assert.equal(variantOf(gaucho), RuleVariant.GAUCHO);
+  assert.equal(variantOf(unknown), RuleVariant.PAULISTA);
+});
+
+test('rejected actions are answered with their reason', async () => {
+  const { ana, bia, gameId, biaView } = await startGame(server, ['ana007', 'bia007']);
+  const biaCard = biaView.players[1].hand[0].id;
+
+  assert.equal(rejectedFor(await ana.act(ActionType.PLAY_CARD, { gameId, cardId: biaCard })), RejectionReason.NOT_YOUR_TURN);
+  assert.equal(rejectedFor(await bia.act(ActionType.PLAY_CARD, { gameId, cardId: 'hearts-99' })), RejectionReason.CARD_NOT_IN_HAND);
+  assert.equal(rejectedFor(await ana.act(ActionType.ACCEPT_TRUCO, { gameId })), RejectionReason.NO_PENDING_BET);
+  assert.equal(rejectedFor(await ana.act(ActionType.REQUEST_TRUCO, { gameId: 'no-game' })), RejectionReason.GAME_NOT_FOUND);
+  assert.deepEqual(await bia.act(ActionType.PLAY_CARD, { gameId, cardId: biaCard }), { ok: true });
+
+  // Without an acknowledgement the rejection comes as an error
+  ana.socket.emit(ActionType.DECLINE_TRUCO, { gameId });
+  const error = await ana.next<{ reason: RejectionReason }>(ActionType.ERROR);
+  assert.equal(error.reason, RejectionReason.NO_PENDING_BET);
+});
+
+test('the players get the analysis of their plays once the game is over', async () => {
+  const { ana, bia, gameId } = await startGame(server, ['ana009', 'bia009']);
+  await playGame([ana, bia], gameId);
+
+  // Both played a card in each trick of the round
+  const analysis = await ana.act<PlayerAnalysis[]>(ActionType.GET_ANALYSIS, { gameId });
+  assert.deepEqual(analysis.map(a => a.playerId).sort(), [ana.user.playerId, bia.user.playerId].sort());
+  assert.equal(analysis[0].plays, analysis[1].plays);
+  assert.ok(analysis[0].plays >= 2);
+});
+
+test('a seat is only taken back with the token issued for it', async () => {
+  const { ana, bia, gameId } = await startGame(server, ['ana013', 'bia013']);
+  const { token } = await ana.next<{ token: string }>('seat_token');
+  const { token: biaToken } = await bia.next<{ token: string }>('seat_token');
+
+  ana.socket.disconnect();
+  await nextView(bia, view => Boolean(view.players.find(p => p.id === ana.user.playerId)?.isDisconnected));
+
+  const anaTab = await server.connect(ana);
+  const rejectionFor = async (seatToken?: string) => {
+    anaTab.socket.emit(ActionType.JOIN_GAME, { gameId, seatToken });
+    return (await anaTab.next<{ reason: RejectionReason }>(ActionType.ERROR)).reason;
+  };
+  assert.equal(await rejectionFor(), RejectionReason.INVALID_SEAT_TOKEN);
+  assert.equal(await rejectionFor(biaToken), RejectionReason.INVALID_SEAT_TOKEN);
+  assert.equal(await rejectionFor(`${token}x`), RejectionReason.INVALID_SEAT_TOKEN);
+
+  const view = await joinGame(anaTab, gameId, { seatToken: token });
+  const seat = view.players.find(p => p.id === ana.user.playerId);
+  assert.equal(seat?.isDisconnected, false);
+  assert.equal(seat?.hand.length, 3);
+});
+
+test('test games are dealt from the scripted deck', async () => {
+  const hands = [['hearts-A', 'hearts-2', 'hearts-3'], ['spades-A', 'spades-2', 'spades-3']];
+  const { anaView, biaView } = await startGame(server, ['ana015', 'bia015'], { dealSetup: { deck: { vira: 'clubs-4', hands } } });
+  assert.deepEqual(anaView.players[0].hand.map(card => card.id), hands[0]);
+  assert.deepEqual(biaView.players[1].hand.map(card => card.id), hands[1]);
+  assert.equal(anaView.vira?.id, 'clubs-4');
+
+  const caio = await server.signUp('caio015');
+  const errorFor = async (settings: Record<string, unknown>) => {
+    caio.socket.emit(ActionType.CREATE_GAME, { roomName: 'Mesa', mode: GameMode.ONE_VS_ONE, ...settings });
+    return caio.next<{ message: string; reason?: RejectionReason }>(ActionType.ERROR);
+  };
+  assert.equal((await errorFor({ dealSetup: { deck: { hands: [['hearts-A', 'hearts-A']] } } })).message, 'Invalid test deal');
+  assert.equal((await errorFor({ dealSetup: { seed: 'seed' }, ranked: true })).reason, RejectionReason.RANKED_HUMANS_ONLY);
+});
+
+test('players can verify each deal against its commitment, with their nonce in it', async () => {
+  const ana = await server.signUp('ana016');
+  const bia = await server.signUp('bia016');
+  const gameId = await createGame(ana);
+  const { inviteCode } = await ana.next<RoomInvite>('room_invite');
+  const { nextSeedHash } = await joinGame(bia, gameId, { inviteCode });
+  assert.deepEqual(await bia.act(ActionType.SEND_DEAL_NONCE, { gameId, nonce: 'bia-nonce' }), { ok: true });
+
+  ana.socket.emit(ActionType.READY, { gameId });
+  bia.socket.emit(ActionType.READY, { gameId });
+  const dealt = await nextView(bia, view => view.roundState === RoundState.PLAYING);
+  assert.ok(dealt.dealCommitment);
+  assert.equal(dealt.dealReveal, null);
+
+  // The round ends with a refused truco, and the deck is revealed
+  assert.deepEqual(await bia.act(ActionType.REQUEST_TRUCO, { gameId }), { ok: true });
+  assert.deepEqual(await ana.act(ActionType.DECLINE_TRUCO, { gameId }), { ok: true });
+  const over = await nextView(bia, view => view.roundState === RoundState.ROUND_OVER);
+  assert.ok(over.dealReveal);
+
+  const biaSeat = dealt.players.findIndex(p => p.id === bia.user.playerId);
+  const result = await verifyDeal(dealt.dealCommitment, over.dealReveal, {
+    ruleVariant: dealt.ruleVariant,
+    seat: biaSeat,
+    hand: dealt.players[biaSeat].hand,
+    vira: dealt.vira,
+    nextSeedHash,
+    playerId: bia.user.playerId,
+    nonce: 'bia-nonce'
+  });
+  assert.deepEqual(
+    [result.hashMatches, result.shuffleMatches, result.handMatches, result.viraMatches, result.seedMatches, result.nonceIncluded],
+    [true, true, true, true, true, true]
+  );
+  assert.equal(result.ok, true);
+});
+
+test('spectators watch full rooms and have a chat of their own', async () => {
+  const { ana, bia, gameId } = await startGame(server, ['ana017', 'bia017']);
+  const [caio, duda] = await Promise.all([server.signUp('caio017'), server.signUp('duda017')]);
+
+  caio.socket.emit(ActionType.JOIN_GAME, { gameId });
+  assert.equal((await caio.next<{ message: string }>(ActionType.ERROR)).message, 'Game is full');
+  ana.socket.emit(ActionType.WATCH_GAME, { gameId });
+  assert.equal((await ana.next<{ message: string }>(ActionType.ERROR)).message, 'Players can not watch their own game');
+
+  caio.socket.emit(ActionType.WATCH_GAME, { gameId });
+  duda.socket.emit(ActionType.WATCH_GAME, { gameId });
+  const view = await nextView(bia, view => view.spectators.length === 2);
+  assert.deepEqual(view.spectators.map(s => s.username).sort(), ['caio017', 'duda017']);
+
+  // Players don't see the spectators' messages, and spectators don't see the teams'
+  const chatOf = (client: TestClient) => client.next<ChatMessage>('chat_message');
+  caio.socket.emit(ActionType.SEND_CHAT, { gameId, content: 'que jogada', isTeamOnly: false });
+  assert.equal((await chatOf(duda)).content, 'que jogada');
+  ana.socket.emit(ActionType.SEND_CHAT, { gameId, content: 'segura', isTeamOnly: true });
+  assert.equal((await chatOf(ana)).content, 'segura');
+  ana.socket.emit(ActionType.SEND_CHAT, { gameId, content: 'boa sorte', isTeamOnly: false });
+
+  assert.equal((await chatOf(bia)).content, 'segura');
+  assert.equal((await chatOf(bia)).content, 'boa sorte');
+  assert.equal((await chatOf(caio)).content, 'que jogada');
+  assert.equal((await chatOf(caio)).content, 'boa sorte');
+});
+
+test('private rooms are only entered with their invite, and password rooms with the password', async () => {
+  const [ana, bia, caio] = await Promise.all(['ana018', 'bia018', 'caio018'].map(name => server.signUp(name)));
+  const rejectionFor = async (client: TestClient, gameId: string, credentials: Record<string, unknown> = {}) => {
+    client.socket.emit(ActionType.JOIN_GAME, { gameId, ...credentials });
+    return (await client.next<{ reason: RejectionReason }>(ActionType.ERROR)).reason;
+  };
+
+  const privateId = await createGame(ana, { visibility: 'private' });
+  const { inviteCode } = await ana.next<RoomInvite>('room_invite');
+  const passwordId = await createGame(ana, { visibility: 'password', password: 'truco' });
+  const rooms = await bia.next<GameRoom[]>('rooms_update', rooms => rooms.some(room => room.id === passwordId));
+  assert.equal(rooms.some(room => room.id === privateId), false);
+  assert.equal(rooms.find(room => room.id === passwordId)?.visibility, 'password');
+
+  assert.equal(await rejectionFor(bia, privateId), RejectionReason.INVITE_REQUIRED);
+  const invited = await (await bia.request(`/api/rooms/${inviteCode.toLowerCase()}`)).json();
+  assert.equal(invited.id, privateId);
+  assert.equal('inviteCode' in invited, false);
+  assert.equal((await joinGame(bia, privateId, { inviteCode })).players.length, 2);
+
+  assert.equal(await rejectionFor(caio, passwordId), RejectionReason.WRONG_PASSWORD);
+  assert.equal(await rejectionFor(caio, passwordId, { password: 'errada' }), RejectionReason.WRONG_PASSWORD);
+  assert.equal((await joinGame(caio, passwordId, { password: 'truco' })).players.length, 2);
+});
+
+test('only the host kicks players, hands over the room, changes settings and starts with bots', async () => {
+  const [ana, bia, caio] = await Promise.all(['ana020', 'bia020', 'caio020'].map(name => server.signUp(name)));
+  const gameId = await createGame(ana, { mode: GameMode.TWO_VS_TWO });
+  await joinGame(bia, gameId);
+  await joinGame(caio, gameId);
+
+  assert.equal(rejectedFor(await bia.act(ActionType.START_GAME, { gameId })), RejectionReason.NOT_HOST);
+  assert.equal(rejectedFor(await bia.act(ActionType.KICK_PLAYER, { gameId, playerId: caio.user.playerId })), RejectionReason.NOT_HOST);
+  assert.equal(rejectedFor(await bia.act(ActionType.UPDATE_SETTINGS, { gameId, settings: { targetScore: 15 } })), RejectionReason.NOT_HOST);
+
+  // A kicked player can't come back
+  assert.deepEqual(await ana.act(ActionType.KICK_PLAYER, { gameId, playerId: bia.user.playerId }), { ok: true });
+  assert.deepEqual(await bia.next('kicked'), { gameId });
+  bia.socket.emit(ActionType.JOIN_GAME, { gameId });
+  assert.equal((await bia.next<{ reason: RejectionReason }>(ActionType.ERROR)).reason, RejectionReason.KICKED);
+
+  assert.deepEqual(await ana.act(ActionType.TRANSFER_HOST, { gameId, playerId: caio.user.playerId }), { ok: true });
+  assert.equal(rejectedFor(await ana.act(ActionType.UPDATE_SETTINGS, { gameId, settings: { targetScore: 15 } })), RejectionReason.NOT_HOST);
+  assert.deepEqual(await caio.act(ActionType.UPDATE_SETTINGS, { gameId, settings: { targetScore: 15 } }), { ok: true });
+
+  assert.deepEqual(await caio.act(ActionType.FORCE_START, { gameId, botDifficulty: BotDifficulty.EASY }), { ok: true });
+  const view = caio.latest<GameState>(ActionType.GAME_UPDATE) as GameState;
+  assert.equal(view.hostId, caio.user.playerId);
+  assert.equal(view.targetScore, 15);
+  assert.notEqual(view.roundState, RoundState.WAITING_FOR_PLAYERS);
+  assert.equal(view.players.filter(p => p.isBot).length, 2);
+});
+
+test('the queue pairs players into a ranked game once both accept the match', async () => {
+  const [ana, bia, caio] = await Promise.all(['ana024', 'bia024', 'caio024'].map(name => server.signUp(name)));
+  assert.equal(rejectedFor(await ana.act(ActionType.JOIN_QUEUE, { mode: 'solo' })), RejectionReason.INVALID_REQUEST);
+  assert.equal(
+    rejectedFor(await ana.act(ActionType.JOIN_QUEUE, { mode: GameMode.ONE_VS_ONE, partner: 'bia024' })),
+    RejectionReason.INVALID_REQUEST
+  );
+
+  assert.deepEqual(await ana.act(ActionType.JOIN_QUEUE, { mode: GameMode.ONE_VS_ONE }), { ok: true });
+  assert.equal((await ana.next<QueueStatus | null>('queue_status', status => status !== null)).mode, GameMode.ONE_VS_ONE);
+  assert.deepEqual(await bia.act(ActionType.JOIN_QUEUE, { mode: GameMode.ONE_VS_ONE }), { ok: true });
+
+  // Whoever declines leaves the queue, and the other player waits for the next match
+  const declined = await bia.next<ReadyCheck>('ready_check');
+  assert.deepEqual(declined.players.map(p => [p.username, p.accepted]).sort(), [['ana024', false], ['bia024', false]]);
+  assert.deepEqual(await bia.act(ActionType.DECLINE_MATCH, { matchId: declined.matchId }), { ok: true });
+  assert.deepEqual(await ana.next('ready_check_cancelled'), { declined: ['bia024'] });
+  assert.equal(await bia.next('queue_status', status => status === null), null);
+  assert.equal(rejectedFor(await ana.act(ActionType.ACCEPT_MATCH, { matchId: declined.matchId })), RejectionReason.INVALID_REQUEST);
+
+  assert.deepEqual(await caio.act(ActionType.JOIN_QUEUE, { mode: GameMode.ONE_VS_ONE }), { ok: true });
+  const readyCheck = await ana.next<ReadyCheck>('ready_check', check => check.matchId !== declined.matchId);
+  assert.deepEqual(await ana.act(ActionType.ACCEPT_MATCH, { matchId: readyCheck.matchId }), { ok: true });
+  assert.deepEqual(await caio.act(ActionType.ACCEPT_MATCH, { matchId: readyCheck.matchId }), { ok: true });
+
+  const [{ gameId }, seatToken] = await Promise.all([
+    caio.next<{ gameId: string }>('match_started'),
+    caio.next<{ gameId: string; token: string }>('seat_token')
+  ]);
+  assert.equal(seatToken.gameId, gameId);
+  assert.deepEqual(await ana.next('match_started'), { gameId });
+
+  // The room is sent to its players, who start playing right away
+  const view = await joinGame(caio, gameId, { seatToken: seatToken.token });
+  assert.equal(view.roundState, RoundState.PLAYING);
+  assert.equal(view.ranked, true);
+  assert.deepEqual(view.players.map(p => p.username).sort(), ['ana024', 'caio024']);
+});
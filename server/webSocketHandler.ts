@@ -1,14 +1,72 @@
 import { Server as HttpServer } from 'http';
+import type { Request, RequestHandler } from 'express';
 import { Server, Socket } from 'socket.io';
 import { GameManager } from './gameManager';
-import { ActionType, GameMode, GameRoom } from '@shared/types';
+import { TournamentManager } from './tournamentManager';
+import { Matchmaker, QueueMatch, QueuedPlayer, DuoInvite } from './matchmaking';
+import { 
+  ActionType, 
+  GameMode, 
+  GameRoom, 
+  GameState, 
+  RuleVariant, 
+  EnvidoCall, 
+  ActionResult, 
+  RejectionReason, 
+  BotDifficulty, 
+  TimerSettings,
+  AuthUser,
+  DealSetup,
+  RoomVisibility,
+  RoomCredentials,
+  RoomSettings
+} from '@shared/types';
+import { TrucoGame } from './trucoGame';
+import { PlayerAnalysis } from '@shared/handAnalysis';
 import { v4 as uuidv4 } from 'uuid';
 import { log, logDebug, logError } from './logger';
+import { createPlayerView } from './gameView';
+import { storage } from './storage';
+import { toAuthUser, hashPassword } from './auth';
+import { issueSeatToken, verifySeatToken } from './seatTokens';
+import { isValidDeckScript } from '@/utils/cardUtils';
+import { DEFAULT_RATING } from '@shared/ratings';
+import { QueueStatus } from '@shared/matchmaking';
+import { Tournament, TournamentInvite } from '@shared/tournaments';
 
-// Initialize the game manager
-const gameManager = new GameManager();
+// How long a game with nobody connected is kept before it is removed
+const EMPTY_GAME_TIMEOUT_MS = 60000;
 
-export function setupWebSocketServer(server: HttpServer): void {
+// Players get longer to come back to the games restored after a restart
+const RESTORED_GAME_TIMEOUT_MS = 5 * 60000;
+
+// Games with a fixed seed or a scripted deck, for testing, are refused in production unless enabled
+const TEST_DEALS_ENABLED = process.env.NODE_ENV !== 'production' || process.env.ALLOW_TEST_DEALS === 'true';
+const MAX_SEED_LENGTH = 100;
+
+const MAX_ROOM_PASSWORD_LENGTH = 50;
+
+// Socket room of the spectators of a game (they are in the game's room too), for their chat
+const getSpectatorRoom = (gameId: string) => `${gameId}:spectators`;
+
+// Acknowledgement callback sent by the client with each game action
+type ActionAck = (result: ActionResult) => void;
+
+// Check a bot difficulty sent by a client
+const isBotDifficulty = (value: unknown): value is BotDifficulty =>
+  Object.values(BotDifficulty).includes(value as BotDifficulty);
+
+const ROOM_VISIBILITIES: RoomVisibility[] = ['public', 'private', 'password'];
+
+const isGameMode = (value: unknown): value is GameMode =>
+  Object.values(GameMode).includes(value as GameMode);
+
+export async function setupWebSocketServer(
+  server: HttpServer, 
+  sessionMiddleware: RequestHandler, 
+  gameManager: GameManager,
+  tournamentManager: TournamentManager
+): Promise<void> {
   const io = new Server(server, {
     cors: {
       origin: "*",
@@ -20,14 +78,114 @@ export function setupWebSocketServer(server: HttpServer): void {
     allowUpgrades: true
   });
   
+  // The account logged in on a socket (set when it connects)
+  const getSocketUser = (socketId: string): AuthUser | undefined =>
+    io.sockets.sockets.get(socketId)?.data.user;
+  
+  // Every open tab of a player
+  const getPlayerSockets = (playerId: string): Socket[] =>
+    Array.from(io.sockets.sockets.values()).filter(socket => socket.data.user?.playerId === playerId);
+  
+  const emitToPlayer = (playerId: string, event: string, data?: unknown) =>
+    getPlayerSockets(playerId).forEach(socket => socket.emit(event, data));
+  
+  // Players looking for a game through the queue ("Jogar agora")
+  const matchmaker = new Matchmaker();
+  
+  // A player as the queue sees them, with their rating in the mode (new players start at the default)
+  const getQueuedPlayer = async (playerId: string, username: string, mode: GameMode): Promise<QueuedPlayer> => {
+    const [rating] = await storage.getRatings([playerId], mode);
+    return { playerId, username, rating: rating?.rating ?? DEFAULT_RATING };
+  };
+  
+  // Seat the players of an accepted match in a new ranked room and send them to it.
+  // Seats alternate between the teams, so adding the players in turns puts each team on its side.
+  const startQueueMatch = (match: QueueMatch) => {
+    try {
+      const [teamA, teamB] = match.teams;
+      const players = teamA.flatMap((player, index) => [player, teamB[index]]);
+      const gameId = uuidv4();
+      const game = gameManager.createGame(
+        gameId, match.mode, `Partida rápida ${match.mode}`, RuleVariant.PAULISTA, undefined, 'private'
+      );
+      
+      players.forEach(player => game.addPlayer(player.playerId, player.username));
+      game.updateSettings(players[0].playerId, { ranked: true });
+      
+      players.forEach(player => {
+        const nonce = game.getSeatNonce(player.playerId);
+        if (nonce) {
+          emitToPlayer(player.playerId, 'seat_token', { gameId, token: issueSeatToken(gameId, player.playerId, nonce) });
+        }
+        emitToPlayer(player.playerId, 'queue_status', null);
+        emitToPlayer(player.playerId, 'match_started', { gameId });
+      });
+      
+      // Everyone accepted the match already, so the game starts right away
+      players.forEach(player => game.setPlayerReady(player.playerId));
+      log(`Game ${gameId} created by the ${match.mode} queue for ${players.map(p => p.username).join(', ')}`, 'game');
+    } catch (error) {
+      log(`Error creating a game for match ${match.id}: ${error}`, 'error');
+    }
+  };
+  
+  // Send every socket in a game room its own view of the game state
+  const emitGameState = (gameId: string, gameState: GameState) => {
+    const socketIds = io.sockets.adapter.rooms.get(gameId);
+    if (!socketIds) return;
+    
+    socketIds.forEach(socketId => {
+      const viewerId = getSocketUser(socketId)?.playerId ?? null;
+      io.to(socketId).emit(ActionType.GAME_UPDATE, createPlayerView(gameState, viewerId));
+    });
+  };
+  
+  // Remove a game if nobody has come back to it after the timeout
+  const scheduleEmptyGameRemoval = (game: TrucoGame, timeoutMs: number) => {
+    setTimeout(() => {
+      // Double check if still empty after timeout
+      if (game.getConnectedPlayerCount() === 0 && gameManager.getGame(game.gameState.id) === game) {
+        gameManager.removeGame(game.gameState.id);
+        io.emit('rooms_update', gameManager.getPublicRooms());
+      }
+    }, timeoutMs);
+  };
+  
+  // Games saved before the last shutdown wait for their players to reconnect
+  const restoredGames = await gameManager.restoreGames();
+  restoredGames.forEach(game => scheduleEmptyGameRemoval(game, RESTORED_GAME_TIMEOUT_MS));
+  
+  // Read the login session from the handshake cookie, the same way as the REST routes
+  io.engine.use(sessionMiddleware);
+  
   // Middleware for logging
   io.use((socket, next) => {
     log(`Socket middleware: ${socket.id}`, 'socket');
     next();
   });
+  
+  // Only logged in accounts can connect; the account's player ID identifies the socket in games
+  io.use(async (socket, next) => {
+    try {
+      const userId = (socket.request as Request).session?.passport?.user;
+      const user = typeof userId === 'number' ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        next(new Error('Authentication required'));
+        return;
+      }
+      
+      socket.data.user = toAuthUser(user);
+      next();
+    } catch (error) {
+      log(`Error authenticating socket: ${error}`, 'error');
+      next(new Error('Authentication failed'));
+    }
+  });
 
   io.on('connection', (socket: Socket) => {
-    log(`Client connected: ${socket.id} (transport: ${socket.conn.transport.name})`, 'socket');
+    const user: AuthUser = socket.data.user;
+    const playerId = user.playerId;
+    log(`Client connected: ${socket.id} as ${user.username} (transport: ${socket.conn.transport.name})`, 'socket');
     
     // Log handshake details
     log(`Client headers: ${JSON.stringify(socket.handshake.headers)}`, 'socket-debug');
@@ -40,29 +198,195 @@ export function setupWebSocketServer(server: HttpServer): void {
     // Send available rooms to new client
     socket.emit('rooms_update', gameManager.getPublicRooms());
 
+    // Answer the client with the result of an action.
+    // Rejections are sent through the acknowledgement, or as an error when the client didn't ask for one
+    const sendResult = (ack: ActionAck | undefined, result: ActionResult) => {
+      if (typeof ack === 'function') {
+        ack(result);
+      } else if (!result.ok) {
+        socket.emit(ActionType.ERROR, { message: result.message, reason: result.reason });
+      }
+    };
+
+    // Run a game action for this socket and answer the client with the result
+    const runGameAction = (
+      gameId: string | undefined,
+      ack: ActionAck | undefined,
+      description: string,
+      action: (game: TrucoGame) => ActionResult
+    ) => {
+      const game = gameId ? gameManager.getGame(gameId) : undefined;
+      const result: ActionResult = game
+        ? action(game)
+        : { ok: false, reason: RejectionReason.GAME_NOT_FOUND, message: 'Game not found' };
+      
+      if (result.ok) {
+        log(`Player ${user.username} ${description} in game ${gameId}`, 'game');
+      } else {
+        logDebug(`Rejected action from ${user.username} in game ${gameId}: ${result.reason}`, 'game');
+      }
+      
+      sendResult(ack, result);
+      return result;
+    };
+
+    // Only players seated in a game can change its seats
+    const isPlayerInGame = (game: TrucoGame) => 
+      game.gameState.players.some(p => p.id === playerId);
+    
+    const notInGame = (): ActionResult => 
+      ({ ok: false, reason: RejectionReason.NOT_IN_GAME, message: 'You are not part of this game' });
+
+    // Answer a malformed request
+    const rejectRequest = (ack: ActionAck | undefined, message: string) => {
+      const result: ActionResult = { ok: false, reason: RejectionReason.INVALID_REQUEST, message };
+      if (typeof ack === 'function') {
+        ack(result);
+      } else {
+        socket.emit(ActionType.ERROR, { message });
+      }
+    };
+
+    // Send the player a token for their seat, needed to take it back after losing the connection
+    const sendSeatToken = (game: TrucoGame) => {
+      const nonce = game.getSeatNonce(playerId);
+      if (!nonce) return;
+      
+      const gameId = game.gameState.id;
+      socket.emit('seat_token', { gameId, token: issueSeatToken(gameId, playerId, nonce) });
+    };
+    
+    // Send the players of a room its invite, so they can bring their friends to private rooms
+    const sendRoomInvite = (game: TrucoGame) => {
+      const invite = gameManager.getRoomInvite(game.gameState.id);
+      if (invite) socket.emit('room_invite', invite);
+    };
+    
+    // Seat the player in a game and join its room. Players who already have a seat
+    // must show the token issued for it; tokens from an earlier seat or another game are stale.
+    const seatPlayer = (game: TrucoGame, seatToken: unknown): ActionResult => {
+      const gameId = game.gameState.id;
+      
+      if (isPlayerInGame(game)) {
+        const seat = verifySeatToken(seatToken);
+        if (!seat || seat.gameId !== gameId || seat.playerId !== playerId || !game.hasSeat(playerId, seat.nonce)) {
+          return { ok: false, reason: RejectionReason.INVALID_SEAT_TOKEN, message: 'Seat token is invalid or expired' };
+        }
+        game.reconnectPlayer(playerId);
+      } else if (game.isKicked(playerId)) {
+        return { ok: false, reason: RejectionReason.KICKED, message: 'You were removed from this room' };
+      } else if (!game.canTakeSeat(playerId)) {
+        return { ok: false, reason: RejectionReason.TOURNAMENT_ROOM, message: 'Only the players of this match can sit here' };
+      } else if (game.isGameFull()) {
+        return { ok: false, reason: RejectionReason.INVALID_REQUEST, message: 'Game is full' };
+      } else if (!game.addPlayer(playerId, user.username)) {
+        return { ok: false, reason: RejectionReason.INVALID_REQUEST, message: 'Failed to join game' };
+      }
+      
+      socket.join(gameId);
+      socket.leave(getSpectatorRoom(gameId));
+      sendSeatToken(game);
+      sendRoomInvite(game);
+      return { ok: true };
+    };
+    
+    // Send the chat history a player or a spectator is allowed to see
+    const sendChatHistory = (game: TrucoGame, asSpectator: boolean) => {
+      game.getChatMessages()
+        .filter(message => asSpectator ? !message.isTeamOnly : !message.isSpectatorOnly)
+        .forEach(message => socket.emit('chat_message', message));
+    };
+
     // Get all available rooms
     socket.on('get_rooms', () => {
       socket.emit('rooms_update', gameManager.getPublicRooms());
     });
 
     // Create a new game
-    socket.on(ActionType.CREATE_GAME, (data: { username: string, roomName: string, mode: GameMode }) => {
+    socket.on(ActionType.CREATE_GAME, async (data: { 
+      roomName: string, 
+      mode: GameMode, 
+      ruleVariant?: RuleVariant,
+      visibility?: RoomVisibility,
+      password?: string,
+      botDifficulty?: BotDifficulty,
+      timerSettings?: TimerSettings,
+      targetScore?: number,
+      bestOf?: number,
+      ranked?: boolean,
+      dealSetup?: DealSetup
+    }) => {
       try {
-        const { username, roomName, mode } = data;
-        if (!username || !roomName) {
-          socket.emit(ActionType.ERROR, { message: 'Username and room name are required' });
+        const { roomName, mode, password, dealSetup } = data;
+        const ruleVariant = Object.values(RuleVariant).includes(data.ruleVariant as RuleVariant)
+          ? data.ruleVariant as RuleVariant
+          : RuleVariant.PAULISTA;
+        const visibility = ROOM_VISIBILITIES.includes(data.visibility as RoomVisibility)
+          ? data.visibility as RoomVisibility
+          : 'public';
+        if (!roomName) {
+          socket.emit(ActionType.ERROR, { message: 'Room name is required' });
           return;
         }
+        
+        const ranked = data.ranked === true;
+        if (ranked && (data.botDifficulty || dealSetup)) {
+          socket.emit(ActionType.ERROR, { 
+            message: 'Ranked games are only between players', 
+            reason: RejectionReason.RANKED_HUMANS_ONLY 
+          });
+          return;
+        }
+        
+        if (visibility === 'password' && (typeof password !== 'string' || !password || password.length > MAX_ROOM_PASSWORD_LENGTH)) {
+          socket.emit(ActionType.ERROR, { message: 'A room password of up to 50 characters is required' });
+          return;
+        }
+        
+        if (dealSetup) {
+          const playerCount = mode === GameMode.ONE_VS_ONE ? 2 : 4;
+          if (!TEST_DEALS_ENABLED) {
+            socket.emit(ActionType.ERROR, { message: 'Test deals are disabled on this server' });
+            return;
+          }
+          if (
+            (dealSetup.seed !== undefined && (typeof dealSetup.seed !== 'string' || dealSetup.seed.length > MAX_SEED_LENGTH)) ||
+            (dealSetup.deck && !isValidDeckScript(dealSetup.deck, ruleVariant, playerCount))
+          ) {
+            socket.emit(ActionType.ERROR, { message: 'Invalid test deal' });
+            return;
+          }
+        }
 
         // Create a new game
         const gameId = uuidv4();
-        const game = gameManager.createGame(gameId, mode, roomName);
+        const passwordHash = visibility === 'password' ? await hashPassword(password as string) : null;
+        const game = gameManager.createGame(
+          gameId, mode, roomName, ruleVariant, data.timerSettings, visibility, passwordHash
+        );
+        if (dealSetup) {
+          game.setDealSetup({ seed: dealSetup.seed || undefined, deck: dealSetup.deck });
+          log(`Game ${gameId} deals from seed "${dealSetup.seed ?? ''}"${dealSetup.deck ? ' with a scripted deck' : ''}`, 'game');
+        }
         
         // Add player to the game
-        game.addPlayer(socket.id, username);
+        game.addPlayer(playerId, user.username);
+        
+        // The creator hosts the room, so the other settings are theirs to choose
+        if (data.targetScore !== undefined || data.bestOf !== undefined || ranked) {
+          const result = game.updateSettings(playerId, { targetScore: data.targetScore, bestOf: data.bestOf, ranked });
+          if (!result.ok) log(`Game ${gameId} keeps its default settings: ${result.message}`, 'game');
+        }
+        
+        // Fill the other seats with bots when asked to
+        if (isBotDifficulty(data.botDifficulty)) {
+          game.fillWithBots(data.botDifficulty);
+        }
         
         // Join socket room
         socket.join(gameId);
+        sendSeatToken(game);
+        sendRoomInvite(game);
         
         // Notify client
         socket.emit('game_created', { gameId });
@@ -70,7 +394,7 @@ export function setupWebSocketServer(server: HttpServer): void {
         // Update available rooms
         io.emit('rooms_update', gameManager.getPublicRooms());
         
-        log(`Game created: ${gameId}, Mode: ${mode}, Created by: ${username}`, 'game');
+        log(`Game created: ${gameId}, Mode: ${mode}, Rules: ${ruleVariant}, ${visibility}${ranked ? ', ranked' : ''}, Created by: ${user.username}`, 'game');
       } catch (error) {
         socket.emit(ActionType.ERROR, { message: 'Failed to create game' });
         log(`Error creating game: ${error}`, 'error');
@@ -78,11 +402,11 @@ export function setupWebSocketServer(server: HttpServer): void {
     });
 
     // Join an existing game
-    socket.on(ActionType.JOIN_GAME, (data: { gameId: string, username: string }) => {
+    socket.on(ActionType.JOIN_GAME, async (data: { gameId: string, seatToken?: string } & RoomCredentials) => {
       try {
-        const { gameId, username } = data;
-        if (!gameId || !username) {
-          socket.emit(ActionType.ERROR, { message: 'Game ID and username are required' });
+        const { gameId, seatToken, inviteCode, password } = data;
+        if (!gameId) {
+          socket.emit(ActionType.ERROR, { message: 'Game ID is required' });
           return;
         }
 
@@ -93,41 +417,65 @@ export function setupWebSocketServer(server: HttpServer): void {
           return;
         }
 
-        // Check if game is full
-        if (game.isGameFull()) {
-          socket.emit(ActionType.ERROR, { message: 'Game is full' });
-          return;
-        }
-
-        // Add player to the game
-        const player = game.addPlayer(socket.id, username);
-        if (!player) {
-          socket.emit(ActionType.ERROR, { message: 'Failed to join game' });
+        // Players already seated (from another tab, or after losing the connection) get their seat back,
+        // new players need the invite code or password of a room that isn't public
+        const isSeated = isPlayerInGame(game);
+        const access = isSeated ? { ok: true } as const : await gameManager.checkRoomAccess(gameId, { inviteCode, password });
+        const result = access.ok ? seatPlayer(game, seatToken) : access;
+        if (!result.ok) {
+          socket.emit(ActionType.ERROR, { message: result.message, reason: result.reason });
           return;
         }
-
-        // Join socket room
-        socket.join(gameId);
         
         // Send current game state to new player
-        socket.emit(ActionType.GAME_UPDATE, game.gameState);
+        socket.emit(ActionType.GAME_UPDATE, createPlayerView(game.gameState, playerId));
         
         // Send chat history
-        const chatMessages = game.getChatMessages();
-        chatMessages.forEach(message => {
-          socket.emit('chat_message', message);
-        });
+        sendChatHistory(game, false);
         
         // Update available rooms
         io.emit('rooms_update', gameManager.getPublicRooms());
         
-        log(`Player ${username} (${socket.id}) joined game ${gameId}`, 'game');
+        log(`Player ${user.username} (${socket.id}) ${isSeated ? 'rejoined' : 'joined'} game ${gameId}`, 'game');
       } catch (error) {
         socket.emit(ActionType.ERROR, { message: 'Failed to join game' });
         log(`Error joining game: ${error}`, 'error');
       }
     });
 
+    // Watch a game without taking a seat
+    socket.on(ActionType.WATCH_GAME, async (data: { gameId: string } & RoomCredentials) => {
+      try {
+        const gameId = data?.gameId;
+        const game = gameId ? gameManager.getGame(gameId) : undefined;
+        if (!game) {
+          socket.emit(ActionType.ERROR, { message: 'Game not found', reason: RejectionReason.GAME_NOT_FOUND });
+          return;
+        }
+        
+        // Rooms that aren't public can only be watched with their invite code or password
+        const access = await gameManager.checkRoomAccess(gameId, { inviteCode: data.inviteCode, password: data.password });
+        const result = access.ok ? game.addSpectator(playerId, user.username) : access;
+        if (!result.ok) {
+          socket.emit(ActionType.ERROR, { message: result.message, reason: result.reason });
+          return;
+        }
+        
+        socket.join(gameId);
+        socket.join(getSpectatorRoom(gameId));
+        
+        // Nobody is seated as the spectator, so every hand is hidden in their view
+        socket.emit(ActionType.GAME_UPDATE, createPlayerView(game.gameState, playerId));
+        sendChatHistory(game, true);
+        io.emit('rooms_update', gameManager.getPublicRooms());
+        
+        log(`${user.username} (${socket.id}) is watching game ${gameId}`, 'game');
+      } catch (error) {
+        socket.emit(ActionType.ERROR, { message: 'Failed to watch game' });
+        log(`Error watching game: ${error}`, 'error');
+      }
+    });
+
     // Leave game
     socket.on(ActionType.LEAVE_GAME, (data: { gameId: string }) => {
       try {
@@ -138,21 +486,31 @@ export function setupWebSocketServer(server: HttpServer): void {
         const game = gameManager.getGame(gameId);
         if (!game) return;
 
+        // Spectators just stop watching
+        if (game.isSpectator(playerId)) {
+          game.removeSpectator(playerId);
+          socket.leave(gameId);
+          socket.leave(getSpectatorRoom(gameId));
+          io.emit('rooms_update', gameManager.getPublicRooms());
+          log(`${user.username} stopped watching game ${gameId}`, 'game');
+          return;
+        }
+
         // Remove player from the game
-        game.removePlayer(socket.id);
+        game.removePlayer(playerId);
         
         // Leave socket room
         socket.leave(gameId);
         
-        // If game is empty, remove it
-        if (game.getPlayerCount() === 0) {
+        // If no humans are left (only bots), remove it
+        if (game.getConnectedPlayerCount() === 0) {
           gameManager.removeGame(gameId);
         }
         
         // Update available rooms
         io.emit('rooms_update', gameManager.getPublicRooms());
         
-        log(`Player ${socket.id} left game ${gameId}`, 'game');
+        log(`Player ${user.username} left game ${gameId}`, 'game');
       } catch (error) {
         log(`Error leaving game: ${error}`, 'error');
       }
@@ -167,94 +525,308 @@ export function setupWebSocketServer(server: HttpServer): void {
         const game = gameManager.getGame(gameId);
         if (!game) return;
 
-        game.setPlayerReady(socket.id);
-        log(`Player ${socket.id} ready in game ${gameId}`, 'game');
+        game.setPlayerReady(playerId);
+        log(`Player ${user.username} ready in game ${gameId}`, 'game');
       } catch (error) {
         log(`Error setting player ready: ${error}`, 'error');
       }
     });
 
     // Start game
-    socket.on(ActionType.START_GAME, (data: { gameId: string }) => {
+    socket.on(ActionType.START_GAME, (data: { gameId: string }, ack?: ActionAck) => {
       try {
-        const { gameId } = data;
-        if (!gameId) return;
-
-        const game = gameManager.getGame(gameId);
-        if (!game) return;
-
-        game.startGame();
+        const result = runGameAction(data?.gameId, ack, 'started the game', game => game.startGame(playerId));
         
         // Update available rooms (game is now in progress)
+        if (result.ok) {
+          io.emit('rooms_update', gameManager.getPublicRooms());
+        }
+      } catch (error) {
+        log(`Error starting game: ${error}`, 'error');
+      }
+    });
+
+    // Host actions
+    socket.on(ActionType.KICK_PLAYER, (data: { gameId: string, playerId: string }, ack?: ActionAck) => {
+      try {
+        const targetId = data?.playerId;
+        if (typeof targetId !== 'string') {
+          rejectRequest(ack, 'A player is required');
+          return;
+        }
+        
+        const result = runGameAction(data.gameId, ack, `removed ${targetId}`, game => game.kickPlayer(playerId, targetId));
+        if (!result.ok) return;
+        
+        // The removed player's tabs leave the room and go back to the lobby
+        Array.from(io.sockets.adapter.rooms.get(data.gameId) ?? [])
+          .map(socketId => io.sockets.sockets.get(socketId))
+          .filter(target => target?.data.user?.playerId === targetId)
+          .forEach(target => {
+            target?.leave(data.gameId);
+            target?.emit('kicked', { gameId: data.gameId });
+          });
         io.emit('rooms_update', gameManager.getPublicRooms());
+      } catch (error) {
+        log(`Error removing player: ${error}`, 'error');
+      }
+    });
+
+    socket.on(ActionType.TRANSFER_HOST, (data: { gameId: string, playerId: string }, ack?: ActionAck) => {
+      try {
+        const targetId = data?.playerId;
+        if (typeof targetId !== 'string') {
+          rejectRequest(ack, 'A player is required');
+          return;
+        }
+        runGameAction(data.gameId, ack, `handed the room to ${targetId}`, game => game.transferHost(playerId, targetId));
+      } catch (error) {
+        log(`Error transferring host: ${error}`, 'error');
+      }
+    });
+
+    socket.on(ActionType.UPDATE_SETTINGS, (data: { gameId: string, settings: Partial<RoomSettings> }, ack?: ActionAck) => {
+      try {
+        if (!data?.settings || typeof data.settings !== 'object') {
+          rejectRequest(ack, 'Settings are required');
+          return;
+        }
+        
+        const result = runGameAction(data.gameId, ack, 'changed the room settings', 
+          game => game.updateSettings(playerId, data.settings));
         
-        log(`Game ${gameId} started`, 'game');
+        // The lobby shows the mode and rules of each room
+        if (result.ok) {
+          io.emit('rooms_update', gameManager.getPublicRooms());
+        }
       } catch (error) {
-        log(`Error starting game: ${error}`, 'error');
+        log(`Error updating settings: ${error}`, 'error');
       }
     });
 
-    // Play card
-    socket.on(ActionType.PLAY_CARD, (data: { gameId: string, cardId: string }) => {
+    socket.on(ActionType.FORCE_START, (data: { gameId: string, botDifficulty: BotDifficulty }, ack?: ActionAck) => {
       try {
-        const { gameId, cardId } = data;
-        if (!gameId || !cardId) return;
+        if (!isBotDifficulty(data?.botDifficulty)) {
+          rejectRequest(ack, 'Invalid bot difficulty');
+          return;
+        }
+        
+        const result = runGameAction(data.gameId, ack, 'started the game with bots', 
+          game => game.forceStart(playerId, data.botDifficulty));
+        if (result.ok) {
+          io.emit('rooms_update', gameManager.getPublicRooms());
+        }
+      } catch (error) {
+        log(`Error force starting game: ${error}`, 'error');
+      }
+    });
 
-        const game = gameManager.getGame(gameId);
-        if (!game) return;
+    // Move to another seat, or ask the player sitting there to trade places
+    socket.on(ActionType.CHOOSE_SEAT, (data: { gameId: string, seat: number }, ack?: ActionAck) => {
+      try {
+        if (typeof data?.seat !== 'number') {
+          rejectRequest(ack, 'A seat is required');
+          return;
+        }
+        runGameAction(data.gameId, ack, `chose seat ${data.seat}`, game => game.chooseSeat(playerId, data.seat));
+      } catch (error) {
+        log(`Error choosing seat: ${error}`, 'error');
+      }
+    });
 
-        game.playCard(socket.id, cardId);
-        log(`Player ${socket.id} played card ${cardId} in game ${gameId}`, 'game');
+    socket.on(ActionType.ANSWER_SEAT_SWAP, (data: { gameId: string, accept: boolean }, ack?: ActionAck) => {
+      try {
+        const accept = Boolean(data?.accept);
+        runGameAction(data?.gameId, ack, `${accept ? 'accepted' : 'refused'} a seat trade`,
+          game => game.answerSeatSwap(playerId, accept));
       } catch (error) {
-        log(`Error playing card: ${error}`, 'error');
+        log(`Error answering seat trade: ${error}`, 'error');
       }
     });
 
-    // Request truco
-    socket.on(ActionType.REQUEST_TRUCO, (data: { gameId: string }) => {
+    socket.on(ActionType.LOCK_SEATS, (data: { gameId: string, locked: boolean }, ack?: ActionAck) => {
       try {
-        const { gameId } = data;
-        if (!gameId) return;
+        const locked = Boolean(data?.locked);
+        runGameAction(data?.gameId, ack, `${locked ? 'locked' : 'unlocked'} the seats`,
+          game => game.setSeatsLocked(playerId, locked));
+      } catch (error) {
+        log(`Error locking seats: ${error}`, 'error');
+      }
+    });
 
-        const game = gameManager.getGame(gameId);
-        if (!game) return;
+    // Add a bot to a seat
+    socket.on(ActionType.ADD_BOT, (
+      data: { gameId: string, difficulty: BotDifficulty, team?: 'A' | 'B' }, 
+      ack?: ActionAck
+    ) => {
+      try {
+        const { gameId, difficulty, team } = data ?? {};
+        if (!isBotDifficulty(difficulty) || (team !== undefined && team !== 'A' && team !== 'B')) {
+          rejectRequest(ack, 'Invalid bot settings');
+          return;
+        }
 
-        game.requestTruco(socket.id);
-        log(`Player ${socket.id} requested truco in game ${gameId}`, 'game');
+        runGameAction(gameId, ack, `added a ${difficulty} bot`, game => 
+          isPlayerInGame(game) ? game.addBot(difficulty, team) : notInGame()
+        );
+        io.emit('rooms_update', gameManager.getPublicRooms());
       } catch (error) {
-        log(`Error requesting truco: ${error}`, 'error');
+        log(`Error adding bot: ${error}`, 'error');
       }
     });
 
-    // Accept truco
-    socket.on(ActionType.ACCEPT_TRUCO, (data: { gameId: string }) => {
+    // Remove a bot before the game starts
+    socket.on(ActionType.REMOVE_BOT, (data: { gameId: string, botId: string }, ack?: ActionAck) => {
       try {
-        const { gameId } = data;
-        if (!gameId) return;
+        const { gameId, botId } = data ?? {};
+        runGameAction(gameId, ack, `removed bot ${botId}`, game => 
+          isPlayerInGame(game) ? game.removeBot(botId) : notInGame()
+        );
+        io.emit('rooms_update', gameManager.getPublicRooms());
+      } catch (error) {
+        log(`Error removing bot: ${error}`, 'error');
+      }
+    });
 
-        const game = gameManager.getGame(gameId);
-        if (!game) return;
+    // Fill the empty seats with bots (practice puts the humans on the same team)
+    socket.on(ActionType.FILL_WITH_BOTS, (
+      data: { gameId: string, difficulty: BotDifficulty, practice?: boolean }, 
+      ack?: ActionAck
+    ) => {
+      try {
+        const { gameId, difficulty, practice } = data ?? {};
+        if (!isBotDifficulty(difficulty)) {
+          rejectRequest(ack, 'Invalid bot difficulty');
+          return;
+        }
+
+        runGameAction(gameId, ack, `filled the game with ${difficulty} bots`, game => 
+          isPlayerInGame(game) ? game.fillWithBots(difficulty, Boolean(practice)) : notInGame()
+        );
+        io.emit('rooms_update', gameManager.getPublicRooms());
+      } catch (error) {
+        log(`Error filling game with bots: ${error}`, 'error');
+      }
+    });
+
+    // Play card (by index when playing blind in the mão de ferro)
+    socket.on(ActionType.PLAY_CARD, (
+      data: { gameId: string, cardId?: string, cardIndex?: number }, 
+      ack?: ActionAck
+    ) => {
+      try {
+        const { gameId, cardId, cardIndex } = data ?? {};
+        if (!cardId && typeof cardIndex !== 'number') {
+          rejectRequest(ack, 'A card is required');
+          return;
+        }
+
+        runGameAction(gameId, ack, `played card ${cardId ?? `#${cardIndex}`}`, game =>
+          cardId ? game.playCard(playerId, cardId) : game.playBlindCard(playerId, cardIndex as number)
+        );
+      } catch (error) {
+        log(`Error playing card: ${error}`, 'error');
+      }
+    });
+
+    // Request truco
+    socket.on(ActionType.REQUEST_TRUCO, (data: { gameId: string }, ack?: ActionAck) => {
+      try {
+        runGameAction(data?.gameId, ack, 'requested truco', game => game.requestTruco(playerId));
+      } catch (error) {
+        log(`Error requesting truco: ${error}`, 'error');
+      }
+    });
 
-        game.acceptTruco();
-        log(`Player ${socket.id} accepted truco in game ${gameId}`, 'game');
+    // Accept truco
+    socket.on(ActionType.ACCEPT_TRUCO, (data: { gameId: string }, ack?: ActionAck) => {
+      try {
+        runGameAction(data?.gameId, ack, 'accepted truco', game => game.acceptTruco(playerId));
       } catch (error) {
         log(`Error accepting truco: ${error}`, 'error');
       }
     });
 
     // Decline truco
-    socket.on(ActionType.DECLINE_TRUCO, (data: { gameId: string }) => {
+    socket.on(ActionType.DECLINE_TRUCO, (data: { gameId: string }, ack?: ActionAck) => {
       try {
-        const { gameId } = data;
-        if (!gameId) return;
+        runGameAction(data?.gameId, ack, 'declined truco', game => game.declineTruco(playerId));
+      } catch (error) {
+        log(`Error declining truco: ${error}`, 'error');
+      }
+    });
 
-        const game = gameManager.getGame(gameId);
-        if (!game) return;
+    // Play the mão de onze
+    socket.on(ActionType.PLAY_HAND_OF_ELEVEN, (data: { gameId: string }, ack?: ActionAck) => {
+      try {
+        runGameAction(data?.gameId, ack, 'played the mão de onze', game => game.playHandOfEleven(playerId));
+      } catch (error) {
+        log(`Error playing mão de onze: ${error}`, 'error');
+      }
+    });
+
+    // Fold the mão de onze
+    socket.on(ActionType.FOLD_HAND_OF_ELEVEN, (data: { gameId: string }, ack?: ActionAck) => {
+      try {
+        runGameAction(data?.gameId, ack, 'folded the mão de onze', game => game.foldHandOfEleven(playerId));
+      } catch (error) {
+        log(`Error folding mão de onze: ${error}`, 'error');
+      }
+    });
+
+    // Call envido, real envido, falta envido, flor or contraflor
+    socket.on(ActionType.CALL_ENVIDO, (data: { gameId: string, call: EnvidoCall }, ack?: ActionAck) => {
+      try {
+        const { gameId, call } = data ?? {};
+        if (!Object.values(EnvidoCall).includes(call)) {
+          rejectRequest(ack, 'Unknown envido call');
+          return;
+        }
 
-        game.declineTruco();
-        log(`Player ${socket.id} declined truco in game ${gameId}`, 'game');
+        runGameAction(gameId, ack, `called ${call}`, game => game.callEnvido(playerId, call));
       } catch (error) {
-        log(`Error declining truco: ${error}`, 'error');
+        log(`Error calling envido: ${error}`, 'error');
+      }
+    });
+
+    // Accept envido
+    socket.on(ActionType.ACCEPT_ENVIDO, (data: { gameId: string }, ack?: ActionAck) => {
+      try {
+        runGameAction(data?.gameId, ack, 'accepted envido', game => game.acceptEnvido(playerId));
+      } catch (error) {
+        log(`Error accepting envido: ${error}`, 'error');
+      }
+    });
+
+    // Decline envido
+    socket.on(ActionType.DECLINE_ENVIDO, (data: { gameId: string }, ack?: ActionAck) => {
+      try {
+        runGameAction(data?.gameId, ack, 'declined envido', game => game.declineEnvido(playerId));
+      } catch (error) {
+        log(`Error declining envido: ${error}`, 'error');
+      }
+    });
+
+    // Declare envido points (or "son buenas")
+    socket.on(ActionType.DECLARE_ENVIDO, (data: { gameId: string, sonBuenas?: boolean }, ack?: ActionAck) => {
+      try {
+        const sonBuenas = Boolean(data?.sonBuenas);
+        runGameAction(data?.gameId, ack, 'declared envido', game => game.declareEnvido(playerId, sonBuenas));
+      } catch (error) {
+        log(`Error declaring envido: ${error}`, 'error');
+      }
+    });
+
+    // Post-game analysis of the cards played, for the players and spectators of a finished game
+    socket.on(ActionType.GET_ANALYSIS, async (data: { gameId: string }, ack?: (analysis: PlayerAnalysis[]) => void) => {
+      try {
+        const game = data?.gameId ? gameManager.getGame(data.gameId) : undefined;
+        if (!game || typeof ack !== 'function') return;
+
+        const analysis = await game.getGameAnalysis(playerId);
+        if (analysis) ack(analysis);
+      } catch (error) {
+        log(`Error getting game analysis: ${error}`, 'error');
       }
     });
 
@@ -265,32 +837,137 @@ export function setupWebSocketServer(server: HttpServer): void {
         if (!gameId || !content) return;
 
         const game = gameManager.getGame(gameId);
-        if (!game) return;
+        if (!game || (!isPlayerInGame(game) && !game.isSpectator(playerId))) return;
 
-        const message = game.addChatMessage(socket.id, content, isTeamOnly);
+        const message = game.addChatMessage(playerId, content, isTeamOnly);
         
-        // Send to all players in the game
-        io.to(gameId).emit('chat_message', message);
+        // Spectator messages only go to spectators, and spectators don't get the teams' messages
+        if (message.isSpectatorOnly) {
+          io.to(getSpectatorRoom(gameId)).emit('chat_message', message);
+        } else if (message.isTeamOnly) {
+          io.to(gameId).except(getSpectatorRoom(gameId)).emit('chat_message', message);
+        } else {
+          io.to(gameId).emit('chat_message', message);
+        }
         
-        log(`Chat in game ${gameId}: ${socket.id}: ${content}`, 'chat');
+        log(`Chat in game ${gameId}: ${user.username}: ${content}`, 'chat');
       } catch (error) {
         log(`Error sending chat: ${error}`, 'error');
       }
     });
 
     // Start new round after round is over
-    socket.on('start_new_round', (data: { gameId: string }) => {
+    socket.on('start_new_round', (data: { gameId: string }, ack?: ActionAck) => {
       try {
-        const { gameId } = data;
-        if (!gameId) return;
+        runGameAction(data?.gameId, ack, 'started a new round', game => game.startNewRound(playerId));
+      } catch (error) {
+        log(`Error starting new round: ${error}`, 'error');
+      }
+    });
 
-        const game = gameManager.getGame(gameId);
-        if (!game) return;
+    // A player's random nonce, mixed into the seed of the next deal
+    socket.on(ActionType.SEND_DEAL_NONCE, (data: { gameId: string, nonce: string }, ack?: ActionAck) => {
+      try {
+        runGameAction(data?.gameId, ack, 'sent a deal nonce', game => game.setDealNonce(playerId, data?.nonce));
+      } catch (error) {
+        log(`Error sending deal nonce: ${error}`, 'error');
+      }
+    });
 
-        game.startNewRound();
-        log(`New round started in game ${gameId}`, 'game');
+    // Look for a game through the queue, alone or (in 2v2) with a partner, who is asked first
+    socket.on(ActionType.JOIN_QUEUE, async (data: { mode: GameMode, partner?: string }, ack?: ActionAck) => {
+      try {
+        const mode = data?.mode;
+        const partnerName = typeof data?.partner === 'string' ? data.partner.trim() : '';
+        if (!isGameMode(mode) || (partnerName && mode !== GameMode.TWO_VS_TWO)) {
+          rejectRequest(ack, 'Invalid queue settings');
+          return;
+        }
+        
+        const player = await getQueuedPlayer(playerId, user.username, mode);
+        if (!partnerName) {
+          sendResult(ack, matchmaker.join(mode, [player]));
+          return;
+        }
+        
+        // Only a partner who is online can answer the invite
+        const partnerUser = await storage.getUserByUsername(partnerName);
+        const partnerId = partnerUser ? toAuthUser(partnerUser).playerId : null;
+        if (!partnerUser || !partnerId || getPlayerSockets(partnerId).length === 0) {
+          sendResult(ack, { ok: false, reason: RejectionReason.PARTNER_UNAVAILABLE, message: `${partnerName} is not online` });
+          return;
+        }
+        
+        const partner = await getQueuedPlayer(partnerId, partnerUser.username, mode);
+        sendResult(ack, matchmaker.inviteDuo(player, partner));
       } catch (error) {
-        log(`Error starting new round: ${error}`, 'error');
+        log(`Error joining the queue: ${error}`, 'error');
+      }
+    });
+    
+    socket.on(ActionType.LEAVE_QUEUE, (_data: unknown, ack?: ActionAck) => {
+      try {
+        matchmaker.leave(playerId);
+        sendResult(ack, { ok: true });
+      } catch (error) {
+        log(`Error leaving the queue: ${error}`, 'error');
+      }
+    });
+    
+    socket.on(ActionType.ANSWER_DUO_INVITE, (data: { accept: boolean }, ack?: ActionAck) => {
+      try {
+        sendResult(ack, matchmaker.answerDuoInvite(playerId, Boolean(data?.accept)));
+      } catch (error) {
+        log(`Error answering duo invite: ${error}`, 'error');
+      }
+    });
+    
+    // Answer the ready check of a match found by the queue
+    socket.on(ActionType.ACCEPT_MATCH, (data: { matchId: string }, ack?: ActionAck) => {
+      try {
+        if (typeof data?.matchId !== 'string') {
+          rejectRequest(ack, 'A match is required');
+          return;
+        }
+        sendResult(ack, matchmaker.acceptMatch(playerId, data.matchId));
+      } catch (error) {
+        log(`Error accepting match: ${error}`, 'error');
+      }
+    });
+    
+    socket.on(ActionType.DECLINE_MATCH, (data: { matchId: string }, ack?: ActionAck) => {
+      try {
+        if (typeof data?.matchId !== 'string') {
+          rejectRequest(ack, 'A match is required');
+          return;
+        }
+        sendResult(ack, matchmaker.declineMatch(playerId, data.matchId));
+      } catch (error) {
+        log(`Error declining match: ${error}`, 'error');
+      }
+    });
+
+    // Enter the room of the player's tournament match; the ack carries the game to open
+    socket.on(ActionType.JOIN_TOURNAMENT_MATCH, (
+      data: { tournamentId: string; matchId: string },
+      ack?: (result: ActionResult, gameId?: string) => void
+    ) => {
+      try {
+        if (typeof data?.tournamentId !== 'string' || typeof data?.matchId !== 'string') {
+          rejectRequest(ack, 'A tournament match is required');
+          return;
+        }
+
+        const joined = tournamentManager.joinMatch(data.tournamentId, data.matchId, playerId);
+        if (!joined.ok) {
+          sendResult(ack, joined);
+          return;
+        }
+
+        sendSeatToken(joined.game);
+        if (typeof ack === 'function') ack({ ok: true }, joined.game.gameState.id);
+      } catch (error) {
+        log(`Error joining tournament match: ${error}`, 'error');
       }
     });
 
@@ -304,29 +981,37 @@ export function setupWebSocketServer(server: HttpServer): void {
           log(`Transport issue: ${socket.conn.transport.name}, readyState: ${socket.conn.readyState}`, 'socket-debug');
         }
         
-        // Find all games this player is in
-        const playerGames = gameManager.getGamesByPlayerId(socket.id);
+        // Find all games this player is in, unless they still have them open in another tab
+        const isOpenElsewhere = (gameId: string) => 
+          Array.from(io.sockets.adapter.rooms.get(gameId) ?? [])
+            .some(socketId => getSocketUser(socketId)?.playerId === playerId);
+        const playerGames = gameManager.getGamesByPlayerId(playerId)
+          .filter(game => !isOpenElsewhere(game.gameState.id));
         
         // Mark player as disconnected but don't remove immediately
         // This allows players to reconnect to their games
         playerGames.forEach(game => {
           // Only mark disconnected, don't remove immediately
-          game.markPlayerDisconnected(socket.id);
+          game.markPlayerDisconnected(playerId);
           
           // If game is empty (all players disconnected), remove it after timeout
           if (game.getConnectedPlayerCount() === 0) {
-            setTimeout(() => {
-              // Double check if still empty after timeout
-              if (game.getConnectedPlayerCount() === 0) {
-                gameManager.removeGame(game.gameState.id);
-                io.emit('rooms_update', gameManager.getPublicRooms());
-              }
-            }, 60000); // 1 minute timeout to remove empty games
+            scheduleEmptyGameRemoval(game, EMPTY_GAME_TIMEOUT_MS);
           }
         });
         
+        // Spectators stop watching when their last tab is closed
+        const watchedGames = gameManager.getAllGames()
+          .filter(game => game.isSpectator(playerId) && !isOpenElsewhere(game.gameState.id));
+        watchedGames.forEach(game => game.removeSpectator(playerId));
+        
+        // Players stop looking for a game when their last tab is closed
+        if (getPlayerSockets(playerId).every(other => other === socket)) {
+          matchmaker.leave(playerId);
+        }
+        
         // Update available rooms
-        if (playerGames.length > 0) {
+        if (playerGames.length > 0 || watchedGames.length > 0) {
           io.emit('rooms_update', gameManager.getPublicRooms());
         }
       } catch (error) {
@@ -335,11 +1020,11 @@ export function setupWebSocketServer(server: HttpServer): void {
     });
     
     // Handle reconnection
-    socket.on('reconnect_game', (data: { username: string, gameId: string }) => {
+    socket.on('reconnect_game', async (data: { gameId: string, seatToken?: string }) => {
       try {
-        const { username, gameId } = data;
-        if (!username || !gameId) {
-          socket.emit(ActionType.ERROR, { message: 'Username and game ID are required' });
+        const { gameId, seatToken } = data;
+        if (!gameId) {
+          socket.emit(ActionType.ERROR, { message: 'Game ID is required' });
           return;
         }
         
@@ -350,36 +1035,28 @@ export function setupWebSocketServer(server: HttpServer): void {
           return;
         }
         
-        // Try to reconnect player
-        const reconnected = game.reconnectPlayer(socket.id, username);
-        if (!reconnected) {
-          // If player wasn't previously in the game, try to add them as new
-          const player = game.addPlayer(socket.id, username);
-          if (!player) {
-            socket.emit(ActionType.ERROR, { message: 'Failed to join game' });
-            return;
-          }
+        // Try to reconnect player (if they weren't previously in the game, they are added as new,
+        // which needs no invite only in public rooms)
+        const access = isPlayerInGame(game) ? { ok: true } as const : await gameManager.checkRoomAccess(gameId);
+        const result = access.ok ? seatPlayer(game, seatToken) : access;
+        if (!result.ok) {
+          socket.emit(ActionType.ERROR, { message: result.message, reason: result.reason });
+          return;
         }
         
-        // Join socket room
-        socket.join(gameId);
-        
         // Send current game state to reconnected player
-        socket.emit(ActionType.GAME_UPDATE, game.gameState);
+        socket.emit(ActionType.GAME_UPDATE, createPlayerView(game.gameState, playerId));
         
         // Send chat history
-        const chatMessages = game.getChatMessages();
-        chatMessages.forEach(message => {
-          socket.emit('chat_message', message);
-        });
+        sendChatHistory(game, false);
         
         // Update all clients about the reconnection
-        io.to(gameId).emit(ActionType.GAME_UPDATE, game.gameState);
+        emitGameState(gameId, game.gameState);
         
         // Update available rooms
         io.emit('rooms_update', gameManager.getPublicRooms());
         
-        log(`Player ${username} (${socket.id}) reconnected to game ${gameId}`, 'game');
+        log(`Player ${user.username} (${socket.id}) reconnected to game ${gameId}`, 'game');
       } catch (error) {
         socket.emit(ActionType.ERROR, { message: 'Failed to reconnect to game' });
         log(`Error reconnecting to game: ${error}`, 'error');
@@ -388,7 +1065,51 @@ export function setupWebSocketServer(server: HttpServer): void {
   });
 
   // Set up game events
-  gameManager.on('game_update', (gameId, gameState) => {
-    io.to(gameId).emit(ActionType.GAME_UPDATE, gameState);
+  gameManager.on('game_update', (gameId: string, gameState: GameState) => {
+    emitGameState(gameId, gameState);
+  });
+  
+  // Tell the players in the queue about their place in it and the matches found for them
+  const emitToMatch = (match: QueueMatch, event: string, data: unknown) =>
+    match.teams.flat().forEach(player => emitToPlayer(player.playerId, event, data));
+  
+  matchmaker.on('queue_update', (playerId: string, status: QueueStatus | null) => {
+    emitToPlayer(playerId, 'queue_status', status);
+  });
+  
+  matchmaker.on('duo_invite', (invite: DuoInvite) => {
+    emitToPlayer(invite.partner.playerId, 'duo_invite', { from: invite.inviter.username });
+  });
+  
+  matchmaker.on('duo_declined', (invite: DuoInvite) => {
+    emitToPlayer(invite.inviter.playerId, 'duo_declined', { username: invite.partner.username });
+  });
+  
+  matchmaker.on('duo_invite_cancelled', (invite: DuoInvite) => {
+    emitToPlayer(invite.inviter.playerId, 'duo_invite_cancelled');
+    emitToPlayer(invite.partner.playerId, 'duo_invite_cancelled');
+  });
+  
+  matchmaker.on('ready_check', (match: QueueMatch) => {
+    emitToMatch(match, 'ready_check', matchmaker.getReadyCheck(match));
+  });
+  
+  matchmaker.on('match_cancelled', (match: QueueMatch, declined: QueuedPlayer[]) => {
+    emitToMatch(match, 'ready_check_cancelled', { declined: declined.map(player => player.username) });
+  });
+  
+  matchmaker.on('match_ready', startQueueMatch);
+
+  // Brackets change for everyone following the tournament
+  tournamentManager.on('tournament_update', (tournament: Tournament) => {
+    io.emit('tournament_update', tournament);
+  });
+
+  tournamentManager.on('tournament_invite', (tournament: Tournament, invite: TournamentInvite) => {
+    emitToPlayer(invite.partner.playerId, 'tournament_invite', {
+      tournamentId: tournament.id,
+      tournamentName: tournament.name,
+      from: invite.inviter.username
+    });
   });
 }
@@ -0,0 +1,53 @@
+import { Card, CardValue, Suit, RuleVariant } from './types';
+import { getRuleSet } from './ruleSets';
+import { createRandom } from './random';
+
+/**
+ * Id of a card, the same in every deck (e.g. 'hearts-7')
+ */
+export function getCardId(suit: Suit, value: CardValue): string {
+  return `${suit}-${value}`;
+}
+
+/**
+ * Create a full deck of cards for the truco game
+ */
+export function createDeck(variant: RuleVariant = RuleVariant.PAULISTA): Card[] {
+  const deck: Card[] = [];
+  const suits = Object.values(Suit);
+  const values = getRuleSet(variant).deckValues;
+  
+  for (const suit of suits) {
+    for (const value of values) {
+      deck.push({
+        suit,
+        value,
+        id: getCardId(suit, value)
+      });
+    }
+  }
+  
+  return deck;
+}
+
+/**
+ * Shuffle an array of cards using Fisher-Yates algorithm.
+ * A seeded random function gives the same order every time.
+ */
+export function shuffleDeck(deck: Card[], random: () => number = Math.random): Card[] {
+  const shuffled = [...deck];
+  
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  
+  return shuffled;
+}
+
+/**
+ * Create the deck of a round, shuffled from its seed
+ */
+export function createShuffledDeck(variant: RuleVariant, seed: string): Card[] {
+  return shuffleDeck(createDeck(variant), createRandom(seed));
+}
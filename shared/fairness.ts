@@ -0,0 +1,118 @@
+import { Card, DealCommitment, DealNonce, DealReveal, RuleVariant } from './types';
+import { createShuffledDeck } from './deck';
+import { getRuleSet } from './ruleSets';
+
+// Commit-reveal for the deck of each round.
+// When the cards are dealt the server publishes a hash of the seed and the shuffled deck,
+// and reveals both once the round is over, so anyone can check the deal wasn't changed
+// during the round and that the deck is the one the seed shuffles to.
+// So the server can't pick the seed alone, it publishes the hash of its own seed before
+// each deal, the players answer with random nonces, and the deck is shuffled from both.
+
+// What happened in the round from a player's point of view, to check against the revealed deck
+export interface ObservedDeal {
+  ruleVariant: RuleVariant;
+  seat?: number; // Seat of the player checking the deal
+  hand?: Card[]; // Cards the player was dealt (unknown in the mão de ferro)
+  vira?: Card | null;
+  nextSeedHash?: string | null; // Server seed hash published before the deal
+  playerId?: string; // The player checking the deal
+  nonce?: string; // Nonce the player sent for the deal
+}
+
+export interface DealVerification {
+  hashMatches: boolean; // The revealed seed and deck are the ones committed to
+  shuffleMatches: boolean; // The deck is the seed's shuffle (test games may stack it)
+  handMatches: boolean | null; // The player's hand was dealt from the deck (null when unknown)
+  viraMatches: boolean | null;
+  seedMatches: boolean | null; // The seed was mixed from the committed server seed (null when dealt from a fixed seed)
+  nonceIncluded: boolean | null; // The player's nonce went into the seed (null when they sent none)
+  ok: boolean;
+}
+
+/**
+ * The text that is hashed for a commitment
+ */
+export function getDealCommitmentPayload(seed: string, deck: string[]): string {
+  return `${seed}:${deck.join(',')}`;
+}
+
+/**
+ * The seed a deck is shuffled from: the server's seed and the players' nonces, in order
+ */
+export function mixDealSeed(serverSeed: string, nonces: DealNonce[]): string {
+  return [serverSeed, ...nonces.map(n => `${n.playerId}=${n.nonce}`)].join(':');
+}
+
+/**
+ * SHA-256 of a text, hex encoded (uses Web Crypto, available in browsers and Node)
+ */
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of a deal, hex encoded
+ */
+export async function hashDeal(seed: string, deck: string[]): Promise<string> {
+  return sha256(getDealCommitmentPayload(seed, deck));
+}
+
+/**
+ * SHA-256 of a server seed, as published before the deal
+ */
+export async function hashServerSeed(serverSeed: string): Promise<string> {
+  return sha256(serverSeed);
+}
+
+/**
+ * Check a revealed deal against its commitment and against what the player saw
+ */
+export async function verifyDeal(
+  commitment: DealCommitment,
+  reveal: DealReveal,
+  observed: ObservedDeal
+): Promise<DealVerification> {
+  const hashMatches = commitment.roundNumber === reveal.roundNumber &&
+    commitment.hash === await hashDeal(reveal.seed, reveal.deck);
+
+  const shuffled = createShuffledDeck(observed.ruleVariant, reveal.seed).map(card => card.id);
+  const shuffleMatches = shuffled.length === reveal.deck.length &&
+    shuffled.every((id, index) => id === reveal.deck[index]);
+
+  // Hands are dealt three cards at a time from the top, the vira is the bottom card
+  let handMatches: boolean | null = null;
+  if (observed.hand && observed.seat !== undefined) {
+    const dealt = reveal.deck.slice(observed.seat * 3, observed.seat * 3 + 3);
+    handMatches = observed.hand.length === dealt.length &&
+      observed.hand.every(card => dealt.includes(card.id));
+  }
+
+  let viraMatches: boolean | null = null;
+  if (observed.vira !== undefined && getRuleSet(observed.ruleVariant).usesVira) {
+    viraMatches = observed.vira?.id === reveal.deck[reveal.deck.length - 1];
+  }
+
+  let seedMatches: boolean | null = null;
+  let nonceIncluded: boolean | null = null;
+  if (reveal.serverSeed !== undefined) {
+    const nonces = reveal.nonces ?? [];
+    seedMatches = mixDealSeed(reveal.serverSeed, nonces) === reveal.seed &&
+      (!observed.nextSeedHash || observed.nextSeedHash === await hashServerSeed(reveal.serverSeed));
+    if (observed.nonce !== undefined) {
+      nonceIncluded = nonces.some(n => n.playerId === observed.playerId && n.nonce === observed.nonce);
+    }
+  }
+
+  return {
+    hashMatches,
+    shuffleMatches,
+    handMatches,
+    viraMatches,
+    seedMatches,
+    nonceIncluded,
+    ok: hashMatches && shuffleMatches && handMatches !== false && viraMatches !== false &&
+      seedMatches !== false && nonceIncluded !== false
+  };
+}
@@ -1,29 +1,18 @@
-import { Card, CardValue, Suit, PlayedCard } from './types';
-
-// Paulista Truco rules
-
-// Card ranks in order of strength (before manilha determination)
-// 3 2 A K J Q 7 6 5 4
-export const CARD_STRENGTHS: Record<CardValue, number> = {
-  [CardValue.THREE]: 10,
-  [CardValue.TWO]: 9,
-  [CardValue.ACE]: 8,
-  [CardValue.KING]: 7,
-  [CardValue.JACK]: 6,
-  [CardValue.QUEEN]: 5,
-  [CardValue.SEVEN]: 4,
-  [CardValue.SIX]: 3,
-  [CardValue.FIVE]: 2,
-  [CardValue.FOUR]: 1
-};
+import { 
+  Card, 
+  CardValue, 
+  PlayedCard, 
+  Player, 
+  TrickOutcome, 
+  RuleVariant, 
+  EnvidoCall, 
+  TimerSettings 
+} from './types';
+import { getRuleSet, CARD_STRENGTHS, MANILHA_SUIT_STRENGTH } from './ruleSets';
 
-// Manilha order by suit (clubs > hearts > spades > diamonds)
-export const MANILHA_SUIT_STRENGTH: Record<Suit, number> = {
-  [Suit.CLUBS]: 4,
-  [Suit.HEARTS]: 3,
-  [Suit.SPADES]: 2,
-  [Suit.DIAMONDS]: 1
-};
+// Truco rules. Paulista rules are the default; other variants are described in ruleSets.ts
+
+export { CARD_STRENGTHS, MANILHA_SUIT_STRENGTH };
 
 // Get the manilha value based on the turned card (vira)
 export function getManilhaValue(vira: Card | null): CardValue | null {
@@ -56,34 +45,60 @@ export function getManilhaValue(vira: Card | null): CardValue | null {
   }
 }
 
+// Get the strength of a card as a manilha (0 when it isn't one, higher is stronger)
+export function getManilhaStrength(
+  card: Card, 
+  vira: Card | null, 
+  variant: RuleVariant = RuleVariant.PAULISTA
+): number {
+  const rules = getRuleSet(variant);
+  
+  // Fixed manilhas are listed strongest first
+  if (!rules.usesVira) {
+    const index = rules.fixedManilhas.findIndex(m => m.suit === card.suit && m.value === card.value);
+    return index === -1 ? 0 : rules.fixedManilhas.length - index;
+  }
+  
+  if (!vira || card.value !== getManilhaValue(vira)) return 0;
+  return rules.manilhaSuitStrength[card.suit];
+}
+
 // Determine if a card is a manilha
-export function isManilha(card: Card, vira: Card | null): boolean {
-  if (!vira) return false;
-  const manilhaValue = getManilhaValue(vira);
-  return card.value === manilhaValue;
+export function isManilha(
+  card: Card, 
+  vira: Card | null, 
+  variant: RuleVariant = RuleVariant.PAULISTA
+): boolean {
+  return getManilhaStrength(card, vira, variant) > 0;
 }
 
 // Compare two cards to determine which one is stronger
-export function compareCards(card1: Card, card2: Card, vira: Card | null): number {
-  // Check if either card is a manilha
-  const card1IsManilha = isManilha(card1, vira);
-  const card2IsManilha = isManilha(card2, vira);
-  
-  // If both are manilhas, compare by suit strength
-  if (card1IsManilha && card2IsManilha) {
-    return MANILHA_SUIT_STRENGTH[card1.suit] - MANILHA_SUIT_STRENGTH[card2.suit];
-  }
+export function compareCards(
+  card1: Card, 
+  card2: Card, 
+  vira: Card | null, 
+  variant: RuleVariant = RuleVariant.PAULISTA
+): number {
+  const card1Manilha = getManilhaStrength(card1, vira, variant);
+  const card2Manilha = getManilhaStrength(card2, vira, variant);
   
-  // If only one is a manilha, it wins
-  if (card1IsManilha) return 1;
-  if (card2IsManilha) return -1;
+  // If either card is a manilha, the stronger manilha wins
+  if (card1Manilha > 0 || card2Manilha > 0) {
+    return card1Manilha - card2Manilha;
+  }
   
   // If neither is a manilha, compare by card strength
-  return CARD_STRENGTHS[card1.value] - CARD_STRENGTHS[card2.value];
+  const strengths = getRuleSet(variant).cardStrengths;
+  return strengths[card1.value] - strengths[card2.value];
 }
 
-// Determine the winner of a trick
-export function determineTrickWinner(playedCards: PlayedCard[], vira: Card | null): string | null {
+// Determine the player holding the strongest card of a trick
+// (on equal strength, the first of those players is returned)
+export function determineTrickWinner(
+  playedCards: PlayedCard[], 
+  vira: Card | null, 
+  variant: RuleVariant = RuleVariant.PAULISTA
+): string | null {
   if (playedCards.length === 0) return null;
   
   let winningPlayerId = playedCards[0].playerId;
@@ -92,7 +107,7 @@ export function determineTrickWinner(playedCards: PlayedCard[], vira: Card | nul
   for (let i = 1; i < playedCards.length; i++) {
     const currentCard = playedCards[i].card;
     
-    if (compareCards(currentCard, winningCard, vira) > 0) {
+    if (compareCards(currentCard, winningCard, vira, variant) > 0) {
       winningCard = currentCard;
       winningPlayerId = playedCards[i].playerId;
     }
@@ -101,41 +116,236 @@ export function determineTrickWinner(playedCards: PlayedCard[], vira: Card | nul
   return winningPlayerId;
 }
 
+// Determine the outcome of a trick: the strongest card's team wins,
+// and equal top cards from opposing teams make it a draw
+export function determineTrickOutcome(
+  playedCards: PlayedCard[], 
+  vira: Card | null, 
+  players: Player[],
+  variant: RuleVariant = RuleVariant.PAULISTA
+): { outcome: TrickOutcome; winnerId: string | null } {
+  const strongestId = determineTrickWinner(playedCards, vira, variant);
+  const strongest = playedCards.find(p => p.playerId === strongestId);
+  const strongestTeam = players.find(p => p.id === strongestId)?.team;
+  
+  if (!strongest || !strongestTeam) {
+    return { outcome: 'draw', winnerId: null };
+  }
+  
+  // Any opponent holding a card of the same strength ties the trick
+  const isDraw = playedCards.some(played => {
+    const team = players.find(p => p.id === played.playerId)?.team;
+    return team !== strongestTeam && compareCards(played.card, strongest.card, vira, variant) === 0;
+  });
+  
+  if (isDraw) {
+    return { outcome: 'draw', winnerId: null };
+  }
+  
+  return { outcome: strongestTeam, winnerId: strongestId };
+}
+
+// Determine whether a round is decided by the tricks played so far.
+// - Two trick wins take the round
+// - A draw is decided by the first trick that was won (or the next one, if the first was drawn)
+// - Three drawn tricks mean nobody scores
+export function determineRoundWinner(
+  outcomes: TrickOutcome[]
+): { finished: boolean; winner: 'A' | 'B' | null } {
+  const teamAWins = outcomes.filter(o => o === 'A').length;
+  const teamBWins = outcomes.filter(o => o === 'B').length;
+  
+  if (teamAWins >= 2) return { finished: true, winner: 'A' };
+  if (teamBWins >= 2) return { finished: true, winner: 'B' };
+  
+  const firstWin = outcomes.find(o => o !== 'draw');
+  const hasDraw = outcomes.includes('draw');
+  
+  if (hasDraw && firstWin) {
+    return { finished: true, winner: firstWin };
+  }
+  
+  if (outcomes.length >= 3) {
+    return { finished: true, winner: null };
+  }
+  
+  return { finished: false, winner: null };
+}
+
+// Default time limits of a room
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  cardPlaySeconds: 30,
+  betResponseSeconds: 20,
+  maxTimeouts: 3
+};
+
+// Scores a room can be played to
+export const TARGET_SCORE_OPTIONS = [12, 15, 24, 30];
+
+// Number of games in a series (a partida played in quedas)
+export const SERIES_LENGTH_OPTIONS = [1, 3, 5];
+
+// Games a team has to win to take a series
+export function getSeriesWinsNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
 // Calculate points based on the round value
 export function getRoundPoints(roundValue: number): number {
-  switch (roundValue) {
-    case 1:
-      return 1;
-    case 3:
-      return 3;
-    case 6:
-      return 6;
-    case 9:
-      return 9;
-    case 12:
-      return 12;
-    default:
-      return 1;
-  }
+  return roundValue;
+}
+
+// Get the value of a round before any bet
+export function getInitialRoundValue(variant: RuleVariant = RuleVariant.PAULISTA): number {
+  return getRuleSet(variant).roundValues[0];
 }
 
-// Check if a team has reached 12 points (win condition in Paulista rules)
-export function hasWinningScore(score: number): boolean {
-  return score >= 12;
+// Check if a team has reached the winning score (12 points in Paulista rules, unless the room changed it)
+export function hasWinningScore(
+  score: number, 
+  variant: RuleVariant = RuleVariant.PAULISTA, 
+  targetScore: number = getRuleSet(variant).targetScore
+): boolean {
+  return score >= targetScore;
+}
+
+// Check if a team is at the mão de onze (as far from the target score as in the variant's own game)
+export function isHandOfElevenScore(
+  score: number, 
+  variant: RuleVariant = RuleVariant.PAULISTA, 
+  targetScore: number = getRuleSet(variant).targetScore
+): boolean {
+  const rules = getRuleSet(variant);
+  if (rules.handOfElevenScore === null) return false;
+  return score === rules.handOfElevenScore + (targetScore - rules.targetScore);
+}
+
+// Get the value of a mão de onze that is played
+export function getHandOfElevenValue(variant: RuleVariant = RuleVariant.PAULISTA): number {
+  return getRuleSet(variant).handOfElevenValue;
+}
+
+// Get the highest value a round can be raised to
+export function getMaxRoundValue(variant: RuleVariant = RuleVariant.PAULISTA): number {
+  const { roundValues } = getRuleSet(variant);
+  return roundValues[roundValues.length - 1];
+}
+
+// Check if a round value can still be raised
+export function canRaiseRoundValue(currentValue: number, variant: RuleVariant = RuleVariant.PAULISTA): boolean {
+  return currentValue < getMaxRoundValue(variant);
+}
+
+// Get the name of the bet that raises the round to the given value
+export function getRoundValueName(value: number, variant: RuleVariant = RuleVariant.PAULISTA): string {
+  return getRuleSet(variant).raiseNames[value] || 'Truco';
 }
 
 // Get the next round value after a truco request
-export function getNextRoundValue(currentValue: number): number {
-  switch (currentValue) {
-    case 1:
-      return 3; // Truco
-    case 3:
-      return 6; // Seis
-    case 6:
-      return 9; // Nove
-    case 9:
-      return 12; // Doze
+export function getNextRoundValue(currentValue: number, variant: RuleVariant = RuleVariant.PAULISTA): number {
+  const { roundValues } = getRuleSet(variant);
+  const next = roundValues.find(value => value > currentValue);
+  
+  // Can't go any higher than the last raise
+  return next ?? getMaxRoundValue(variant);
+}
+
+// Envido value of a card: face value, with Q, J and K worth nothing
+export const ENVIDO_CARD_VALUES: Record<CardValue, number> = {
+  [CardValue.ACE]: 1,
+  [CardValue.TWO]: 2,
+  [CardValue.THREE]: 3,
+  [CardValue.FOUR]: 4,
+  [CardValue.FIVE]: 5,
+  [CardValue.SIX]: 6,
+  [CardValue.SEVEN]: 7,
+  [CardValue.QUEEN]: 0,
+  [CardValue.JACK]: 0,
+  [CardValue.KING]: 0
+};
+
+// Points of each envido/flor call when accepted (falta envido is computed from the score)
+export const ENVIDO_CALL_POINTS: Record<EnvidoCall, number> = {
+  [EnvidoCall.ENVIDO]: 2,
+  [EnvidoCall.REAL_ENVIDO]: 3,
+  [EnvidoCall.FALTA_ENVIDO]: 0,
+  [EnvidoCall.FLOR]: 3,
+  [EnvidoCall.CONTRAFLOR]: 6
+};
+
+// Check if a hand has flor (three cards of the same suit)
+export function hasFlor(hand: Card[]): boolean {
+  return hand.length === 3 && hand.every(card => card.suit === hand[0].suit);
+}
+
+// Calculate the envido points of a hand: 20 plus the two best cards of the same suit,
+// or the best single card when no two cards share a suit
+export function getEnvidoPoints(hand: Card[]): number {
+  let best = 0;
+  
+  for (let i = 0; i < hand.length; i++) {
+    best = Math.max(best, ENVIDO_CARD_VALUES[hand[i].value]);
+    
+    for (let j = i + 1; j < hand.length; j++) {
+      if (hand[i].suit === hand[j].suit) {
+        const pairPoints = 20 + ENVIDO_CARD_VALUES[hand[i].value] + ENVIDO_CARD_VALUES[hand[j].value];
+        best = Math.max(best, pairPoints);
+      }
+    }
+  }
+  
+  return best;
+}
+
+// Calculate the flor points of a hand (20 plus all three cards)
+export function getFlorPoints(hand: Card[]): number {
+  if (!hasFlor(hand)) return 0;
+  return 20 + hand.reduce((sum, card) => sum + ENVIDO_CARD_VALUES[card.value], 0);
+}
+
+// Points the leading team still needs to win the game (falta envido)
+export function getFaltaEnvidoPoints(
+  teamAScore: number, 
+  teamBScore: number, 
+  variant: RuleVariant = RuleVariant.PAULISTA,
+  targetScore: number = getRuleSet(variant).targetScore
+): number {
+  return Math.max(1, targetScore - Math.max(teamAScore, teamBScore));
+}
+
+// Calls that can follow the last one in an envido or flor chain
+export function getNextEnvidoCalls(calls: EnvidoCall[]): EnvidoCall[] {
+  const last = calls[calls.length - 1];
+  
+  switch (last) {
+    case undefined:
+      return [EnvidoCall.ENVIDO, EnvidoCall.REAL_ENVIDO, EnvidoCall.FALTA_ENVIDO];
+    case EnvidoCall.ENVIDO:
+      // Envido can be repeated once
+      return calls.length === 1
+        ? [EnvidoCall.ENVIDO, EnvidoCall.REAL_ENVIDO, EnvidoCall.FALTA_ENVIDO]
+        : [EnvidoCall.REAL_ENVIDO, EnvidoCall.FALTA_ENVIDO];
+    case EnvidoCall.REAL_ENVIDO:
+      return [EnvidoCall.FALTA_ENVIDO];
+    case EnvidoCall.FLOR:
+      return [EnvidoCall.CONTRAFLOR];
     default:
-      return 3;
+      return [];
+  }
+}
+
+// Points won when an envido or flor chain is accepted
+export function getAcceptedEnvidoPoints(calls: EnvidoCall[], faltaPoints: number): number {
+  if (calls.includes(EnvidoCall.FALTA_ENVIDO)) return faltaPoints;
+  return calls.reduce((sum, call) => sum + ENVIDO_CALL_POINTS[call], 0);
+}
+
+// Points won by the last caller when the chain is declined: the bet on the table before
+// the last call, or 1 for a single envido (a flor nobody raised is always worth 3)
+export function getDeclinedEnvidoPoints(calls: EnvidoCall[]): number {
+  const accepted = calls.slice(0, -1);
+  if (accepted.length === 0) {
+    return calls[0] === EnvidoCall.FLOR ? ENVIDO_CALL_POINTS[EnvidoCall.FLOR] : 1;
   }
+  return accepted.reduce((sum, call) => sum + ENVIDO_CALL_POINTS[call], 0);
 }
@@ -0,0 +1,259 @@
+import { Card, GameState, PlayedCard, Player, TrickOutcome } from './types';
+import { compareCards, determineTrickOutcome, determineTrickWinner, determineRoundWinner } from './gameRules';
+import { createDeck } from './deck';
+
+// Monte-Carlo hand analysis.
+// The cards a player can't see are dealt at random from the rest of the deck many times,
+// and the round is played out with a simple strategy to estimate the chance of winning it.
+// Only the information in the player's own view is used, so it can run on the client too.
+
+export interface AnalysisOptions {
+  samples?: number; // Number of simulated deals
+  random?: () => number; // Random number generator (Math.random by default)
+}
+
+export interface CardSuggestion {
+  card: Card;
+  winProbability: number;
+}
+
+// Evaluation of one card played during a game, used for the post-game analysis
+export interface PlayAnalysis {
+  playerId: string;
+  card: Card;
+  winProbability: number; // Estimated chance of winning the round with the card played
+  bestCard: Card;
+  bestWinProbability: number; // Estimated chance with the best card
+}
+
+export interface PlayerAnalysis {
+  playerId: string;
+  plays: number;
+  bestPlays: number; // Plays that matched the best card
+  averageLoss: number; // Average chance of winning lost by each play
+}
+
+const DEFAULT_SAMPLES = 300;
+
+// Cards are told apart by suit and value (games saved by older versions have random card ids)
+const cardKey = (card: Card) => `${card.suit}-${card.value}`;
+
+/**
+ * Pick the card a simulated player plays: the cheapest card that takes the trick,
+ * or the weakest one when the partner is already winning or the trick can't be won
+ */
+function chooseSimulatedCard(
+  hand: Card[],
+  trick: PlayedCard[],
+  team: 'A' | 'B',
+  players: Player[],
+  gameState: GameState
+): number {
+  const { vira, ruleVariant } = gameState;
+  let weakest = 0;
+  let strongest = 0;
+
+  for (let i = 1; i < hand.length; i++) {
+    if (compareCards(hand[i], hand[weakest], vira, ruleVariant) < 0) weakest = i;
+    if (compareCards(hand[i], hand[strongest], vira, ruleVariant) > 0) strongest = i;
+  }
+
+  if (trick.length === 0) return strongest;
+
+  const winnerId = determineTrickWinner(trick, vira, ruleVariant);
+  const winning = trick.find(p => p.playerId === winnerId);
+  if (!winning) return weakest;
+
+  if (players.find(p => p.id === winnerId)?.team === team) return weakest;
+
+  let cheapest = -1;
+  for (let i = 0; i < hand.length; i++) {
+    if (compareCards(hand[i], winning.card, vira, ruleVariant) <= 0) continue;
+    if (cheapest === -1 || compareCards(hand[i], hand[cheapest], vira, ruleVariant) < 0) cheapest = i;
+  }
+
+  return cheapest === -1 ? weakest : cheapest;
+}
+
+/**
+ * Play out the rest of a round with the given hands.
+ * Returns 1 when the team wins, 0 when it loses and 0.5 when nobody scores.
+ */
+function simulateRound(
+  gameState: GameState,
+  hands: Map<string, Card[]>,
+  team: 'A' | 'B',
+  firstPlay: { playerId: string; cardIndex: number } | null
+): number {
+  const { players, vira, ruleVariant } = gameState;
+  const outcomes: TrickOutcome[] = gameState.tricks.map(t => t.outcome);
+  let trick = [...gameState.currentTrick];
+  let playerIndex = Math.max(0, players.findIndex(p => p.id === gameState.currentPlayer));
+  let forced = firstPlay;
+
+  for (;;) {
+    const result = determineRoundWinner(outcomes);
+    if (result.finished) {
+      if (!result.winner) return 0.5;
+      return result.winner === team ? 1 : 0;
+    }
+
+    const player = players[playerIndex];
+    const hand = hands.get(player.id) ?? [];
+    if (hand.length === 0) return 0.5;
+
+    const cardIndex = forced && forced.playerId === player.id
+      ? forced.cardIndex
+      : chooseSimulatedCard(hand, trick, player.team, players, gameState);
+    forced = null;
+
+    trick.push({ playerId: player.id, card: hand[cardIndex], timestamp: 0 });
+    hand.splice(cardIndex, 1);
+
+    if (trick.length < players.length) {
+      playerIndex = (playerIndex + 1) % players.length;
+      continue;
+    }
+
+    // Trick complete: the winner (or the first top card after a draw) leads the next one
+    const { outcome, winnerId } = determineTrickOutcome(trick, vira, players, ruleVariant);
+    outcomes.push(outcome);
+    const leaderId = winnerId ?? determineTrickWinner(trick, vira, ruleVariant);
+    playerIndex = Math.max(0, players.findIndex(p => p.id === leaderId));
+    trick = [];
+  }
+}
+
+/**
+ * Run the simulations for a player, optionally forcing the card they play first
+ */
+function runSimulations(
+  gameState: GameState,
+  playerId: string,
+  firstCardIndex: number | null,
+  options: AnalysisOptions
+): number {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) return 0;
+
+  const samples = options.samples ?? DEFAULT_SAMPLES;
+  const random = options.random ?? Math.random;
+
+  // Cards the player knows about: visible hands, the vira and every card on the table
+  const known = new Set<string>();
+  const visible = new Map<string, Card[]>();
+  const missing = new Map<string, number>();
+
+  for (const p of gameState.players) {
+    const count = p.handCount ?? p.hand.length;
+    if (p.hand.length === count) {
+      visible.set(p.id, p.hand);
+      p.hand.forEach(card => known.add(cardKey(card)));
+    } else {
+      missing.set(p.id, count);
+    }
+  }
+
+  if (gameState.vira) known.add(cardKey(gameState.vira));
+  gameState.tricks.forEach(t => t.cards.forEach(pc => known.add(cardKey(pc.card))));
+  gameState.currentTrick.forEach(pc => known.add(cardKey(pc.card)));
+
+  const unseen = createDeck(gameState.ruleVariant).filter(card => !known.has(cardKey(card)));
+  const firstPlay = firstCardIndex === null ? null : { playerId, cardIndex: firstCardIndex };
+  let total = 0;
+
+  for (let sample = 0; sample < samples; sample++) {
+    const hands = new Map<string, Card[]>();
+    visible.forEach((hand, id) => hands.set(id, [...hand]));
+
+    // Deal the unseen cards at random (partial Fisher-Yates shuffle)
+    let dealt = 0;
+    missing.forEach((count, id) => {
+      const hand: Card[] = [];
+      for (let i = 0; i < count && dealt < unseen.length; i++, dealt++) {
+        const j = dealt + Math.floor(random() * (unseen.length - dealt));
+        [unseen[dealt], unseen[j]] = [unseen[j], unseen[dealt]];
+        hand.push(unseen[dealt]);
+      }
+      hands.set(id, hand);
+    });
+
+    total += simulateRound(gameState, hands, player.team, firstPlay);
+  }
+
+  return samples > 0 ? total / samples : 0;
+}
+
+/**
+ * Estimate the chance of a player's team winning the current round
+ */
+export function estimateWinProbability(
+  gameState: GameState,
+  playerId: string,
+  options: AnalysisOptions = {}
+): number {
+  return runSimulations(gameState, playerId, null, options);
+}
+
+/**
+ * Estimate the chance of winning the round with each card in the player's hand, best first.
+ * Only meaningful on the player's turn, with their hand visible.
+ */
+export function suggestCards(
+  gameState: GameState,
+  playerId: string,
+  options: AnalysisOptions = {}
+): CardSuggestion[] {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player || gameState.currentPlayer !== playerId) return [];
+
+  return player.hand
+    .map((card, index) => ({
+      card,
+      winProbability: runSimulations(gameState, playerId, index, options)
+    }))
+    .sort((a, b) => b.winProbability - a.winProbability);
+}
+
+/**
+ * Evaluate a card play against the best card the player had
+ */
+export function analyzePlay(
+  gameState: GameState,
+  playerId: string,
+  cardId: string,
+  options: AnalysisOptions = {}
+): PlayAnalysis | null {
+  const suggestions = suggestCards(gameState, playerId, options);
+  const played = suggestions.find(s => s.card.id === cardId);
+  if (!played || suggestions.length === 0) return null;
+
+  return {
+    playerId,
+    card: played.card,
+    winProbability: played.winProbability,
+    bestCard: suggestions[0].card,
+    bestWinProbability: suggestions[0].winProbability
+  };
+}
+
+/**
+ * Summarize the analysed plays of a game for each player
+ */
+export function summarizePlays(plays: PlayAnalysis[]): PlayerAnalysis[] {
+  const byPlayer = new Map<string, PlayerAnalysis>();
+
+  for (const play of plays) {
+    const summary = byPlayer.get(play.playerId) ?? { playerId: play.playerId, plays: 0, bestPlays: 0, averageLoss: 0 };
+    const loss = Math.max(0, play.bestWinProbability - play.winProbability);
+
+    // A play is as good as the best one when the estimates are within noise
+    summary.bestPlays += loss < 0.02 ? 1 : 0;
+    summary.averageLoss = (summary.averageLoss * summary.plays + loss) / (summary.plays + 1);
+    summary.plays += 1;
+
+    byPlayer.set(play.playerId, summary);
+  }
+
+  return Array.from(byPlayer.values());
+}
@@ -0,0 +1,158 @@
+import { GameEvent, GameMode, RuleVariant } from './types';
+
+// Player statistics, worked out from the event log of each finished game
+
+// What a player did in one game
+export interface PlayerMatchStats {
+  playerId: string;
+  username: string;
+  team: 'A' | 'B';
+  isBot: boolean;
+  roundsPlayed: number;
+  roundsWon: number;
+  pointsScored: number; // Points the player's team made, including envido
+  trucosCalled: number; // Truco and every raise after it
+  trucosAccepted: number; // Calls the other team accepted
+  trucosWon: number; // Rounds the team won after the player called truco in them
+  timesRan: number; // Declined a truco or folded a mão de onze
+  manilhasHeld: number;
+}
+
+// A finished game, as kept in the match history
+export interface MatchResult {
+  gameId: string;
+  mode: GameMode;
+  ruleVariant: RuleVariant;
+  targetScore: number;
+  ranked: boolean;
+  winner: 'A' | 'B';
+  teamAScore: number;
+  teamBScore: number;
+  forfeitTeam: 'A' | 'B' | null;
+  players: PlayerMatchStats[];
+}
+
+export interface MatchSummary extends MatchResult {
+  id: number;
+  finishedAt: string; // ISO date
+}
+
+// Totals of an account over every game it finished
+export interface PlayerStats {
+  gamesPlayed: number;
+  gamesWon: number;
+  roundsPlayed: number;
+  roundsWon: number;
+  trucosCalled: number;
+  trucosAccepted: number;
+  trucosWon: number;
+  timesRan: number;
+  manilhasHeld: number;
+  averagePointsPerHand: number;
+}
+
+/**
+ * Statistics of each player in the last game of an event log
+ * (a room's log has every game played in it, one after another)
+ */
+export function summarizeMatch(events: GameEvent[]): PlayerMatchStats[] {
+  const start = events.map(e => e.type).lastIndexOf('game_start');
+  const gameStart = events[start];
+  if (!gameStart || gameStart.type !== 'game_start') return [];
+
+  const players: PlayerMatchStats[] = gameStart.players.map(p => ({
+    playerId: p.id,
+    username: p.username,
+    team: p.team,
+    isBot: Boolean(p.isBot),
+    roundsPlayed: 0,
+    roundsWon: 0,
+    pointsScored: 0,
+    trucosCalled: 0,
+    trucosAccepted: 0,
+    trucosWon: 0,
+    timesRan: 0,
+    manilhasHeld: 0
+  }));
+  const find = (playerId: string) => players.find(p => p.playerId === playerId);
+
+  let scores = { A: 0, B: 0 };
+  let trucoCallers = new Set<string>(); // Players who called truco in the current round
+  let pendingCall: string | null = null;
+  let forfeited = false;
+
+  for (const event of events.slice(start + 1)) {
+    switch (event.type) {
+      case 'deal':
+        trucoCallers = new Set();
+        pendingCall = null;
+        // Hands are in seat order, like the players
+        event.hands.forEach((hand, seat) => {
+          if (players[seat]) players[seat].manilhasHeld += hand.filter(card => card.isManilha).length;
+        });
+        break;
+      case 'truco_request': {
+        const caller = find(event.playerId);
+        if (caller) caller.trucosCalled++;
+        trucoCallers.add(event.playerId);
+        pendingCall = event.playerId;
+        break;
+      }
+      case 'truco_accept': {
+        const caller = pendingCall ? find(pendingCall) : undefined;
+        if (caller) caller.trucosAccepted++;
+        pendingCall = null;
+        break;
+      }
+      case 'truco_decline':
+      case 'hand_of_eleven_fold': {
+        const player = find(event.playerId);
+        if (player) player.timesRan++;
+        pendingCall = null;
+        break;
+      }
+      case 'forfeit':
+        forfeited = true;
+        break;
+      case 'round_result': {
+        // A forfeit ends the game, not a round
+        if (forfeited) break;
+        const points = { A: event.teamAScore - scores.A, B: event.teamBScore - scores.B };
+        scores = { A: event.teamAScore, B: event.teamBScore };
+
+        players.forEach(player => {
+          player.roundsPlayed++;
+          player.pointsScored += points[player.team];
+          if (event.winner !== player.team) return;
+          player.roundsWon++;
+          if (trucoCallers.has(player.playerId)) player.trucosWon++;
+        });
+        break;
+      }
+    }
+  }
+
+  return players;
+}
+
+/**
+ * Add up a player's games
+ */
+export function combinePlayerStats(games: { stats: PlayerMatchStats; won: boolean }[]): PlayerStats {
+  const total = (key: Exclude<keyof PlayerMatchStats, 'playerId' | 'username' | 'team' | 'isBot'>) =>
+    games.reduce((sum, { stats }) => sum + stats[key], 0);
+  const roundsPlayed = total('roundsPlayed');
+
+  return {
+    gamesPlayed: games.length,
+    gamesWon: games.filter(game => game.won).length,
+    roundsPlayed,
+    roundsWon: total('roundsWon'),
+    trucosCalled: total('trucosCalled'),
+    trucosAccepted: total('trucosAccepted'),
+    trucosWon: total('trucosWon'),
+    timesRan: total('timesRan'),
+    manilhasHeld: total('manilhasHeld'),
+    averagePointsPerHand: roundsPlayed > 0 ? total('pointsScored') / roundsPlayed : 0
+  };
+}
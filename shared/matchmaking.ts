@@ -0,0 +1,36 @@
+import { GameMode } from './types';
+
+// Matchmaking queue ("Jogar agora"). Players are paired with others of a similar rating,
+// and the rating gap they accept grows the longer they wait.
+
+const INITIAL_RATING_WINDOW = 100;
+const RATING_WINDOW_STEP = 50; // Added to the window every step of waiting
+const RATING_WINDOW_STEP_MS = 10000;
+const MAX_RATING_WINDOW = 800;
+
+// Time the players of a match found get to accept it
+export const READY_CHECK_SECONDS = 15;
+
+// A player's place in the queue, sent whenever it changes
+export interface QueueStatus {
+  mode: GameMode;
+  partner: string | null; // Username of the duo partner queued with the player, in 2v2
+  rating: number; // Rating the queue pairs by (a duo's average)
+  waitedMs: number; // Time in the queue when the status was sent
+}
+
+// A match found by the queue, waiting for everyone to accept it
+export interface ReadyCheck {
+  matchId: string;
+  mode: GameMode;
+  players: { playerId: string; username: string; team: 'A' | 'B'; accepted: boolean }[];
+  remainingMs: number;
+}
+
+/**
+ * Largest rating gap accepted after waiting in the queue for a while
+ */
+export function getRatingWindow(waitedMs: number): number {
+  const steps = Math.floor(Math.max(0, waitedMs) / RATING_WINDOW_STEP_MS);
+  return Math.min(MAX_RATING_WINDOW, INITIAL_RATING_WINDOW + steps * RATING_WINDOW_STEP);
+}
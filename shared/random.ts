@@ -0,0 +1,45 @@
+// Seedable random numbers, so a shuffled deck can be reproduced from its seed.
+// The seed string is hashed into four 32-bit words (cyrb128) that start an sfc32 generator.
+
+/**
+ * Create a generator of numbers in [0, 1) that always gives the same sequence for a seed
+ */
+export function createRandom(seed: string): () => number {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+
+  let a = (h1 ^ h2 ^ h3 ^ h4) >>> 0;
+  let b = (h2 ^ h1) >>> 0;
+  let c = (h3 ^ h1) >>> 0;
+  let d = (h4 ^ h1) >>> 0;
+
+  return () => {
+    a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0;
+    const t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    const result = (t + d) | 0;
+    c = (c + result) | 0;
+    return (result >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create a new unpredictable seed (128 bits, hex encoded)
+ */
+export function createSeed(): string {
+  const words = crypto.getRandomValues(new Uint32Array(4));
+  return Array.from(words, word => word.toString(16).padStart(8, '0')).join('');
+}
@@ -0,0 +1,83 @@
+import { GameMode } from './types';
+
+// Elo ratings of ranked games. Each mode has its own rating.
+// In 2v2 a team plays with the average rating of its players, and both players gain or lose the same points.
+
+export const DEFAULT_RATING = 1500;
+const K_FACTOR = 32;
+
+// Periods the leaderboard can be filtered by
+export type LeaderboardPeriod = 'week' | 'month' | 'all';
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['week', 'month', 'all'];
+
+// Rating of an account in one mode
+export interface PlayerRating {
+  playerId: string;
+  username: string;
+  mode: GameMode;
+  rating: number;
+  gamesPlayed: number;
+  gamesWon: number;
+}
+
+// Change of a player's rating after a ranked game
+export interface RatingChange {
+  playerId: string;
+  username: string;
+  won: boolean;
+  ratingBefore: number;
+  ratingAfter: number;
+}
+
+// Position in the leaderboard, with the games of the chosen period
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  username: string;
+  rating: number;
+  gamesPlayed: number;
+  gamesWon: number;
+  ratingChange: number;
+}
+
+/**
+ * Chance of winning against an opponent, from the difference of ratings
+ */
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * New ratings of the players of a finished game
+ */
+export function calculateRatingChanges(
+  players: { playerId: string; username: string; team: 'A' | 'B'; rating: number }[],
+  winner: 'A' | 'B'
+): RatingChange[] {
+  const teamRating = (team: 'A' | 'B') => {
+    const ratings = players.filter(p => p.team === team).map(p => p.rating);
+    return ratings.reduce((sum, rating) => sum + rating, 0) / Math.max(ratings.length, 1);
+  };
+
+  return players.map(player => {
+    const opponents = player.team === 'A' ? 'B' : 'A';
+    const expected = getExpectedScore(teamRating(player.team), teamRating(opponents));
+    const won = player.team === winner;
+
+    return {
+      playerId: player.playerId,
+      username: player.username,
+      won,
+      ratingBefore: player.rating,
+      ratingAfter: Math.round(player.rating + K_FACTOR * ((won ? 1 : 0) - expected))
+    };
+  });
+}
+
+/**
+ * First moment of a leaderboard period (null for all time)
+ */
+export function getPeriodStart(period: LeaderboardPeriod, now: Date = new Date()): Date | null {
+  const days = period === 'week' ? 7 : period === 'month' ? 30 : null;
+  return days === null ? null : new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,135 @@
+import { CardValue, Suit, RuleVariant } from './types';
+
+// Rule sets for each supported variant.
+// Every rule that differs between regions is described by a RuleSet,
+// and the functions in gameRules.ts consult it instead of hardcoding Paulista rules.
+
+// A card identified only by suit and value (used for fixed manilhas)
+export interface CardFace {
+  suit: Suit;
+  value: CardValue;
+}
+
+export interface RuleSet {
+  variant: RuleVariant;
+  name: string;
+  usesVira: boolean; // Manilhas follow the turned card (vira)
+  fixedManilhas: CardFace[]; // Strongest first, used when there is no vira
+  manilhaSuitStrength: Record<Suit, number>; // Suit order for vira-based manilhas
+  cardStrengths: Record<CardValue, number>; // Strength of every other card
+  deckValues: CardValue[]; // Card values in the deck
+  roundValues: number[]; // Value of a round before any bet, followed by each raise
+  raiseNames: Record<number, string>; // Name of the bet that raises the round to a value
+  targetScore: number; // Points needed to win a game
+  handOfElevenScore: number | null; // Score that triggers the mão de onze (null if not played)
+  handOfElevenValue: number; // Value of a mão de onze that is played
+  hasEnvido: boolean; // Envido and flor bets are played
+}
+
+// Card ranks in order of strength (before manilha determination)
+// 3 2 A K J Q 7 6 5 4
+export const CARD_STRENGTHS: Record<CardValue, number> = {
+  [CardValue.THREE]: 10,
+  [CardValue.TWO]: 9,
+  [CardValue.ACE]: 8,
+  [CardValue.KING]: 7,
+  [CardValue.JACK]: 6,
+  [CardValue.QUEEN]: 5,
+  [CardValue.SEVEN]: 4,
+  [CardValue.SIX]: 3,
+  [CardValue.FIVE]: 2,
+  [CardValue.FOUR]: 1
+};
+
+// Manilha order by suit (clubs > hearts > spades > diamonds)
+export const MANILHA_SUIT_STRENGTH: Record<Suit, number> = {
+  [Suit.CLUBS]: 4,
+  [Suit.HEARTS]: 3,
+  [Suit.SPADES]: 2,
+  [Suit.DIAMONDS]: 1
+};
+
+// Paulista: manilhas follow the vira, rounds go 1 → 3 → 6 → 9 → 12
+const PAULISTA: RuleSet = {
+  variant: RuleVariant.PAULISTA,
+  name: 'Truco Paulista',
+  usesVira: true,
+  fixedManilhas: [],
+  manilhaSuitStrength: MANILHA_SUIT_STRENGTH,
+  cardStrengths: CARD_STRENGTHS,
+  deckValues: Object.values(CardValue),
+  roundValues: [1, 3, 6, 9, 12],
+  raiseNames: { 3: 'Truco', 6: 'Seis', 9: 'Nove', 12: 'Doze' },
+  targetScore: 12,
+  handOfElevenScore: 11,
+  handOfElevenValue: 3,
+  hasEnvido: false
+};
+
+// Mineiro: fixed manilhas (4♣, 7♥, A♠, 7♦), rounds go 2 → 4 → 6 → 10 → 12
+const MINEIRO: RuleSet = {
+  variant: RuleVariant.MINEIRO,
+  name: 'Truco Mineiro',
+  usesVira: false,
+  fixedManilhas: [
+    { suit: Suit.CLUBS, value: CardValue.FOUR },
+    { suit: Suit.HEARTS, value: CardValue.SEVEN },
+    { suit: Suit.SPADES, value: CardValue.ACE },
+    { suit: Suit.DIAMONDS, value: CardValue.SEVEN }
+  ],
+  manilhaSuitStrength: MANILHA_SUIT_STRENGTH,
+  cardStrengths: CARD_STRENGTHS,
+  deckValues: Object.values(CardValue),
+  roundValues: [2, 4, 6, 10, 12],
+  raiseNames: { 4: 'Truco', 6: 'Seis', 10: 'Dez', 12: 'Doze' },
+  targetScore: 12,
+  handOfElevenScore: 10, // Mão de dez
+  handOfElevenValue: 4,
+  hasEnvido: false
+};
+
+// Spanish deck hierarchy: 1♠ (espadão), 1♣ (bastião), 7♠ and 7♦ (sete belo) above everything else.
+// The 10, 11 and 12 of the Spanish deck map to Q, J and K.
+const SPANISH_MANILHAS: CardFace[] = [
+  { suit: Suit.SPADES, value: CardValue.ACE },
+  { suit: Suit.CLUBS, value: CardValue.ACE },
+  { suit: Suit.SPADES, value: CardValue.SEVEN },
+  { suit: Suit.DIAMONDS, value: CardValue.SEVEN }
+];
+
+// Gaúcho (truco cego): Spanish hierarchy with envido and flor, played to 24
+const GAUCHO: RuleSet = {
+  variant: RuleVariant.GAUCHO,
+  name: 'Truco Gaúcho',
+  usesVira: false,
+  fixedManilhas: SPANISH_MANILHAS,
+  manilhaSuitStrength: MANILHA_SUIT_STRENGTH,
+  cardStrengths: CARD_STRENGTHS,
+  deckValues: Object.values(CardValue),
+  roundValues: [1, 2, 3, 4],
+  raiseNames: { 2: 'Truco', 3: 'Retruco', 4: 'Vale quatro' },
+  targetScore: 24,
+  handOfElevenScore: null,
+  handOfElevenValue: 1,
+  hasEnvido: true
+};
+
+// Espanhol (argentino): same hierarchy as the gaúcho, played to 30
+const ESPANHOL: RuleSet = {
+  ...GAUCHO,
+  variant: RuleVariant.ESPANHOL,
+  name: 'Truco Espanhol',
+  targetScore: 30
+};
+
+export const RULE_SETS: Record<RuleVariant, RuleSet> = {
+  [RuleVariant.PAULISTA]: PAULISTA,
+  [RuleVariant.MINEIRO]: MINEIRO,
+  [RuleVariant.GAUCHO]: GAUCHO,
+  [RuleVariant.ESPANHOL]: ESPANHOL
+};
+
+// Get the rule set for a variant (Paulista when the variant is unknown)
+export function getRuleSet(variant: RuleVariant | undefined): RuleSet {
+  return (variant && RULE_SETS[variant]) || PAULISTA;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,5 +13,199 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Checks applied to the registration form
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim()
+    .min(3, "Username must have at least 3 characters")
+    .max(20, "Username must have at most 20 characters")
+    .regex(/^[A-Za-z0-9À-ÿ_.-]+$/, "Username can only have letters, numbers, '.', '-' and '_'"),
+  password: z.string()
+    .min(6, "Password must have at least 6 characters")
+    .max(100, "Password must have at most 100 characters"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Games, with a snapshot of the full server state taken after every change.
+// Archived games are kept for their history but not restored on boot.
+export const games = pgTable("games", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  visibility: text("visibility").notNull().default("public"), // 'public' | 'private' | 'password'
+  inviteCode: text("invite_code"),
+  passwordHash: text("password_hash"),
+  mode: text("mode").notNull(),
+  ruleVariant: text("rule_variant").notNull(),
+  status: text("status").notNull().default("active"), // 'active' | 'archived'
+  roundState: text("round_state").notNull(),
+  teamAScore: integer("team_a_score").notNull().default(0),
+  teamBScore: integer("team_b_score").notNull().default(0),
+  winner: text("winner"),
+  snapshot: jsonb("snapshot").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Players seated in a game
+export const gamePlayers = pgTable("game_players", {
+  id: serial("id").primaryKey(),
+  gameId: text("game_id").notNull().references(() => games.id),
+  seat: integer("seat").notNull(),
+  playerId: text("player_id").notNull(),
+  username: text("username").notNull(),
+  team: text("team").notNull(),
+  isBot: boolean("is_bot").notNull().default(false),
+}, (table) => ({
+  seatUnique: unique().on(table.gameId, table.seat),
+}));
+
+// Finished rounds
+export const rounds = pgTable("rounds", {
+  id: serial("id").primaryKey(),
+  gameId: text("game_id").notNull().references(() => games.id),
+  roundNumber: integer("round_number").notNull(),
+  winner: text("winner"),
+  points: integer("points").notNull(),
+  teamAScore: integer("team_a_score").notNull(),
+  teamBScore: integer("team_b_score").notNull(),
+  vira: jsonb("vira"),
+  seed: text("seed"), // Seed the deck was shuffled with
+  finishedAt: timestamp("finished_at").notNull().defaultNow(),
+});
+
+// Tricks played in each round
+export const tricks = pgTable("tricks", {
+  id: serial("id").primaryKey(),
+  gameId: text("game_id").notNull().references(() => games.id),
+  roundNumber: integer("round_number").notNull(),
+  trickNumber: integer("trick_number").notNull(),
+  cards: jsonb("cards").notNull(),
+  outcome: text("outcome").notNull(),
+  winnerId: text("winner_id"),
+  playedAt: timestamp("played_at").notNull().defaultNow(),
+});
+
+// Finished series of games, with the score of each game (a single game is a series of one)
+export const seriesResults = pgTable("series_results", {
+  id: serial("id").primaryKey(),
+  gameId: text("game_id").notNull().references(() => games.id),
+  mode: text("mode").notNull(),
+  ruleVariant: text("rule_variant").notNull(),
+  targetScore: integer("target_score").notNull(),
+  bestOf: integer("best_of").notNull(),
+  winner: text("winner").notNull(),
+  games: jsonb("games").notNull(),
+  players: jsonb("players").notNull(),
+  finishedAt: timestamp("finished_at").notNull().defaultNow(),
+});
+
+// Finished games, kept for the players' match history and statistics
+export const matches = pgTable("matches", {
+  id: serial("id").primaryKey(),
+  gameId: text("game_id").notNull().references(() => games.id),
+  mode: text("mode").notNull(),
+  ruleVariant: text("rule_variant").notNull(),
+  targetScore: integer("target_score").notNull(),
+  ranked: boolean("ranked").notNull().default(false),
+  winner: text("winner").notNull(),
+  teamAScore: integer("team_a_score").notNull(),
+  teamBScore: integer("team_b_score").notNull(),
+  forfeitTeam: text("forfeit_team"),
+  finishedAt: timestamp("finished_at").notNull().defaultNow(),
+});
+
+// What each player did in a finished game
+export const matchPlayers = pgTable("match_players", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().references(() => matches.id),
+  playerId: text("player_id").notNull(),
+  username: text("username").notNull(),
+  team: text("team").notNull(),
+  isBot: boolean("is_bot").notNull().default(false),
+  roundsPlayed: integer("rounds_played").notNull(),
+  roundsWon: integer("rounds_won").notNull(),
+  pointsScored: integer("points_scored").notNull(),
+  trucosCalled: integer("trucos_called").notNull(),
+  trucosAccepted: integer("trucos_accepted").notNull(),
+  trucosWon: integer("trucos_won").notNull(),
+  timesRan: integer("times_ran").notNull(),
+  manilhasHeld: integer("manilhas_held").notNull(),
+}, (table) => ({
+  playerIndex: index("match_players_player_id_idx").on(table.playerId),
+}));
+
+// Current rating of each account in each mode
+export const ratings = pgTable("ratings", {
+  id: serial("id").primaryKey(),
+  playerId: text("player_id").notNull(),
+  username: text("username").notNull(),
+  mode: text("mode").notNull(),
+  rating: integer("rating").notNull(),
+  gamesPlayed: integer("games_played").notNull().default(0),
+  gamesWon: integer("games_won").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  playerModeUnique: unique().on(table.playerId, table.mode),
+}));
+
+// Rating changes after each ranked game, used for the leaderboard of a period
+export const ratingChanges = pgTable("rating_changes", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().references(() => matches.id),
+  playerId: text("player_id").notNull(),
+  mode: text("mode").notNull(),
+  won: boolean("won").notNull(),
+  ratingBefore: integer("rating_before").notNull(),
+  ratingAfter: integer("rating_after").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  modeCreatedIndex: index("rating_changes_mode_created_at_idx").on(table.mode, table.createdAt),
+}));
+
+// Tournaments, with their entrants and bracket kept as they are after every change
+export const tournaments = pgTable("tournaments", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  hostId: text("host_id").notNull(),
+  mode: text("mode").notNull(),
+  format: text("format").notNull(),
+  status: text("status").notNull(), // 'registration' | 'in_progress' | 'finished'
+  state: jsonb("state").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Secrets the server draws once and keeps across restarts, by name
+export const serverSecrets = pgTable("server_secrets", {
+  name: text("name").primaryKey(),
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Append-only log of everything that happened in each game, used for replays
+export const gameEvents = pgTable("game_events", {
+  id: serial("id").primaryKey(),
+  gameId: text("game_id").notNull().references(() => games.id),
+  seq: integer("seq").notNull(),
+  type: text("type").notNull(),
+  data: jsonb("data").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  seqUnique: unique().on(table.gameId, table.seq),
+}));
+
+export type GameRecord = typeof games.$inferSelect;
+export type InsertGame = typeof games.$inferInsert;
+export type GamePlayerRecord = typeof gamePlayers.$inferSelect;
+export type RoundRecord = typeof rounds.$inferSelect;
+export type InsertRound = typeof rounds.$inferInsert;
+export type TrickRecord = typeof tricks.$inferSelect;
+export type InsertTrick = typeof tricks.$inferInsert;
+export type GameEventRecord = typeof gameEvents.$inferSelect;
+export type SeriesResultRecord = typeof seriesResults.$inferSelect;
+export type MatchRecord = typeof matches.$inferSelect;
+export type MatchPlayerRecord = typeof matchPlayers.$inferSelect;
+export type RatingRecord = typeof ratings.$inferSelect;
+export type RatingChangeRecord = typeof ratingChanges.$inferSelect;
+export type TournamentRecord = typeof tournaments.$inferSelect;
@@ -0,0 +1,342 @@
+import { GameMode, RuleVariant } from './types';
+
+// Tournaments: players (1v1) or duos (2v2) register, then play a bracket whose games are
+// created as rooms. Elimination brackets are seeded in registration order, byes going to the top seeds.
+
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'swiss';
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ['single_elimination', 'double_elimination', 'swiss'];
+
+export const TOURNAMENT_FORMAT_NAMES: Record<TournamentFormat, string> = {
+  single_elimination: 'Eliminatória simples',
+  double_elimination: 'Eliminatória dupla',
+  swiss: 'Suíço'
+};
+
+export type TournamentStatus = 'registration' | 'in_progress' | 'finished';
+
+export const TOURNAMENT_STATUS_NAMES: Record<TournamentStatus, string> = {
+  registration: 'Inscrições abertas',
+  in_progress: 'Em andamento',
+  finished: 'Encerrado'
+};
+
+export const MIN_TOURNAMENT_ENTRANTS = 2;
+export const MAX_TOURNAMENT_ENTRANTS = 64;
+
+// Opponent of an entrant who goes through a round without playing
+export const BYE = 'bye';
+
+// A player, or a duo in 2v2
+export interface TournamentEntrant {
+  id: string;
+  name: string;
+  players: { playerId: string; username: string }[];
+}
+
+// A player asked a friend to register as their duo; the entry is made once the friend accepts
+export interface TournamentInvite {
+  inviter: { playerId: string; username: string };
+  partner: { playerId: string; username: string };
+}
+
+export interface MatchSlot {
+  matchId: string;
+  slot: 'A' | 'B';
+}
+
+export interface TournamentMatch {
+  id: string;
+  bracket: 'winners' | 'losers' | 'final' | 'swiss';
+  round: number; // Counted from 1 within its bracket
+  entrantA: string | null; // Entrant id, BYE, or null until the match before it ends
+  entrantB: string | null;
+  winner: string | null;
+  gameId: string | null; // Room the match is played in
+  winnerTo: MatchSlot | null; // Where the winner plays next, in elimination brackets
+  loserTo: MatchSlot | null; // Where the loser plays next, in a double elimination
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  hostId: string;
+  hostName: string;
+  mode: GameMode;
+  format: TournamentFormat;
+  ruleVariant: RuleVariant;
+  targetScore: number;
+  maxEntrants: number;
+  swissRounds: number; // Rounds of a Swiss tournament (0 picks them from the number of entrants)
+  status: TournamentStatus;
+  entrants: TournamentEntrant[];
+  invites: TournamentInvite[]; // Duos waiting for the partner to accept, in 2v2
+  matches: TournamentMatch[];
+  winner: string | null; // Entrant id
+  createdAt: string; // ISO date
+}
+
+// Place of an entrant in a Swiss tournament
+export interface SwissStanding {
+  entrantId: string;
+  wins: number;
+  losses: number;
+  buchholz: number; // Wins of the opponents faced, to break ties
+}
+
+/**
+ * Swiss rounds that find a winner among a number of entrants
+ */
+export function getSwissRoundCount(entrantCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(2, entrantCount))));
+}
+
+/**
+ * Order of the seeds in the first round of a bracket, so the top seeds only meet at the end
+ */
+function getSeedPositions(size: number): number[] {
+  let positions = [0];
+  while (positions.length < size) {
+    const count = positions.length * 2;
+    positions = positions.flatMap(position => [position, count - 1 - position]);
+  }
+  return positions;
+}
+
+const createMatch = (
+  bracket: TournamentMatch['bracket'],
+  round: number,
+  id: string,
+  fields: Partial<TournamentMatch> = {}
+): TournamentMatch => ({
+  id,
+  bracket,
+  round,
+  entrantA: null,
+  entrantB: null,
+  winner: null,
+  gameId: null,
+  winnerTo: null,
+  loserTo: null,
+  ...fields
+});
+
+const toSlot = (matchId: string, index: number): MatchSlot => ({ matchId, slot: index % 2 === 0 ? 'A' : 'B' });
+
+/**
+ * Matches of a single or double elimination bracket. The losers bracket takes the losers of the first
+ * round, then each of its rounds alternates between its own winners and the next losers of the winners bracket.
+ * The grand final is a single match between the winners of both brackets.
+ */
+function createEliminationMatches(entrantIds: string[], double: boolean): TournamentMatch[] {
+  const rounds = Math.max(1, Math.ceil(Math.log2(entrantIds.length)));
+  const size = 2 ** rounds;
+  const seeds = getSeedPositions(size).map(position => entrantIds[position] ?? BYE);
+  const winnersId = (round: number, index: number) => `W${round}-${index}`;
+  const losersId = (round: number, index: number) => `L${round}-${index}`;
+  const losersRounds = 2 * (rounds - 1);
+  const matches: TournamentMatch[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    for (let index = 0; index < size / 2 ** round; index++) {
+      let loserTo: MatchSlot | null = null;
+      if (double) {
+        loserTo = round === 1
+          ? (rounds > 1 ? toSlot(losersId(1, Math.floor(index / 2)), index) : { matchId: 'F', slot: 'B' })
+          : { matchId: losersId(2 * (round - 1), index), slot: 'B' };
+      }
+
+      matches.push(createMatch('winners', round, winnersId(round, index), {
+        entrantA: round === 1 ? seeds[index * 2] : null,
+        entrantB: round === 1 ? seeds[index * 2 + 1] : null,
+        winnerTo: round < rounds
+          ? toSlot(winnersId(round + 1, Math.floor(index / 2)), index)
+          : double ? { matchId: 'F', slot: 'A' } : null,
+        loserTo
+      }));
+    }
+  }
+
+  if (!double) return matches;
+
+  for (let round = 1; round <= losersRounds; round++) {
+    for (let index = 0; index < size / 2 ** (Math.ceil(round / 2) + 1); index++) {
+      matches.push(createMatch('losers', round, losersId(round, index), {
+        winnerTo: round === losersRounds
+          ? { matchId: 'F', slot: 'B' }
+          : round % 2 === 1
+            ? { matchId: losersId(round + 1, index), slot: 'A' }
+            : toSlot(losersId(round + 1, Math.floor(index / 2)), index)
+      }));
+    }
+  }
+
+  matches.push(createMatch('final', 1, 'F'));
+  return matches;
+}
+
+// Put an entrant in a match; a match with a bye is decided right away
+function placeEntrant(matches: TournamentMatch[], target: MatchSlot, entrantId: string): void {
+  const match = matches.find(m => m.id === target.matchId);
+  if (!match) return;
+
+  if (target.slot === 'A') {
+    match.entrantA = entrantId;
+  } else {
+    match.entrantB = entrantId;
+  }
+
+  if (match.entrantA !== null && match.entrantB !== null && (match.entrantA === BYE || match.entrantB === BYE)) {
+    decideMatch(matches, match, match.entrantA === BYE ? match.entrantB : match.entrantA);
+  }
+}
+
+// Set the winner of a match and send both entrants on through the bracket
+function decideMatch(matches: TournamentMatch[], match: TournamentMatch, winner: string): void {
+  match.winner = winner;
+  const loser = winner === match.entrantA ? match.entrantB : match.entrantA;
+
+  if (match.winnerTo) placeEntrant(matches, match.winnerTo, winner);
+  if (match.loserTo && loser !== null) placeEntrant(matches, match.loserTo, loser);
+}
+
+/**
+ * Standings of a Swiss tournament: most wins first, ties broken by the wins of the opponents faced
+ */
+export function getSwissStandings(tournament: Tournament): SwissStanding[] {
+  const decided = tournament.matches.filter(m => m.winner !== null);
+  const wins = (entrantId: string) => decided.filter(m => m.winner === entrantId).length;
+  // Games against an opponent (a bye is a win without one)
+  const games = (entrantId: string) => decided
+    .filter(m => (m.entrantA === entrantId || m.entrantB === entrantId) && m.entrantB !== BYE);
+  const opponent = (match: TournamentMatch, entrantId: string) =>
+    (match.entrantA === entrantId ? match.entrantB : match.entrantA) as string;
+
+  return tournament.entrants
+    .map(entrant => ({
+      entrantId: entrant.id,
+      wins: wins(entrant.id),
+      losses: games(entrant.id).filter(m => m.winner !== entrant.id).length,
+      buchholz: games(entrant.id).reduce((sum, m) => sum + wins(opponent(m, entrant.id)), 0)
+    }))
+    .sort((a, b) => b.wins - a.wins || b.buchholz - a.buchholz);
+}
+
+/**
+ * Pairings of the next Swiss round: entrants with the same score play each other, avoiding rematches
+ * when possible. With an odd number of entrants, the lowest placed one who hasn't had a bye gets one.
+ */
+function createSwissRound(tournament: Tournament, round: number): TournamentMatch[] {
+  const played = (a: string, b: string) => tournament.matches.some(m =>
+    (m.entrantA === a && m.entrantB === b) || (m.entrantA === b && m.entrantB === a));
+  const hadBye = (entrantId: string) => tournament.matches.some(m => m.entrantA === entrantId && m.entrantB === BYE);
+
+  let unpaired = getSwissStandings(tournament).map(s => s.entrantId);
+  let byeEntrant: string | null = null;
+  if (unpaired.length % 2 === 1) {
+    byeEntrant = [...unpaired].reverse().find(id => !hadBye(id)) ?? unpaired[unpaired.length - 1];
+    unpaired = unpaired.filter(id => id !== byeEntrant);
+  }
+
+  const matches: TournamentMatch[] = [];
+  while (unpaired.length > 0) {
+    const [first, ...rest] = unpaired;
+    const opponent = rest.find(id => !played(first, id)) ?? rest[0];
+    unpaired = rest.filter(id => id !== opponent);
+    matches.push(createMatch('swiss', round, `S${round}-${matches.length}`, { entrantA: first, entrantB: opponent }));
+  }
+
+  if (byeEntrant) {
+    matches.push(createMatch('swiss', round, `S${round}-bye`, { entrantA: byeEntrant, entrantB: BYE, winner: byeEntrant }));
+  }
+  return matches;
+}
+
+/**
+ * Start a tournament: draw its bracket, or the first Swiss round. Invites not accepted yet are dropped.
+ */
+export function startTournament(tournament: Tournament): Tournament {
+  const entrantIds = tournament.entrants.map(e => e.id);
+  const started: Tournament = { ...tournament, status: 'in_progress', invites: [], matches: [] };
+
+  if (tournament.format === 'swiss') {
+    const maxRounds = Math.max(1, entrantIds.length - 1 + entrantIds.length % 2);
+    const swissRounds = Math.min(tournament.swissRounds || getSwissRoundCount(entrantIds.length), maxRounds);
+    return { ...started, swissRounds, matches: createSwissRound({ ...started, swissRounds }, 1) };
+  }
+
+  const matches = createEliminationMatches(entrantIds, tournament.format === 'double_elimination');
+  // First round matches with a bye are decided before anyone plays
+  matches
+    .filter(m => m.bracket === 'winners' && m.round === 1 && (m.entrantA === BYE || m.entrantB === BYE))
+    .forEach(m => decideMatch(matches, m, m.entrantA === BYE ? m.entrantB as string : m.entrantA as string));
+  return finishIfDecided({ ...started, matches });
+}
+
+/**
+ * Record the winner of a match and move the tournament on: entrants advance through the bracket,
+ * the next Swiss round is paired once every match of the current one is over
+ */
+export function recordMatchWinner(tournament: Tournament, matchId: string, winner: string): Tournament {
+  const matches = tournament.matches.map(m => ({ ...m }));
+  const match = matches.find(m => m.id === matchId);
+  if (!match || match.winner !== null || (winner !== match.entrantA && winner !== match.entrantB)) {
+    return tournament;
+  }
+
+  decideMatch(matches, match, winner);
+  const updated = { ...tournament, matches };
+
+  if (tournament.format === 'swiss') {
+    const round = match.round;
+    const roundOver = matches.filter(m => m.round === round).every(m => m.winner !== null);
+    if (roundOver && round < tournament.swissRounds) {
+      return { ...updated, matches: [...matches, ...createSwissRound(updated, round + 1)] };
+    }
+  }
+  return finishIfDecided(updated);
+}
+
+// The tournament ends with its final, or with the last Swiss round
+function finishIfDecided(tournament: Tournament): Tournament {
+  const { format, matches } = tournament;
+  let winner: string | null = null;
+
+  if (format === 'swiss') {
+    const lastRound = matches.filter(m => m.round === tournament.swissRounds);
+    if (lastRound.length > 0 && lastRound.every(m => m.winner !== null)) {
+      winner = getSwissStandings(tournament)[0]?.entrantId ?? null;
+    }
+  } else {
+    const final = format === 'double_elimination'
+      ? matches.find(m => m.id === 'F')
+      : matches.find(m => m.bracket === 'winners' && m.winnerTo === null);
+    winner = final?.winner ?? null;
+  }
+
+  return winner && winner !== BYE ? { ...tournament, status: 'finished', winner } : tournament;
+}
+
+/**
+ * Matches ready to be played: both entrants known, no winner yet
+ */
+export function getPlayableMatches(tournament: Tournament): TournamentMatch[] {
+  return tournament.matches.filter(m =>
+    m.winner === null && m.entrantA !== null && m.entrantB !== null && m.entrantA !== BYE && m.entrantB !== BYE);
+}
+
+/**
+ * Name of a match, as shown in the bracket and in the name of its room
+ */
+export function getMatchLabel(tournament: Tournament, match: TournamentMatch): string {
+  switch (match.bracket) {
+    case 'final':
+      return 'Grande final';
+    case 'losers':
+      return `Repescagem, rodada ${match.round}`;
+    case 'swiss':
+      return `Rodada ${match.round}`;
+    case 'winners':
+      if (match.winnerTo === null) return 'Final';
+      return match.winnerTo.matchId === 'F' ? 'Final da chave principal' : `Rodada ${match.round}`;
+  }
+}
@@ -35,18 +35,41 @@ export interface Card {
 export interface Player {
   id: string;
   username: string;
-  hand: Card[];
+  hand: Card[]; // Only filled in for the player receiving the state
+  handCount?: number; // Number of cards in hand, visible to everyone
   isDealer: boolean;
   team: 'A' | 'B';
   isReady: boolean;
   isYourTurn: boolean;
   isDisconnected?: boolean;
+  isBot?: boolean; // Seat played by the server
+  seat?: number; // Place at the table, the team follows from it (players are kept in seat order)
+}
+
+// A player asking to trade places with another player before the game starts
+export interface SeatSwapRequest {
+  fromPlayerId: string;
+  toPlayerId: string;
+}
+
+// Account watching a game without a seat
+export interface Spectator {
+  id: string; // Player ID of the account
+  username: string;
+}
+
+// Difficulty of a bot player
+export enum BotDifficulty {
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard'
 }
 
 // Round state
 export enum RoundState {
   WAITING_FOR_PLAYERS = 'waiting_for_players',
   DEALING = 'dealing',
+  HAND_OF_ELEVEN = 'hand_of_eleven', // Team with 11 points decides whether to play the hand
   PLAYING = 'playing',
   ROUND_OVER = 'round_over',
   GAME_OVER = 'game_over'
@@ -58,6 +81,14 @@ export enum GameMode {
   TWO_VS_TWO = '2v2'
 }
 
+// Rule variant (regional truco rules)
+export enum RuleVariant {
+  PAULISTA = 'paulista',
+  MINEIRO = 'mineiro',
+  GAUCHO = 'gaucho',
+  ESPANHOL = 'espanhol'
+}
+
 // Card played in a trick
 export interface PlayedCard {
   playerId: string;
@@ -65,24 +96,164 @@ export interface PlayedCard {
   timestamp: number;
 }
 
+// Outcome of a completed trick: the winning team, or a draw ("empate"/"cangou")
+export type TrickOutcome = 'A' | 'B' | 'draw';
+
+// A trick once every player has played
+export interface CompletedTrick {
+  cards: PlayedCard[];
+  outcome: TrickOutcome;
+  winnerId: string | null; // Player who took the trick (null on a draw)
+}
+
+// Envido and flor bets (Spanish-style variants)
+export enum EnvidoCall {
+  ENVIDO = 'envido',
+  REAL_ENVIDO = 'real_envido',
+  FALTA_ENVIDO = 'falta_envido',
+  FLOR = 'flor',
+  CONTRAFLOR = 'contraflor'
+}
+
+// A player's envido declaration (null points means "son buenas")
+export interface EnvidoDeclaration {
+  playerId: string;
+  points: number | null;
+}
+
+// State of the envido (or flor) bet in the current round
+export interface EnvidoState {
+  calls: EnvidoCall[]; // Bets made so far, in order
+  calledBy: string; // Player who made the last call
+  pending: boolean; // Waiting for the opposing team to answer
+  declarations: EnvidoDeclaration[]; // Points declared after the bet was accepted
+  declaringPlayer: string | null; // Player who has to declare next
+  resolved: boolean;
+  winner: 'A' | 'B' | null;
+  points: number; // Points awarded to the winner
+}
+
+// Time limits of a room (0 disables a timer)
+export interface TimerSettings {
+  cardPlaySeconds: number; // Time to play a card
+  betResponseSeconds: number; // Time to answer a bet or make a decision
+  maxTimeouts: number; // Timeouts in a row that forfeit the game
+}
+
+// Cards to deal in the first round of a test game, by card id (e.g. 'hearts-7')
+export interface DeckScript {
+  vira?: string;
+  hands?: string[][]; // Up to three cards per seat, missing ones are dealt from the shuffled deck
+}
+
+// How a test game deals its cards (only accepted when test deals are enabled)
+export interface DealSetup {
+  seed?: string; // Every round is shuffled from this seed and the round number
+  deck?: DeckScript;
+}
+
+// Hash of a round's shuffled deck and seed, published when the cards are dealt
+export interface DealCommitment {
+  roundNumber: number;
+  hash: string; // SHA-256 of the seed and the deck (see shared/fairness.ts)
+}
+
+// A random value a player sends before a deal, mixed into the seed of its deck
+export interface DealNonce {
+  playerId: string;
+  nonce: string;
+}
+
+// The seed and deck a commitment was made to, revealed once the round is over
+export interface DealReveal {
+  roundNumber: number;
+  seed: string;
+  deck: string[]; // Card ids in the order they were dealt
+  serverSeed?: string; // The seed is mixed from it and the nonces (missing when dealt from a fixed seed)
+  nonces?: DealNonce[];
+}
+
+// Countdown of the players who have to act
+export interface TurnTimer {
+  kind: 'card' | 'bet';
+  playerIds: string[];
+  durationMs: number;
+  expiresAt: number; // Server time when the timer runs out
+  remainingMs: number; // Time left when the state was sent
+}
+
+// Settings of a room the host can change before the game starts
+export interface RoomSettings {
+  mode: GameMode;
+  ruleVariant: RuleVariant;
+  timerSettings: TimerSettings;
+  targetScore: number;
+  bestOf: number;
+  ranked: boolean;
+}
+
 // Game state interface
 export interface GameState {
   id: string;
   mode: GameMode;
+  ruleVariant: RuleVariant;
   roundState: RoundState;
+  roundNumber: number; // Rounds dealt so far in this game
   players: Player[];
   currentTrick: PlayedCard[];
-  tricks: PlayedCard[][];
+  tricks: CompletedTrick[]; // Tricks already played in the current round
   vira: Card | null; // The turned card that defines manilhas
   teamAScore: number;
   teamBScore: number;
+  targetScore: number; // Points needed to win the game
   roundValue: number; // The current round value (1, 3, 6, 9, 12)
   dealer: string; // Player ID of the dealer
   currentPlayer: string; // Player ID whose turn it is
   winner: 'A' | 'B' | null;
   trucoRequested: boolean;
   trucoRequestedBy: string | null;
+  trucoRequestedValue: number | null; // Round value being asked for by the pending bet
+  lastRaiseTeam: 'A' | 'B' | null; // Team that made the last raise (can't raise again)
+  handOfElevenTeam: 'A' | 'B' | null; // Team playing the mão de onze
+  isIronHand: boolean; // Mão de ferro: both teams at 11, cards are played blind
+  envido: EnvidoState | null; // Envido/flor bet of the current round
   roundWinner: 'A' | 'B' | null;
+  timerSettings: TimerSettings;
+  turnTimer: TurnTimer | null; // Timer of the players who have to act now
+  forfeitTeam: 'A' | 'B' | null; // Team that lost the game by running out of time
+  dealCommitment: DealCommitment | null; // Commitment to the current (or last) round's deck
+  dealReveal: DealReveal | null; // Filled in when the round is over
+  nextSeedHash: string | null; // SHA-256 of the server seed of the next deal, published before the players send their nonces
+  spectators: Spectator[];
+  hostId: string | null; // Player who created the room, or took it over
+  seatsLocked: boolean; // The host stopped players from changing seats
+  seatSwap: SeatSwapRequest | null; // Waiting for the other player's answer
+  series: SeriesState;
+  ranked: boolean; // Rated game, only between accounts (no bots)
+  tournament: TournamentRoom | null; // Set in the room of a tournament match
+}
+
+// Room of a tournament match: only the match's players sit at the table, each on their entry's team,
+// and nobody hosts it (no kicks, bots, seat changes or settings)
+export interface TournamentRoom {
+  tournamentId: string;
+  matchId: string;
+  teams: Record<string, 'A' | 'B'>; // Team of each player of the match, by player ID
+}
+
+// A finished game of a series
+export interface SeriesGame {
+  winner: 'A' | 'B';
+  teamAScore: number;
+  teamBScore: number;
+}
+
+// Games ("quedas") played in a room as one partida: the first team to win most of them wins it
+export interface SeriesState {
+  bestOf: number; // 1 is a single game
+  gameNumber: number; // Game being played, or the last one played, counted from 1
+  games: SeriesGame[];
+  winner: 'A' | 'B' | null;
 }
 
 // Action types for socket communications
@@ -94,13 +265,67 @@ export enum ActionType {
   REQUEST_TRUCO = 'request_truco',
   ACCEPT_TRUCO = 'accept_truco',
   DECLINE_TRUCO = 'decline_truco',
+  PLAY_HAND_OF_ELEVEN = 'play_hand_of_eleven',
+  FOLD_HAND_OF_ELEVEN = 'fold_hand_of_eleven',
+  CALL_ENVIDO = 'call_envido',
+  ACCEPT_ENVIDO = 'accept_envido',
+  DECLINE_ENVIDO = 'decline_envido',
+  DECLARE_ENVIDO = 'declare_envido',
   SEND_CHAT = 'send_chat',
   READY = 'ready',
   START_GAME = 'start_game',
+  ADD_BOT = 'add_bot',
+  REMOVE_BOT = 'remove_bot',
+  FILL_WITH_BOTS = 'fill_with_bots',
+  GET_ANALYSIS = 'get_analysis',
+  WATCH_GAME = 'watch_game',
+  CHOOSE_SEAT = 'choose_seat',
+  ANSWER_SEAT_SWAP = 'answer_seat_swap',
+  LOCK_SEATS = 'lock_seats',
+  KICK_PLAYER = 'kick_player',
+  TRANSFER_HOST = 'transfer_host',
+  UPDATE_SETTINGS = 'update_settings',
+  FORCE_START = 'force_start',
+  JOIN_QUEUE = 'join_queue',
+  LEAVE_QUEUE = 'leave_queue',
+  ANSWER_DUO_INVITE = 'answer_duo_invite',
+  ACCEPT_MATCH = 'accept_match',
+  DECLINE_MATCH = 'decline_match',
+  JOIN_TOURNAMENT_MATCH = 'join_tournament_match',
+  SEND_DEAL_NONCE = 'send_deal_nonce',
   GAME_UPDATE = 'game_update',
   ERROR = 'error'
 }
 
+// Reasons the server can reject a player's action
+export enum RejectionReason {
+  GAME_NOT_FOUND = 'GAME_NOT_FOUND',
+  NOT_IN_GAME = 'NOT_IN_GAME',
+  NOT_YOUR_TURN = 'NOT_YOUR_TURN',
+  CARD_NOT_IN_HAND = 'CARD_NOT_IN_HAND',
+  BET_PENDING = 'BET_PENDING',
+  NO_PENDING_BET = 'NO_PENDING_BET',
+  BET_LIMIT_REACHED = 'BET_LIMIT_REACHED',
+  WRONG_TEAM = 'WRONG_TEAM',
+  INVALID_PHASE = 'INVALID_PHASE',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  INVALID_SEAT_TOKEN = 'INVALID_SEAT_TOKEN',
+  INVITE_REQUIRED = 'INVITE_REQUIRED',
+  WRONG_PASSWORD = 'WRONG_PASSWORD',
+  SEATS_LOCKED = 'SEATS_LOCKED',
+  NOT_HOST = 'NOT_HOST',
+  KICKED = 'KICKED',
+  RANKED_HUMANS_ONLY = 'RANKED_HUMANS_ONLY',
+  ALREADY_QUEUED = 'ALREADY_QUEUED',
+  PARTNER_UNAVAILABLE = 'PARTNER_UNAVAILABLE',
+  TOURNAMENT_ROOM = 'TOURNAMENT_ROOM'
+}
+
+// Result of an action, sent back through the socket.io acknowledgement
+export type ActionResult =
+  | { ok: true }
+  | { ok: false; reason: RejectionReason; message: string };
+
 // Chat message
 export interface ChatMessage {
   id: string;
@@ -108,15 +333,79 @@ export interface ChatMessage {
   content: string;
   timestamp: number;
   isTeamOnly: boolean;
+  isSpectatorOnly?: boolean; // Sent by a spectator, only spectators see it
 }
 
+// Game event log: everything that happened in a game, in order, so it can be replayed
+export type GameEventData =
+  | { 
+      type: 'game_start'; 
+      mode: GameMode; 
+      ruleVariant: RuleVariant; 
+      targetScore?: number; // Missing in logs of games played before the target could be changed
+      dealer: string;
+      players: { id: string; username: string; team: 'A' | 'B'; isBot?: boolean }[];
+    }
+  | { type: 'deal'; roundNumber: number; dealer: string; seed: string | null; vira: Card | null; hands: Card[][] } // Hands in seat order
+  | { type: 'play_card'; playerId: string; card: Card }
+  | { type: 'truco_request' | 'truco_accept' | 'truco_decline'; playerId: string }
+  | { type: 'hand_of_eleven_play' | 'hand_of_eleven_fold'; playerId: string }
+  | { type: 'envido_call'; playerId: string; call: EnvidoCall }
+  | { type: 'envido_accept' | 'envido_decline'; playerId: string }
+  | { type: 'envido_declare'; playerId: string; sonBuenas: boolean }
+  | { 
+      type: 'round_result'; 
+      roundNumber: number; 
+      winner: 'A' | 'B' | null; 
+      points: number; 
+      teamAScore: number; 
+      teamBScore: number;
+    }
+  | { type: 'forfeit'; team: 'A' | 'B' }
+  | { type: 'series_result'; bestOf: number; winner: 'A' | 'B'; games: SeriesGame[] };
+
+export type GameEvent = GameEventData & {
+  seq: number; // Position in the log, starting at 0
+  timestamp: number;
+};
+
+// Who can find and enter a room: anyone, only players with the invite code
+// (the room isn't listed in the lobby), or players with the password or the invite code
+export type RoomVisibility = 'public' | 'private' | 'password';
+
 // Game room (game lobby)
 export interface GameRoom {
   id: string;
   name: string;
   mode: GameMode;
+  ruleVariant: RuleVariant;
+  targetScore: number;
+  bestOf: number;
+  ranked: boolean;
+  visibility: RoomVisibility;
   players: string[];
   maxPlayers: number;
+  spectatorCount: number;
   status: 'waiting' | 'playing' | 'finished';
   createdAt: number;
 }
+
+// Sent to enter a room that isn't public
+export interface RoomCredentials {
+  inviteCode?: string;
+  password?: string;
+}
+
+// Invite to a room, sent to the players seated in it so they can share it
+export interface RoomInvite {
+  gameId: string;
+  visibility: RoomVisibility;
+  inviteCode: string;
+}
+
+// Logged in account, as sent to the client
+export interface AuthUser {
+  id: number;
+  username: string;
+  playerId: string; // Player.id used for this account in every game
+}